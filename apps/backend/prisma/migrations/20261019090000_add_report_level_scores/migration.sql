@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "project_review_reports" ADD COLUMN     "level_scores" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "recommendation" TEXT;
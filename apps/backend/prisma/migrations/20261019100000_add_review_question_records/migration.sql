@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "QuestionLevel" AS ENUM ('easy', 'medium', 'hard');
+
+-- CreateTable
+CREATE TABLE "review_question_records" (
+    "id" TEXT NOT NULL,
+    "review_id" TEXT NOT NULL,
+    "question_id" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "level" "QuestionLevel" NOT NULL,
+    "question" TEXT NOT NULL,
+    "context" TEXT,
+    "expected_points" JSONB NOT NULL DEFAULT '[]',
+    "slide_reference" INTEGER,
+    "transcript" TEXT NOT NULL,
+    "answer_duration_seconds" DOUBLE PRECISION,
+    "score" DOUBLE PRECISION,
+    "feedback" TEXT,
+    "demonstrates_understanding" BOOLEAN,
+    "flagged_concerns" JSONB NOT NULL DEFAULT '[]',
+    "asked_at" TIMESTAMP(3),
+    "answered_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_question_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_question_records_review_id_idx" ON "review_question_records"("review_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_question_records_review_id_question_id_key" ON "review_question_records"("review_id", "question_id");
+
+-- AddForeignKey
+ALTER TABLE "review_question_records" ADD CONSTRAINT "review_question_records_review_id_fkey" FOREIGN KEY ("review_id") REFERENCES "project_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "agent_checkpoints" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "node_id" TEXT NOT NULL,
+    "phase" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "description" TEXT,
+    "state" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "graph_checkpoints" (
+    "thread_id" TEXT NOT NULL,
+    "checkpoint_ns" TEXT NOT NULL DEFAULT '',
+    "checkpoint_id" TEXT NOT NULL,
+    "parent_checkpoint_id" TEXT,
+    "type" TEXT NOT NULL,
+    "checkpoint" BYTEA NOT NULL,
+    "metadata_type" TEXT NOT NULL DEFAULT 'json',
+    "metadata" BYTEA NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "graph_checkpoints_pkey" PRIMARY KEY ("thread_id","checkpoint_ns","checkpoint_id")
+);
+
+-- CreateTable
+CREATE TABLE "graph_checkpoint_writes" (
+    "thread_id" TEXT NOT NULL,
+    "checkpoint_ns" TEXT NOT NULL DEFAULT '',
+    "checkpoint_id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "idx" INTEGER NOT NULL,
+    "channel" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "value" BYTEA NOT NULL,
+
+    CONSTRAINT "graph_checkpoint_writes_pkey" PRIMARY KEY ("thread_id","checkpoint_ns","checkpoint_id","task_id","idx")
+);
+
+-- CreateIndex
+CREATE INDEX "agent_checkpoints_session_id_created_at_idx" ON "agent_checkpoints"("session_id", "created_at");
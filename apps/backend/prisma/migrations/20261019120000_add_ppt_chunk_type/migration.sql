@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ppt_chunks" ADD COLUMN "chunk_type" TEXT NOT NULL DEFAULT 'slide';
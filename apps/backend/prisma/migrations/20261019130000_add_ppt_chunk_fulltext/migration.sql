@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "ppt_chunks" ADD COLUMN "content_tsv" tsvector
+    GENERATED ALWAYS AS (
+        to_tsvector('english', coalesce("slide_title", '') || ' ' || "content")
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "ppt_chunks_content_tsv_idx" ON "ppt_chunks" USING GIN ("content_tsv");
@@ -0,0 +1,13 @@
+-- AlterTable: allow any embedding dimension, record which provider produced it
+ALTER TABLE "ppt_chunks" ALTER COLUMN "embedding" TYPE vector;
+ALTER TABLE "ppt_chunks" ADD COLUMN "embedding_model" TEXT,
+ADD COLUMN "embedding_dimensions" INTEGER;
+
+-- Existing chunks were embedded with OpenAI text-embedding-3-small
+UPDATE "ppt_chunks"
+SET "embedding_model" = 'openai:text-embedding-3-small',
+    "embedding_dimensions" = 1536
+WHERE "embedding" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ppt_chunks_review_id_embedding_model_embedding_dimensions_idx" ON "ppt_chunks"("review_id", "embedding_model", "embedding_dimensions");
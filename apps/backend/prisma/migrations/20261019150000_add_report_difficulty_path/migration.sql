@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project_review_reports" ADD COLUMN "difficulty_path" JSONB NOT NULL DEFAULT '{}';
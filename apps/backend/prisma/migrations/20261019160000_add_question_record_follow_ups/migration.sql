@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "review_question_records" ADD COLUMN "follow_ups" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "question_banks" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "course" TEXT,
+    "domain" TEXT,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "question_banks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "question_bank_questions" (
+    "id" TEXT NOT NULL,
+    "bank_id" TEXT NOT NULL,
+    "level" "QuestionLevel" NOT NULL,
+    "question" TEXT NOT NULL,
+    "expected_points" JSONB NOT NULL DEFAULT '[]',
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "question_bank_questions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "project_review_question_banks" (
+    "review_id" TEXT NOT NULL,
+    "bank_id" TEXT NOT NULL,
+    "attached_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "project_review_question_banks_pkey" PRIMARY KEY ("review_id","bank_id")
+);
+
+-- AlterTable
+ALTER TABLE "review_question_records" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'generated';
+
+-- CreateIndex
+CREATE INDEX "question_banks_course_idx" ON "question_banks"("course");
+
+-- CreateIndex
+CREATE INDEX "question_banks_domain_idx" ON "question_banks"("domain");
+
+-- CreateIndex
+CREATE INDEX "question_bank_questions_bank_id_level_idx" ON "question_bank_questions"("bank_id", "level");
+
+-- CreateIndex
+CREATE INDEX "project_review_question_banks_bank_id_idx" ON "project_review_question_banks"("bank_id");
+
+-- AddForeignKey
+ALTER TABLE "question_bank_questions" ADD CONSTRAINT "question_bank_questions_bank_id_fkey" FOREIGN KEY ("bank_id") REFERENCES "question_banks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_review_question_banks" ADD CONSTRAINT "project_review_question_banks_review_id_fkey" FOREIGN KEY ("review_id") REFERENCES "project_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_review_question_banks" ADD CONSTRAINT "project_review_question_banks_bank_id_fkey" FOREIGN KEY ("bank_id") REFERENCES "question_banks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "rubrics" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rubrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "rubric_criteria" (
+    "id" TEXT NOT NULL,
+    "rubric_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "descriptors" JSONB NOT NULL DEFAULT '[]',
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "rubric_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "project_reviews" ADD COLUMN "rubric_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "review_question_records" ADD COLUMN "criterion_scores" JSONB NOT NULL DEFAULT '[]';
+
+-- AlterTable
+ALTER TABLE "project_review_reports" ADD COLUMN "rubric_scores" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rubric_criteria_rubric_id_key_key" ON "rubric_criteria"("rubric_id", "key");
+
+-- AddForeignKey
+ALTER TABLE "project_reviews" ADD CONSTRAINT "project_reviews_rubric_id_fkey" FOREIGN KEY ("rubric_id") REFERENCES "rubrics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rubric_criteria" ADD CONSTRAINT "rubric_criteria_rubric_id_fkey" FOREIGN KEY ("rubric_id") REFERENCES "rubrics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
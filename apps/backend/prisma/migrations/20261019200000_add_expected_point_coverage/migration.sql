@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "review_question_records" ADD COLUMN "expected_point_coverage" JSONB NOT NULL DEFAULT '[]';
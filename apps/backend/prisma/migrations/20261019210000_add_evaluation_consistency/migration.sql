@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "project_reviews" ADD COLUMN "evaluation_config" JSONB;
+
+-- AlterTable
+ALTER TABLE "review_question_records" ADD COLUMN "score_spread" JSONB;
+
+-- AlterTable
+ALTER TABLE "project_review_reports" ADD COLUMN "evaluation_consistency" JSONB NOT NULL DEFAULT '{}';
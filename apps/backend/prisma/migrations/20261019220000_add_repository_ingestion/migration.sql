@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project_reviews" ADD COLUMN "repository" JSONB;
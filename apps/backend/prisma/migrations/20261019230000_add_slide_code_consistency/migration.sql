@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "project_review_reports" ADD COLUMN "slide_code_consistency" JSONB;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "students" ADD COLUMN "password_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "login_codes" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "code_hash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "consumed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_codes_email_created_at_idx" ON "login_codes"("email", "created_at");
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "StaffRole" AS ENUM ('faculty', 'admin');
+
+-- CreateTable
+CREATE TABLE "faculty" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "employee_id" TEXT,
+    "department" TEXT,
+    "role" "StaffRole" NOT NULL DEFAULT 'faculty',
+    "password_hash" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "faculty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "review_panel_members" (
+    "id" TEXT NOT NULL,
+    "review_id" TEXT NOT NULL,
+    "faculty_id" TEXT NOT NULL,
+    "is_lead" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "review_panel_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "faculty_email_key" ON "faculty"("email");
+
+-- CreateIndex
+CREATE INDEX "review_panel_members_faculty_id_idx" ON "review_panel_members"("faculty_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_panel_members_review_id_faculty_id_key" ON "review_panel_members"("review_id", "faculty_id");
+
+-- AddForeignKey
+ALTER TABLE "review_panel_members" ADD CONSTRAINT "review_panel_members_review_id_fkey" FOREIGN KEY ("review_id") REFERENCES "project_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_panel_members" ADD CONSTRAINT "review_panel_members_faculty_id_fkey" FOREIGN KEY ("faculty_id") REFERENCES "faculty"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "project_review_reports" ADD COLUMN "finalized_version" INTEGER,
+ADD COLUMN "finalized_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "report_revisions" (
+    "id" TEXT NOT NULL,
+    "report_id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "author_id" TEXT,
+    "author_name" TEXT NOT NULL,
+    "overall_score" DOUBLE PRECISION,
+    "understanding_score" DOUBLE PRECISION,
+    "clarity_score" DOUBLE PRECISION,
+    "depth_score" DOUBLE PRECISION,
+    "strengths" JSONB NOT NULL DEFAULT '[]',
+    "improvements" JSONB NOT NULL DEFAULT '[]',
+    "summary" TEXT,
+    "recommendation" TEXT,
+    "justification" TEXT,
+    "signed_off" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "report_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "report_revisions_report_id_version_key" ON "report_revisions"("report_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "report_revisions" ADD CONSTRAINT "report_revisions_report_id_fkey" FOREIGN KEY ("report_id") REFERENCES "project_review_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "report_revisions" ADD CONSTRAINT "report_revisions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "faculty"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- AlterTable
+ALTER TABLE "project_reviews" ADD COLUMN "batch_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "courses" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "courses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "batches" (
+    "id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "semester" TEXT,
+    "slot" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "rubric_id" TEXT,
+    "review_opens_at" TIMESTAMP(3),
+    "review_deadline" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "batch_enrollments" (
+    "id" TEXT NOT NULL,
+    "batch_id" TEXT NOT NULL,
+    "student_id" TEXT NOT NULL,
+    "project_group" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "batch_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "batch_question_banks" (
+    "batch_id" TEXT NOT NULL,
+    "bank_id" TEXT NOT NULL,
+    "attached_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "batch_question_banks_pkey" PRIMARY KEY ("batch_id","bank_id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_reviews_batch_id_idx" ON "project_reviews"("batch_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "courses_code_key" ON "courses"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "batches_course_id_name_key" ON "batches"("course_id", "name");
+
+-- CreateIndex
+CREATE INDEX "batch_enrollments_student_id_idx" ON "batch_enrollments"("student_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "batch_enrollments_batch_id_student_id_key" ON "batch_enrollments"("batch_id", "student_id");
+
+-- CreateIndex
+CREATE INDEX "batch_question_banks_bank_id_idx" ON "batch_question_banks"("bank_id");
+
+-- AddForeignKey
+ALTER TABLE "project_reviews" ADD CONSTRAINT "project_reviews_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batches" ADD CONSTRAINT "batches_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batches" ADD CONSTRAINT "batches_rubric_id_fkey" FOREIGN KEY ("rubric_id") REFERENCES "rubrics"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_enrollments" ADD CONSTRAINT "batch_enrollments_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_enrollments" ADD CONSTRAINT "batch_enrollments_student_id_fkey" FOREIGN KEY ("student_id") REFERENCES "students"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_question_banks" ADD CONSTRAINT "batch_question_banks_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_question_banks" ADD CONSTRAINT "batch_question_banks_bank_id_fkey" FOREIGN KEY ("bank_id") REFERENCES "question_banks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "batches" ADD COLUMN "require_slot" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "project_reviews" ADD COLUMN "slot_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "review_slots" (
+    "id" TEXT NOT NULL,
+    "faculty_id" TEXT NOT NULL,
+    "batch_id" TEXT,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "location" TEXT,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_slots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_reviews_slot_id_key" ON "project_reviews"("slot_id");
+
+-- CreateIndex
+CREATE INDEX "review_slots_starts_at_idx" ON "review_slots"("starts_at");
+
+-- CreateIndex
+CREATE INDEX "review_slots_faculty_id_idx" ON "review_slots"("faculty_id");
+
+-- CreateIndex
+CREATE INDEX "review_slots_batch_id_idx" ON "review_slots"("batch_id");
+
+-- AddForeignKey
+ALTER TABLE "project_reviews" ADD CONSTRAINT "project_reviews_slot_id_fkey" FOREIGN KEY ("slot_id") REFERENCES "review_slots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_slots" ADD CONSTRAINT "review_slots_faculty_id_fkey" FOREIGN KEY ("faculty_id") REFERENCES "faculty"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "review_slots" ADD CONSTRAINT "review_slots_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,188 @@
+/**
+ * Evaluator Calibration Script
+ * Scores a faculty-graded gold set with evaluateReviewAnswer and reports
+ * agreement (Pearson / Spearman correlation, MAE, per-level bias)
+ *
+ * Run: pnpm calibrate <gold-set.json|csv> [options]
+ *
+ * Options:
+ *   --samples <n>          Scoring samples per answer (default: EVALUATION_SAMPLES)
+ *   --models <a,b>         Models to alternate between (default: EVALUATION_MODELS)
+ *   --concurrency <n>      Answers scored in parallel (default: 3)
+ *   --min-correlation <r>  Exit 1 if Pearson correlation is below r
+ *   --max-mae <x>          Exit 1 if mean absolute error is above x
+ *   --output <file>        Write per-item results and metrics as JSON
+ *
+ * See scripts/calibration-gold.example.csv for the gold set format.
+ */
+
+import 'dotenv/config';
+import fs from 'fs/promises';
+import path from 'path';
+import { evaluateReviewAnswer } from '../src/agent/project-review/services/index.js';
+import {
+  parseGoldSet,
+  calculateCalibrationMetrics,
+  resolveEvaluationConfig,
+  DEFAULT_RUBRIC,
+  type CalibrationItem,
+  type CalibrationResult,
+} from '../src/agent/project-review/utils/index.js';
+import type { EvaluationConfig } from '../src/agent/project-review/types/index.js';
+
+// ============================================================================
+// Arguments
+// ============================================================================
+
+interface CalibrationOptions {
+  goldFile: string;
+  evaluationConfig: EvaluationConfig;
+  concurrency: number;
+  minCorrelation: number | null;
+  maxMae: number | null;
+  output: string | null;
+}
+
+function parseArgs(argv: string[]): CalibrationOptions {
+  const flags = new Map<string, string>();
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      flags.set(argv[i].slice(2), argv[i + 1] ?? '');
+      i++;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  if (positional.length !== 1) {
+    throw new Error('Usage: pnpm calibrate <gold-set.json|csv> [--samples n] [--models a,b] [--concurrency n] [--min-correlation r] [--max-mae x] [--output file]');
+  }
+
+  const number = (name: string): number | null => {
+    if (!flags.has(name)) return null;
+    const value = Number(flags.get(name));
+    if (!Number.isFinite(value)) throw new Error(`--${name} must be a number`);
+    return value;
+  };
+
+  return {
+    goldFile: positional[0],
+    evaluationConfig: resolveEvaluationConfig({
+      ...(flags.has('samples') && { samples: number('samples') }),
+      ...(flags.has('models') && { models: flags.get('models')!.split(',').map(m => m.trim()).filter(Boolean) }),
+    }),
+    concurrency: Math.max(1, number('concurrency') ?? 3),
+    minCorrelation: number('min-correlation'),
+    maxMae: number('max-mae'),
+    output: flags.get('output') || null,
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+async function scoreItem(item: CalibrationItem, config: EvaluationConfig): Promise<CalibrationResult> {
+  const evaluation = await evaluateReviewAnswer(
+    {
+      id: item.id,
+      level: item.level,
+      question: item.question,
+      context: item.context,
+      expectedPoints: item.expectedPoints,
+      slideReference: 0,
+    },
+    item.answer,
+    [],
+    DEFAULT_RUBRIC,
+    config
+  );
+
+  return { item, aiScore: evaluation.score, error: evaluation.score - item.facultyScore };
+}
+
+/**
+ * Score all items with bounded concurrency; failed items are reported and skipped
+ */
+async function scoreAll(items: CalibrationItem[], options: CalibrationOptions): Promise<CalibrationResult[]> {
+  const results: CalibrationResult[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      try {
+        const result = await scoreItem(item, options.evaluationConfig);
+        results.push(result);
+        console.log(`   ${item.id.padEnd(12)} faculty ${item.facultyScore.toFixed(1)}  ai ${result.aiScore.toFixed(1)}  (${result.error >= 0 ? '+' : ''}${result.error.toFixed(1)})`);
+      } catch (error) {
+        console.error(`   ❌ ${item.id}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, items.length) }, worker));
+
+  // Keep gold-set order in the output
+  return results.sort((a, b) => items.indexOf(a.item) - items.indexOf(b.item));
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+const formatNumber = (value: number | null) => (value === null ? 'n/a' : value.toFixed(3));
+
+async function calibrate() {
+  const options = parseArgs(process.argv.slice(2));
+  const format = path.extname(options.goldFile).toLowerCase() === '.csv' ? 'csv' : 'json';
+  const items = parseGoldSet(await fs.readFile(options.goldFile, 'utf8'), format);
+
+  console.log(`📏 Calibrating evaluator on ${items.length} gold answers`);
+  console.log(`   samples: ${options.evaluationConfig.samples}, models: ${options.evaluationConfig.models.join(', ') || 'default'}\n`);
+
+  const results = await scoreAll(items, options);
+  if (results.length === 0) {
+    throw new Error('No gold answers could be scored');
+  }
+
+  const metrics = calculateCalibrationMetrics(results);
+
+  console.log(`\n📊 Agreement with faculty (${metrics.count}/${items.length} scored)`);
+  console.log(`   Pearson r:        ${formatNumber(metrics.pearson)}`);
+  console.log(`   Spearman ρ:       ${formatNumber(metrics.spearman)}`);
+  console.log(`   Mean abs. error:  ${metrics.meanAbsoluteError.toFixed(3)}`);
+  console.log(`   Mean error (bias): ${metrics.meanError >= 0 ? '+' : ''}${metrics.meanError.toFixed(3)}`);
+  for (const [level, bias] of Object.entries(metrics.levelBias)) {
+    console.log(`   ${level.padEnd(6)} n=${bias.count}  bias ${bias.meanError >= 0 ? '+' : ''}${bias.meanError.toFixed(2)}  MAE ${bias.meanAbsoluteError.toFixed(2)}`);
+  }
+
+  if (options.output) {
+    await fs.writeFile(options.output, JSON.stringify({ metrics, results }, null, 2));
+    console.log(`\n💾 Results written to ${options.output}`);
+  }
+
+  // Gate prompt changes on measured agreement
+  const failures: string[] = [];
+  if (options.minCorrelation !== null && (metrics.pearson ?? -1) < options.minCorrelation) {
+    failures.push(`Pearson r ${formatNumber(metrics.pearson)} < ${options.minCorrelation}`);
+  }
+  if (options.maxMae !== null && metrics.meanAbsoluteError > options.maxMae) {
+    failures.push(`MAE ${metrics.meanAbsoluteError.toFixed(3)} > ${options.maxMae}`);
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n❌ Calibration gate failed: ${failures.join('; ')}`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ Calibration complete');
+  process.exit(0);
+}
+
+calibrate().catch(error => {
+  console.error('❌ Calibration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,427 @@
+/**
+ * Database Checkpoint Utilities
+ * Postgres-backed checkpoint storage so sessions survive worker restarts
+ *
+ * Provides:
+ * - DatabaseCheckpointStore: agent state snapshots for CheckpointManager
+ * - PostgresCheckpointSaver: LangGraph checkpointer (drop-in for MemorySaver)
+ */
+
+import { BaseCheckpointSaver } from '@langchain/langgraph';
+import type { Checkpoint, CheckpointMetadata as GraphCheckpointMetadata, CheckpointTuple } from '@langchain/langgraph';
+import type { RunnableConfig } from '@langchain/core/runnables';
+
+import { prisma } from '../../../db/prisma.js';
+import type { Prisma } from '../../../generated/prisma/index.js';
+import type {
+  CheckpointConfig,
+  CheckpointMetadata,
+  CheckpointReason,
+  CheckpointStore,
+  SavedCheckpoint,
+} from './checkpoint.utils.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type CheckpointListOptions = Parameters<BaseCheckpointSaver['list']>[1];
+type PendingWrite = Parameters<BaseCheckpointSaver['putWrites']>[1][number];
+type CheckpointPendingWrite = NonNullable<CheckpointTuple['pendingWrites']>[number];
+
+interface AgentCheckpointRow {
+  id: string;
+  sessionId: string;
+  nodeId: string;
+  phase: string;
+  reason: string;
+  description: string | null;
+  createdAt: Date;
+}
+
+interface GraphCheckpointRow {
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  parentCheckpointId: string | null;
+  type: string;
+  checkpoint: Uint8Array;
+  metadataType: string;
+  metadata: Uint8Array;
+}
+
+// ============================================================================
+// State Serialization
+// ============================================================================
+
+/** Marker key used to round-trip Date values through JSON */
+const DATE_TAG = '__date__';
+
+/**
+ * Serialize agent state to JSON, tagging Dates so they can be revived
+ * (JSON.stringify would otherwise flatten them to plain strings)
+ */
+function serializeState<TState>(state: TState): Prisma.InputJsonValue {
+  return JSON.parse(
+    JSON.stringify(state, function (this: Record<string, unknown>, key, value) {
+      const original = this[key];
+      return original instanceof Date ? { [DATE_TAG]: original.toISOString() } : value;
+    })
+  );
+}
+
+/**
+ * Revive agent state serialized with serializeState
+ */
+function deserializeState<TState>(stored: unknown): TState {
+  return JSON.parse(JSON.stringify(stored), (_key, value) => {
+    if (value && typeof value === 'object' && typeof value[DATE_TAG] === 'string') {
+      return new Date(value[DATE_TAG]);
+    }
+    return value;
+  }) as TState;
+}
+
+// ============================================================================
+// Database Checkpoint Store
+// ============================================================================
+
+/**
+ * Checkpoint store backed by the agent_checkpoints table
+ */
+export class DatabaseCheckpointStore<TState> implements CheckpointStore<TState> {
+  private config: Pick<CheckpointConfig, 'maxCheckpoints'>;
+
+  constructor(config: Pick<CheckpointConfig, 'maxCheckpoints'>) {
+    this.config = config;
+  }
+
+  /**
+   * Save a checkpoint for a session and prune the oldest beyond the limit
+   */
+  async save(
+    sessionId: string,
+    state: TState,
+    metadata: Omit<CheckpointMetadata, 'id' | 'createdAt'>
+  ): Promise<CheckpointMetadata> {
+    const fullMetadata: CheckpointMetadata = {
+      ...metadata,
+      id: `cp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date(),
+    };
+
+    await prisma.agentCheckpoint.create({
+      data: {
+        id: fullMetadata.id,
+        sessionId,
+        nodeId: fullMetadata.nodeId,
+        phase: fullMetadata.phase,
+        reason: fullMetadata.reason,
+        description: fullMetadata.description ?? null,
+        state: serializeState(state),
+        createdAt: fullMetadata.createdAt,
+      },
+    });
+
+    // Enforce max checkpoints
+    const stale = await prisma.agentCheckpoint.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'desc' },
+      skip: this.config.maxCheckpoints,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.agentCheckpoint.deleteMany({
+        where: { id: { in: stale.map((row: { id: string }) => row.id) } },
+      });
+    }
+
+    console.log(`[Checkpoint] Saved checkpoint ${fullMetadata.id} for session ${sessionId} (database)`);
+
+    return fullMetadata;
+  }
+
+  /**
+   * Get the latest checkpoint for a session
+   */
+  async getLatest(sessionId: string): Promise<SavedCheckpoint<TState> | null> {
+    const row = await prisma.agentCheckpoint.findFirst({
+      where: { sessionId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return row ? this.toSavedCheckpoint(row) : null;
+  }
+
+  /**
+   * Get a specific checkpoint by ID
+   */
+  async getById(sessionId: string, checkpointId: string): Promise<SavedCheckpoint<TState> | null> {
+    const row = await prisma.agentCheckpoint.findFirst({
+      where: { sessionId, id: checkpointId },
+    });
+    return row ? this.toSavedCheckpoint(row) : null;
+  }
+
+  /**
+   * List checkpoint metadata for a session (oldest first)
+   */
+  async list(sessionId: string): Promise<CheckpointMetadata[]> {
+    const rows = await prisma.agentCheckpoint.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        sessionId: true,
+        nodeId: true,
+        phase: true,
+        reason: true,
+        description: true,
+        createdAt: true,
+      },
+    });
+    return rows.map((row: AgentCheckpointRow) => this.toMetadata(row));
+  }
+
+  /**
+   * Clear all checkpoints for a session
+   */
+  async clear(sessionId: string): Promise<void> {
+    await prisma.agentCheckpoint.deleteMany({ where: { sessionId } });
+    console.log(`[Checkpoint] Cleared checkpoints for session ${sessionId} (database)`);
+  }
+
+  /**
+   * Rows outlive the worker by design, so there is nothing to release
+   */
+  async clearAll(): Promise<void> {}
+
+  private toMetadata(row: AgentCheckpointRow): CheckpointMetadata {
+    return {
+      id: row.id,
+      createdAt: row.createdAt,
+      nodeId: row.nodeId,
+      phase: row.phase,
+      sessionId: row.sessionId,
+      reason: row.reason as CheckpointReason,
+      description: row.description ?? undefined,
+    };
+  }
+
+  private toSavedCheckpoint(row: AgentCheckpointRow & { state: unknown }): SavedCheckpoint<TState> {
+    return {
+      metadata: this.toMetadata(row),
+      state: deserializeState<TState>(row.state),
+    };
+  }
+}
+
+// ============================================================================
+// LangGraph Postgres Saver
+// ============================================================================
+
+/** Fixed write indexes for LangGraph's special channels (mirrors WRITES_IDX_MAP) */
+const SPECIAL_WRITE_INDEXES: Record<string, number> = {
+  __error__: -1,
+  __scheduled__: -2,
+  __interrupt__: -3,
+  __resume__: -4,
+};
+
+/**
+ * LangGraph checkpointer persisting to the graph_checkpoints tables
+ *
+ * Same contract as MemorySaver, so it can be passed to
+ * `graph.compile({ checkpointer })` wherever createMemorySaver() is used.
+ */
+export class PostgresCheckpointSaver extends BaseCheckpointSaver {
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? '';
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined;
+
+    if (!threadId) return undefined;
+
+    const row: GraphCheckpointRow | null = checkpointId
+      ? await prisma.graphCheckpoint.findUnique({
+          where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId } },
+        })
+      : await prisma.graphCheckpoint.findFirst({
+          where: { threadId, checkpointNs },
+          orderBy: { checkpointId: 'desc' },
+        });
+
+    return row ? this.toTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointNs = config.configurable?.checkpoint_ns as string | undefined;
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined;
+    const beforeId = before?.configurable?.checkpoint_id as string | undefined;
+
+    const rows: GraphCheckpointRow[] = await prisma.graphCheckpoint.findMany({
+      where: {
+        ...(threadId ? { threadId } : {}),
+        ...(checkpointNs !== undefined ? { checkpointNs } : {}),
+        ...((checkpointId || beforeId) && {
+          checkpointId: {
+            ...(checkpointId && { equals: checkpointId }),
+            ...(beforeId && { lt: beforeId }),
+          },
+        }),
+      },
+      orderBy: { checkpointId: 'desc' },
+    });
+
+    let remaining = limit;
+    for (const row of rows) {
+      if (remaining !== undefined && remaining <= 0) break;
+
+      const tuple = await this.toTuple(row);
+      if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as Record<string, unknown>)?.[key] === value)) {
+        continue;
+      }
+
+      if (remaining !== undefined) remaining -= 1;
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: GraphCheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? '';
+
+    if (!threadId) {
+      throw new Error('Failed to put checkpoint: RunnableConfig is missing configurable.thread_id');
+    }
+
+    const [[type, serializedCheckpoint], [metadataType, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(checkpoint),
+      this.serde.dumpsTyped(metadata),
+    ]);
+
+    const data = {
+      parentCheckpointId: (config.configurable?.checkpoint_id as string | undefined) ?? null,
+      type,
+      checkpoint: Buffer.from(serializedCheckpoint),
+      metadataType,
+      metadata: Buffer.from(serializedMetadata),
+    };
+
+    await prisma.graphCheckpoint.upsert({
+      where: { threadId_checkpointNs_checkpointId: { threadId, checkpointNs, checkpointId: checkpoint.id } },
+      create: { threadId, checkpointNs, checkpointId: checkpoint.id, ...data },
+      update: data,
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id as string | undefined;
+    const checkpointNs = (config.configurable?.checkpoint_ns as string | undefined) ?? '';
+    const checkpointId = config.configurable?.checkpoint_id as string | undefined;
+
+    if (!threadId || !checkpointId) {
+      throw new Error('Failed to put writes: RunnableConfig is missing configurable.thread_id or checkpoint_id');
+    }
+
+    const rows = await Promise.all(
+      writes.map(async ([channel, value], idx) => {
+        const [type, serialized] = await this.serde.dumpsTyped(value);
+        return {
+          threadId,
+          checkpointNs,
+          checkpointId,
+          taskId,
+          idx: SPECIAL_WRITE_INDEXES[channel] ?? idx,
+          channel,
+          type,
+          value: Buffer.from(serialized),
+        };
+      })
+    );
+
+    // Special channels overwrite, regular writes are only stored once per task index
+    await prisma.$transaction(
+      rows.map(row =>
+        prisma.graphCheckpointWrite.upsert({
+          where: {
+            threadId_checkpointNs_checkpointId_taskId_idx: {
+              threadId: row.threadId,
+              checkpointNs: row.checkpointNs,
+              checkpointId: row.checkpointId,
+              taskId: row.taskId,
+              idx: row.idx,
+            },
+          },
+          create: row,
+          update: row.idx < 0 ? { channel: row.channel, type: row.type, value: row.value } : {},
+        })
+      )
+    );
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.graphCheckpointWrite.deleteMany({ where: { threadId } }),
+      prisma.graphCheckpoint.deleteMany({ where: { threadId } }),
+    ]);
+  }
+
+  private async toTuple(row: GraphCheckpointRow): Promise<CheckpointTuple> {
+    const writeRows: { taskId: string; channel: string; type: string; value: Uint8Array }[] =
+      await prisma.graphCheckpointWrite.findMany({
+        where: {
+          threadId: row.threadId,
+          checkpointNs: row.checkpointNs,
+          checkpointId: row.checkpointId,
+        },
+        orderBy: [{ taskId: 'asc' }, { idx: 'asc' }],
+      });
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writeRows.map(async write => [
+        write.taskId,
+        write.channel,
+        await this.serde.loadsTyped(write.type, write.value),
+      ] as CheckpointPendingWrite)
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.threadId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.checkpointId,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, row.checkpoint),
+      metadata: await this.serde.loadsTyped(row.metadataType, row.metadata),
+      pendingWrites,
+    };
+
+    if (row.parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.threadId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+}
@@ -5,6 +5,9 @@
 
 import { MemorySaver } from '@langchain/langgraph';
 
+import { DatabaseCheckpointStore, PostgresCheckpointSaver } from './checkpoint-db.utils.js';
+import { config } from '../../../config/index.js';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -51,6 +54,18 @@ export interface SavedCheckpoint<TState> {
   state: TState;
 }
 
+/**
+ * Storage backend used by CheckpointManager
+ */
+export interface CheckpointStore<TState> {
+  save(sessionId: string, state: TState, metadata: Omit<CheckpointMetadata, 'id' | 'createdAt'>): Promise<CheckpointMetadata>;
+  getLatest(sessionId: string): Promise<SavedCheckpoint<TState> | null>;
+  getById(sessionId: string, checkpointId: string): Promise<SavedCheckpoint<TState> | null>;
+  list(sessionId: string): Promise<CheckpointMetadata[]>;
+  clear(sessionId: string): Promise<void>;
+  clearAll(): Promise<void>;
+}
+
 // ============================================================================
 // Default Configuration
 // ============================================================================
@@ -59,14 +74,15 @@ export const DEFAULT_CHECKPOINT_CONFIG: CheckpointConfig = {
   enabled: true,
   periodicIntervalMs: 60000, // 1 minute
   maxCheckpoints: 10,
-  storage: 'memory',
+  // Database storage lets a redeployed worker resume in-flight sessions
+  storage: config.checkpoint.storage,
 };
 
 // ============================================================================
 // In-Memory Checkpoint Store
 // ============================================================================
 
-class InMemoryCheckpointStore<TState> {
+class InMemoryCheckpointStore<TState> implements CheckpointStore<TState> {
   private checkpoints: Map<string, SavedCheckpoint<TState>[]> = new Map();
   private config: CheckpointConfig;
 
@@ -77,7 +93,7 @@ class InMemoryCheckpointStore<TState> {
   /**
    * Save a checkpoint for a session
    */
-  save(sessionId: string, state: TState, metadata: Omit<CheckpointMetadata, 'id' | 'createdAt'>): CheckpointMetadata {
+  async save(sessionId: string, state: TState, metadata: Omit<CheckpointMetadata, 'id' | 'createdAt'>): Promise<CheckpointMetadata> {
     const fullMetadata: CheckpointMetadata = {
       ...metadata,
       id: `cp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
@@ -101,7 +117,7 @@ class InMemoryCheckpointStore<TState> {
   /**
    * Get the latest checkpoint for a session
    */
-  getLatest(sessionId: string): SavedCheckpoint<TState> | null {
+  async getLatest(sessionId: string): Promise<SavedCheckpoint<TState> | null> {
     const sessionCheckpoints = this.checkpoints.get(sessionId);
     if (!sessionCheckpoints || sessionCheckpoints.length === 0) {
       return null;
@@ -112,7 +128,7 @@ class InMemoryCheckpointStore<TState> {
   /**
    * Get a specific checkpoint by ID
    */
-  getById(sessionId: string, checkpointId: string): SavedCheckpoint<TState> | null {
+  async getById(sessionId: string, checkpointId: string): Promise<SavedCheckpoint<TState> | null> {
     const sessionCheckpoints = this.checkpoints.get(sessionId);
     if (!sessionCheckpoints) return null;
     return sessionCheckpoints.find(cp => cp.metadata.id === checkpointId) || null;
@@ -121,14 +137,14 @@ class InMemoryCheckpointStore<TState> {
   /**
    * Get all checkpoints for a session
    */
-  getAll(sessionId: string): SavedCheckpoint<TState>[] {
+  async getAll(sessionId: string): Promise<SavedCheckpoint<TState>[]> {
     return this.checkpoints.get(sessionId) || [];
   }
 
   /**
    * List checkpoint metadata for a session
    */
-  list(sessionId: string): CheckpointMetadata[] {
+  async list(sessionId: string): Promise<CheckpointMetadata[]> {
     const sessionCheckpoints = this.checkpoints.get(sessionId) || [];
     return sessionCheckpoints.map(cp => cp.metadata);
   }
@@ -136,7 +152,7 @@ class InMemoryCheckpointStore<TState> {
   /**
    * Clear all checkpoints for a session
    */
-  clear(sessionId: string): void {
+  async clear(sessionId: string): Promise<void> {
     this.checkpoints.delete(sessionId);
     console.log(`[Checkpoint] Cleared checkpoints for session ${sessionId}`);
   }
@@ -144,7 +160,7 @@ class InMemoryCheckpointStore<TState> {
   /**
    * Clear all checkpoints
    */
-  clearAll(): void {
+  async clearAll(): Promise<void> {
     this.checkpoints.clear();
     console.log('[Checkpoint] Cleared all checkpoints');
   }
@@ -155,26 +171,28 @@ class InMemoryCheckpointStore<TState> {
 // ============================================================================
 
 export class CheckpointManager<TState> {
-  private store: InMemoryCheckpointStore<TState>;
+  private store: CheckpointStore<TState>;
   private config: CheckpointConfig;
   private periodicTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor(config: Partial<CheckpointConfig> = {}) {
     this.config = { ...DEFAULT_CHECKPOINT_CONFIG, ...config };
-    this.store = new InMemoryCheckpointStore(this.config);
+    this.store = this.config.storage === 'database'
+      ? new DatabaseCheckpointStore<TState>(this.config)
+      : new InMemoryCheckpointStore<TState>(this.config);
   }
 
   /**
    * Create a checkpoint
    */
-  checkpoint(
+  async checkpoint(
     sessionId: string,
     state: TState,
     nodeId: string,
     phase: string,
     reason: CheckpointReason,
     description?: string
-  ): CheckpointMetadata {
+  ): Promise<CheckpointMetadata> {
     if (!this.config.enabled) {
       return {
         id: 'disabled',
@@ -199,8 +217,8 @@ export class CheckpointManager<TState> {
   /**
    * Restore from the latest checkpoint
    */
-  restore(sessionId: string): { state: TState; metadata: CheckpointMetadata } | null {
-    const checkpoint = this.store.getLatest(sessionId);
+  async restore(sessionId: string): Promise<{ state: TState; metadata: CheckpointMetadata } | null> {
+    const checkpoint = await this.store.getLatest(sessionId);
     if (!checkpoint) {
       console.log(`[Checkpoint] No checkpoint found for session ${sessionId}`);
       return null;
@@ -216,8 +234,8 @@ export class CheckpointManager<TState> {
   /**
    * Restore from a specific checkpoint
    */
-  restoreFromId(sessionId: string, checkpointId: string): { state: TState; metadata: CheckpointMetadata } | null {
-    const checkpoint = this.store.getById(sessionId, checkpointId);
+  async restoreFromId(sessionId: string, checkpointId: string): Promise<{ state: TState; metadata: CheckpointMetadata } | null> {
+    const checkpoint = await this.store.getById(sessionId, checkpointId);
     if (!checkpoint) {
       console.log(`[Checkpoint] Checkpoint ${checkpointId} not found for session ${sessionId}`);
       return null;
@@ -252,7 +270,9 @@ export class CheckpointManager<TState> {
         getPhase(),
         'periodic',
         'Automatic periodic checkpoint'
-      );
+      ).catch(error => {
+        console.error(`[Checkpoint] Periodic checkpoint failed for session ${sessionId}:`, error);
+      });
     }, this.config.periodicIntervalMs);
 
     this.periodicTimers.set(sessionId, timer);
@@ -274,26 +294,26 @@ export class CheckpointManager<TState> {
   /**
    * Get checkpoint history for a session
    */
-  getHistory(sessionId: string): CheckpointMetadata[] {
+  async getHistory(sessionId: string): Promise<CheckpointMetadata[]> {
     return this.store.list(sessionId);
   }
 
   /**
    * Clear session checkpoints
    */
-  clearSession(sessionId: string): void {
+  async clearSession(sessionId: string): Promise<void> {
     this.stopPeriodic(sessionId);
-    this.store.clear(sessionId);
+    await this.store.clear(sessionId);
   }
 
   /**
    * Cleanup all resources
    */
-  cleanup(): void {
+  async cleanup(): Promise<void> {
     for (const sessionId of this.periodicTimers.keys()) {
       this.stopPeriodic(sessionId);
     }
-    this.store.clearAll();
+    await this.store.clearAll();
   }
 }
 
@@ -309,6 +329,23 @@ export function createMemorySaver(): MemorySaver {
   return new MemorySaver();
 }
 
+/**
+ * Create a LangGraph-compatible saver backed by Postgres
+ * Graph checkpoints survive worker restarts and redeploys
+ */
+export function createDatabaseSaver(): PostgresCheckpointSaver {
+  return new PostgresCheckpointSaver();
+}
+
+/**
+ * Create the LangGraph saver matching the configured checkpoint storage
+ */
+export function createCheckpointSaver(
+  storage: CheckpointConfig['storage'] = DEFAULT_CHECKPOINT_CONFIG.storage
+): MemorySaver | PostgresCheckpointSaver {
+  return storage === 'database' ? createDatabaseSaver() : createMemorySaver();
+}
+
 // ============================================================================
 // Singleton Instance
 // ============================================================================
@@ -340,7 +377,7 @@ export function checkpointPhaseTransition<TState>(
   state: TState,
   fromPhase: string,
   toPhase: string
-): CheckpointMetadata {
+): Promise<CheckpointMetadata> {
   return manager.checkpoint(
     sessionId,
     state,
@@ -360,7 +397,7 @@ export function checkpointEmergency<TState>(
   state: TState,
   phase: string,
   reason: string
-): CheckpointMetadata {
+): Promise<CheckpointMetadata> {
   return manager.checkpoint(
     sessionId,
     state,
@@ -7,4 +7,5 @@ export * from './retry.utils.js';
 export * from './logger.utils.js';
 export * from './config.validation.js';
 export * from './checkpoint.utils.js';
+export * from './checkpoint-db.utils.js';
 export * from './typed-routes.js';
@@ -21,7 +21,8 @@ import * as openai from "@livekit/agents-plugin-openai";
 import * as deepgram from "@livekit/agents-plugin-deepgram";
 import * as silero from "@livekit/agents-plugin-silero";
 import * as cartesia from "@livekit/agents-plugin-cartesia";
-import { StateGraph, END, START } from "@langchain/langgraph";
+import { StateGraph, END, START, Command } from "@langchain/langgraph";
+import type { llm as agentsLlm } from "@livekit/agents";
 
 import {
   type BaseAgentConfig,
@@ -38,15 +39,18 @@ import {
   AgentLogger,
   createAgentLogger,
   CheckpointManager,
+  type CheckpointMetadata,
   getCheckpointManager,
+  checkpointPhaseTransition,
+  createCheckpointSaver,
 } from "./utils/index.js";
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-/** Default timeout for graph invocations (ms) */
-const GRAPH_INVOKE_TIMEOUT_MS = 30000;
+/** Default timeout for graph invocations (ms) - a turn may include answer evaluation and report generation */
+const GRAPH_INVOKE_TIMEOUT_MS = 90000;
 
 /** Maximum retries for graph invocations */
 const GRAPH_INVOKE_MAX_RETRIES = 2;
@@ -85,6 +89,11 @@ export abstract class BaseVoiceAgent<
   protected vad: silero.VAD | null = null;
   protected logger: AgentLogger;
   protected checkpointManager: CheckpointManager<TState>;
+  protected checkpointKey = ""; // Stable checkpoint key for the room
+  protected resumedFrom: CheckpointMetadata | null = null; // Set when restored from a checkpoint
+  protected isGraphRunning = false; // True while a graph run (or resume) is streaming
+  private graphQueue: Promise<unknown> = Promise.resolve(); // Tail of the serialized graph tasks
+  private queuedTurns: string[] = []; // User turns waiting for the graph
   protected ctx: JobContext | null = null; // Store context for data messages
 
   constructor(config: TConfig) {
@@ -133,6 +142,9 @@ export abstract class BaseVoiceAgent<
    * Process user input and route through LangGraph
    * Override for custom input processing
    * Includes timeout and retry protection
+   *
+   * If the graph is paused on an interrupt (e.g. waiting for an answer),
+   * the input resumes it; otherwise a new run is started with the input.
    */
   protected async processUserInput(
     input: string,
@@ -144,35 +156,37 @@ export abstract class BaseVoiceAgent<
 
     this.logger.debug("Processing user input", { inputLength: input.length });
 
-    // Add user message to transcript
-    const updatedTranscript: TranscriptEntry[] = [
-      ...state.transcript,
-      {
-        role: "user" as const,
-        content: input,
-        timestamp: new Date(),
-      },
-    ];
-
-    // Create updated state with user input
-    const inputState = {
-      ...state,
-      transcript: updatedTranscript,
+    // User message for the transcript
+    const userEntry: TranscriptEntry = {
+      role: "user" as const,
+      content: input,
+      timestamp: new Date(),
     };
 
     try {
-      // Invoke the graph with timeout protection
-      const result = (await withTimeout(
-        this.graph.invoke(inputState, { recursionLimit: 100 }),
-        {
-          timeoutMs: GRAPH_INVOKE_TIMEOUT_MS,
-          timeoutMessage: "Graph invocation timed out",
-        }
-      )) as TState & { lastAiMessage?: string };
+      const pendingInterrupt = await this.getPendingInterrupt();
+
+      // Resume the paused graph with the user's input, or start a new run
+      const graphInput = pendingInterrupt
+        ? new Command({ resume: input, update: { transcript: [userEntry] } })
+        : ({ transcript: [userEntry], lastUserMessage: input } as unknown as Partial<TState>);
+
+      // Run the graph with timeout protection
+      const run = this.runGraphWithCheckpoints(graphInput);
+      const { state: result, aiMessages } = await withTimeout(run, {
+        timeoutMs: GRAPH_INVOKE_TIMEOUT_MS,
+        timeoutMessage: "Graph invocation timed out",
+      }).catch((error) => {
+        // The stream keeps going after a timeout, wait for it so the reply is not lost
+        if (!this.isGraphRunning) throw error;
+        this.logger.warn("Graph invocation is slow, waiting for it to finish");
+        this.speak("This is taking a little longer than usual, one moment please.");
+        return run;
+      });
 
-      // Extract AI response
+      // Extract AI response (e.g. feedback followed by the next question)
       const response =
-        result.lastAiMessage || "I'm sorry, I didn't understand that.";
+        aiMessages.join(" ") || "I'm sorry, I didn't understand that.";
 
       this.logger.debug("Graph invocation complete", {
         responseLength: response.length,
@@ -180,7 +194,7 @@ export abstract class BaseVoiceAgent<
 
       return {
         response,
-        newState: result as TState,
+        newState: result,
       };
     } catch (error) {
       this.logger.error("Graph invocation failed", error);
@@ -194,6 +208,50 @@ export abstract class BaseVoiceAgent<
     }
   }
 
+  /**
+   * Handle a completed user turn from the voice session
+   * Routes the final transcript through the graph and speaks the response
+   *
+   * Turns that arrive while the graph is busy wait in a queue; turns still
+   * waiting when the graph frees up are merged into a single input.
+   */
+  protected async handleUserTurn(transcript: string): Promise<void> {
+    if (!this.currentState) return;
+
+    this.queuedTurns.push(transcript);
+    if (this.queuedTurns.length > 1) {
+      this.logger.info("Graph is busy, queueing user turn", {
+        queuedTurns: this.queuedTurns.length,
+      });
+      return;
+    }
+
+    await this.runExclusive(async () => {
+      const input = this.queuedTurns.splice(0).join(" ");
+      const { response, newState } = await this.processUserInput(
+        input,
+        this.currentState!,
+      );
+      this.currentState = newState;
+
+      if (response) {
+        this.speak(response);
+      }
+    });
+  }
+
+  /**
+   * Run a graph task once every previously queued task has finished
+   *
+   * The queue slot is taken synchronously, so two callers can never read the
+   * same pending interrupt and resume it twice.
+   */
+  protected runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.graphQueue.then(task);
+    this.graphQueue = result.catch(() => undefined);
+    return result;
+  }
+
   /**
    * Handle events during the session
    * Override for custom event handling
@@ -221,6 +279,23 @@ export abstract class BaseVoiceAgent<
     console.log(`[${this.config.name}] User left: ${participantId}`);
   }
 
+  /**
+   * Called after state was restored from a checkpoint, before the graph resumes
+   * Override to tell the user where the session picks up
+   */
+  protected async onSessionResumed(_state: TState): Promise<void> {
+    if (this.session) {
+      await this.session.say("Welcome back! Let's pick up where we left off.");
+    }
+  }
+
+  /**
+   * Extra progress details sent to the client with the "session_resuming" message
+   */
+  protected getResumeDetails(_state: TState): Record<string, unknown> {
+    return {};
+  }
+
   /**
    * Called on session end
    * Override for cleanup
@@ -317,7 +392,10 @@ export abstract class BaseVoiceAgent<
       console.log(`[${this.config.name}] 🏗️ Building LangGraph...`);
       const graphBuilder = this.buildGraph();
       console.log(`[${this.config.name}] ✅ Graph built, compiling...`);
-      this.graph = graphBuilder.compile ? graphBuilder.compile() : graphBuilder;
+      // The checkpointer lets the graph pause on interrupts and resume on the next user turn
+      this.graph = graphBuilder.compile
+        ? graphBuilder.compile({ checkpointer: createCheckpointSaver() })
+        : graphBuilder;
       console.log(`[${this.config.name}] ✅ Graph compiled`);
 
       // Note: sessionId, metadata, and voice.Agent will be created after room connection
@@ -409,17 +487,30 @@ export abstract class BaseVoiceAgent<
         JSON.stringify(metadata, null, 2),
       );
 
-      // Create initial state with metadata from room
-      const sessionId = `session_${Date.now()}`;
-      console.log(
-        `[${this.config.name}] 📋 Creating initial state for session: ${sessionId}`,
-      );
-      this.currentState = this.createInitialState(
-        sessionId,
-        ctx.room.name ?? "",
-        metadata,
-      );
-      console.log(`[${this.config.name}] ✅ Initial state created`);
+      // Restore the room's last checkpoint if the worker was restarted mid-session,
+      // otherwise create initial state with metadata from room
+      this.checkpointKey = this.getCheckpointKey(ctx.room.name ?? "", metadata);
+      const restored = await this.restoreCheckpoint(this.checkpointKey);
+
+      if (restored) {
+        this.currentState = restored.state;
+        this.resumedFrom = restored.metadata;
+        console.log(
+          `[${this.config.name}] ♻️ Restored checkpoint ${restored.metadata.id} (phase: ${restored.metadata.phase})`,
+        );
+      } else {
+        const sessionId = `session_${Date.now()}`;
+        console.log(
+          `[${this.config.name}] 📋 Creating initial state for session: ${sessionId}`,
+        );
+        this.currentState = this.createInitialState(
+          sessionId,
+          ctx.room.name ?? "",
+          metadata,
+        );
+        console.log(`[${this.config.name}] ✅ Initial state created`);
+      }
+      const sessionId = this.getSessionId();
       console.log(`[${this.config.name}]   - pptContent available: ${!!metadata.pptContent}`);
       console.log(`[${this.config.name}]   - pptUrl: ${metadata.pptUrl || 'none'}`);
 
@@ -446,9 +537,7 @@ export abstract class BaseVoiceAgent<
       console.log(
         `[${this.config.name}] System prompt preview: ${systemPrompt.substring(0, 100)}...`,
       );
-      const agent = new voice.Agent({
-        instructions: systemPrompt,
-      });
+      const agent = this.createVoiceAgent(systemPrompt);
       console.log(`[${this.config.name}] ✅ voice.Agent created`);
 
       // Start the agent session
@@ -480,7 +569,7 @@ export abstract class BaseVoiceAgent<
         `[${this.config.name}] 💾 Starting periodic checkpointing...`,
       );
       this.checkpointManager.startPeriodic(
-        sessionId,
+        this.checkpointKey,
         () => this.currentState!,
         "session",
         () => (this.currentState as any)?.phase || "unknown",
@@ -527,9 +616,23 @@ export abstract class BaseVoiceAgent<
         /* ignore parse errors */
       }
 
-      // IMMEDIATELY speak a greeting before running the graph
-      // This ensures the user hears something right away
-      if (this.session) {
+      // Resumed sessions get a short welcome back instead of the full greeting
+      if (this.resumedFrom) {
+        console.log(
+          `[${this.config.name}] ♻️ Resuming session from phase: ${this.resumedFrom.phase}`,
+        );
+        await this.publishData({
+          type: "session_resuming",
+          data: {
+            phase: this.resumedFrom.phase,
+            ...this.getResumeDetails(this.currentState!),
+          },
+        });
+        await this.onSessionResumed(this.currentState!);
+        await this.publishData({ type: "session_resumed" });
+      } else if (this.session) {
+        // IMMEDIATELY speak a greeting before running the graph
+        // This ensures the user hears something right away
         const candidateName = roomMetadata.candidateName || "there";
         const reviewerName =
           roomMetadata.agentConfig?.interviewerName || "your AI Reviewer";
@@ -547,13 +650,9 @@ export abstract class BaseVoiceAgent<
       // The graph will generate questions and handle the interview flow
       console.log(`[${this.config.name}] 📊 Invoking graph workflow...`);
 
-      this.graph
-        .invoke(this.currentState, {
-          recursionLimit: 100  // Increase from default 25 for long interview flows
-        })
-        .then((result: any) => {
-          this.currentState = result;
-          console.log(`[${this.config.name}] ✅ Graph workflow completed`);
+      this.runExclusive(() => this.startGraph())
+        .then(() => {
+          console.log(`[${this.config.name}] ✅ Graph workflow paused or completed`);
         })
         .catch((error: any) => {
           console.error(
@@ -604,7 +703,7 @@ export abstract class BaseVoiceAgent<
       // Cleanup
       console.log(`[${this.config.name}] 🧹 Cleaning up session...`);
       await this.onSessionEnd();
-      this.checkpointManager.stopPeriodic(this.getSessionId());
+      this.checkpointManager.stopPeriodic(this.checkpointKey);
 
       console.log(`[${this.config.name}] ✅ Session ended gracefully`);
     } catch (err) {
@@ -618,6 +717,180 @@ export abstract class BaseVoiceAgent<
     }
   }
 
+  /**
+   * Get the checkpoint key for a room
+   * Room names are stable across worker restarts, unlike generated session IDs
+   */
+  protected getCheckpointKey(roomName: string, _metadata: AgentMetadata): string {
+    return roomName;
+  }
+
+  /**
+   * Load the latest checkpoint for the room, if any
+   * Override to reject checkpoints that should not be resumed (e.g. finished sessions)
+   */
+  protected async restoreCheckpoint(
+    checkpointKey: string,
+  ): Promise<{ state: TState; metadata: CheckpointMetadata } | null> {
+    try {
+      return await this.checkpointManager.restore(checkpointKey);
+    } catch (error) {
+      this.logger.error("Failed to restore checkpoint, starting fresh", error);
+      return null;
+    }
+  }
+
+  /**
+   * Graph run config - the checkpoint key doubles as the LangGraph thread ID
+   */
+  protected getGraphConfig(): Record<string, unknown> {
+    return {
+      recursionLimit: 100, // Increase from default 25 for long interview flows
+      configurable: { thread_id: this.checkpointKey },
+    };
+  }
+
+  /**
+   * Get the value of the interrupt the graph is paused on, if any
+   */
+  protected async getPendingInterrupt(): Promise<unknown | null> {
+    if (!this.graph?.getState) return null;
+
+    const snapshot = await this.graph.getState(this.getGraphConfig());
+    const interrupts = (snapshot?.tasks ?? []).flatMap(
+      (task: { interrupts?: { value?: unknown }[] }) => task.interrupts ?? [],
+    );
+    return interrupts.length > 0 ? (interrupts[0].value ?? {}) : null;
+  }
+
+  /**
+   * Start the graph workflow for the session and speak where it pauses
+   * (e.g. the first question). A graph thread already paused on an
+   * interrupt is left waiting for the next user turn.
+   */
+  protected async startGraph(): Promise<void> {
+    if (await this.getPendingInterrupt()) {
+      const snapshot = await this.graph.getState(this.getGraphConfig());
+      this.currentState = snapshot.values as TState;
+      console.log(`[${this.config.name}] ⏸️ Graph thread is waiting for input, not restarting`);
+      return;
+    }
+
+    // Fresh sessions must not inherit a finished thread's channel values
+    if (!this.resumedFrom) {
+      await this.graph.checkpointer?.deleteThread?.(this.checkpointKey);
+    }
+
+    // A resumed thread continues from its own checkpoint; feeding the restored
+    // state back in would append transcript, questions and answers twice
+    const thread = this.resumedFrom
+      ? await this.graph.getState(this.getGraphConfig())
+      : null;
+    const hasThreadState = Object.keys(thread?.values ?? {}).length > 0;
+
+    const { state, aiMessages } = await this.runGraphWithCheckpoints(
+      hasThreadState ? null : this.currentState!,
+    );
+
+    const pendingInterrupt = await this.getPendingInterrupt();
+    if (pendingInterrupt) {
+      const prompt = this.getPausePrompt(pendingInterrupt, state, aiMessages);
+      if (prompt) this.speak(prompt);
+    }
+  }
+
+  /**
+   * What to say when the initial graph run pauses on an interrupt
+   * Defaults to the latest AI message produced by the run
+   */
+  protected getPausePrompt(
+    _interruptValue: unknown,
+    _state: TState,
+    aiMessages: string[],
+  ): string | null {
+    return aiMessages[aiMessages.length - 1] ?? null;
+  }
+
+  /**
+   * Run (or resume) the graph workflow until it ends or pauses on an interrupt,
+   * keeping currentState in sync after every node and checkpointing each
+   * phase transition so a restarted worker can resume
+   *
+   * @returns The latest state and the AI messages produced during the run
+   */
+  protected async runGraphWithCheckpoints(
+    input: Partial<TState> | Command | null,
+  ): Promise<{ state: TState; aiMessages: string[] }> {
+    let previousPhase = (this.currentState as any)?.phase || "unknown";
+    let previousMessage = this.currentState?.lastAiMessage;
+    const aiMessages: string[] = [];
+
+    this.isGraphRunning = true;
+    try {
+      const stream = await this.graph.stream(input, {
+        ...this.getGraphConfig(),
+        streamMode: "values",
+      });
+
+      for await (const value of stream) {
+        // Interrupt markers are not state values
+        if ("__interrupt__" in value) continue;
+
+        this.currentState = value as TState;
+
+        if (value.lastAiMessage && value.lastAiMessage !== previousMessage) {
+          aiMessages.push(value.lastAiMessage);
+          previousMessage = value.lastAiMessage;
+        }
+
+        const phase = (value as any).phase || "unknown";
+        if (phase !== previousPhase) {
+          await checkpointPhaseTransition(
+            this.checkpointManager,
+            this.checkpointKey,
+            this.currentState,
+            previousPhase,
+            phase,
+          ).catch((error) => {
+            this.logger.error("Phase transition checkpoint failed", error);
+          });
+          previousPhase = phase;
+        }
+      }
+    } finally {
+      this.isGraphRunning = false;
+    }
+
+    return { state: this.currentState!, aiMessages };
+  }
+
+  /**
+   * Create the voice.Agent for the session
+   * Completed user turns are routed through the graph instead of letting the
+   * session LLM reply on its own
+   */
+  protected createVoiceAgent(instructions: string): voice.Agent {
+    const self = this;
+
+    class GraphDrivenAgent extends voice.Agent {
+      async onUserTurnCompleted(
+        _chatCtx: agentsLlm.ChatContext,
+        newMessage: agentsLlm.ChatMessage,
+      ): Promise<void> {
+        const transcript = newMessage.textContent?.trim();
+        if (transcript) {
+          self.handleUserTurn(transcript).catch((error) => {
+            self.logger.error("Failed to handle user turn", error);
+          });
+        }
+        // The graph produces the reply
+        throw new voice.StopResponse();
+      }
+    }
+
+    return new GraphDrivenAgent({ instructions });
+  }
+
   /**
    * Set up event listeners for session debugging
    */
@@ -690,6 +963,21 @@ export abstract class BaseVoiceAgent<
     this.logger.info("📡 Data message listener set up");
   }
 
+  /**
+   * Publish a data message to everyone in the room
+   */
+  protected async publishData(message: { type: string; data?: any }): Promise<void> {
+    const participant = this.ctx?.room.localParticipant;
+    if (!participant) return;
+
+    try {
+      const payload = new TextEncoder().encode(JSON.stringify(message));
+      await participant.publishData(payload, { reliable: true });
+    } catch (err) {
+      this.logger.error("Failed to publish data message:", err);
+    }
+  }
+
   /**
    * Handle incoming data messages
    * Override this in subclasses to handle specific message types
@@ -4,62 +4,166 @@
  */
 
 import type { ProjectReviewStateType } from '../state/index.js';
-import { evaluateReviewAnswer } from '../services/index.js';
-import { getFeedbackMessage } from '../utils/index.js';
+import type { ReviewAnswer, ReviewEvaluation, ReviewFollowUp } from '../types/index.js';
+import { evaluateReviewAnswer, saveQuestionRecord } from '../services/index.js';
+import {
+  getFeedbackMessage,
+  getFollowUpReason,
+  MAX_FOLLOW_UPS_PER_QUESTION,
+  DEFAULT_RUBRIC,
+  getDefaultEvaluationConfig,
+} from '../utils/index.js';
 
 /**
- * Evaluate the candidate's answer and provide feedback
+ * Persist the Q&A record without letting a database failure stop the review
  */
-export async function evaluateAnswerNode(
-  state: ProjectReviewStateType
-): Promise<Partial<ProjectReviewStateType>> {
-  console.log('[ProjectReview] Evaluating answer...');
-  
-  const { currentQuestion, lastUserMessage, answers } = state;
-  
-  if (!currentQuestion) {
-    return { lastError: 'No current question to evaluate' };
+async function recordQuestion(
+  state: ProjectReviewStateType,
+  answer: ReviewAnswer,
+  evaluation: ReviewEvaluation | null
+): Promise<void> {
+  if (!state.currentQuestion) return;
+
+  try {
+    await saveQuestionRecord(state.roomName, {
+      sequence: state.questionsAsked.length + 1,
+      question: state.currentQuestion,
+      answer,
+      evaluation,
+      askedAt: state.time.currentQuestionStartTime
+        ? new Date(state.time.currentQuestionStartTime)
+        : null,
+    });
+  } catch (error) {
+    console.error('[ProjectReview] Failed to persist question record:', error);
   }
-  
-  // Record the answer with timing
+}
+
+/**
+ * Close out the current question: record the answer (with any follow-ups)
+ * and its final evaluation, then clear the question
+ */
+export async function completeQuestion(
+  state: ProjectReviewStateType,
+  transcript: string,
+  followUps: ReviewFollowUp[],
+  evaluation: ReviewEvaluation | null
+): Promise<Partial<ProjectReviewStateType>> {
+  const currentQuestion = state.currentQuestion!;
+
+  // Timed from the original question, so follow-ups count towards the answer
   const answerDuration = state.time.currentQuestionStartTime
     ? (Date.now() - new Date(state.time.currentQuestionStartTime).getTime()) / 1000
     : 0;
-  
-  const answer = {
+
+  const answer: ReviewAnswer = {
     questionId: currentQuestion.id,
-    transcript: lastUserMessage,
+    transcript,
     duration: answerDuration,
     timestamp: new Date(),
+    ...(followUps.length > 0 && { followUps }),
   };
-  
+
+  await recordQuestion(state, answer, evaluation);
+
+  if (!evaluation) {
+    return {
+      answers: [answer],
+      questionsAsked: [currentQuestion],
+      currentQuestion: null,
+      followUp: null,
+      lastError: 'Evaluation failed, continuing...',
+      lastAiMessage: 'Thank you for your answer. Let\'s continue.',
+    };
+  }
+
+  // Array channels append, so only the new items are returned
+  return {
+    answers: [answer],
+    evaluations: [evaluation],
+    questionsAsked: [currentQuestion],
+    currentQuestion: null,
+    followUp: null,
+    lastAiMessage: getFeedbackMessage(evaluation.score),
+  };
+}
+
+/**
+ * Evaluate the candidate's answer and provide feedback
+ *
+ * A vague or concerning answer is sent down the follow-up path instead of
+ * being closed out; the reply to the follow-up is evaluated together with
+ * the original answer, up to MAX_FOLLOW_UPS_PER_QUESTION times.
+ */
+export async function evaluateAnswerNode(
+  state: ProjectReviewStateType
+): Promise<Partial<ProjectReviewStateType>> {
+  console.log('[ProjectReview] Evaluating answer...');
+
+  const { currentQuestion, lastUserMessage } = state;
+
+  if (!currentQuestion) {
+    return { lastError: 'No current question to evaluate' };
+  }
+
+  // Reply to a follow-up: add it to the earlier answers for this question
+  const pending = state.followUp?.questionId === currentQuestion.id && state.followUp.question
+    ? state.followUp
+    : null;
+
+  const transcript = pending ? pending.answer : lastUserMessage;
+  const followUps: ReviewFollowUp[] = pending
+    ? [
+        ...pending.followUps,
+        {
+          questionId: currentQuestion.id,
+          question: pending.question!,
+          reason: pending.reason,
+          answer: lastUserMessage,
+        },
+      ]
+    : [];
+
   try {
-    const evaluation = await evaluateReviewAnswer(currentQuestion, lastUserMessage);
-    
-    console.log(`[ProjectReview] Score: ${evaluation.score}/10`);
-    
+    const evaluation = await evaluateReviewAnswer(
+      currentQuestion,
+      transcript,
+      followUps,
+      state.rubric ?? DEFAULT_RUBRIC,
+      state.evaluationConfig ?? getDefaultEvaluationConfig()
+    );
+
+    console.log(`[ProjectReview] Score: ${evaluation.score.toFixed(1)}/10`);
+
+    if (evaluation.scoreSpread?.disagreement) {
+      console.warn(`[ProjectReview] Scores disagree (${evaluation.scoreSpread.scores.join(', ')}), flagged for review`);
+    }
+
     if (evaluation.flaggedConcerns.length > 0) {
       console.warn('[ProjectReview] Concerns:', evaluation.flaggedConcerns);
     }
-    
-    // Get appropriate feedback based on score
-    const feedback = getFeedbackMessage(evaluation.score);
-    
-    return {
-      answers: [...answers, answer],
-      evaluations: [...state.evaluations, evaluation],
-      questionsAsked: [...state.questionsAsked, currentQuestion],
-      currentQuestion: null,
-      lastAiMessage: feedback,
-    };
+
+    const reason = getFollowUpReason(evaluation);
+
+    if (reason && followUps.length < MAX_FOLLOW_UPS_PER_QUESTION) {
+      console.log(`[ProjectReview] Answer needs a follow-up (${reason})`);
+      return {
+        followUp: {
+          questionId: currentQuestion.id,
+          reason,
+          question: null,
+          answer: transcript,
+          followUps,
+          evaluation,
+        },
+      };
+    }
+
+    return completeQuestion(state, transcript, followUps, evaluation);
   } catch (error) {
     console.error('[ProjectReview] Evaluation error:', error);
-    return {
-      answers: [...answers, answer],
-      questionsAsked: [...state.questionsAsked, currentQuestion],
-      currentQuestion: null,
-      lastError: 'Evaluation failed, continuing...',
-      lastAiMessage: 'Thank you for your answer. Let\'s continue.',
-    };
+
+    // Keep the evaluation of the answers before this follow-up, if any
+    return completeQuestion(state, transcript, followUps, pending?.evaluation ?? null);
   }
 }
@@ -0,0 +1,53 @@
+/**
+ * Follow-up Node
+ * Asks a probing question when the last answer was vague or raised concerns
+ */
+
+import type { ProjectReviewStateType } from '../state/index.js';
+import { generateFollowUpQuestion, getFollowUpSlideContext } from '../services/index.js';
+import { completeQuestion } from './evaluate-answer.node.js';
+
+/**
+ * Generate one follow-up question grounded in the current question's slide
+ * If generation fails the question is closed out with the evaluation so far
+ */
+export async function followUpNode(
+  state: ProjectReviewStateType
+): Promise<Partial<ProjectReviewStateType>> {
+  const { currentQuestion, followUp } = state;
+
+  if (!currentQuestion || !followUp) {
+    return { followUp: null };
+  }
+
+  console.log(`[ProjectReview] Generating follow-up for ${currentQuestion.id} (${followUp.reason})...`);
+
+  try {
+    const lastReply = followUp.followUps[followUp.followUps.length - 1]?.answer ?? followUp.answer;
+    const slideContext = await getFollowUpSlideContext(
+      state.roomName,
+      currentQuestion,
+      lastReply,
+      state.slides
+    );
+
+    const question = await generateFollowUpQuestion({
+      question: currentQuestion,
+      answer: followUp.answer,
+      evaluation: followUp.evaluation,
+      reason: followUp.reason,
+      previousFollowUps: followUp.followUps,
+      slideContext,
+    });
+
+    console.log(`[ProjectReview] Follow-up ${followUp.followUps.length + 1} for ${currentQuestion.id}: ${question}`);
+
+    return {
+      followUp: { ...followUp, question },
+      lastAiMessage: question,
+    };
+  } catch (error) {
+    console.error('[ProjectReview] Follow-up generation error:', error);
+    return completeQuestion(state, followUp.answer, followUp.followUps, followUp.evaluation);
+  }
+}
@@ -13,6 +13,7 @@ export { aiDetectionNode } from './ai-detection.node.js';
 export { questionGenerationNode } from './question-generation.node.js';
 export { askQuestionNode } from './ask-question.node.js';
 export { evaluateAnswerNode } from './evaluate-answer.node.js';
+export { followUpNode } from './follow-up.node.js';
 export { levelTransitionNode } from './level-transition.node.js';
 export { reportGenerationNode } from './report-generation.node.js';
 export { closingNode } from './closing.node.js';
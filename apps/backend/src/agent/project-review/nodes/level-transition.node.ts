@@ -4,40 +4,137 @@
  */
 
 import type { ProjectReviewStateType } from '../state/index.js';
-import { ReviewPhase, QuestionLevel } from '../types/index.js';
-import { MIN_QUESTIONS_PER_LEVEL, LEVEL_PROGRESSION } from '../utils/index.js';
+import { ReviewPhase, QuestionLevel, type DifficultyDecision } from '../types/index.js';
+import {
+  calculateScoresByLevel,
+  getDifficultyPolicy,
+  getUnaskedBankQuestions,
+  type DifficultyOutcome,
+} from '../utils/index.js';
 
 /**
- * Determine if we should advance to the next difficulty level
+ * Redirect an outcome whose target level has no questions left
+ * to the next level that still has some (or finish)
+ */
+function ensureQuestionsAvailable(
+  outcome: DifficultyOutcome,
+  remaining: Record<QuestionLevel, number>
+): DifficultyOutcome {
+  if (outcome.toLevel === null || remaining[outcome.toLevel] > 0) {
+    return outcome;
+  }
+
+  const order = [QuestionLevel.EASY, QuestionLevel.MEDIUM, QuestionLevel.HARD];
+  const fallback = [
+    ...order.slice(order.indexOf(outcome.toLevel) + 1),
+    ...order.slice(0, order.indexOf(outcome.toLevel)),
+  ].find(level => remaining[level] > 0);
+
+  return fallback
+    ? {
+        toLevel: fallback,
+        action: 'advance',
+        reason: `${outcome.reason} (no ${outcome.toLevel} questions left, using ${fallback})`,
+      }
+    : { toLevel: null, action: 'finish', reason: `${outcome.reason} (question pool exhausted)` };
+}
+
+/**
+ * Bank questions are mandatory: once the policy would end questioning, go
+ * back to each level that still has unasked bank questions before finishing
+ */
+function ensureBankQuestionsAsked(
+  outcome: DifficultyOutcome,
+  state: ProjectReviewStateType
+): DifficultyOutcome {
+  const unasked = getUnaskedBankQuestions(state.questionsPool, state.questionsAsked);
+  const collecting = (state.difficultyDecisions ?? []).some(d => d.action === 'bank_questions');
+
+  if (outcome.toLevel !== null && !collecting) {
+    return outcome;
+  }
+
+  if (unasked.length > 0) {
+    return {
+      toLevel: unasked[0].level,
+      action: 'bank_questions',
+      reason: `${unasked.length} faculty bank question(s) not asked yet; asking ${unasked[0].level} bank questions`,
+    };
+  }
+
+  return collecting
+    ? { toLevel: null, action: 'finish', reason: 'all faculty bank questions asked' }
+    : outcome;
+}
+
+/**
+ * Decide the next difficulty level with the configured policy
+ * Every decision is recorded so the report can explain the path taken
  */
 export async function levelTransitionNode(
   state: ProjectReviewStateType
 ): Promise<Partial<ProjectReviewStateType>> {
   console.log('[ProjectReview] Checking level transition...');
   
-  const { currentLevel, questionsPool, questionsAsked } = state;
-  
-  // Count questions asked at current level
-  const askedAtLevel = questionsAsked.filter(q => q.level === currentLevel).length;
-  const availableAtLevel = questionsPool[currentLevel].length;
-  
-  console.log(`[ProjectReview] Level ${currentLevel}: ${askedAtLevel}/${availableAtLevel} asked`);
-  
-  // Move to next level if we've asked enough or exhausted questions
-  const minRequired = MIN_QUESTIONS_PER_LEVEL[currentLevel];
-  
-  if (askedAtLevel >= minRequired || askedAtLevel >= availableAtLevel) {
-    const nextLevel = LEVEL_PROGRESSION[currentLevel];
-    
-    if (nextLevel) {
-      console.log(`[ProjectReview] Advancing to ${nextLevel} level`);
-      return { currentLevel: nextLevel };
-    } else {
-      // Finished all levels
-      console.log('[ProjectReview] All levels complete, generating report');
-      return { phase: ReviewPhase.REPORT_GENERATION };
-    }
+  const { currentLevel, questionsPool, questionsAsked, evaluations } = state;
+  const policy = getDifficultyPolicy();
+
+  const askedIds = new Set(questionsAsked.map(q => q.id));
+  const remaining = {
+    [QuestionLevel.EASY]: questionsPool.easy.filter(q => !askedIds.has(q.id)).length,
+    [QuestionLevel.MEDIUM]: questionsPool.medium.filter(q => !askedIds.has(q.id)).length,
+    [QuestionLevel.HARD]: questionsPool.hard.filter(q => !askedIds.has(q.id)).length,
+  };
+
+  const lastQuestion = questionsAsked[questionsAsked.length - 1] ?? null;
+  const lastEvaluation = lastQuestion
+    ? evaluations.find(e => e.questionId === lastQuestion.id)
+    : undefined;
+  const levelScores = calculateScoresByLevel(evaluations, questionsAsked);
+
+  const outcome = ensureBankQuestionsAsked(
+    ensureQuestionsAvailable(
+      policy.decide({
+        currentLevel,
+        questionsAsked,
+        lastScore: lastEvaluation?.score ?? null,
+        levelScores,
+        remaining,
+        history: state.difficultyDecisions ?? [],
+      }),
+      remaining
+    ),
+    state
+  );
+
+  const decision: DifficultyDecision = {
+    afterQuestion: questionsAsked.length,
+    questionId: lastQuestion?.id ?? null,
+    fromLevel: currentLevel,
+    toLevel: outcome.toLevel,
+    action: outcome.action,
+    lastScore: lastEvaluation?.score ?? null,
+    levelAverage: levelScores[currentLevel].avgScore,
+    reason: outcome.reason,
+  };
+
+  console.log(`[ProjectReview] Difficulty (${policy.name}): ${decision.action} ${currentLevel} -> ${decision.toLevel ?? 'end'} - ${decision.reason}`);
+
+  if (decision.toLevel === null) {
+    // Finished all levels
+    console.log('[ProjectReview] All levels complete, generating report');
+    return {
+      phase: ReviewPhase.REPORT_GENERATION,
+      difficultyDecisions: [decision],
+    };
   }
-  
-  return {};
+
+  if (decision.toLevel !== currentLevel) {
+    console.log(`[ProjectReview] Moving to ${decision.toLevel} level`);
+  }
+
+  return {
+    currentLevel: decision.toLevel,
+    difficultyDecisions: [decision],
+  };
 }
@@ -5,10 +5,27 @@
 
 import type { ProjectReviewStateType } from '../state/index.js';
 import { ReviewPhase, QuestionLevel } from '../types/index.js';
-import { generateAllQuestions } from '../services/index.js';
+import {
+  generateAllQuestions,
+  loadBankQuestions,
+  loadReviewRubric,
+  loadEvaluationConfig,
+  loadRepositoryContext,
+  generateCodeQuestions,
+  curateQuestionPool,
+} from '../services/index.js';
+import {
+  mergeBankQuestions,
+  checkSlideCodeConsistency,
+  getDefaultEvaluationConfig,
+  DEFAULT_RUBRIC,
+} from '../utils/index.js';
 
 /**
  * Generate questions at easy, medium, and hard levels
+ * Questions from attached faculty banks are merged in ahead of generated ones,
+ * code-grounded questions are added when a repository was ingested
+ * (along with a slide-code consistency check for the report), then the pool is de-duplicated and balanced across slides
  */
 export async function questionGenerationNode(
   state: ProjectReviewStateType
@@ -18,7 +35,55 @@ export async function questionGenerationNode(
   const projectTitle = state.candidate?.projectTitle || 'Project';
   
   try {
-    const questionsPool = await generateAllQuestions(state.slides, projectTitle);
+    const [generated, bankQuestions, repositoryResult, rubric, evaluationConfig] = await Promise.all([
+      generateAllQuestions(state.slides, projectTitle),
+      loadBankQuestions(state.roomName).catch(error => {
+        console.error('[ProjectReview] Failed to load question banks:', error);
+        return null;
+      }),
+      loadRepositoryContext(state.roomName)
+        .then(async repository => repository && {
+          codeQuestions: await generateCodeQuestions(state.slides, projectTitle, repository),
+          slideCodeConsistency: checkSlideCodeConsistency(state.slides, repository),
+        })
+        .catch(error => {
+          console.error('[ProjectReview] Failed to generate code questions:', error);
+          return null;
+        }),
+      // Loaded with the questions so every answer is graded against the same rubric
+      loadReviewRubric(state.roomName).catch(error => {
+        console.error('[ProjectReview] Failed to load rubric, using default:', error);
+        return DEFAULT_RUBRIC;
+      }),
+      loadEvaluationConfig(state.roomName).catch(error => {
+        console.error('[ProjectReview] Failed to load evaluation config, using defaults:', error);
+        return getDefaultEvaluationConfig();
+      }),
+    ]);
+
+    const codeQuestions = repositoryResult?.codeQuestions ?? null;
+    const slideCodeConsistency = repositoryResult?.slideCodeConsistency ?? null;
+
+    let merged = codeQuestions
+      ? {
+          easy: generated.easy,
+          medium: [...generated.medium, ...codeQuestions.medium],
+          hard: [...generated.hard, ...codeQuestions.hard],
+        }
+      : generated;
+    if (bankQuestions) {
+      const result = mergeBankQuestions(merged, bankQuestions);
+      merged = result.pool;
+      if (result.duplicatesRemoved > 0) {
+        console.log(`[ProjectReview] Dropped ${result.duplicatesRemoved} questions duplicating bank questions`);
+      }
+    }
+
+    const { pool: questionsPool, stats: questionPoolStats } = await curateQuestionPool(
+      merged,
+      state.slides,
+      projectTitle
+    );
     
     const totalQuestions = 
       questionsPool.easy.length + 
@@ -29,9 +94,20 @@ export async function questionGenerationNode(
     console.log(`  Easy: ${questionsPool.easy.length}`);
     console.log(`  Medium: ${questionsPool.medium.length}`);
     console.log(`  Hard: ${questionsPool.hard.length}`);
+    if (codeQuestions) {
+      console.log(`  From code: ${codeQuestions.medium.length + codeQuestions.hard.length}`);
+    }
+    if (slideCodeConsistency) {
+      console.log(`  Slide-code mismatches: ${slideCodeConsistency.claimedButAbsent.length} claimed but absent, ${slideCodeConsistency.presentButUnmentioned.length} unmentioned`);
+    }
+    console.log(`  Slides covered: ${questionPoolStats.poolCoveredSlides.length}/${questionPoolStats.substantiveSlides.length}`);
     
     return {
       questionsPool,
+      questionPoolStats,
+      slideCodeConsistency,
+      rubric,
+      evaluationConfig,
       phase: ReviewPhase.QUESTIONING,
       currentLevel: QuestionLevel.EASY,
       lastAiMessage: `I've reviewed your presentation and prepared some questions. 
@@ -5,11 +5,16 @@
 
 import type { ProjectReviewStateType } from '../state/index.js';
 import { ReviewPhase, AIContentResult } from '../types/index.js';
-import { generateReviewReport } from '../services/index.js';
-import { formatReportSummary } from '../utils/index.js';
+import { generateReviewReport, saveReviewReport } from '../services/index.js';
+import {
+  formatReportSummary,
+  getDifficultyPolicy,
+  calculateSlideCoverage,
+  DEFAULT_RUBRIC,
+} from '../utils/index.js';
 
 /**
- * Generate the final project review report
+ * Generate the final project review report and persist it
  */
 export async function reportGenerationNode(
   state: ProjectReviewStateType
@@ -41,12 +46,33 @@ export async function reportGenerationNode(
       state.pptMetadata,
       aiDetection,
       state.evaluations,
-      state.questionsAsked
+      state.questionsAsked,
+      {
+        policy: getDifficultyPolicy().name,
+        decisions: state.difficultyDecisions ?? [],
+      },
+      calculateSlideCoverage(state.questionPoolStats ?? null, state.questionsAsked),
+      state.rubric ?? DEFAULT_RUBRIC,
+      state.slideCodeConsistency ?? null
     );
     
     console.log(`[ProjectReview] Report generated:`);
     console.log(`  Average Score: ${report.averageScore.toFixed(1)}/10`);
     console.log(`  Recommendation: ${report.recommendation}`);
+    if (report.rubricScores.weightedScore !== null) {
+      console.log(`  Rubric (${report.rubricScores.rubricName}): ${report.rubricScores.weightedScore.toFixed(1)}/10`);
+    }
+    
+    // Persist the report so the summary endpoint can serve it after the room closes
+    const durationSeconds = state.time?.startTime
+      ? (Date.now() - new Date(state.time.startTime).getTime()) / 1000
+      : 0;
+
+    try {
+      await saveReviewReport(state.roomName, report, durationSeconds);
+    } catch (persistError) {
+      console.error('[ProjectReview] Failed to persist report:', persistError);
+    }
     
     // Format summary message for candidate
     const summaryMessage = formatReportSummary(report, state.candidate.name);
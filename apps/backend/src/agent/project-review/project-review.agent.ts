@@ -7,12 +7,15 @@
  * - Detects AI-generated content
  * - Generates level-wise questions (easy, medium, hard)
  * - Evaluates answers and generates comprehensive report
+ * - Keeps to the session's time limit (maxDurationMinutes), warning the
+ *   candidate before it runs out and wrapping up when it does
  */
 
-import { StateGraph, END, START } from '@langchain/langgraph';
+import { StateGraph, END, START, Command, interrupt } from '@langchain/langgraph';
 
 import { BaseVoiceAgent } from '../core/voice-agent.js';
 import { type AgentMetadata, type BaseAgentConfig } from '../core/types.js';
+import type { CheckpointMetadata } from '../core/utils/index.js';
 
 import {
   ProjectReviewState,
@@ -28,15 +31,44 @@ import {
   questionGenerationNode,
   askQuestionNode,
   evaluateAnswerNode,
+  followUpNode,
   levelTransitionNode,
   reportGenerationNode,
   closingNode,
 } from './nodes/index.js';
+import { loadStoredPresentationUrl } from './services/index.js';
+import { getUnaskedBankQuestions } from './utils/index.js';
+
+// ============================================================================
+// Time Limit
+// ============================================================================
+
+const DEFAULT_MAX_DURATION_MINUTES = 30;
+const TIME_WARNING_MINUTES = [5, 1]; // Remaining minutes announced to the candidate
+const TIME_CHECK_INTERVAL_MS = 15 * 1000;
+const WRAP_UP_GRACE_MS = 90 * 1000; // Time to finish the current answer once time is up
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/** Value passed to interrupt() when the graph pauses for the candidate */
+interface ReviewInterrupt {
+  type: 'awaiting_upload' | 'awaiting_answer';
+  questionId?: string;
+}
+
+/** Value used to resume a pending answer when the session's time is up */
+interface TimeUpResume {
+  timeUp: true;
+}
+
+/** Value used to resume the graph after a file upload */
+interface PptUploadResume {
+  fileUrl: string;
+  pptContext: string;
+}
+
 export interface ProjectReviewAgentConfig extends BaseAgentConfig {
   reviewId: string;
   candidateId: string;
@@ -49,6 +81,10 @@ export interface ProjectReviewAgentConfig extends BaseAgentConfig {
 // ============================================================================
 
 export class ProjectReviewAgent extends BaseVoiceAgent<ProjectReviewStateType, ProjectReviewAgentConfig> {
+  private timeLimitTimer: ReturnType<typeof setInterval> | null = null;
+  private announcedWarnings = new Set<number>();
+  private timeUpAt: number | null = null; // When the time limit was reached
+
   /**
    * Build the project review LangGraph workflow
    */
@@ -70,7 +106,9 @@ export class ProjectReviewAgent extends BaseVoiceAgent<ProjectReviewStateType, P
 
     // Questioning phase
     graph.addNode('presentQuestion', askQuestionNode);
+    graph.addNode('awaitAnswer', this.createWaitForAnswerNode());
     graph.addNode('assessAnswer', evaluateAnswerNode);
+    graph.addNode('askFollowUp', followUpNode);
     graph.addNode('transitionLevel', levelTransitionNode);
 
     // Report phase
@@ -84,8 +122,15 @@ export class ProjectReviewAgent extends BaseVoiceAgent<ProjectReviewStateType, P
     // Add Edges
     // -----------------------------------------------------------------------
 
-    // Entry
-    graph.addEdge(START, 'initializeSession');
+    // Entry (resumed sessions skip setup, parsing and question generation)
+    graph.addConditionalEdges(START, this.routeFromStart.bind(this), {
+      initializeSession: 'initializeSession',
+      presentQuestion: 'presentQuestion',
+      awaitAnswer: 'awaitAnswer',
+      askFollowUp: 'askFollowUp',
+      generateReport: 'generateReport',
+      [END]: END,
+    });
     graph.addEdge('initializeSession', 'awaitUpload');
 
     // Upload routing
@@ -100,13 +145,30 @@ export class ProjectReviewAgent extends BaseVoiceAgent<ProjectReviewStateType, P
     graph.addEdge('detectAiContent', 'generateQuestions');
     graph.addEdge('generateQuestions', 'presentQuestion');
 
-    // Question loop
+    // Question loop (pauses in awaitAnswer until the candidate's answer arrives)
     graph.addConditionalEdges('presentQuestion', this.routeFromQuestion.bind(this), {
+      awaitAnswer: 'awaitAnswer',
+      transitionLevel: 'transitionLevel',
+      generateReport: 'generateReport',
+    });
+
+    // A pending answer is dropped when the session runs out of time
+    graph.addConditionalEdges('awaitAnswer', this.routeFromAnswer.bind(this), {
       assessAnswer: 'assessAnswer',
       generateReport: 'generateReport',
     });
 
-    graph.addEdge('assessAnswer', 'transitionLevel');
+    // Vague or concerning answers get a follow-up before the level moves on
+    // (no new questions once time is up)
+    graph.addConditionalEdges('assessAnswer', this.routeFromAssessment.bind(this), {
+      askFollowUp: 'askFollowUp',
+      transitionLevel: 'transitionLevel',
+      generateReport: 'generateReport',
+    });
+    graph.addConditionalEdges('askFollowUp', this.routeFromFollowUp.bind(this), {
+      awaitAnswer: 'awaitAnswer',
+      transitionLevel: 'transitionLevel',
+    });
 
     // Level transition routing
     graph.addConditionalEdges('transitionLevel', this.routeFromLevelTransition.bind(this), {
@@ -154,7 +216,8 @@ GUIDELINES:
 
 SESSION INFO:
 - Session ID: ${metadata.sessionId || 'unknown'}
-- Room: ${metadata.roomName || 'unknown'}`;
+- Room: ${metadata.roomName || 'unknown'}
+- Time limit: ${this.getMaxDurationMinutes()} minutes`;
 
     // Add PPT context if available
     if (pptContext) {
@@ -214,11 +277,17 @@ Use this presentation content to:
         medium: [],
         hard: [],
       },
+      questionPoolStats: null,
+      slideCodeConsistency: null,
       currentQuestion: null,
       questionsAsked: [],
       currentLevel: QuestionLevel.EASY,
+      difficultyDecisions: [],
+      followUp: null,
 
       // Answers & Evaluations
+      rubric: null,
+      evaluationConfig: null,
       answers: [],
       evaluations: [],
 
@@ -255,10 +324,122 @@ Please start by uploading your PowerPoint file. Once I receive it,
 I'll analyze the content and we'll have a discussion about your project.`;
   }
 
+  // =========================================================================
+  // Session Resume
+  // =========================================================================
+
+  /**
+   * Key checkpoints by review ID so a rejoin resumes the same review
+   */
+  protected getCheckpointKey(roomName: string, metadata: AgentMetadata): string {
+    return (metadata.customData?.reviewId as string | undefined) || roomName;
+  }
+
+  /**
+   * Only resume reviews that are still in progress
+   */
+  protected async restoreCheckpoint(
+    checkpointKey: string
+  ): Promise<{ state: ProjectReviewStateType; metadata: CheckpointMetadata } | null> {
+    const restored = await super.restoreCheckpoint(checkpointKey);
+    if (!restored) return null;
+
+    const { phase } = restored.state;
+    if (phase === ReviewPhase.COMPLETED || phase === ReviewPhase.ERROR) {
+      console.log(`[ProjectReview] Checkpoint is in ${phase} phase, starting a new session`);
+      return null;
+    }
+
+    return restored;
+  }
+
+  /**
+   * Welcome the candidate back and re-ask the pending question
+   */
+  protected async onSessionResumed(state: ProjectReviewStateType): Promise<void> {
+    const name = state.candidate?.name || 'there';
+    const pending = this.getPendingQuestion(state);
+
+    let message: string;
+    if (pending && state.followUp?.questionId === pending.id && state.followUp.question) {
+      message = `Welcome back, ${name}! I had asked a follow-up to question ${state.questionsAsked.length + 1}. Let me repeat it: ${state.followUp.question}`;
+    } else if (pending) {
+      const questionNumber = state.questionsAsked.length + 1;
+      message = `Welcome back, ${name}! We were on question ${questionNumber}. Let me repeat it: ${pending.question}`;
+    } else if (state.phase === ReviewPhase.QUESTIONING) {
+      message = `Welcome back, ${name}! You've answered ${state.questionsAsked.length} questions so far. Let's continue with the next one.`;
+    } else if (state.phase === ReviewPhase.REPORT_GENERATION) {
+      message = `Welcome back, ${name}! We had finished the questions, so I'll wrap up your review now.`;
+    } else {
+      message = `Welcome back, ${name}! Let's pick up where we left off with your presentation.`;
+    }
+
+    this.speak(message);
+
+    // Restart the answer timer for the repeated question
+    if (pending) {
+      this.updateState({
+        time: { ...state.time, currentQuestionStartTime: new Date() },
+      });
+    }
+  }
+
+  protected getResumeDetails(state: ProjectReviewStateType): Record<string, unknown> {
+    return {
+      questionNumber: this.getPendingQuestion(state) ? state.questionsAsked.length + 1 : null,
+      questionsAnswered: state.questionsAsked.length,
+    };
+  }
+
+  /**
+   * The question that was asked but not yet evaluated, if any
+   */
+  private getPendingQuestion(state: ProjectReviewStateType) {
+    const { currentQuestion, questionsAsked } = state;
+    if (!currentQuestion || questionsAsked.some(q => q.id === currentQuestion.id)) {
+      return null;
+    }
+    return currentQuestion;
+  }
+
+  /**
+   * Stay quiet while waiting for an upload; the greeting already asked for it
+   */
+  protected getPausePrompt(
+    interruptValue: unknown,
+    state: ProjectReviewStateType,
+    aiMessages: string[]
+  ): string | null {
+    if ((interruptValue as ReviewInterrupt).type === 'awaiting_upload') {
+      return null;
+    }
+    return super.getPausePrompt(interruptValue, state, aiMessages);
+  }
+
   // =========================================================================
   // Routing Functions
   // =========================================================================
 
+  private routeFromStart(state: ProjectReviewStateType): string {
+    const { questionsPool } = state;
+    const hasQuestions =
+      questionsPool.easy.length + questionsPool.medium.length + questionsPool.hard.length > 0;
+
+    if (state.phase === ReviewPhase.COMPLETED) {
+      return END;
+    }
+    if (state.phase === ReviewPhase.REPORT_GENERATION) {
+      return 'generateReport';
+    }
+    if (state.phase === ReviewPhase.QUESTIONING && hasQuestions) {
+      if (!this.getPendingQuestion(state)) {
+        return this.isOutOfTime(state) ? 'generateReport' : 'presentQuestion';
+      }
+      return state.followUp && !state.followUp.question ? 'askFollowUp' : 'awaitAnswer';
+    }
+    return 'initializeSession';
+  }
+
   private routeFromUpload(state: ProjectReviewStateType): string {
     if (state.pptFile) {
       return 'parsePpt';
@@ -270,9 +451,9 @@ I'll analyze the content and we'll have a discussion about your project.`;
   }
 
   private routeFromQuestion(state: ProjectReviewStateType): string {
-    // Check if we have a question to ask
+    // Wait for the answer to the question that was just asked
     if (state.currentQuestion) {
-      return 'assessAnswer';
+      return 'awaitAnswer';
     }
 
     // Check if we've exhausted all questions
@@ -283,15 +464,41 @@ I'll analyze the content and we'll have a discussion about your project.`;
       questionsPool.medium.length +
       questionsPool.hard.length;
 
-    if (totalAsked >= totalAvailable || totalAsked >= 10) {
+    // The question cap never cuts off mandatory bank questions
+    const bankPending = getUnaskedBankQuestions(questionsPool, questionsAsked).length > 0;
+    if (totalAsked >= totalAvailable || (totalAsked >= 10 && !bankPending)) {
       return 'generateReport';
     }
 
-    return 'assessAnswer';
+    // No questions left at this level
+    return 'transitionLevel';
+  }
+
+  private routeFromAnswer(state: ProjectReviewStateType): string {
+    return state.phase === ReviewPhase.REPORT_GENERATION ? 'generateReport' : 'assessAnswer';
+  }
+
+  private routeFromAssessment(state: ProjectReviewStateType): string {
+    if (this.isOutOfTime(state)) {
+      return 'generateReport';
+    }
+    // A follow-up is needed but not generated yet
+    if (state.followUp && !state.followUp.question) {
+      return 'askFollowUp';
+    }
+    return 'transitionLevel';
+  }
+
+  private routeFromFollowUp(state: ProjectReviewStateType): string {
+    // Generation failed and the question was closed out instead
+    if (!state.currentQuestion) {
+      return 'transitionLevel';
+    }
+    return 'awaitAnswer';
   }
 
   private routeFromLevelTransition(state: ProjectReviewStateType): string {
-    if (state.phase === ReviewPhase.REPORT_GENERATION) {
+    if (state.phase === ReviewPhase.REPORT_GENERATION || this.isOutOfTime(state)) {
       return 'generateReport';
     }
     return 'presentQuestion';
@@ -303,11 +510,21 @@ I'll analyze the content and we'll have a discussion about your project.`;
 
   private createWaitForUploadNode() {
     return async (state: ProjectReviewStateType): Promise<Partial<ProjectReviewStateType>> => {
-      // This node waits for file upload - in real implementation,
-      // file upload would be handled by the voice agent's event system
+      // Pause until handleFileUpload resumes the graph with the uploaded file
       console.log('[ProjectReview] Waiting for PPT upload...');
 
       if (!state.pptFile) {
+        const upload = interrupt<ReviewInterrupt, PptUploadResume | string>({ type: 'awaiting_upload' });
+
+        if (typeof upload === 'object' && upload?.fileUrl) {
+          return {
+            pptFile: upload.fileUrl,
+            pptContext: upload.pptContext,
+            phase: ReviewPhase.PARSING,
+          };
+        }
+
+        // Resumed by speech instead of an upload
         return {
           lastAiMessage: "I'm waiting for your presentation file. Please upload your PowerPoint.",
         };
@@ -317,6 +534,29 @@ I'll analyze the content and we'll have a discussion about your project.`;
     };
   }
 
+  private createWaitForAnswerNode() {
+    return async (state: ProjectReviewStateType): Promise<Partial<ProjectReviewStateType>> => {
+      // Pause until the candidate's final transcript resumes the graph
+      console.log(`[ProjectReview] Waiting for answer to ${state.currentQuestion?.id}...`);
+
+      const answer = interrupt<ReviewInterrupt, string | TimeUpResume>({
+        type: 'awaiting_answer',
+        questionId: state.currentQuestion?.id,
+      });
+
+      // Out of time: leave the question unanswered and go to the report
+      if (typeof answer === 'object' && answer?.timeUp) {
+        return {
+          currentQuestion: null,
+          followUp: null,
+          phase: ReviewPhase.REPORT_GENERATION,
+        };
+      }
+
+      return { lastUserMessage: typeof answer === 'string' ? answer : '' };
+    };
+  }
+
   private createErrorNode() {
     return async (state: ProjectReviewStateType): Promise<Partial<ProjectReviewStateType>> => {
       console.log('[ProjectReview] Handling error:', state.lastError);
@@ -337,12 +577,146 @@ Please contact support for assistance.`,
       return;
     }
     try {
-      this.safeSay(message);
+      this.session.say(message);
     } catch (error: any) {
       console.log('[ProjectReview] Failed to say (session may be closed):', error.message);
     }
   }
 
+  // =========================================================================
+  // Time Limit
+  // =========================================================================
+
+  /**
+   * Start the clock once the candidate is in the room
+   */
+  protected async onUserJoined(participantId: string): Promise<void> {
+    await super.onUserJoined(participantId);
+    this.startTimeLimit();
+  }
+
+  protected async onSessionEnd(): Promise<void> {
+    this.stopTimeLimit();
+    await super.onSessionEnd();
+  }
+
+  private getMaxDurationMinutes(): number {
+    return this.config.maxDurationMinutes || DEFAULT_MAX_DURATION_MINUTES;
+  }
+
+  /**
+   * When the session's time is up, counted from its (possibly restored) start
+   */
+  private getDeadline(state: ProjectReviewStateType): number {
+    return new Date(state.time.startTime).getTime() + this.getMaxDurationMinutes() * 60 * 1000;
+  }
+
+  private isOutOfTime(state: ProjectReviewStateType): boolean {
+    return Date.now() >= this.getDeadline(state);
+  }
+
+  private startTimeLimit(): void {
+    if (this.timeLimitTimer) return;
+
+    console.log(`[ProjectReview] ⏱️ Time limit: ${this.getMaxDurationMinutes()} minutes`);
+    this.timeLimitTimer = setInterval(() => {
+      this.checkTimeLimit().catch(error => {
+        console.error('[ProjectReview] Time limit check failed:', error);
+      });
+    }, TIME_CHECK_INTERVAL_MS);
+  }
+
+  private stopTimeLimit(): void {
+    if (this.timeLimitTimer) {
+      clearInterval(this.timeLimitTimer);
+      this.timeLimitTimer = null;
+    }
+  }
+
+  /**
+   * Warn the candidate as the time limit approaches and wrap up once it passes
+   */
+  private async checkTimeLimit(): Promise<void> {
+    const state = this.currentState;
+    if (!state) return;
+
+    if (state.phase === ReviewPhase.COMPLETED || state.phase === ReviewPhase.ERROR) {
+      this.stopTimeLimit();
+      return;
+    }
+    // Already wrapping up
+    if (state.phase === ReviewPhase.REPORT_GENERATION) return;
+
+    const deadline = this.getDeadline(state);
+    const remainingMs = deadline - Date.now();
+
+    if (remainingMs <= 0) {
+      await this.handleTimeUp();
+      return;
+    }
+
+    const due = TIME_WARNING_MINUTES.filter(
+      minutes => remainingMs <= minutes * 60 * 1000 && !this.announcedWarnings.has(minutes)
+    );
+    if (due.length === 0) return;
+
+    // Several thresholds can be due at once after a rejoin; announce the time left once
+    due.forEach(minutes => this.announcedWarnings.add(minutes));
+    const minutesLeft = Math.ceil(remainingMs / 60000);
+
+    await this.publishData({
+      type: 'time_warning',
+      data: { minutesLeft, endsAt: new Date(deadline).toISOString() },
+    });
+    this.safeSay(
+      minutesLeft <= 1
+        ? "We have about a minute left, so let's make this the last answer."
+        : `Just so you know, we have about ${minutesLeft} minutes left.`
+    );
+  }
+
+  /**
+   * Time is up: new questions stop (see the routing functions) and the
+   * candidate gets a short grace period to finish the current answer before
+   * the review is wrapped up without it
+   */
+  private async handleTimeUp(): Promise<void> {
+    const pendingInterrupt = (await this.getPendingInterrupt()) as ReviewInterrupt | null;
+    const awaitingAnswer = pendingInterrupt?.type === 'awaiting_answer';
+
+    if (this.timeUpAt === null) {
+      this.timeUpAt = Date.now();
+      console.log('[ProjectReview] ⏰ Time limit reached');
+
+      await this.publishData({ type: 'time_up' });
+      if (!awaitingAnswer) {
+        // Either the graph is busy (and routes to the report next) or the session never got going
+        return;
+      }
+      this.safeSay("We've reached the end of our time. Please finish your current answer and I'll wrap up the review.");
+      return;
+    }
+
+    if (!awaitingAnswer || this.isGraphRunning || Date.now() - this.timeUpAt < WRAP_UP_GRACE_MS) {
+      return;
+    }
+
+    await this.runExclusive(async () => {
+      // A queued answer may have been handled in the meantime
+      const stillPending = (await this.getPendingInterrupt()) as ReviewInterrupt | null;
+      if (stillPending?.type !== 'awaiting_answer') return;
+
+      console.log('[ProjectReview] ⏰ Grace period over, wrapping up without the pending answer');
+      this.stopTimeLimit();
+
+      const resume: TimeUpResume = { timeUp: true };
+      const { aiMessages } = await this.runGraphWithCheckpoints(new Command({ resume }));
+      if (aiMessages.length > 0) {
+        this.safeSay(aiMessages.join(' '));
+      }
+    });
+  }
+
   // =========================================================================
   // Data Message Handling
   // =========================================================================
@@ -355,10 +729,9 @@ Please contact support for assistance.`,
 
     switch (message.type) {
       case 'ppt_uploaded':
-        this.handleFileUpload(message.data?.fileUrl || message.data?.url);
-        break;
       case 'file_upload':
-        this.handleFileUpload(message.data?.fileUrl || message.data?.url);
+        // The message only signals the upload; the file comes from the review record
+        this.handleFileUpload();
         break;
       default:
         console.log('[ProjectReview] Unknown message type:', message.type);
@@ -371,14 +744,40 @@ Please contact support for assistance.`,
 
   /**
    * Handle PPT file upload from external source
-   * This runs the LangGraph workflow to analyze the PPT and generate questions
+   * Resumes the graph paused in awaitUpload so it analyzes the PPT and asks the first question
+   *
+   * The file is the one the upload endpoint stored for this review, never a
+   * URL sent by a participant.
    */
-  public async handleFileUpload(fileUrl: string): Promise<void> {
-    if (!this.currentState || !fileUrl) {
+  public async handleFileUpload(): Promise<void> {
+    if (!this.currentState) {
       console.log('[ProjectReview] Cannot process upload - state not ready');
       return;
     }
 
+    // Wait for any running turn so the upload interrupt is only resumed once
+    await this.runExclusive(() => this.analyzeUploadedFile());
+  }
+
+  /**
+   * Analyze the stored presentation if the graph is waiting for an upload
+   */
+  private async analyzeUploadedFile(): Promise<void> {
+    if (!this.currentState) return;
+
+    // The client re-sends the upload on every (re)connect; skip it once the graph has the file
+    const pendingInterrupt = (await this.getPendingInterrupt()) as ReviewInterrupt | null;
+    if (pendingInterrupt?.type !== 'awaiting_upload') {
+      console.log(`[ProjectReview] Not waiting for an upload (phase: ${this.currentState.phase}), skipping`);
+      return;
+    }
+
+    const fileUrl = await loadStoredPresentationUrl(this.currentState.roomName);
+    if (!fileUrl) {
+      console.log('[ProjectReview] Upload signalled but no presentation is stored for this review');
+      return;
+    }
+
     console.log(`[ProjectReview] 📤 File upload received: ${fileUrl}`);
 
     // Notify user we're processing
@@ -396,48 +795,29 @@ Please contact support for assistance.`,
         console.warn('[ProjectReview] RAG context fetch failed:', ragError);
       }
 
-      // Update state with file URL and context
-      this.currentState = {
-        ...this.currentState,
-        pptFile: fileUrl,
-        pptContext,
-        phase: ReviewPhase.PARSING,
-      };
-
-      // Run the LangGraph workflow to analyze and generate questions
+      // Resume the LangGraph workflow to analyze and generate questions
       console.log('[ProjectReview] 🔄 Running analysis workflow...');
 
-      if (this.graph) {
-        const result = await this.graph.invoke(this.currentState, { recursionLimit: 100 });
-        this.currentState = result;
-
-        console.log('[ProjectReview] ✅ Workflow complete');
-        console.log(`[ProjectReview] Questions generated: Easy=${result.questionsPool?.easy?.length || 0}, Medium=${result.questionsPool?.medium?.length || 0}, Hard=${result.questionsPool?.hard?.length || 0}`);
-
-        // If we have questions, announce we're ready
-        const totalQuestions =
-          (result.questionsPool?.easy?.length || 0) +
-          (result.questionsPool?.medium?.length || 0) +
-          (result.questionsPool?.hard?.length || 0);
-
-        if (totalQuestions > 0) {
-          const firstQuestion = result.questionsPool?.easy?.[0]?.question ||
-            result.questionsPool?.medium?.[0]?.question ||
-            'Can you give me an overview of your project?';
-
-          this.safeSay(`I've analyzed your presentation and prepared ${totalQuestions} questions for you. Let's begin with an easy one: ${firstQuestion}`);
-        } else {
-          // Use RAG context to generate a question
-          if (pptContext) {
-            this.safeSay("I've reviewed your presentation. Based on what I see in your slides, can you start by explaining the main problem your project aims to solve?");
-          } else {
-            this.safeSay("I've reviewed your presentation. Let's start with a simple question: Can you give me an overview of your project and its main objectives?");
-          }
-        }
+      const resume: PptUploadResume = { fileUrl, pptContext };
+      const { state: result } = await this.runGraphWithCheckpoints(new Command({ resume }));
+
+      console.log('[ProjectReview] ✅ Analysis complete');
+      console.log(`[ProjectReview] Questions generated: Easy=${result.questionsPool?.easy?.length || 0}, Medium=${result.questionsPool?.medium?.length || 0}, Hard=${result.questionsPool?.hard?.length || 0}`);
+
+      const totalQuestions =
+        (result.questionsPool?.easy?.length || 0) +
+        (result.questionsPool?.medium?.length || 0) +
+        (result.questionsPool?.hard?.length || 0);
+
+      // The graph is now paused on the first question
+      if (totalQuestions > 0 && result.currentQuestion) {
+        this.safeSay(`I've analyzed your presentation and prepared ${totalQuestions} questions for you. ${result.lastAiMessage}`);
+      } else {
+        this.safeSay(result.lastAiMessage || "I've reviewed your presentation, but I couldn't prepare questions from it.");
       }
     } catch (error) {
       console.error('[ProjectReview] ❌ Workflow error:', error);
-      this.safeSay("I encountered an issue analyzing your presentation, but let's proceed. Can you give me an overview of your project?");
+      this.safeSay("I encountered an issue analyzing your presentation. Please try uploading it again.");
     }
   }
 }
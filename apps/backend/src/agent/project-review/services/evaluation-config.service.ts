@@ -0,0 +1,21 @@
+/**
+ * Evaluation Config Service
+ * Loads a review's multi-sample scoring settings
+ */
+
+import { prisma } from '../../../db/prisma.js';
+import { resolveEvaluationConfig } from '../utils/evaluation-consistency.js';
+import type { EvaluationConfig } from '../types/index.js';
+
+/**
+ * Evaluation config for the review hosted in `roomName`
+ * Settings the review does not override come from the environment
+ */
+export async function loadEvaluationConfig(roomName: string): Promise<EvaluationConfig> {
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: { evaluationConfig: true },
+  });
+
+  return resolveEvaluationConfig(review?.evaluationConfig);
+}
@@ -0,0 +1,160 @@
+/**
+ * Follow-up Question Service
+ * Generates a probing question when an answer is vague or raises concerns,
+ * grounded in the slide the original question was about
+ */
+
+import { z } from 'zod';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { prisma } from '../../../db/prisma.js';
+import { getContextForQuery, getSlideContext } from '../../../services/rag/vector-store.service.js';
+import { getStructuredLLM } from '../../core/llm.js';
+import {
+  retryAsync,
+  withTimeout,
+  DEFAULT_LLM_TIMEOUT_CONFIG,
+  createNodeLogger,
+} from '../../core/utils/index.js';
+import type {
+  ParsedSlide,
+  ReviewQuestion,
+  ReviewEvaluation,
+  ReviewFollowUp,
+  FollowUpReason,
+} from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FollowUpRequest {
+  question: ReviewQuestion;
+  answer: string;
+  evaluation: ReviewEvaluation;
+  reason: FollowUpReason;
+  /** Follow-ups already asked for this question */
+  previousFollowUps: ReviewFollowUp[];
+  /** Slide text and retrieved chunks for the question's slide */
+  slideContext: string;
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+const logger = createNodeLogger('ProjectReviewAgent', 'FollowUps');
+
+// ============================================================================
+// Slide Grounding
+// ============================================================================
+
+/**
+ * Collect grounding for the slide a question refers to
+ *
+ * Combines the parsed slide with RAG chunks for that slide, ranked against
+ * the question and answer. Questions not tied to a slide get the best
+ * matching chunks from the whole deck. Retrieval failures fall back to the
+ * slide alone.
+ */
+export async function getFollowUpSlideContext(
+  roomName: string,
+  question: ReviewQuestion,
+  answer: string,
+  slides: ParsedSlide[]
+): Promise<string> {
+  const parts: string[] = [];
+
+  const slide = slides.find(s => s.slideNumber === question.slideReference);
+  if (slide) {
+    parts.push(
+      [`Slide ${slide.slideNumber}: ${slide.title}`, slide.content, ...slide.bullets, slide.notes]
+        .filter(Boolean)
+        .join('\n')
+    );
+  }
+
+  try {
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId: roomName },
+      select: { id: true },
+    });
+
+    if (review) {
+      const query = `${question.question} ${answer}`;
+      const retrieved = question.slideReference !== null
+        ? await getSlideContext(review.id, question.slideReference, query)
+        : await getContextForQuery(review.id, query, 3);
+      if (retrieved) parts.push(retrieved);
+    }
+  } catch (error) {
+    logger.warn('Slide context retrieval failed, using parsed slide only', {
+      questionId: question.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return parts.join('\n\n') || question.context;
+}
+
+// ============================================================================
+// Follow-up Generation
+// ============================================================================
+
+const FollowUpQuestionSchema = z.object({
+  question: z.string(),
+});
+
+const FOLLOW_UP_FOCUS: Record<FollowUpReason, string> = {
+  lacks_understanding: 'The answer did not show real understanding. Ask for the specific detail that was missing, e.g. how it works, why it was chosen, or a concrete example from their implementation.',
+  flagged_concerns: 'The answer raised concerns. Ask a question that lets the candidate resolve them, e.g. by reconciling their answer with what the slide says.',
+};
+
+/**
+ * Generate one targeted follow-up question
+ * Includes retry logic
+ */
+export async function generateFollowUpQuestion(request: FollowUpRequest): Promise<string> {
+  const { question, answer, evaluation, reason, previousFollowUps, slideContext } = request;
+
+  logger.info(`Generating follow-up for question: ${question.id}`, { questionId: question.id, reason });
+
+  const structuredLLM = getStructuredLLM(FollowUpQuestionSchema);
+
+  const earlierFollowUps = previousFollowUps.length > 0
+    ? `\n\nEarlier follow-ups:\n${previousFollowUps.map(f => `Q: ${f.question}\nA: ${f.answer}`).join('\n')}`
+    : '';
+
+  const concerns = evaluation.flaggedConcerns.length > 0
+    ? `\nConcerns: ${evaluation.flaggedConcerns.join('; ')}`
+    : '';
+
+  const response = await retryAsync(
+    () => withTimeout(
+      structuredLLM.invoke([
+        new SystemMessage(`You are a project reviewer asking one spoken follow-up question.
+
+${FOLLOW_UP_FOCUS[reason]}
+
+Rules:
+- Ask exactly one short question (one sentence)
+- Base it on the slide content provided, not on general knowledge
+- Do not repeat the original question or reveal the expected answer
+- Do not comment on the quality of the previous answer`),
+        new HumanMessage(`Slide content:
+${slideContext}
+
+Original question (${question.level} level): ${question.question}
+
+Candidate's answer: ${answer}${earlierFollowUps}
+
+Evaluator feedback: ${evaluation.feedback}${concerns}
+
+Generate the follow-up question.`),
+      ]),
+      DEFAULT_LLM_TIMEOUT_CONFIG
+    ),
+    { maxRetries: 2 }
+  );
+
+  return response.question.trim();
+}
@@ -1,14 +1,44 @@
 /**
  * Project Review Services
- * PPT parsing, AI detection, question generation, report generation, and diarization
+ * PPT parsing, AI detection, question generation, report generation and persistence, and diarization
  */
 
 // Re-export diarization service
 export * from './diarization.service.js';
 
+// Re-export PPTX extraction service
+export * from './pptx-extractor.service.js';
+
+// Re-export PDF extraction service
+export * from './pdf-extractor.service.js';
+
+// Re-export report persistence service
+export * from './report-persistence.service.js';
+
+// Re-export question record service
+export * from './question-record.service.js';
+
+// Re-export follow-up question service
+export * from './follow-up.service.js';
+
+// Re-export question bank service
+export * from './question-bank.service.js';
+
+// Re-export rubric service
+export * from './rubric.service.js';
+
+// Re-export evaluation config service
+export * from './evaluation-config.service.js';
+
+// Re-export repository service
+export * from './repository.service.js';
+
+// Re-export presentation file service
+export * from './presentation-file.service.js';
+
 import { z } from 'zod';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { getStructuredLLM } from '../../core/llm.js';
+import { getStructuredLLM, DEFAULT_LLM_CONFIGS } from '../../core/llm.js';
 import {
   retryAsync,
   withTimeout,
@@ -27,8 +57,36 @@ import {
   type ReviewQuestion,
   type ReviewReport,
   type ReviewEvaluation,
+  type ReviewFollowUp,
   type LevelScores,
+  type DifficultyPath,
+  type QuestionsByLevel,
+  type QuestionPoolStats,
+  type SlideCoverage,
+  type ReviewRubric,
+  type CriterionScore,
+  type ExpectedPointCoverage,
+  type EvaluationConfig,
+  type RepositoryContext,
+  type SlideCodeConsistency,
 } from '../types/index.js';
+import { loadPresentationFile, extractPresentation } from './pptx-extractor.service.js';
+import { extractPdfPresentation, isPdfBuffer } from './pdf-extractor.service.js';
+import { getEmbeddingProvider, cosineSimilarity } from '../../../services/rag/embedding.service.js';
+import {
+  questionSimilarity,
+  getSubstantiveSlides,
+  getCoveredSlides,
+  balanceBySlide,
+  DUPLICATE_QUESTION_THRESHOLD,
+} from '../utils/question-pool.js';
+import { DEFAULT_RUBRIC, aggregateRubricScores } from '../utils/rubric.js';
+import {
+  getDefaultEvaluationConfig,
+  combineEvaluations,
+  calculateEvaluationConsistency,
+} from '../utils/evaluation-consistency.js';
+import { describeSlideCodeConsistency } from '../utils/tech-consistency.js';
 
 // ============================================================================
 // Logger
@@ -42,104 +100,37 @@ const logger = createNodeLogger('ProjectReviewAgent', 'Services');
 
 /**
  * Parse PPT file and extract slide content
- * In production, this would use a library like pptx-parser or call an API
- * For now, returns mock data for testing
+ * Accepts a local uploads path (/uploads/ppt/...) or a public R2 URL
+ * PPTX and PDF decks are supported; PDF pages become slides
  */
 export async function parsePPTFile(fileUrl: string): Promise<{
   metadata: PPTMetadata;
   slides: ParsedSlide[];
 }> {
-  console.log(`[PPTParser] Parsing file: ${fileUrl}`);
-
-  // Extract filename from URL
-  const filename = fileUrl.split('/').pop() || 'presentation.pptx';
-
-  // TODO: Implement actual PPT parsing using a library like:
-  // - officegen
-  // - pptx-parser  
-  // - External API service
-
-  // For now, return mock slides based on the file being uploaded
-  // This allows testing the full workflow
-  const mockSlides: ParsedSlide[] = [
-    {
-      slideNumber: 1,
-      title: 'Project Overview',
-      content: 'Introduction to the project and its main objectives',
-      bullets: [
-        'Problem statement and motivation',
-        'Key goals and expected outcomes',
-        'Target users and stakeholders'
-      ],
-      notes: undefined,
-      hasImages: false,
-      hasCharts: false,
-    },
-    {
-      slideNumber: 2,
-      title: 'Technical Architecture',
-      content: 'System design and technology stack',
-      bullets: [
-        'Frontend and backend technologies',
-        'Database and storage solutions',
-        'API design and integrations'
-      ],
-      notes: undefined,
-      hasImages: false,
-      hasCharts: false,
-    },
-    {
-      slideNumber: 3,
-      title: 'Implementation Details',
-      content: 'Key features and development approach',
-      bullets: [
-        'Core functionality implemented',
-        'Challenges faced and solutions',
-        'Testing and quality assurance'
-      ],
-      notes: undefined,
-      hasImages: false,
-      hasCharts: false,
-    },
-    {
-      slideNumber: 4,
-      title: 'Results and Demo',
-      content: 'Project outcomes and demonstration',
-      bullets: [
-        'Key achievements and metrics',
-        'Live demonstration of features',
-        'User feedback and improvements'
-      ],
-      notes: undefined,
-      hasImages: false,
-      hasCharts: false,
-    },
-    {
-      slideNumber: 5,
-      title: 'Conclusion',
-      content: 'Summary and future work',
-      bullets: [
-        'Project accomplishments',
-        'Lessons learned',
-        'Future enhancements planned'
-      ],
-      notes: undefined,
-      hasImages: false,
-      hasCharts: false,
-    },
-  ];
+  logger.info('Parsing presentation file', { fileUrl });
+
+  const rawName = fileUrl.split(/[?#]/)[0].split('/').pop() || 'presentation.pptx';
+  let filename = rawName;
+  try {
+    filename = decodeURIComponent(rawName);
+  } catch {
+    // Malformed percent-encoding, keep the name as stored
+  }
+  const buffer = await loadPresentationFile(fileUrl);
+  const { metadata, slides } = isPdfBuffer(buffer)
+    ? await extractPdfPresentation(buffer, filename)
+    : extractPresentation(buffer, filename);
 
-  const metadata: PPTMetadata = {
-    filename,
-    fileSize: 1024 * 500, // Mock 500KB
-    slideCount: mockSlides.length,
-    createdAt: new Date(),
-    modifiedAt: new Date(),
-  };
+  if (slides.length === 0) {
+    throw new Error(`No slides found in ${filename}`);
+  }
 
-  console.log(`[PPTParser] Parsed ${mockSlides.length} slides from ${filename}`);
+  logger.info(`Parsed ${slides.length} slides from ${filename}`, {
+    fileSize: metadata.fileSize,
+    author: metadata.author,
+  });
 
-  return { metadata, slides: mockSlides };
+  return { metadata, slides };
 }
 
 /**
@@ -300,7 +291,8 @@ async function generateQuestionsAtLevel(
   slides: ParsedSlide[],
   projectTitle: string,
   level: QuestionLevel,
-  count: number = 5
+  count: number = 5,
+  idPrefix: string = level
 ): Promise<ReviewQuestion[]> {
   logger.info(`Generating ${count} ${level} questions`, { level, count });
 
@@ -355,12 +347,13 @@ Generate ${count} ${level.toUpperCase()} level questions.`),
   );
 
   return response.questions.map((q: { question: string; context: string; expectedPoints: string[]; slideReference: number }, idx: number) => ({
-    id: `${level}-${idx + 1}`,
+    id: `${idPrefix}-${idx + 1}`,
     level,
     question: q.question,
     context: q.context,
     expectedPoints: q.expectedPoints,
     slideReference: q.slideReference,
+    source: 'generated' as const,
   }));
 }
 
@@ -393,6 +386,250 @@ export async function generateAllQuestions(
   return { easy, medium, hard };
 }
 
+const CodeQuestionSchema = z.object({
+  questions: z.array(z.object({
+    level: z.enum(['medium', 'hard']),
+    question: z.string(),
+    context: z.string(),
+    expectedPoints: z.array(z.string()),
+    filePath: z.string(),
+    slideReference: z.number(),
+  })),
+});
+
+/**
+ * Generate questions grounded in the project's source code
+ *
+ * Questions name a concrete file and construct ("why does X in src/... do Y?"),
+ * and probe places where the slides claim something the code does not show.
+ * Questions citing a file that is not in the repository are dropped.
+ */
+export async function generateCodeQuestions(
+  slides: ParsedSlide[],
+  projectTitle: string,
+  repository: RepositoryContext,
+  count: number = 4
+): Promise<QuestionsByLevel> {
+  logger.info(`Generating ${count} code questions`, { repository: repository.name, files: repository.files.length });
+
+  const slideContent = slides
+    .map(s => `Slide ${s.slideNumber}: ${s.title}\n${s.content}`)
+    .join('\n\n');
+
+  const codeContent = repository.files
+    .map(f => `--- ${f.path} ---\n${f.content}`)
+    .join('\n\n');
+
+  const structuredLLM = getStructuredLLM(CodeQuestionSchema);
+
+  const response = await withCircuitBreaker(
+    'project-review-questions',
+    () => retryAsync(
+      () => withTimeout(
+        structuredLLM.invoke([
+          new SystemMessage(`You are an expert reviewer generating questions about a student's project from its source code.
+
+Generate MEDIUM and HARD questions that:
+- Name a specific file and function, class or block ("Why does \`load_data\` in \`src/data.py\` shuffle before splitting?")
+- Ask why the code is written that way, what happens in an edge case, or how it connects to what the slides describe
+- Can only be answered well by someone who wrote or deeply understands the code
+
+Where the slides claim something the code does not show (a technology, algorithm, feature or result),
+ask about that mismatch directly.
+
+filePath must be a path from the repository listing. slideReference is the related slide number, or 0 if none.`),
+          new HumanMessage(`Project: ${projectTitle}
+
+Repository: ${repository.name} (${repository.languages.join(', ')})
+Files:
+${repository.tree.slice(0, 100).join('\n')}
+
+${repository.readme ? `README:\n${repository.readme.slice(0, 3000)}\n\n` : ''}Source excerpts:
+${codeContent}
+
+Presentation Content:
+${slideContent}
+
+Generate ${count} code-grounded questions.`),
+        ]),
+        DEFAULT_LLM_TIMEOUT_CONFIG
+      ),
+      { maxRetries: 2 }
+    )
+  );
+
+  type CodeQuestion = z.infer<typeof CodeQuestionSchema>['questions'][number];
+
+  const knownFiles = new Set([...repository.tree, ...repository.files.map(f => f.path)]);
+  const result: QuestionsByLevel = { easy: [], medium: [], hard: [] };
+
+  (response.questions as CodeQuestion[])
+    .filter(q => knownFiles.has(q.filePath))
+    .forEach((q, idx) => {
+      const level = q.level === 'hard' ? QuestionLevel.HARD : QuestionLevel.MEDIUM;
+      result[level].push({
+        id: `code-${idx + 1}`,
+        level,
+        question: q.question,
+        context: `${q.filePath}: ${q.context}`,
+        expectedPoints: q.expectedPoints,
+        slideReference: slides.some(s => s.slideNumber === q.slideReference) ? q.slideReference : null,
+        source: 'code',
+        codeReference: q.filePath,
+      });
+    });
+
+  logger.info('Code question generation complete', {
+    medium: result.medium.length,
+    hard: result.hard.length,
+    dropped: response.questions.length - result.medium.length - result.hard.length,
+  });
+
+  return result;
+}
+
+// ============================================================================
+// Question Curation Service
+// ============================================================================
+
+/** Embedding cosine similarity at or above which two questions are near-duplicates */
+const SEMANTIC_DUPLICATE_THRESHOLD = 0.85;
+
+/** Most extra questions generated in one pass to cover missed slides */
+const MAX_COVERAGE_QUESTIONS = 5;
+
+/**
+ * Embed question texts; null if the embedding provider is unavailable
+ */
+async function embedQuestions(questions: ReviewQuestion[]): Promise<number[][] | null> {
+  if (questions.length === 0) return [];
+
+  try {
+    return await getEmbeddingProvider().embed(questions.map(q => q.question));
+  } catch (error) {
+    logger.warn('Question embedding failed, de-duplicating by wording only', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Remove near-duplicate questions across all levels
+ *
+ * Questions are kept in priority order: bank questions, then hard, medium
+ * and easy (the smaller, harder sets keep their copy). A duplicate is never
+ * removed if it is the only question about a substantive slide.
+ */
+async function removeNearDuplicates(
+  pool: QuestionsByLevel,
+  substantiveSlides: number[]
+): Promise<{ pool: QuestionsByLevel; removed: number }> {
+  const ordered = [
+    ...[QuestionLevel.EASY, QuestionLevel.MEDIUM, QuestionLevel.HARD].flatMap(level =>
+      pool[level].filter(q => q.source === 'bank')
+    ),
+    ...[QuestionLevel.HARD, QuestionLevel.MEDIUM, QuestionLevel.EASY].flatMap(level =>
+      pool[level].filter(q => q.source !== 'bank')
+    ),
+  ];
+
+  const vectors = await embedQuestions(ordered);
+  const substantive = new Set(substantiveSlides);
+  const slideCounts = new Map<number | null, number>();
+  for (const q of ordered) {
+    slideCounts.set(q.slideReference, (slideCounts.get(q.slideReference) ?? 0) + 1);
+  }
+
+  const keptIdx: number[] = [];
+  const removedIds = new Set<string>();
+
+  ordered.forEach((question, idx) => {
+    const duplicate = keptIdx.some(k =>
+      (vectors && cosineSimilarity(vectors[k], vectors[idx]) >= SEMANTIC_DUPLICATE_THRESHOLD) ||
+      questionSimilarity(ordered[k].question, question.question) >= DUPLICATE_QUESTION_THRESHOLD
+    );
+    const soleCoverage = question.slideReference !== null && substantive.has(question.slideReference) && slideCounts.get(question.slideReference) === 1;
+
+    if (duplicate && question.source !== 'bank' && !soleCoverage) {
+      removedIds.add(question.id);
+      slideCounts.set(question.slideReference, slideCounts.get(question.slideReference)! - 1);
+    } else {
+      keptIdx.push(idx);
+    }
+  });
+
+  return {
+    pool: {
+      easy: pool.easy.filter(q => !removedIds.has(q.id)),
+      medium: pool.medium.filter(q => !removedIds.has(q.id)),
+      hard: pool.hard.filter(q => !removedIds.has(q.id)),
+    },
+    removed: removedIds.size,
+  };
+}
+
+/**
+ * Post-process the question pool
+ *
+ * 1. Generate medium questions for substantive slides no question refers to
+ * 2. Remove near-duplicates across levels (embeddings, with a wording fallback)
+ * 3. Reorder each level so questions rotate through the slides
+ */
+export async function curateQuestionPool(
+  pool: QuestionsByLevel,
+  slides: ParsedSlide[],
+  projectTitle: string
+): Promise<{ pool: QuestionsByLevel; stats: QuestionPoolStats }> {
+  const substantiveSlides = getSubstantiveSlides(slides);
+  let curated = pool;
+  let questionsAdded = 0;
+
+  const allQuestions = () => [...curated.easy, ...curated.medium, ...curated.hard];
+  const covered = new Set(getCoveredSlides(allQuestions(), substantiveSlides));
+  const missed = slides.filter(s => substantiveSlides.includes(s.slideNumber) && !covered.has(s.slideNumber));
+
+  if (missed.length > 0) {
+    logger.info(`Generating questions for ${missed.length} uncovered slides`, {
+      slides: missed.map(s => s.slideNumber),
+    });
+
+    try {
+      const extra = await generateQuestionsAtLevel(
+        missed,
+        projectTitle,
+        QuestionLevel.MEDIUM,
+        Math.min(missed.length, MAX_COVERAGE_QUESTIONS),
+        'medium-coverage'
+      );
+      curated = { ...curated, medium: [...curated.medium, ...extra] };
+      questionsAdded = extra.length;
+    } catch (error) {
+      logger.warn('Coverage question generation failed, keeping the original pool', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const { pool: deduplicated, removed } = await removeNearDuplicates(curated, substantiveSlides);
+  curated = balanceBySlide(deduplicated);
+
+  const stats: QuestionPoolStats = {
+    substantiveSlides,
+    poolCoveredSlides: getCoveredSlides(allQuestions(), substantiveSlides),
+    duplicatesRemoved: removed,
+    questionsAdded,
+  };
+
+  logger.info('Question pool curated', {
+    duplicatesRemoved: removed,
+    questionsAdded,
+    coveredSlides: `${stats.poolCoveredSlides.length}/${substantiveSlides.length}`,
+  });
+
+  return { pool: curated, stats };
+}
+
 // ============================================================================
 // Answer Evaluation Service
 // ============================================================================
@@ -402,19 +639,123 @@ const AnswerEvaluationSchema = z.object({
   feedback: z.string(),
   demonstratesUnderstanding: z.boolean(),
   flaggedConcerns: z.array(z.string()),
+  criterionScores: z.array(z.object({
+    criterion: z.string(),
+    score: z.number().min(1).max(10).nullable(),
+    evidence: z.array(z.string()),
+  })),
+  expectedPoints: z.array(z.object({
+    point: z.string(),
+    status: z.enum(['covered', 'partial', 'missed']),
+    spans: z.array(z.string()),
+  })),
 });
 
 /**
- * Evaluate a candidate's answer to a review question
+ * Describe the rubric criteria for the evaluation prompt
+ */
+function formatRubric(rubric: ReviewRubric): string {
+  return rubric.criteria
+    .map(c => {
+      const anchors = c.descriptors.map(d => `    ${d.score}: ${d.description}`).join('\n');
+      return `- ${c.key} (${c.name}): ${c.description}${anchors ? `\n${anchors}` : ''}`;
+    })
+    .join('\n');
+}
+
+function normalizeForQuote(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+/**
+ * Quotes that actually appear in what the candidate said
+ * (drops paraphrases and invented quotes)
+ */
+function verifiedQuotes(quotes: string[], spoken: string): string[] {
+  return quotes
+    .map(quote => quote.trim())
+    .filter(quote => quote && spoken.includes(normalizeForQuote(quote)));
+}
+
+/**
+ * Keep only scores for known criteria, and drop evidence quotes that do not
+ * appear in what the candidate said
+ */
+function sanitizeCriterionScores(
+  scores: CriterionScore[],
+  rubric: ReviewRubric,
+  transcript: string
+): CriterionScore[] {
+  const spoken = normalizeForQuote(transcript);
+
+  return rubric.criteria.map(criterion => {
+    const score = scores.find(s => s.criterion === criterion.key);
+
+    return {
+      criterion: criterion.key,
+      score: score?.score ?? null,
+      evidence: verifiedQuotes(score?.evidence ?? [], spoken),
+    };
+  });
+}
+
+/**
+ * One coverage entry per expected point, in the question's order
+ *
+ * Entries are matched by point text, falling back to position. A point the
+ * model left out counts as missed, and a point marked covered without a
+ * single verifiable span is downgraded to partial.
+ */
+function sanitizePointCoverage(
+  coverage: ExpectedPointCoverage[],
+  expectedPoints: string[],
+  transcript: string
+): ExpectedPointCoverage[] {
+  const spoken = normalizeForQuote(transcript);
+
+  return expectedPoints.map((point, idx): ExpectedPointCoverage => {
+    const entry = coverage.find(c => normalizeForQuote(c.point) === normalizeForQuote(point))
+      ?? (coverage.length === expectedPoints.length ? coverage[idx] : undefined);
+
+    if (!entry || entry.status === 'missed') {
+      return { point, status: 'missed', spans: [] };
+    }
+
+    const spans = verifiedQuotes(entry.spans, spoken);
+
+    return {
+      point,
+      status: entry.status === 'covered' && spans.length === 0 ? 'partial' : entry.status,
+      spans,
+    };
+  });
+}
+
+/**
+ * Score an answer once
+ * Follow-up replies are judged together with the original answer
+ * Each rubric criterion is scored separately, with quotes as evidence
+ * Each expected point is marked covered, partial or missed
  * Includes retry logic
  */
-export async function evaluateReviewAnswer(
+async function evaluateAnswerSample(
   question: ReviewQuestion,
-  answer: string
+  answer: string,
+  followUps: ReviewFollowUp[],
+  rubric: ReviewRubric,
+  model?: string
 ): Promise<ReviewEvaluation> {
-  logger.info(`Evaluating answer to question: ${question.id}`, { questionId: question.id, level: question.level });
+  const structuredLLM = getStructuredLLM(
+    AnswerEvaluationSchema,
+    model ? { ...DEFAULT_LLM_CONFIGS.structured, model } : DEFAULT_LLM_CONFIGS.structured
+  );
 
-  const structuredLLM = getStructuredLLM(AnswerEvaluationSchema);
+  const followUpSection = followUps.length > 0
+    ? `
+Follow-up questions and replies (judge them together with the answer above):
+${followUps.map(f => `Q: ${f.question}\nA: ${f.answer}`).join('\n')}
+`
+    : '';
 
   const response = await retryAsync(
     () => withTimeout(
@@ -432,7 +773,18 @@ Flag concerns if:
 - Answer contradicts presentation content
 - Candidate seems unfamiliar with their own project
 - Answers are suspiciously vague or generic
-- Technical terms used incorrectly`),
+- Technical terms used incorrectly
+
+Also score the answer against each rubric criterion (1-10, using the anchors):
+${formatRubric(rubric)}
+
+For each criterion give a score and 1-2 short evidence quotes copied word-for-word
+from the candidate's answer. Use a null score and no quotes when the answer says
+nothing relevant to that criterion.
+
+Finally, for each expected point (in the order given) say whether the answer
+covered it, partially covered it or missed it, with the spans of the answer
+that address it copied word-for-word. Missed points have no spans.`),
         new HumanMessage(`Question (${question.level} level): ${question.question}
 
 Context from presentation: ${question.context}
@@ -441,7 +793,7 @@ Expected points to cover:
 ${question.expectedPoints.map(p => `- ${p}`).join('\n')}
 
 Candidate's answer: ${answer}
-
+${followUpSection}
 Evaluate this answer.`),
       ]),
       DEFAULT_LLM_TIMEOUT_CONFIG
@@ -449,7 +801,7 @@ Evaluate this answer.`),
     { maxRetries: 2 }
   );
 
-  logger.info('Evaluation complete', { questionId: question.id, score: response.score });
+  const transcript = [answer, ...followUps.map(f => f.answer)].join('\n');
 
   return {
     questionId: question.id,
@@ -457,9 +809,70 @@ Evaluate this answer.`),
     feedback: response.feedback,
     demonstratesUnderstanding: response.demonstratesUnderstanding,
     flaggedConcerns: response.flaggedConcerns,
+    followUpsAsked: followUps.length,
+    criterionScores: sanitizeCriterionScores(response.criterionScores, rubric, transcript),
+    expectedPointCoverage: sanitizePointCoverage(response.expectedPoints, question.expectedPoints, transcript),
   };
 }
 
+/**
+ * Evaluate a candidate's answer to a review question
+ *
+ * With more than one sample the answer is scored independently that many
+ * times (cycling through `config.models`) and the samples are combined into
+ * a mean score with its spread. Failed samples are dropped; the call only
+ * fails if every sample does.
+ */
+export async function evaluateReviewAnswer(
+  question: ReviewQuestion,
+  answer: string,
+  followUps: ReviewFollowUp[] = [],
+  rubric: ReviewRubric = DEFAULT_RUBRIC,
+  config: EvaluationConfig = getDefaultEvaluationConfig()
+): Promise<ReviewEvaluation> {
+  logger.info(`Evaluating answer to question: ${question.id}`, {
+    questionId: question.id,
+    level: question.level,
+    samples: config.samples,
+  });
+
+  const models = Array.from({ length: config.samples }, (_, i) =>
+    config.models.length > 0 ? config.models[i % config.models.length] : DEFAULT_LLM_CONFIGS.structured.model
+  );
+
+  const results = await Promise.allSettled(
+    models.map(model => evaluateAnswerSample(question, answer, followUps, rubric, model))
+  );
+
+  const samples: ReviewEvaluation[] = [];
+  const sampleModels: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      samples.push(result.value);
+      sampleModels.push(models[i]);
+    } else {
+      logger.warn('Evaluation sample failed', { questionId: question.id, model: models[i], error: String(result.reason) });
+    }
+  });
+
+  if (samples.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const evaluation = combineEvaluations(samples, sampleModels, config.disagreementThreshold);
+
+  logger.info('Evaluation complete', {
+    questionId: question.id,
+    score: evaluation.score,
+    ...(evaluation.scoreSpread && {
+      scores: evaluation.scoreSpread.scores,
+      disagreement: evaluation.scoreSpread.disagreement,
+    }),
+  });
+
+  return evaluation;
+}
+
 // ============================================================================
 // Report Generation Service
 // ============================================================================
@@ -496,6 +909,8 @@ const ReportAssessmentSchema = z.object({
   technicalUnderstanding: z.number().min(1).max(10),
   projectOwnership: z.number().min(1).max(10),
   communicationClarity: z.number().min(1).max(10),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
   aiContentConcerns: z.array(z.string()),
   knowledgeGaps: z.array(z.string()),
   overallAssessment: z.string(),
@@ -513,11 +928,17 @@ export async function generateReviewReport(
   pptMetadata: PPTMetadata,
   aiDetection: AIDetectionReport,
   evaluations: ReviewEvaluation[],
-  questions: ReviewQuestion[]
+  questions: ReviewQuestion[],
+  difficultyPath: DifficultyPath,
+  slideCoverage: SlideCoverage,
+  rubric: ReviewRubric = DEFAULT_RUBRIC,
+  slideCodeConsistency: SlideCodeConsistency | null = null
 ): Promise<ReviewReport> {
   console.log('[Report] Generating comprehensive review report...');
 
   const levelScores = calculateLevelScores(evaluations, questions);
+  const rubricScores = aggregateRubricScores(rubric, evaluations);
+  const evaluationConsistency = calculateEvaluationConsistency(evaluations);
   const totalScore = evaluations.length > 0
     ? evaluations.reduce((sum, e) => sum + e.score, 0) / evaluations.length
     : 0;
@@ -525,9 +946,32 @@ export async function generateReviewReport(
   // Compile evaluation summaries
   const evalSummary = evaluations.map(e => {
     const q = questions.find(q => q.id === e.questionId);
-    return `${q?.level.toUpperCase()} - Score: ${e.score}/10 - ${e.feedback}`;
+    const probed = e.followUpsAsked ? ` (after ${e.followUpsAsked} follow-up${e.followUpsAsked > 1 ? 's' : ''})` : '';
+    const spread = e.scoreSpread ? ` (samples ${e.scoreSpread.scores.join(', ')})` : '';
+    return `${q?.level.toUpperCase()} - Score: ${e.score.toFixed(1)}/10${spread}${probed} - ${e.feedback}`;
   }).join('\n');
 
+  // Explain level moves so the assessment accounts for an adaptive path
+  const pathSummary = difficultyPath.decisions
+    .filter(d => d.action !== 'stay')
+    .map(d => `After Q${d.afterQuestion}: ${d.action.replace('_', ' ')} ${d.fromLevel} -> ${d.toLevel ?? 'end'} (${d.reason})`)
+    .join('\n') || 'No level changes';
+
+  const rubricSummary = rubricScores.criteria
+    .map(c => `${c.name} (weight ${c.weight}): ${c.averageScore !== null ? `${c.averageScore.toFixed(1)}/10 over ${c.scoredAnswers} answers` : 'no evidence'}`)
+    .join('\n');
+
+  // Mismatches go into the report verbatim; the LLM only weighs them
+  const consistencyFindings = slideCodeConsistency
+    ? describeSlideCodeConsistency(slideCodeConsistency)
+    : { concerns: [], gaps: [] };
+  const consistencySummary = slideCodeConsistency
+    ? `\nSlide-Code Consistency (already listed in the report, do not repeat):
+Matched: ${slideCodeConsistency.matched.join(', ') || 'none'}
+${[...consistencyFindings.concerns, ...consistencyFindings.gaps].join('\n') || 'No mismatches'}
+`
+    : '';
+
   // Get AI assessment
   const structuredLLM = getStructuredLLM(ReportAssessmentSchema);
 
@@ -540,6 +984,7 @@ Consider:
 3. Any flagged concerns during questioning
 4. Overall demonstration of project ownership
 
+List concrete strengths the candidate showed and specific improvements they should make.
 Be fair but thorough.`),
     new HumanMessage(`Candidate: ${candidateName}
 Project: ${projectTitle}
@@ -554,6 +999,14 @@ Easy: ${levelScores.easy.asked} questions, avg ${levelScores.easy.avgScore.toFix
 Medium: ${levelScores.medium.asked} questions, avg ${levelScores.medium.avgScore.toFixed(1)}/10
 Hard: ${levelScores.hard.asked} questions, avg ${levelScores.hard.avgScore.toFixed(1)}/10
 
+Difficulty Path (${difficultyPath.policy} policy):
+${pathSummary}
+
+Rubric (${rubricScores.rubricName}), weighted ${rubricScores.weightedScore !== null ? `${rubricScores.weightedScore.toFixed(1)}/10` : 'n/a'}:
+${rubricSummary}
+
+Slide Coverage: asked about ${slideCoverage.askedCoveredSlides.length}/${slideCoverage.substantiveSlides.length} substantive slides${slideCoverage.uncoveredSlides.length > 0 ? ` (not discussed: slides ${slideCoverage.uncoveredSlides.join(', ')})` : ''}
+${consistencySummary}
 Detailed Evaluations:
 ${evalSummary}
 
@@ -570,13 +1023,21 @@ Generate the final assessment.`),
     levelScores,
     totalQuestions: evaluations.length,
     averageScore: totalScore,
+    difficultyPath,
+    slideCoverage,
+    rubricScores,
+    evaluationConsistency,
+    slideCodeConsistency,
     technicalUnderstanding: response.technicalUnderstanding,
     projectOwnership: response.projectOwnership,
     communicationClarity: response.communicationClarity,
-    aiContentConcerns: response.aiContentConcerns,
-    knowledgeGaps: response.knowledgeGaps,
+    strengths: response.strengths,
+    improvements: response.improvements,
+    aiContentConcerns: [...response.aiContentConcerns, ...consistencyFindings.concerns],
+    knowledgeGaps: [...response.knowledgeGaps, ...consistencyFindings.gaps],
     overallAssessment: response.overallAssessment,
-    recommendation: response.recommendation,
+    // Scores the samples disagreed on are not reliable enough to pass or fail on
+    recommendation: evaluationConsistency.disagreements.length > 0 ? 'needs_review' : response.recommendation,
     nextSteps: response.nextSteps,
   };
 }
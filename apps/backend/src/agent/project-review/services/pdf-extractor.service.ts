@@ -0,0 +1,50 @@
+/**
+ * PDF Extractor Service
+ * Reads an uploaded PDF deck and maps each page to a slide
+ *
+ * Page text is grouped into lines by the RAG PDF processor; this service
+ * only shapes the result into the agent's ParsedSlide / PPTMetadata types.
+ * PDFs carry no speaker notes and no chart objects, so notes are left
+ * empty and charts are never flagged.
+ */
+
+import { parsePdfBuffer } from '../../../services/rag/pdf-processor.service.js';
+import type { ExtractedPresentation } from './pptx-extractor.service.js';
+import type { ParsedSlide, PPTMetadata } from '../types/index.js';
+
+// Re-exported so callers can sniff the format without importing the RAG layer
+export { isPdfBuffer } from '../../../services/rag/pdf-processor.service.js';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extract pages and document metadata from a PDF buffer
+ */
+export async function extractPdfPresentation(
+  buffer: Uint8Array,
+  filename: string
+): Promise<ExtractedPresentation> {
+  const { info, pages } = await parsePdfBuffer(buffer);
+
+  const slides: ParsedSlide[] = pages.map(page => ({
+    slideNumber: page.pageNumber,
+    title: page.title || `Slide ${page.pageNumber}`,
+    content: page.lines.join('\n'),
+    bullets: page.bulletPoints,
+    hasImages: page.hasImages,
+    hasCharts: false,
+  }));
+
+  const metadata: PPTMetadata = {
+    filename,
+    fileSize: buffer.byteLength,
+    slideCount: info.pageCount,
+    author: info.author,
+    createdAt: info.createdAt,
+    modifiedAt: info.modifiedAt,
+  };
+
+  return { metadata, slides };
+}
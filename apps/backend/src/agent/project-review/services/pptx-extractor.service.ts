@@ -0,0 +1,340 @@
+/**
+ * PPTX Extractor Service
+ * Reads an uploaded PowerPoint (OOXML) package and extracts slide content
+ *
+ * This service:
+ * - Loads the file from local uploads or a public (R2) URL
+ * - Orders slides as they appear in ppt/presentation.xml
+ * - Splits each slide into title, body text and bullets
+ * - Reads speaker notes from the linked notes slide
+ * - Detects pictures and charts from the slide XML
+ * - Reads author and dates from docProps/core.xml
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { strFromU8 } from 'fflate';
+
+import { isR2PublicUrl } from '../../../services/r2.service.js';
+import { unzipLimited } from '../../../services/rag/repo-processor.service.js';
+import type { ParsedSlide, PPTMetadata } from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ExtractedPresentation {
+  metadata: PPTMetadata;
+  slides: ParsedSlide[];
+}
+
+type PackageEntries = Record<string, Uint8Array>;
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+interface ShapeText {
+  isTitle: boolean;
+  isBodyPlaceholder: boolean;
+  paragraphs: { text: string; bulleted: boolean }[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Upload directory used by the project review controller */
+const UPLOAD_ROOT = path.join(process.cwd(), 'uploads');
+
+/** Placeholder types that carry the slide title */
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+
+/** Placeholder types that never carry presentation content */
+const IGNORED_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'hdr', 'sldImg']);
+
+/** Fallback title length when no title placeholder exists */
+const MAX_FALLBACK_TITLE_LENGTH = 100;
+
+const CHART_URI_PATTERN = /graphicData[^>]*uri="[^"]*\/(chart|chartex)"/;
+const PICTURE_PATTERN = /<p:pic\b|<a:blip\b/;
+
+// ============================================================================
+// File Loading
+// ============================================================================
+
+/**
+ * Load presentation bytes from the R2 public bucket or a local uploads path
+ * Anything else (other hosts, paths outside the upload root) is rejected
+ */
+export async function loadPresentationFile(fileUrl: string): Promise<Buffer> {
+  if (/^https?:\/\//i.test(fileUrl)) {
+    if (!isR2PublicUrl(fileUrl)) {
+      throw new Error('Presentation URL is not in the configured file storage');
+    }
+
+    const response = await fetch(fileUrl, { redirect: 'error' });
+    if (!response.ok) {
+      throw new Error(`Failed to download presentation (${response.status} ${response.statusText})`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  // Stored URLs look like /uploads/ppt/<file>, resolve them against the upload root
+  if (!fileUrl.startsWith('/uploads/')) {
+    throw new Error('Presentation path is not in the uploads directory');
+  }
+
+  const localPath = path.resolve(UPLOAD_ROOT, fileUrl.slice('/uploads/'.length));
+  if (!localPath.startsWith(UPLOAD_ROOT + path.sep)) {
+    throw new Error('Presentation path is not in the uploads directory');
+  }
+
+  return readFile(localPath);
+}
+
+// ============================================================================
+// XML Helpers
+// ============================================================================
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function readEntry(entries: PackageEntries, name: string): string | null {
+  const data = entries[name];
+  return data ? strFromU8(data) : null;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+function getElementText(xml: string, tagName: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tagName}\\b[^>]*>([\\s\\S]*?)</${tagName}>`));
+  return match ? decodeXmlEntities(match[1]).trim() : undefined;
+}
+
+function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Resolve a relationship target relative to the part that owns it
+ */
+function resolvePartPath(ownerPart: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(ownerPart), target));
+}
+
+/**
+ * Read the relationships of a package part (e.g. ppt/slides/_rels/slide1.xml.rels)
+ */
+function readRelationships(entries: PackageEntries, ownerPart: string): Relationship[] {
+  const relsPath = path.posix.join(
+    path.posix.dirname(ownerPart),
+    '_rels',
+    `${path.posix.basename(ownerPart)}.rels`
+  );
+  const xml = readEntry(entries, relsPath);
+  if (!xml) return [];
+
+  const relationships: Relationship[] = [];
+  for (const tag of xml.match(/<Relationship\b[^>]*>/g) || []) {
+    const id = getAttribute(tag, 'Id');
+    const type = getAttribute(tag, 'Type');
+    const target = getAttribute(tag, 'Target');
+    if (id && type && target && getAttribute(tag, 'TargetMode') !== 'External') {
+      relationships.push({ id, type, target: resolvePartPath(ownerPart, target) });
+    }
+  }
+  return relationships;
+}
+
+// ============================================================================
+// Slide Parsing
+// ============================================================================
+
+/**
+ * Get slide part paths in presentation order
+ * Falls back to numeric file order if presentation.xml cannot be read
+ */
+function getOrderedSlidePaths(entries: PackageEntries): string[] {
+  const presentationPart = 'ppt/presentation.xml';
+  const presentationXml = readEntry(entries, presentationPart);
+
+  if (presentationXml) {
+    const relsById = new Map(
+      readRelationships(entries, presentationPart).map(rel => [rel.id, rel.target])
+    );
+    const ordered = (presentationXml.match(/<p:sldId\b[^>]*>/g) || [])
+      .map(tag => relsById.get(getAttribute(tag, 'r:id') || ''))
+      .filter((target): target is string => !!target && !!entries[target]);
+
+    if (ordered.length > 0) return ordered;
+  }
+
+  return Object.keys(entries)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+}
+
+/**
+ * Extract the text paragraphs of every shape (p:sp) on a slide
+ */
+function extractShapes(slideXml: string): ShapeText[] {
+  const shapes: ShapeText[] = [];
+
+  for (const shapeXml of slideXml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) || []) {
+    const placeholderTag = shapeXml.match(/<p:ph\b[^>]*>/)?.[0];
+    const placeholderType = placeholderTag ? getAttribute(placeholderTag, 'type') || 'body' : null;
+
+    if (placeholderType && IGNORED_PLACEHOLDERS.has(placeholderType)) continue;
+
+    const isTitle = !!placeholderType && TITLE_PLACEHOLDERS.has(placeholderType);
+    const isBodyPlaceholder = placeholderType === 'body' || placeholderType === 'obj';
+
+    const paragraphs: ShapeText['paragraphs'] = [];
+    for (const paragraphXml of shapeXml.match(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g) || []) {
+      const text = (paragraphXml.match(/<a:t\b[^>]*>[\s\S]*?<\/a:t>|<a:br\b[^>]*\/>/g) || [])
+        .map(run => run.startsWith('<a:br') ? ' ' : decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (!text) continue;
+
+      // Body placeholders are bulleted unless the paragraph opts out;
+      // free text boxes only when a bullet is set explicitly
+      const explicitBullet = /<a:bu(Char|AutoNum|Blip)\b/.test(paragraphXml);
+      const noBullet = /<a:buNone\b/.test(paragraphXml);
+      const bulleted = !isTitle && !noBullet && (explicitBullet || isBodyPlaceholder);
+
+      paragraphs.push({ text, bulleted });
+    }
+
+    if (paragraphs.length > 0) {
+      shapes.push({ isTitle, isBodyPlaceholder, paragraphs });
+    }
+  }
+
+  return shapes;
+}
+
+/**
+ * Extract text from table cells (graphic frames are not p:sp shapes)
+ */
+function extractTableRows(slideXml: string): string[] {
+  const rows: string[] = [];
+  for (const rowXml of slideXml.match(/<a:tr\b[\s\S]*?<\/a:tr>/g) || []) {
+    const cells = (rowXml.match(/<a:tc\b[\s\S]*?<\/a:tc>/g) || []).map(cellXml =>
+      (cellXml.match(/<a:t\b[^>]*>[\s\S]*?<\/a:t>/g) || [])
+        .map(run => decodeXmlEntities(run.replace(/<[^>]+>/g, '')))
+        .join(' ')
+        .trim()
+    );
+    if (cells.some(Boolean)) rows.push(cells.join(' | '));
+  }
+  return rows;
+}
+
+/**
+ * Extract speaker notes text from a notes slide part
+ */
+function extractNotes(notesXml: string): string | undefined {
+  const text = extractShapes(notesXml)
+    .filter(shape => shape.isBodyPlaceholder)
+    .flatMap(shape => shape.paragraphs.map(p => p.text))
+    .join('\n')
+    .trim();
+  return text || undefined;
+}
+
+function parseSlide(
+  entries: PackageEntries,
+  slidePath: string,
+  slideNumber: number
+): ParsedSlide {
+  const slideXml = readEntry(entries, slidePath) || '';
+  const relationships = readRelationships(entries, slidePath);
+  const shapes = extractShapes(slideXml);
+
+  // Title comes from the title placeholder, otherwise the first short line
+  let title = shapes
+    .filter(shape => shape.isTitle)
+    .flatMap(shape => shape.paragraphs.map(p => p.text))
+    .join(' ');
+
+  const bodyParagraphs = shapes
+    .filter(shape => !shape.isTitle)
+    .flatMap(shape => shape.paragraphs);
+
+  if (!title && bodyParagraphs.length > 0 && bodyParagraphs[0].text.length <= MAX_FALLBACK_TITLE_LENGTH) {
+    title = bodyParagraphs.shift()!.text;
+  }
+
+  const bullets = bodyParagraphs.filter(p => p.bulleted).map(p => p.text);
+  const contentLines = [
+    ...bodyParagraphs.filter(p => !p.bulleted).map(p => p.text),
+    ...extractTableRows(slideXml),
+  ];
+
+  const notesRel = relationships.find(rel => rel.type.endsWith('/notesSlide'));
+  const notesXml = notesRel ? readEntry(entries, notesRel.target) : null;
+
+  return {
+    slideNumber,
+    title: title || `Slide ${slideNumber}`,
+    content: contentLines.join('\n'),
+    bullets,
+    notes: notesXml ? extractNotes(notesXml) : undefined,
+    hasImages: PICTURE_PATTERN.test(slideXml) || relationships.some(rel => rel.type.endsWith('/image')),
+    hasCharts: CHART_URI_PATTERN.test(slideXml) || relationships.some(rel => /\/chart(Ex)?$/.test(rel.type)),
+  };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Extract slides and document metadata from a PPTX buffer
+ */
+export function extractPresentation(buffer: Uint8Array, filename: string): ExtractedPresentation {
+  // OOXML packages are ZIP archives and start with the "PK" signature
+  if (buffer.length < 4 || buffer[0] !== 0x50 || buffer[1] !== 0x4b) {
+    throw new Error(`Unsupported presentation format for ${filename}. Please upload a .pptx or .pdf file.`);
+  }
+
+  // Bounded inflate: an uploaded package may be a decompression bomb
+  const entries: PackageEntries = unzipLimited(buffer, name => name.endsWith('.xml') || name.endsWith('.rels'));
+
+  const slides = getOrderedSlidePaths(entries).map((slidePath, idx) =>
+    parseSlide(entries, slidePath, idx + 1)
+  );
+
+  const coreXml = readEntry(entries, 'docProps/core.xml') || '';
+  const author = getElementText(coreXml, 'dc:creator') || getElementText(coreXml, 'cp:lastModifiedBy');
+
+  const metadata: PPTMetadata = {
+    filename,
+    fileSize: buffer.byteLength,
+    slideCount: slides.length,
+    author: author || undefined,
+    createdAt: parseDate(getElementText(coreXml, 'dcterms:created')),
+    modifiedAt: parseDate(getElementText(coreXml, 'dcterms:modified')),
+  };
+
+  return { metadata, slides };
+}
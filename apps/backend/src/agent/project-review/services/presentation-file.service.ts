@@ -0,0 +1,22 @@
+/**
+ * Presentation File Service
+ * Looks up the presentation stored for a review
+ */
+
+import { prisma } from '../../../db/prisma.js';
+
+/**
+ * Presentation URL saved by the upload endpoint for the review hosted in `roomName`
+ * Null when no presentation has been uploaded
+ *
+ * The agent loads this instead of any URL sent in a data message, so a
+ * participant cannot point it at another file.
+ */
+export async function loadStoredPresentationUrl(roomName: string): Promise<string | null> {
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: { pptFileUrl: true },
+  });
+
+  return review?.pptFileUrl ?? null;
+}
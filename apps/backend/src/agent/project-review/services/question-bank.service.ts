@@ -0,0 +1,80 @@
+/**
+ * Question Bank Service
+ * Loads faculty-authored questions from the banks attached to a review
+ */
+
+import { prisma } from '../../../db/prisma.js';
+import { createNodeLogger } from '../../core/utils/index.js';
+import { QuestionLevel, type QuestionsByLevel } from '../types/index.js';
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+const logger = createNodeLogger('ProjectReviewAgent', 'QuestionBanks');
+
+// ============================================================================
+// Bank Questions
+// ============================================================================
+
+/**
+ * Load the questions of every bank attached to the review hosted in `roomName`
+ *
+ * Banks keep the order they were attached in; questions keep their
+ * position within the bank.
+ */
+export async function loadBankQuestions(roomName: string): Promise<QuestionsByLevel> {
+  const result: QuestionsByLevel = {
+    [QuestionLevel.EASY]: [],
+    [QuestionLevel.MEDIUM]: [],
+    [QuestionLevel.HARD]: [],
+  };
+
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: {
+      questionBanks: {
+        orderBy: { attachedAt: 'asc' },
+        select: {
+          bank: {
+            select: {
+              name: true,
+              questions: { orderBy: { position: 'asc' } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!review) {
+    logger.warn('No project review found for room, no bank questions loaded', { roomName });
+    return result;
+  }
+
+  for (const { bank } of review.questionBanks) {
+    for (const q of bank.questions) {
+      const level = q.level as QuestionLevel;
+      result[level].push({
+        id: `bank-${q.id}`,
+        level,
+        question: q.question,
+        context: `Faculty question bank: ${bank.name}`,
+        expectedPoints: Array.isArray(q.expectedPoints)
+          ? q.expectedPoints.filter((p): p is string => typeof p === 'string')
+          : [],
+        slideReference: null,
+        source: 'bank',
+      });
+    }
+  }
+
+  logger.info('Loaded bank questions', {
+    banks: review.questionBanks.length,
+    easy: result.easy.length,
+    medium: result.medium.length,
+    hard: result.hard.length,
+  });
+
+  return result;
+}
@@ -0,0 +1,100 @@
+/**
+ * Question Record Service
+ * Writes each asked question, the candidate's answer and its evaluation
+ * to the review_question_records table so faculty can audit the session
+ */
+
+import { prisma, toJsonValue } from '../../../db/prisma.js';
+import type { Prisma } from '../../../generated/prisma/index.js';
+import { createNodeLogger } from '../../core/utils/index.js';
+import type { ReviewQuestion, ReviewAnswer, ReviewEvaluation } from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QuestionRecordInput {
+  /** 1-based position of the question in the session */
+  sequence: number;
+  question: ReviewQuestion;
+  answer: ReviewAnswer;
+  /** Null when the evaluation call failed */
+  evaluation: ReviewEvaluation | null;
+  askedAt: Date | null;
+}
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+const logger = createNodeLogger('ProjectReviewAgent', 'QuestionRecords');
+
+// ============================================================================
+// Question Records
+// ============================================================================
+
+/**
+ * Persist a single Q&A record for the review hosted in `roomName`
+ *
+ * Keyed on (review, question) so a re-evaluated question replaces
+ * its earlier record.
+ *
+ * @returns The record ID, or null if no review exists for the room
+ */
+export async function saveQuestionRecord(
+  roomName: string,
+  input: QuestionRecordInput
+): Promise<string | null> {
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: { id: true },
+  });
+
+  if (!review) {
+    logger.warn('No project review found for room, question record not persisted', { roomName });
+    return null;
+  }
+
+  const { question, answer, evaluation } = input;
+
+  const data: Omit<Prisma.ReviewQuestionRecordUncheckedCreateInput, 'reviewId' | 'questionId'> = {
+    sequence: input.sequence,
+    source: question.source ?? 'generated',
+    level: question.level,
+    question: question.question,
+    context: question.context || null,
+    expectedPoints: question.expectedPoints,
+    slideReference: question.slideReference,
+    transcript: answer.transcript,
+    answerDurationSeconds: answer.duration,
+    followUps: (answer.followUps ?? []).map(f => ({
+      question: f.question,
+      reason: f.reason,
+      answer: f.answer,
+    })),
+    score: evaluation?.score ?? null,
+    feedback: evaluation?.feedback ?? null,
+    demonstratesUnderstanding: evaluation?.demonstratesUnderstanding ?? null,
+    flaggedConcerns: evaluation?.flaggedConcerns ?? [],
+    criterionScores: toJsonValue(evaluation?.criterionScores ?? []),
+    expectedPointCoverage: toJsonValue(evaluation?.expectedPointCoverage ?? []),
+    ...(evaluation?.scoreSpread && { scoreSpread: toJsonValue(evaluation.scoreSpread) }),
+    askedAt: input.askedAt,
+    answeredAt: answer.timestamp,
+  };
+
+  const record = await prisma.reviewQuestionRecord.upsert({
+    where: {
+      reviewId_questionId: {
+        reviewId: review.id,
+        questionId: question.id,
+      },
+    },
+    create: { reviewId: review.id, questionId: question.id, ...data },
+    update: data,
+  });
+
+  logger.debug('Question record persisted', { reviewId: review.id, questionId: question.id });
+
+  return record.id;
+}
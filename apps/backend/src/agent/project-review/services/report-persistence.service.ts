@@ -0,0 +1,90 @@
+/**
+ * Report Persistence Service
+ * Writes the final review report to the project_review_reports table
+ */
+
+import { prisma, toJsonValue } from '../../../db/prisma.js';
+import type { Prisma } from '../../../generated/prisma/index.js';
+import { createNodeLogger } from '../../core/utils/index.js';
+import type { ReviewReport } from '../types/index.js';
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+const logger = createNodeLogger('ProjectReviewAgent', 'ReportPersistence');
+
+// ============================================================================
+// Report Persistence
+// ============================================================================
+
+/**
+ * Persist the final report for the review hosted in `roomName`
+ * and mark the review completed.
+ *
+ * Uses an upsert keyed on the review so re-running the report step
+ * overwrites the previous result instead of creating a duplicate.
+ *
+ * @returns The persisted report ID, or null if no review exists for the room
+ */
+export async function saveReviewReport(
+  roomName: string,
+  report: ReviewReport,
+  durationSeconds: number
+): Promise<string | null> {
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: { id: true, completedAt: true },
+  });
+
+  if (!review) {
+    logger.warn('No project review found for room, report not persisted', { roomName });
+    return null;
+  }
+
+  const { levelScores, aiDetection } = report;
+
+  const data: Omit<Prisma.ProjectReviewReportUncheckedCreateInput, 'reviewId'> = {
+    aiDetectionResult: aiDetection.overallResult,
+    aiDetectionConfidence: aiDetection.overallConfidence,
+    aiDetectionSummary: aiDetection.summary,
+    totalQuestions: report.totalQuestions,
+    easyQuestions: levelScores.easy.asked,
+    mediumQuestions: levelScores.medium.asked,
+    hardQuestions: levelScores.hard.asked,
+    overallScore: report.averageScore,
+    understandingScore: report.technicalUnderstanding,
+    clarityScore: report.communicationClarity,
+    depthScore: report.projectOwnership,
+    levelScores: toJsonValue(levelScores),
+    difficultyPath: toJsonValue(report.difficultyPath),
+    slideCoverage: toJsonValue(report.slideCoverage),
+    rubricScores: toJsonValue(report.rubricScores),
+    evaluationConsistency: toJsonValue(report.evaluationConsistency),
+    ...(report.slideCodeConsistency && { slideCodeConsistency: toJsonValue(report.slideCodeConsistency) }),
+    strengths: report.strengths,
+    improvements: report.improvements,
+    summary: report.overallAssessment,
+    recommendation: report.recommendation,
+    durationSeconds: Math.round(durationSeconds),
+  };
+
+  const [saved] = await prisma.$transaction([
+    prisma.projectReviewReport.upsert({
+      where: { reviewId: review.id },
+      create: { reviewId: review.id, ...data },
+      update: data,
+    }),
+    prisma.projectReview.update({
+      where: { id: review.id },
+      data: {
+        status: 'completed',
+        completedAt: review.completedAt ?? new Date(),
+      },
+    }),
+  ]);
+
+  logger.info('Review report persisted', { reviewId: review.id, reportId: saved.id });
+
+  return saved.id;
+}
@@ -0,0 +1,84 @@
+/**
+ * Repository Service
+ * Loads the ingested project repository for code-grounded questions
+ */
+
+import { prisma } from '../../../db/prisma.js';
+import { createNodeLogger } from '../../core/utils/index.js';
+import { getAllChunks } from '../../../services/rag/vector-store.service.js';
+import type { RepositoryContext } from '../types/index.js';
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+const logger = createNodeLogger('ProjectReviewAgent', 'Repository');
+
+// ============================================================================
+// Repository Loading
+// ============================================================================
+
+/** Source characters per file and in total given to the LLM */
+const MAX_FILE_CHARS = 3000;
+const MAX_TOTAL_CHARS = 24000;
+
+/**
+ * Repository context for the review hosted in `roomName`
+ * Null when no repository has been ingested
+ *
+ * File contents come from the indexed code chunks, so the agent sees
+ * exactly what retrieval can cite.
+ */
+export async function loadRepositoryContext(roomName: string): Promise<RepositoryContext | null> {
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: { id: true, repository: true },
+  });
+
+  const repository = review?.repository as {
+    name: string;
+    tree: string[];
+    languages: { language: string; share: number }[];
+    dependencies?: { packages: string[]; imports: string[] };
+  } | null | undefined;
+
+  if (!review || !repository) return null;
+
+  const chunks = await getAllChunks(review.id);
+  const readme = chunks
+    .filter(c => c.chunkType === 'readme')
+    .map(c => c.content.replace(/^README:\n/, ''))
+    .join('\n') || null;
+
+  // Regroup code chunks by file, in chunk order
+  const byFile = new Map<string, string>();
+  for (const chunk of chunks.filter(c => c.chunkType === 'code' && c.slideTitle)) {
+    const body = chunk.content.slice(chunk.content.indexOf('\n') + 1);
+    const existing = byFile.get(chunk.slideTitle!) ?? '';
+    if (existing.length < MAX_FILE_CHARS) {
+      byFile.set(chunk.slideTitle!, (existing ? `${existing}\n` : '') + body);
+    }
+  }
+
+  const files: RepositoryContext['files'] = [];
+  let total = 0;
+  for (const [filePath, content] of byFile) {
+    const trimmed = content.slice(0, MAX_FILE_CHARS);
+    if (total + trimmed.length > MAX_TOTAL_CHARS) break;
+    files.push({ path: filePath, content: trimmed });
+    total += trimmed.length;
+  }
+
+  logger.info('Loaded repository', { roomName, repository: repository.name, files: files.length });
+
+  return {
+    name: repository.name,
+    languages: repository.languages.map(l => `${l.language} ${(l.share * 100).toFixed(0)}%`),
+    tree: repository.tree,
+    readme,
+    files,
+    // Absent for repositories ingested before dependency extraction
+    packages: repository.dependencies?.packages ?? [],
+    imports: repository.dependencies?.imports ?? [],
+  };
+}
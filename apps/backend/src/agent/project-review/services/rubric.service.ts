@@ -0,0 +1,80 @@
+/**
+ * Rubric Service
+ * Loads the grading rubric for a review
+ */
+
+import { prisma } from '../../../db/prisma.js';
+import type { Prisma } from '../../../generated/prisma/index.js';
+import { createNodeLogger } from '../../core/utils/index.js';
+import { DEFAULT_RUBRIC } from '../utils/rubric.js';
+import type { ReviewRubric, RubricDescriptor } from '../types/index.js';
+
+// ============================================================================
+// Logger
+// ============================================================================
+
+const logger = createNodeLogger('ProjectReviewAgent', 'Rubrics');
+
+// ============================================================================
+// Rubric Loading
+// ============================================================================
+
+const RUBRIC_INCLUDE = {
+  criteria: { orderBy: { position: 'asc' } },
+} satisfies Prisma.RubricInclude;
+
+type RubricWithCriteria = Prisma.RubricGetPayload<{ include: typeof RUBRIC_INCLUDE }>;
+
+/**
+ * Score anchors stored on a criterion, skipping entries without a numeric score and a description
+ */
+function parseDescriptors(value: Prisma.JsonValue): RubricDescriptor[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap(descriptor => {
+    if (!descriptor || typeof descriptor !== 'object' || Array.isArray(descriptor)) return [];
+    const { score, description } = descriptor;
+    return typeof score === 'number' && typeof description === 'string' ? [{ score, description }] : [];
+  });
+}
+
+function toReviewRubric(rubric: RubricWithCriteria): ReviewRubric {
+  return {
+    id: rubric.id,
+    name: rubric.name,
+    criteria: rubric.criteria.map((c: RubricWithCriteria['criteria'][number]) => ({
+      key: c.key,
+      name: c.name,
+      description: c.description,
+      weight: c.weight,
+      descriptors: parseDescriptors(c.descriptors),
+    })),
+  };
+}
+
+/**
+ * Rubric for the review hosted in `roomName`
+ *
+ * Falls back to the rubric marked default in the database, then to
+ * the built-in DEFAULT_RUBRIC.
+ */
+export async function loadReviewRubric(roomName: string): Promise<ReviewRubric> {
+  const review = await prisma.projectReview.findUnique({
+    where: { roomId: roomName },
+    select: { rubric: { include: RUBRIC_INCLUDE } },
+  });
+
+  const rubric = review?.rubric ?? await prisma.rubric.findFirst({
+    where: { isDefault: true },
+    orderBy: { updatedAt: 'desc' },
+    include: RUBRIC_INCLUDE,
+  });
+
+  if (!rubric || rubric.criteria.length === 0) {
+    logger.info('No rubric configured, using built-in default', { roomName });
+    return DEFAULT_RUBRIC;
+  }
+
+  logger.info('Loaded rubric', { roomName, rubric: rubric.name, criteria: rubric.criteria.length });
+  return toReviewRubric(rubric);
+}
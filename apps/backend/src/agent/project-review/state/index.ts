@@ -17,6 +17,12 @@ import type {
   ReviewTimeState,
   ReviewConnectionState,
   QuestionLevel,
+  DifficultyDecision,
+  EvaluationConfig,
+  PendingFollowUp,
+  QuestionPoolStats,
+  ReviewRubric,
+  SlideCodeConsistency,
 } from '../types/index.js';
 import type { TranscriptEntry } from '../../core/types.js';
 
@@ -48,11 +54,17 @@ export interface ProjectReviewStateType {
     medium: ReviewQuestion[];
     hard: ReviewQuestion[];
   };
+  questionPoolStats: QuestionPoolStats | null;
+  slideCodeConsistency: SlideCodeConsistency | null;
   currentQuestion: ReviewQuestion | null;
   questionsAsked: ReviewQuestion[];
   currentLevel: QuestionLevel;
+  difficultyDecisions: DifficultyDecision[];
+  followUp: PendingFollowUp | null;
 
   // Answers & Evaluations
+  rubric: ReviewRubric | null;
+  evaluationConfig: EvaluationConfig | null;
   answers: ReviewAnswer[];
   evaluations: ReviewEvaluation[];
 
@@ -136,14 +148,23 @@ export const ProjectReviewState = Annotation.Root({
     reducer: (current, update) => update ?? current,
     default: () => ({ easy: [], medium: [], hard: [] }),
   }),
+  questionPoolStats: Annotation<QuestionPoolStats | null>,
+  slideCodeConsistency: Annotation<SlideCodeConsistency | null>,
   currentQuestion: Annotation<ReviewQuestion | null>,
   questionsAsked: Annotation<ReviewQuestion[]>({
     reducer: arrayReducer,
     default: () => [],
   }),
   currentLevel: Annotation<QuestionLevel>,
+  difficultyDecisions: Annotation<DifficultyDecision[]>({
+    reducer: arrayReducer,
+    default: () => [],
+  }),
+  followUp: Annotation<PendingFollowUp | null>,
 
   // Answers & Evaluations - these accumulate
+  rubric: Annotation<ReviewRubric | null>,
+  evaluationConfig: Annotation<EvaluationConfig | null>,
   answers: Annotation<ReviewAnswer[]>({
     reducer: arrayReducer,
     default: () => [],
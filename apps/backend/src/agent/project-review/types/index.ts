@@ -90,15 +90,35 @@ export interface ReviewQuestion {
   question: string;
   context: string; // Which slide/content this relates to
   expectedPoints: string[];
-  slideReference: number;
+  slideReference: number | null; // null when not tied to a slide (bank questions)
+  source?: QuestionSource;
+  codeReference?: string; // Repository file the question is about (code questions)
 }
 
+/** Where a question came from */
+export type QuestionSource = 'generated' | 'bank' | 'code';
+
+/** Ingested project repository, as given to question generation */
+export interface RepositoryContext {
+  name: string;
+  languages: string[]; // e.g. "Python 82%"
+  tree: string[];
+  readme: string | null;
+  files: { path: string; content: string }[];
+  packages: string[]; // Declared in dependency manifests, lowercased
+  imports: string[]; // Non-relative modules imported by source files, lowercased
+}
+
+/** Questions grouped by difficulty level */
+export type QuestionsByLevel = Record<QuestionLevel, ReviewQuestion[]>;
+
 /** Candidate's answer to a review question */
 export interface ReviewAnswer {
   questionId: string;
   transcript: string;
   duration: number;
   timestamp: Date;
+  followUps?: ReviewFollowUp[];
 }
 
 /** Answer evaluation */
@@ -108,6 +128,195 @@ export interface ReviewEvaluation {
   feedback: string;
   demonstratesUnderstanding: boolean;
   flaggedConcerns: string[];
+  followUpsAsked?: number; // Follow-ups included in this evaluation
+  criterionScores?: CriterionScore[];
+  expectedPointCoverage?: ExpectedPointCoverage[];
+  scoreSpread?: ScoreSpread; // Set when the answer was scored more than once
+}
+
+/** How far an answer covered one of the question's expected points */
+export type ExpectedPointStatus = 'covered' | 'partial' | 'missed';
+
+export interface ExpectedPointCoverage {
+  point: string; // ReviewQuestion.expectedPoints entry
+  status: ExpectedPointStatus;
+  /** Verbatim transcript spans where the point is addressed */
+  spans: string[];
+}
+
+/** Why a follow-up question was asked */
+export type FollowUpReason = 'lacks_understanding' | 'flagged_concerns';
+
+/** Probing question asked after a vague or concerning answer */
+export interface ReviewFollowUp {
+  questionId: string; // Parent question
+  question: string;
+  reason: FollowUpReason;
+  answer: string;
+}
+
+/** Follow-up in progress for the current question */
+export interface PendingFollowUp {
+  questionId: string;
+  reason: FollowUpReason;
+  question: string | null; // null until generated
+  /** Candidate's original answer to the parent question */
+  answer: string;
+  /** Follow-ups already answered for this question */
+  followUps: ReviewFollowUp[];
+  /** Latest evaluation, kept if the follow-up cannot be asked */
+  evaluation: ReviewEvaluation;
+}
+
+/** Result of de-duplicating and balancing the generated question pool */
+export interface QuestionPoolStats {
+  /** Slides with enough content to be asked about */
+  substantiveSlides: number[];
+  /** Substantive slides referenced by at least one pooled question */
+  poolCoveredSlides: number[];
+  duplicatesRemoved: number;
+  /** Questions generated to cover slides the first pass missed */
+  questionsAdded: number;
+}
+
+/** Slide coverage of the questions, as shown in the report */
+export interface SlideCoverage extends QuestionPoolStats {
+  /** Substantive slides the candidate was actually asked about */
+  askedCoveredSlides: number[];
+  /** Substantive slides no asked question referred to */
+  uncoveredSlides: number[];
+  coverageRatio: number; // 0-1, asked slides over substantive slides
+}
+
+// ============================================================================
+// Rubric Types
+// ============================================================================
+
+/** Anchor description for a score on a criterion */
+export interface RubricDescriptor {
+  score: number; // 1-10
+  description: string;
+}
+
+/** One weighted grading criterion */
+export interface RubricCriterion {
+  key: string; // e.g. design_rationale
+  name: string;
+  description: string;
+  weight: number;
+  descriptors: RubricDescriptor[];
+}
+
+/** Rubric used to evaluate answers */
+export interface ReviewRubric {
+  id: string | null; // null for the built-in default
+  name: string;
+  criteria: RubricCriterion[];
+}
+
+/** Score for one criterion on one answer */
+export interface CriterionScore {
+  criterion: string; // RubricCriterion.key
+  score: number | null; // null when the answer gives no evidence either way
+  /** Verbatim quotes from the transcript supporting the score */
+  evidence: string[];
+}
+
+/** Aggregate of one criterion across all answers */
+export interface RubricCriterionResult {
+  key: string;
+  name: string;
+  weight: number;
+  averageScore: number | null;
+  scoredAnswers: number;
+  evidence: string[];
+}
+
+/** Rubric breakdown for the report */
+export interface RubricScores {
+  rubricId: string | null;
+  rubricName: string;
+  criteria: RubricCriterionResult[];
+  weightedScore: number | null; // Weighted over criteria with scores
+}
+
+// ============================================================================
+// Evaluation Consistency Types
+// ============================================================================
+
+/** How many times, and with which models, each answer is scored */
+export interface EvaluationConfig {
+  samples: number; // Independent scorings per answer (1 = single pass)
+  models: string[]; // Used round-robin across samples; empty = default model
+  /** Score range (max - min) above which the answer is flagged for review */
+  disagreementThreshold: number;
+}
+
+/** Spread of the sampled scores for one answer */
+export interface ScoreSpread {
+  scores: number[];
+  models: string[]; // Model behind each score, same order
+  mean: number;
+  stdDev: number;
+  range: number;
+  disagreement: boolean;
+}
+
+/** Consistency of multi-sample scoring over the whole review */
+export interface EvaluationConsistency {
+  samplesPerAnswer: number;
+  meanStdDev: number | null; // null when answers were scored once
+  disagreements: string[]; // Question IDs flagged for disagreement
+}
+
+// ============================================================================
+// Slide-Code Consistency Types
+// ============================================================================
+
+/** A technology the slides claim but the repository does not show */
+export interface ClaimedTechnology {
+  name: string;
+  slides: number[]; // Slide numbers making the claim
+}
+
+/** A technology the repository uses but the slides never mention */
+export interface UnmentionedTechnology {
+  name: string;
+  evidence: string[]; // Packages, imports or files it was detected from
+}
+
+/** Technologies on the slides compared with the ingested repository */
+export interface SlideCodeConsistency {
+  checked: number; // Technologies found on the slides or in the repository
+  matched: string[]; // Claimed and present
+  claimedButAbsent: ClaimedTechnology[];
+  presentButUnmentioned: UnmentionedTechnology[];
+}
+
+// ============================================================================
+// Difficulty Types
+// ============================================================================
+
+/** How the difficulty policy moved after an answer */
+export type DifficultyAction = 'stay' | 'advance' | 'skip_ahead' | 'step_back' | 'bank_questions' | 'finish';
+
+/** One level-transition decision, kept so reviewers can see why the path differed */
+export interface DifficultyDecision {
+  /** Questions asked when the decision was made */
+  afterQuestion: number;
+  questionId: string | null;
+  fromLevel: QuestionLevel;
+  toLevel: QuestionLevel | null; // null when questioning ends
+  action: DifficultyAction;
+  lastScore: number | null;
+  levelAverage: number;
+  reason: string;
+}
+
+/** Difficulty path taken through the session */
+export interface DifficultyPath {
+  policy: string;
+  decisions: DifficultyDecision[];
 }
 
 // ============================================================================
@@ -145,12 +354,21 @@ export interface ReviewReport {
   levelScores: LevelScores;
   totalQuestions: number;
   averageScore: number;
+  difficultyPath: DifficultyPath;
+  slideCoverage: SlideCoverage;
+  rubricScores: RubricScores;
+  evaluationConsistency: EvaluationConsistency;
+  slideCodeConsistency: SlideCodeConsistency | null; // null without an ingested repository
   
   // Detailed assessments
   technicalUnderstanding: number; // 1-10
   projectOwnership: number; // 1-10
   communicationClarity: number; // 1-10
   
+  // Observations
+  strengths: string[];
+  improvements: string[];
+
   // Concerns
   aiContentConcerns: string[];
   knowledgeGaps: string[];
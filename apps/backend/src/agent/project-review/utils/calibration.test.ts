@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionLevel } from '../types/index.js';
+import {
+  calculateCalibrationMetrics,
+  parseGoldSet,
+  pearsonCorrelation,
+  spearmanCorrelation,
+  type CalibrationItem,
+  type CalibrationResult,
+} from './calibration.js';
+
+function result(level: QuestionLevel, facultyScore: number, aiScore: number): CalibrationResult {
+  const item: CalibrationItem = {
+    id: `${level}-${facultyScore}`,
+    level,
+    question: 'Why this design?',
+    context: '',
+    expectedPoints: [],
+    answer: 'Because.',
+    facultyScore,
+  };
+  return { item, aiScore, error: aiScore - facultyScore };
+}
+
+describe('pearsonCorrelation', () => {
+  it('is 1 for a perfect linear relation and -1 for an inverse one', () => {
+    expect(pearsonCorrelation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 10);
+    expect(pearsonCorrelation([1, 2, 3], [6, 4, 2])).toBeCloseTo(-1, 10);
+  });
+
+  it('is null without variance or with too few values', () => {
+    expect(pearsonCorrelation([5, 5, 5], [1, 2, 3])).toBeNull();
+    expect(pearsonCorrelation([5], [5])).toBeNull();
+    expect(pearsonCorrelation([1, 2], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe('spearmanCorrelation', () => {
+  it('is 1 for any monotonic relation', () => {
+    expect(spearmanCorrelation([1, 2, 3, 4], [1, 4, 9, 100])).toBeCloseTo(1, 10);
+  });
+
+  it('gives tied values the average rank', () => {
+    // Ranks: [1.5, 1.5, 3] against [1, 2, 3]
+    expect(spearmanCorrelation([7, 7, 9], [1, 2, 3])).toBeCloseTo(Math.sqrt(3) / 2, 10);
+  });
+});
+
+describe('calculateCalibrationMetrics', () => {
+  it('reports errors overall and per level', () => {
+    const metrics = calculateCalibrationMetrics([
+      result(QuestionLevel.EASY, 6, 8),
+      result(QuestionLevel.EASY, 4, 5),
+      result(QuestionLevel.HARD, 8, 6),
+    ]);
+
+    expect(metrics.count).toBe(3);
+    expect(metrics.meanError).toBeCloseTo(1 / 3, 10);
+    expect(metrics.meanAbsoluteError).toBeCloseTo(5 / 3, 10);
+    expect(metrics.levelBias).toEqual({
+      easy: { count: 2, meanError: 1.5, meanAbsoluteError: 1.5 },
+      hard: { count: 1, meanError: -2, meanAbsoluteError: 2 },
+    });
+    expect(metrics.pearson).not.toBeNull();
+  });
+
+  it('handles an empty result set', () => {
+    expect(calculateCalibrationMetrics([])).toEqual({
+      count: 0,
+      pearson: null,
+      spearman: null,
+      meanAbsoluteError: 0,
+      meanError: 0,
+      levelBias: {},
+    });
+  });
+});
+
+describe('parseGoldSet', () => {
+  it('parses CSV with quoted cells, split expected points and blank lines', () => {
+    const csv = [
+      'id,level,question,expected_points,answer,faculty_score',
+      'g1,Medium,"Why Postgres, not Mongo?","joins | transactions","We needed joins, so Postgres.",7',
+      '',
+      ',easy,What does it do?,,It tracks attendance.,5',
+    ].join('\n');
+
+    const items = parseGoldSet(csv, 'csv');
+
+    expect(items).toEqual([
+      {
+        id: 'g1',
+        level: QuestionLevel.MEDIUM,
+        question: 'Why Postgres, not Mongo?',
+        context: '',
+        expectedPoints: ['joins', 'transactions'],
+        answer: 'We needed joins, so Postgres.',
+        facultyScore: 7,
+      },
+      {
+        id: 'gold-2',
+        level: QuestionLevel.EASY,
+        question: 'What does it do?',
+        context: '',
+        expectedPoints: [],
+        answer: 'It tracks attendance.',
+        facultyScore: 5,
+      },
+    ]);
+  });
+
+  it('parses JSON arrays', () => {
+    const json = JSON.stringify([
+      { level: 'hard', question: 'How does it scale?', expectedPoints: ['sharding'], answer: 'Sharding.', facultyScore: 9 },
+    ]);
+
+    expect(parseGoldSet(json, 'json')[0]).toMatchObject({ id: 'gold-1', expectedPoints: ['sharding'], facultyScore: 9 });
+  });
+
+  it('rejects invalid items with their position', () => {
+    const json = JSON.stringify([
+      { level: 'easy', question: 'Q?', answer: 'A.', facultyScore: 5 },
+      { level: 'expert', question: 'Q?', answer: 'A.', facultyScore: 5 },
+    ]);
+
+    expect(() => parseGoldSet(json, 'json')).toThrow('Gold item 2: level must be easy, medium or hard');
+    expect(() => parseGoldSet('[{"level":"easy","question":"Q?","answer":"A.","facultyScore":11}]', 'json'))
+      .toThrow('facultyScore must be between 1 and 10');
+    expect(() => parseGoldSet('{}', 'json')).toThrow('must be an array');
+    expect(() => parseGoldSet('\n\n', 'csv')).toThrow('CSV gold set is empty');
+  });
+});
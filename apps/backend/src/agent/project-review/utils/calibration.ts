@@ -0,0 +1,196 @@
+/**
+ * Evaluator Calibration
+ * Gold-set parsing and agreement metrics between AI and faculty scores
+ *
+ * Used by scripts/calibrate-evaluator.ts to measure prompt changes.
+ */
+
+import { parseCsv } from '../../../services/csv.service.js';
+import { QuestionLevel } from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One faculty-scored answer */
+export interface CalibrationItem {
+  id: string;
+  level: QuestionLevel;
+  question: string;
+  context: string;
+  expectedPoints: string[];
+  answer: string;
+  facultyScore: number; // 1-10
+}
+
+/** AI score for a gold item */
+export interface CalibrationResult {
+  item: CalibrationItem;
+  aiScore: number;
+  error: number; // aiScore - facultyScore
+}
+
+export interface LevelBias {
+  count: number;
+  meanError: number; // Positive = AI grades more leniently than faculty
+  meanAbsoluteError: number;
+}
+
+export interface CalibrationMetrics {
+  count: number;
+  pearson: number | null; // null with fewer than 2 items or no variance
+  spearman: number | null;
+  meanAbsoluteError: number;
+  meanError: number;
+  levelBias: Partial<Record<QuestionLevel, LevelBias>>;
+}
+
+// ============================================================================
+// Gold Set Parsing
+// ============================================================================
+
+/** Separator for expected points inside one CSV cell */
+const CSV_POINT_SEPARATOR = '|';
+
+function toCalibrationItem(raw: Record<string, unknown>, index: number): CalibrationItem {
+  const label = `Gold item ${index + 1}`;
+  const level = String(raw.level ?? '').trim().toLowerCase();
+  const facultyScore = Number(raw.facultyScore ?? raw.faculty_score);
+  const question = String(raw.question ?? '').trim();
+  const answer = String(raw.answer ?? '').trim();
+  const points = raw.expectedPoints ?? raw.expected_points ?? [];
+
+  if (!Object.values(QuestionLevel).includes(level as QuestionLevel)) {
+    throw new Error(`${label}: level must be easy, medium or hard`);
+  }
+  if (!question || !answer) {
+    throw new Error(`${label}: question and answer are required`);
+  }
+  if (!Number.isFinite(facultyScore) || facultyScore < 1 || facultyScore > 10) {
+    throw new Error(`${label}: facultyScore must be between 1 and 10`);
+  }
+
+  const expectedPoints = (Array.isArray(points) ? points.map(String) : String(points).split(CSV_POINT_SEPARATOR))
+    .map(p => p.trim())
+    .filter(Boolean);
+
+  return {
+    id: String(raw.id ?? '').trim() || `gold-${index + 1}`,
+    level: level as QuestionLevel,
+    question,
+    context: String(raw.context ?? '').trim(),
+    expectedPoints,
+    answer,
+    facultyScore,
+  };
+}
+
+/**
+ * Parse a gold set from JSON (array of objects) or CSV with a header row
+ *
+ * Columns / fields: id?, level, question, context?, expectedPoints
+ * (CSV: separated by "|"), answer, facultyScore. snake_case also accepted.
+ */
+export function parseGoldSet(text: string, format: 'json' | 'csv'): CalibrationItem[] {
+  let records: Record<string, unknown>[];
+
+  if (format === 'json') {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON gold set must be an array of items');
+    }
+    records = parsed;
+  } else {
+    const [header, ...rows] = parseCsv(text).filter(row => row.some(cell => cell.trim()));
+    if (!header) {
+      throw new Error('CSV gold set is empty');
+    }
+    const columns = header.map(h => h.trim());
+    records = rows.map(row => Object.fromEntries(columns.map((col, i) => [col, row[i] ?? ''])));
+  }
+
+  return records.map(toCalibrationItem);
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Pearson correlation, null when undefined (fewer than 2 values or no variance)
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2 || xs.length !== ys.length) return null;
+
+  const mx = mean(xs);
+  const my = mean(ys);
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+
+  for (let i = 0; i < xs.length; i++) {
+    cov += (xs[i] - mx) * (ys[i] - my);
+    vx += (xs[i] - mx) ** 2;
+    vy += (ys[i] - my) ** 2;
+  }
+
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null;
+}
+
+/**
+ * Fractional ranks (ties share the average rank)
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks = new Array<number>(values.length);
+
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const shared = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = shared;
+    start = end + 1;
+  }
+
+  return ranks;
+}
+
+/**
+ * Spearman rank correlation (Pearson over ranks)
+ */
+export function spearmanCorrelation(xs: number[], ys: number[]): number | null {
+  return pearsonCorrelation(rank(xs), rank(ys));
+}
+
+/**
+ * Agreement between AI and faculty scores
+ */
+export function calculateCalibrationMetrics(results: CalibrationResult[]): CalibrationMetrics {
+  const ai = results.map(r => r.aiScore);
+  const faculty = results.map(r => r.item.facultyScore);
+
+  const levelBias: Partial<Record<QuestionLevel, LevelBias>> = {};
+  for (const level of Object.values(QuestionLevel)) {
+    const errors = results.filter(r => r.item.level === level).map(r => r.error);
+    if (errors.length > 0) {
+      levelBias[level] = {
+        count: errors.length,
+        meanError: mean(errors),
+        meanAbsoluteError: mean(errors.map(Math.abs)),
+      };
+    }
+  }
+
+  return {
+    count: results.length,
+    pearson: pearsonCorrelation(ai, faculty),
+    spearman: spearmanCorrelation(ai, faculty),
+    meanAbsoluteError: results.length > 0 ? mean(results.map(r => Math.abs(r.error))) : 0,
+    meanError: results.length > 0 ? mean(results.map(r => r.error)) : 0,
+    levelBias,
+  };
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionLevel, type DifficultyDecision, type ReviewQuestion } from '../types/index.js';
+import {
+  AdaptiveDifficultyPolicy,
+  FixedProgressionPolicy,
+  type DifficultyContext,
+} from './difficulty-policy.js';
+
+function asked(...levels: QuestionLevel[]): ReviewQuestion[] {
+  return levels.map((level, idx) => ({
+    id: `q${idx + 1}`,
+    level,
+    question: `Question ${idx + 1}`,
+    context: '',
+    expectedPoints: [],
+    slideReference: idx + 1,
+  }));
+}
+
+function context(overrides: Partial<DifficultyContext> = {}): DifficultyContext {
+  return {
+    currentLevel: QuestionLevel.EASY,
+    questionsAsked: [],
+    lastScore: null,
+    levelScores: {
+      [QuestionLevel.EASY]: { count: 0, avgScore: 0 },
+      [QuestionLevel.MEDIUM]: { count: 0, avgScore: 0 },
+      [QuestionLevel.HARD]: { count: 0, avgScore: 0 },
+    },
+    remaining: {
+      [QuestionLevel.EASY]: 3,
+      [QuestionLevel.MEDIUM]: 3,
+      [QuestionLevel.HARD]: 3,
+    },
+    history: [],
+    ...overrides,
+  };
+}
+
+function levelAverage(level: QuestionLevel, avgScore: number, count = 1): DifficultyContext['levelScores'] {
+  return { ...context().levelScores, [level]: { count, avgScore } };
+}
+
+describe('FixedProgressionPolicy', () => {
+  const policy = new FixedProgressionPolicy();
+
+  it('stays until the minimum is asked, then advances', () => {
+    const one = policy.decide(context({ questionsAsked: asked(QuestionLevel.EASY), lastScore: 10 }));
+    expect(one).toMatchObject({ toLevel: QuestionLevel.EASY, action: 'stay' });
+
+    const two = policy.decide(context({ questionsAsked: asked(QuestionLevel.EASY, QuestionLevel.EASY) }));
+    expect(two).toMatchObject({ toLevel: QuestionLevel.MEDIUM, action: 'advance' });
+  });
+
+  it('advances early when the level runs out of questions', () => {
+    const outcome = policy.decide(context({
+      questionsAsked: asked(QuestionLevel.EASY),
+      remaining: { ...context().remaining, [QuestionLevel.EASY]: 0 },
+    }));
+
+    expect(outcome).toMatchObject({ toLevel: QuestionLevel.MEDIUM, action: 'advance' });
+    expect(outcome.reason).toContain('no easy questions left');
+  });
+
+  it('finishes after the hard level', () => {
+    const outcome = policy.decide(context({
+      currentLevel: QuestionLevel.HARD,
+      questionsAsked: asked(QuestionLevel.HARD, QuestionLevel.HARD),
+    }));
+
+    expect(outcome).toMatchObject({ toLevel: null, action: 'finish' });
+  });
+});
+
+describe('AdaptiveDifficultyPolicy', () => {
+  const policy = new AdaptiveDifficultyPolicy();
+
+  it('falls back to count-based pacing without a score', () => {
+    const outcome = policy.decide(context({ questionsAsked: asked(QuestionLevel.EASY) }));
+
+    expect(outcome).toMatchObject({ toLevel: QuestionLevel.EASY, action: 'stay' });
+  });
+
+  it('skips ahead after a strong first answer', () => {
+    const outcome = policy.decide(context({
+      questionsAsked: asked(QuestionLevel.EASY),
+      lastScore: 9,
+      levelScores: levelAverage(QuestionLevel.EASY, 9),
+    }));
+
+    expect(outcome).toMatchObject({ toLevel: QuestionLevel.MEDIUM, action: 'skip_ahead' });
+  });
+
+  it('does not skip ahead when the level average is not strong', () => {
+    const outcome = policy.decide(context({
+      questionsAsked: asked(QuestionLevel.EASY),
+      lastScore: 9,
+      levelScores: levelAverage(QuestionLevel.EASY, 6),
+    }));
+
+    expect(outcome).toMatchObject({ toLevel: QuestionLevel.EASY, action: 'stay' });
+  });
+
+  it('keeps asking hard questions after a strong hard answer', () => {
+    const outcome = policy.decide(context({
+      currentLevel: QuestionLevel.HARD,
+      questionsAsked: asked(QuestionLevel.HARD),
+      lastScore: 9,
+      levelScores: levelAverage(QuestionLevel.HARD, 9),
+    }));
+
+    expect(outcome).toMatchObject({ toLevel: QuestionLevel.HARD, action: 'stay' });
+  });
+
+  it('steps back once when the whole level is weak', () => {
+    const weakMedium = context({
+      currentLevel: QuestionLevel.MEDIUM,
+      questionsAsked: asked(QuestionLevel.EASY, QuestionLevel.EASY, QuestionLevel.MEDIUM),
+      lastScore: 2,
+      levelScores: levelAverage(QuestionLevel.MEDIUM, 2),
+    });
+
+    expect(policy.decide(weakMedium)).toMatchObject({ toLevel: QuestionLevel.EASY, action: 'step_back' });
+
+    const stepBack = { action: 'step_back' } as DifficultyDecision;
+    expect(policy.decide({ ...weakMedium, history: [stepBack] }))
+      .toMatchObject({ toLevel: QuestionLevel.MEDIUM, action: 'stay' });
+  });
+
+  it('stops probing a weak level at the per-level cap', () => {
+    const outcome = policy.decide(context({
+      questionsAsked: asked(QuestionLevel.EASY, QuestionLevel.EASY, QuestionLevel.EASY),
+      lastScore: 1,
+      levelScores: levelAverage(QuestionLevel.EASY, 2, 3),
+    }));
+
+    expect(outcome).toMatchObject({ toLevel: QuestionLevel.MEDIUM, action: 'advance' });
+  });
+
+  it('accepts tuned thresholds', () => {
+    const lenient = new AdaptiveDifficultyPolicy({ strongScore: 6 });
+    const outcome = lenient.decide(context({
+      questionsAsked: asked(QuestionLevel.EASY),
+      lastScore: 7,
+      levelScores: levelAverage(QuestionLevel.EASY, 7),
+    }));
+
+    expect(outcome.action).toBe('skip_ahead');
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Difficulty Policies
+ * Decide which question level comes next after each answer
+ *
+ * - fixed: the original count-based progression (easy → medium → hard)
+ * - adaptive: score-aware; strong answers move up early, weak answers
+ *   stay at the level for another question or step back once
+ *
+ * Selected with DIFFICULTY_POLICY (default: adaptive).
+ */
+
+import {
+  QuestionLevel,
+  type DifficultyAction,
+  type DifficultyDecision,
+  type ReviewEvaluation,
+  type ReviewQuestion,
+} from '../types/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DifficultyContext {
+  currentLevel: QuestionLevel;
+  questionsAsked: ReviewQuestion[];
+  /** Score of the most recent answer, null if it was not evaluated */
+  lastScore: number | null;
+  /** Result of calculateScoresByLevel for the session so far */
+  levelScores: Record<QuestionLevel, { count: number; avgScore: number }>;
+  /** Unasked questions left in the pool per level */
+  remaining: Record<QuestionLevel, number>;
+  /** Earlier decisions in this session */
+  history: DifficultyDecision[];
+}
+
+export interface DifficultyOutcome {
+  toLevel: QuestionLevel | null; // null ends questioning
+  action: DifficultyAction;
+  reason: string;
+}
+
+export interface DifficultyPolicy {
+  readonly name: string;
+  decide(context: DifficultyContext): DifficultyOutcome;
+}
+
+export interface AdaptiveDifficultyOptions {
+  /** Last answer and level average at or above this move up early */
+  strongScore: number;
+  /** Last answer below this keeps the candidate at (or below) the level */
+  weakScore: number;
+  /** Most questions asked at one level while probing weak answers */
+  maxQuestionsPerLevel: number;
+  /** How many times a session may drop back a level */
+  maxStepBacks: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Minimum questions to ask at each level before progressing */
+export const MIN_QUESTIONS_PER_LEVEL: Record<QuestionLevel, number> = {
+  [QuestionLevel.EASY]: 2,
+  [QuestionLevel.MEDIUM]: 2,
+  [QuestionLevel.HARD]: 2,
+};
+
+/** Level progression order */
+export const LEVEL_PROGRESSION: Record<QuestionLevel, QuestionLevel | null> = {
+  [QuestionLevel.EASY]: QuestionLevel.MEDIUM,
+  [QuestionLevel.MEDIUM]: QuestionLevel.HARD,
+  [QuestionLevel.HARD]: null, // End of levels
+};
+
+/** Reverse of LEVEL_PROGRESSION, used when stepping back */
+export const LEVEL_REGRESSION: Record<QuestionLevel, QuestionLevel | null> = {
+  [QuestionLevel.EASY]: null,
+  [QuestionLevel.MEDIUM]: QuestionLevel.EASY,
+  [QuestionLevel.HARD]: QuestionLevel.MEDIUM,
+};
+
+const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveDifficultyOptions = {
+  strongScore: 8,
+  weakScore: 4,
+  maxQuestionsPerLevel: 3,
+  maxStepBacks: 1,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function askedAtLevel(context: DifficultyContext, level: QuestionLevel): number {
+  return context.questionsAsked.filter(q => q.level === level).length;
+}
+
+/**
+ * Count-based rule shared by both policies:
+ * advance after the minimum (or when the level runs dry), finish after hard
+ */
+function progressByCount(context: DifficultyContext): DifficultyOutcome {
+  const { currentLevel, remaining } = context;
+  const asked = askedAtLevel(context, currentLevel);
+  const nextLevel = LEVEL_PROGRESSION[currentLevel];
+
+  if (asked >= MIN_QUESTIONS_PER_LEVEL[currentLevel] || remaining[currentLevel] === 0) {
+    const why = remaining[currentLevel] === 0
+      ? `no ${currentLevel} questions left`
+      : `${asked} ${currentLevel} questions asked`;
+
+    return nextLevel
+      ? { toLevel: nextLevel, action: 'advance', reason: `${why}; moving to ${nextLevel}` }
+      : { toLevel: null, action: 'finish', reason: `${why}; all levels complete` };
+  }
+
+  return {
+    toLevel: currentLevel,
+    action: 'stay',
+    reason: `${asked}/${MIN_QUESTIONS_PER_LEVEL[currentLevel]} ${currentLevel} questions asked`,
+  };
+}
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+/**
+ * Original behaviour: a fixed number of questions per level, regardless of scores
+ */
+export class FixedProgressionPolicy implements DifficultyPolicy {
+  readonly name = 'fixed';
+
+  decide(context: DifficultyContext): DifficultyOutcome {
+    return progressByCount(context);
+  }
+}
+
+/**
+ * Score-aware progression driven by the running level averages
+ */
+export class AdaptiveDifficultyPolicy implements DifficultyPolicy {
+  readonly name = 'adaptive';
+  private readonly options: AdaptiveDifficultyOptions;
+
+  constructor(options: Partial<AdaptiveDifficultyOptions> = {}) {
+    this.options = { ...DEFAULT_ADAPTIVE_OPTIONS, ...options };
+  }
+
+  decide(context: DifficultyContext): DifficultyOutcome {
+    const { currentLevel, lastScore, levelScores, remaining, history } = context;
+    const { strongScore, weakScore, maxQuestionsPerLevel, maxStepBacks } = this.options;
+
+    // No score to go on (evaluation failed), keep the fixed pacing
+    if (lastScore === null) {
+      return progressByCount(context);
+    }
+
+    const asked = askedAtLevel(context, currentLevel);
+    const levelAverage = levelScores[currentLevel].avgScore;
+    const nextLevel = LEVEL_PROGRESSION[currentLevel];
+    const previousLevel = LEVEL_REGRESSION[currentLevel];
+
+    // Strong: move up without waiting for the minimum count
+    if (lastScore >= strongScore && levelAverage >= strongScore) {
+      if (nextLevel && remaining[nextLevel] > 0) {
+        const early = asked < MIN_QUESTIONS_PER_LEVEL[currentLevel];
+        return {
+          toLevel: nextLevel,
+          action: early ? 'skip_ahead' : 'advance',
+          reason: `strong ${currentLevel} answers (avg ${levelAverage.toFixed(1)}/10); moving up to ${nextLevel}`,
+        };
+      }
+      if (!nextLevel && asked < MIN_QUESTIONS_PER_LEVEL[currentLevel] && remaining[currentLevel] > 0) {
+        return {
+          toLevel: currentLevel,
+          action: 'stay',
+          reason: `strong hard answer (${lastScore}/10); asking another hard question`,
+        };
+      }
+    }
+
+    // Weak: probe the same level again, or drop back once if the whole level is weak
+    if (lastScore < weakScore) {
+      const stepBacks = history.filter(d => d.action === 'step_back').length;
+
+      if (previousLevel && levelAverage < weakScore && stepBacks < maxStepBacks && remaining[previousLevel] > 0) {
+        return {
+          toLevel: previousLevel,
+          action: 'step_back',
+          reason: `weak ${currentLevel} answers (avg ${levelAverage.toFixed(1)}/10); returning to ${previousLevel}`,
+        };
+      }
+
+      if (asked < maxQuestionsPerLevel && remaining[currentLevel] > 0) {
+        return {
+          toLevel: currentLevel,
+          action: 'stay',
+          reason: `weak answer (${lastScore}/10); staying at ${currentLevel} for another question`,
+        };
+      }
+    }
+
+    return progressByCount(context);
+  }
+}
+
+// ============================================================================
+// Policy Selection
+// ============================================================================
+
+const DIFFICULTY_POLICIES: Record<string, () => DifficultyPolicy> = {
+  adaptive: () => new AdaptiveDifficultyPolicy(),
+  fixed: () => new FixedProgressionPolicy(),
+};
+
+let activePolicy: DifficultyPolicy | null = null;
+
+/**
+ * Get the difficulty policy configured for this environment
+ */
+export function getDifficultyPolicy(): DifficultyPolicy {
+  if (!activePolicy) {
+    const name = process.env.DIFFICULTY_POLICY || 'adaptive';
+    const factory = DIFFICULTY_POLICIES[name];
+    if (!factory) {
+      console.warn(`[ProjectReview] Unknown DIFFICULTY_POLICY "${name}", using adaptive`);
+    }
+    activePolicy = (factory ?? DIFFICULTY_POLICIES.adaptive)();
+  }
+  return activePolicy;
+}
+
+/**
+ * Override the difficulty policy (e.g. a custom strategy or tuned options)
+ */
+export function setDifficultyPolicy(policy: DifficultyPolicy): void {
+  activePolicy = policy;
+}
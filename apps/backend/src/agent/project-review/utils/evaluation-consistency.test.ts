@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ReviewEvaluation } from '../types/index.js';
+import {
+  calculateEvaluationConsistency,
+  combineEvaluations,
+  resolveEvaluationConfig,
+  summarizeScores,
+} from './evaluation-consistency.js';
+
+function sample(score: number, overrides: Partial<ReviewEvaluation> = {}): ReviewEvaluation {
+  return {
+    questionId: 'q1',
+    score,
+    feedback: `scored ${score}`,
+    demonstratesUnderstanding: score >= 5,
+    flaggedConcerns: [],
+    ...overrides,
+  };
+}
+
+describe('summarizeScores', () => {
+  it('computes the spread and flags ranges above the threshold', () => {
+    const spread = summarizeScores([4, 6, 8], ['a', 'b', 'c'], 2);
+
+    expect(spread.mean).toBe(6);
+    expect(spread.stdDev).toBeCloseTo(Math.sqrt(8 / 3), 10);
+    expect(spread.range).toBe(4);
+    expect(spread.disagreement).toBe(true);
+  });
+
+  it('does not flag a range equal to the threshold', () => {
+    expect(summarizeScores([6, 8], [], 2).disagreement).toBe(false);
+  });
+});
+
+describe('combineEvaluations', () => {
+  it('returns a single sample unchanged', () => {
+    const only = sample(7);
+
+    expect(combineEvaluations([only], [], 2)).toBe(only);
+  });
+
+  it('averages scores and takes feedback from the sample closest to the mean', () => {
+    const combined = combineEvaluations(
+      [
+        sample(3, { flaggedConcerns: ['read from slides'] }),
+        sample(7, { flaggedConcerns: ['read from slides', 'vague'] }),
+        sample(8),
+      ],
+      ['model-a', 'model-b', 'model-c'],
+      2
+    );
+
+    expect(combined.score).toBe(6);
+    expect(combined.feedback).toBe('scored 7');
+    expect(combined.demonstratesUnderstanding).toBe(true);
+    expect(combined.flaggedConcerns).toEqual(['read from slides', 'vague']);
+    expect(combined.scoreSpread).toMatchObject({ scores: [3, 7, 8], models: ['model-a', 'model-b', 'model-c'], disagreement: true });
+  });
+
+  it('needs a strict majority for understanding', () => {
+    const combined = combineEvaluations([sample(8), sample(2)], [], 10);
+
+    expect(combined.demonstratesUnderstanding).toBe(false);
+  });
+
+  it('merges criterion scores and evidence across samples', () => {
+    const combined = combineEvaluations(
+      [
+        sample(6, { criterionScores: [{ criterion: 'design', score: 6, evidence: ['x'] }] }),
+        sample(8, { criterionScores: [{ criterion: 'design', score: null, evidence: ['x', 'y'] }] }),
+        sample(7, { criterionScores: [{ criterion: 'design', score: 8, evidence: [] }] }),
+      ],
+      [],
+      2
+    );
+
+    expect(combined.criterionScores).toEqual([{ criterion: 'design', score: 7, evidence: ['x', 'y'] }]);
+  });
+
+  it('takes the median status per expected point, rounding down on ties', () => {
+    const coverage = (status: 'covered' | 'partial' | 'missed', spans: string[] = []) => ({
+      expectedPointCoverage: [{ point: 'explains caching', status, spans }],
+    });
+
+    const three = combineEvaluations(
+      [sample(5, coverage('covered', ['we cache'])), sample(5, coverage('missed')), sample(5, coverage('partial', ['redis']))],
+      [],
+      2
+    );
+    expect(three.expectedPointCoverage).toEqual([
+      { point: 'explains caching', status: 'partial', spans: ['we cache', 'redis'] },
+    ]);
+
+    const two = combineEvaluations([sample(5, coverage('covered', ['we cache'])), sample(5, coverage('missed'))], [], 2);
+    expect(two.expectedPointCoverage).toEqual([{ point: 'explains caching', status: 'missed', spans: [] }]);
+  });
+});
+
+describe('calculateEvaluationConsistency', () => {
+  it('summarizes spreads of multi-sample answers', () => {
+    const evaluations = [
+      combineEvaluations([sample(4, { questionId: 'q1' }), sample(8, { questionId: 'q1' })], [], 2),
+      combineEvaluations([sample(6, { questionId: 'q2' }), sample(6, { questionId: 'q2' })], [], 2),
+      sample(5, { questionId: 'q3' }),
+    ];
+
+    expect(calculateEvaluationConsistency(evaluations)).toEqual({
+      samplesPerAnswer: 2,
+      meanStdDev: 1,
+      disagreements: ['q1'],
+    });
+  });
+
+  it('reports one sample per answer when nothing was resampled', () => {
+    expect(calculateEvaluationConsistency([sample(5)])).toEqual({
+      samplesPerAnswer: 1,
+      meanStdDev: null,
+      disagreements: [],
+    });
+  });
+});
+
+describe('resolveEvaluationConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads defaults from the environment', () => {
+    vi.stubEnv('EVALUATION_SAMPLES', '3');
+    vi.stubEnv('EVALUATION_MODELS', 'gpt-4o, claude ,');
+    vi.stubEnv('EVALUATION_DISAGREEMENT_THRESHOLD', '1.5');
+
+    expect(resolveEvaluationConfig(null)).toEqual({
+      samples: 3,
+      models: ['gpt-4o', 'claude'],
+      disagreementThreshold: 1.5,
+    });
+  });
+
+  it('applies valid overrides and clamps the sample count', () => {
+    vi.stubEnv('EVALUATION_SAMPLES', '');
+    vi.stubEnv('EVALUATION_MODELS', '');
+    vi.stubEnv('EVALUATION_DISAGREEMENT_THRESHOLD', '');
+
+    expect(resolveEvaluationConfig({ samples: 12, models: 'gpt-4o', disagreementThreshold: -1 })).toEqual({
+      samples: 5,
+      models: [],
+      disagreementThreshold: 2,
+    });
+  });
+});
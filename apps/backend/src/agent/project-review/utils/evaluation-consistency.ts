@@ -0,0 +1,197 @@
+/**
+ * Evaluation Consistency
+ * Multi-sample scoring: combine several independent evaluations of one
+ * answer and flag answers whose scores disagree too much
+ *
+ * Defaults come from EVALUATION_SAMPLES, EVALUATION_MODELS (comma-separated)
+ * and EVALUATION_DISAGREEMENT_THRESHOLD; a review can override them.
+ */
+
+import type {
+  CriterionScore,
+  EvaluationConfig,
+  EvaluationConsistency,
+  ExpectedPointCoverage,
+  ExpectedPointStatus,
+  ReviewEvaluation,
+  ScoreSpread,
+} from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Upper bound on samples per answer, to keep latency and cost in check */
+export const MAX_EVALUATION_SAMPLES = 5;
+
+/** Quotes kept per criterion / expected point after merging samples */
+const MAX_MERGED_QUOTES = 3;
+
+const STATUS_RANK: Record<ExpectedPointStatus, number> = { missed: 0, partial: 1, covered: 2 };
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+function clampSamples(samples: number): number {
+  return Math.min(MAX_EVALUATION_SAMPLES, Math.max(1, Math.round(samples)));
+}
+
+/**
+ * Evaluation config from the environment
+ */
+export function getDefaultEvaluationConfig(): EvaluationConfig {
+  const samples = Number(process.env.EVALUATION_SAMPLES);
+  const threshold = Number(process.env.EVALUATION_DISAGREEMENT_THRESHOLD);
+
+  return {
+    samples: Number.isFinite(samples) && samples > 0 ? clampSamples(samples) : 1,
+    models: (process.env.EVALUATION_MODELS || '')
+      .split(',')
+      .map(m => m.trim())
+      .filter(Boolean),
+    disagreementThreshold: Number.isFinite(threshold) && threshold > 0 ? threshold : 2,
+  };
+}
+
+/**
+ * Merge a review's stored overrides onto the defaults, ignoring invalid values
+ */
+export function resolveEvaluationConfig(overrides: unknown): EvaluationConfig {
+  const config = getDefaultEvaluationConfig();
+  if (!overrides || typeof overrides !== 'object') return config;
+
+  const { samples, models, disagreementThreshold } = overrides as Partial<EvaluationConfig>;
+
+  return {
+    samples: typeof samples === 'number' && samples > 0 ? clampSamples(samples) : config.samples,
+    models: Array.isArray(models) && models.every(m => typeof m === 'string')
+      ? models.filter(Boolean)
+      : config.models,
+    disagreementThreshold: typeof disagreementThreshold === 'number' && disagreementThreshold > 0
+      ? disagreementThreshold
+      : config.disagreementThreshold,
+  };
+}
+
+// ============================================================================
+// Combining Samples
+// ============================================================================
+
+/**
+ * Mean, standard deviation and range of the sampled scores
+ */
+export function summarizeScores(
+  scores: number[],
+  models: string[],
+  disagreementThreshold: number
+): ScoreSpread {
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const variance = scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) / scores.length;
+  const range = Math.max(...scores) - Math.min(...scores);
+
+  return {
+    scores,
+    models,
+    mean,
+    stdDev: Math.sqrt(variance),
+    range,
+    disagreement: range > disagreementThreshold,
+  };
+}
+
+function mergeQuotes(quoteLists: string[][]): string[] {
+  return [...new Set(quoteLists.flat())].slice(0, MAX_MERGED_QUOTES);
+}
+
+function mergeCriterionScores(samples: ReviewEvaluation[]): CriterionScore[] | undefined {
+  const first = samples[0].criterionScores;
+  if (!first) return undefined;
+
+  return first.map(({ criterion }) => {
+    const matching = samples.flatMap(e => e.criterionScores ?? []).filter(c => c.criterion === criterion);
+    const scored = matching.filter(c => c.score !== null);
+
+    return {
+      criterion,
+      score: scored.length > 0 ? scored.reduce((sum, c) => sum + c.score!, 0) / scored.length : null,
+      evidence: mergeQuotes(matching.map(c => c.evidence)),
+    };
+  });
+}
+
+/**
+ * Median status per expected point (ties resolve to the lower status)
+ */
+function mergePointCoverage(samples: ReviewEvaluation[]): ExpectedPointCoverage[] | undefined {
+  const first = samples[0].expectedPointCoverage;
+  if (!first) return undefined;
+
+  return first.map(({ point }, idx) => {
+    const matching = samples
+      .map(e => e.expectedPointCoverage?.[idx])
+      .filter((p): p is ExpectedPointCoverage => p?.point === point);
+    const ranked = matching.map(p => STATUS_RANK[p.status]).sort((a, b) => a - b);
+    const rank = ranked[Math.floor((ranked.length - 1) / 2)];
+    const status = (Object.keys(STATUS_RANK) as ExpectedPointStatus[]).find(s => STATUS_RANK[s] === rank)!;
+
+    return {
+      point,
+      status,
+      spans: status === 'missed' ? [] : mergeQuotes(matching.map(p => p.spans)),
+    };
+  });
+}
+
+/**
+ * Combine independent evaluations of the same answer into one
+ *
+ * The score is the mean; feedback comes from the sample closest to it,
+ * understanding is a majority vote and concerns raised by any sample are kept.
+ */
+export function combineEvaluations(
+  samples: ReviewEvaluation[],
+  models: string[],
+  disagreementThreshold: number
+): ReviewEvaluation {
+  if (samples.length === 1) return samples[0];
+
+  const spread = summarizeScores(samples.map(e => e.score), models, disagreementThreshold);
+  const representative = samples.reduce((best, e) =>
+    Math.abs(e.score - spread.mean) < Math.abs(best.score - spread.mean) ? e : best
+  );
+  const understood = samples.filter(e => e.demonstratesUnderstanding).length;
+
+  return {
+    ...representative,
+    score: spread.mean,
+    demonstratesUnderstanding: understood * 2 > samples.length,
+    flaggedConcerns: [...new Set(samples.flatMap(e => e.flaggedConcerns))],
+    criterionScores: mergeCriterionScores(samples),
+    expectedPointCoverage: mergePointCoverage(samples),
+    scoreSpread: spread,
+  };
+}
+
+// ============================================================================
+// Review-level Consistency
+// ============================================================================
+
+/**
+ * Summarize scoring consistency across all evaluated answers
+ */
+export function calculateEvaluationConsistency(
+  evaluations: ReviewEvaluation[]
+): EvaluationConsistency {
+  const spreads = evaluations
+    .filter(e => e.scoreSpread)
+    .map(e => ({ questionId: e.questionId, spread: e.scoreSpread! }));
+
+  return {
+    samplesPerAnswer: spreads.length > 0 ? Math.max(...spreads.map(s => s.spread.scores.length)) : 1,
+    meanStdDev: spreads.length > 0
+      ? spreads.reduce((sum, s) => sum + s.spread.stdDev, 0) / spreads.length
+      : null,
+    disagreements: spreads.filter(s => s.spread.disagreement).map(s => s.questionId),
+  };
+}
@@ -3,27 +3,37 @@
  * Helper functions for scoring, formatting, and calculations
  */
 
-import { QuestionLevel, type ReviewEvaluation, type ReviewReport } from '../types/index.js';
+import {
+  QuestionLevel,
+  type FollowUpReason,
+  type ReviewEvaluation,
+  type ReviewReport,
+} from '../types/index.js';
 import { FEEDBACK_MESSAGES } from '../prompts/index.js';
+import { MIN_QUESTIONS_PER_LEVEL } from './difficulty-policy.js';
+
+// Re-export difficulty policies (level progression constants live there)
+export * from './difficulty-policy.js';
+
+// Re-export question pool helpers (bank merging, slide coverage)
+export * from './question-pool.js';
+
+// Re-export rubric helpers (default rubric, score aggregation)
+export * from './rubric.js';
+
+// Re-export multi-sample evaluation helpers
+export * from './evaluation-consistency.js';
+
+// Re-export slide-code consistency checks
+export * from './tech-consistency.js';
+
+// Re-export calibration metrics (used by scripts/calibrate-evaluator.ts)
+export * from './calibration.js';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-/** Minimum questions to ask at each level before progressing */
-export const MIN_QUESTIONS_PER_LEVEL: Record<QuestionLevel, number> = {
-  [QuestionLevel.EASY]: 2,
-  [QuestionLevel.MEDIUM]: 2,
-  [QuestionLevel.HARD]: 2,
-};
-
-/** Level progression order */
-export const LEVEL_PROGRESSION: Record<QuestionLevel, QuestionLevel | null> = {
-  [QuestionLevel.EASY]: QuestionLevel.MEDIUM,
-  [QuestionLevel.MEDIUM]: QuestionLevel.HARD,
-  [QuestionLevel.HARD]: null, // End of levels
-};
-
 /** Score thresholds for recommendations */
 export const SCORE_THRESHOLDS = {
   EXCELLENT: 8,
@@ -32,6 +42,9 @@ export const SCORE_THRESHOLDS = {
   WEAK: 2,
 };
 
+/** Follow-up questions allowed per question before moving on */
+export const MAX_FOLLOW_UPS_PER_QUESTION = 1;
+
 // ============================================================================
 // Feedback Functions
 // ============================================================================
@@ -52,6 +65,16 @@ export function getFeedbackMessage(score: number): string {
   return messages[Math.floor(Math.random() * messages.length)];
 }
 
+/**
+ * Decide whether an answer needs a probing follow-up
+ * Returns null when the answer is acceptable
+ */
+export function getFollowUpReason(evaluation: ReviewEvaluation): FollowUpReason | null {
+  if (!evaluation.demonstratesUnderstanding) return 'lacks_understanding';
+  if (evaluation.flaggedConcerns.length > 0) return 'flagged_concerns';
+  return null;
+}
+
 // ============================================================================
 // Score Calculation Functions
 // ============================================================================
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { QuestionLevel, type ParsedSlide, type QuestionsByLevel, type ReviewQuestion } from '../types/index.js';
+import {
+  balanceBySlide,
+  calculateSlideCoverage,
+  getSubstantiveSlides,
+  getUnaskedBankQuestions,
+  mergeBankQuestions,
+  questionSimilarity,
+} from './question-pool.js';
+
+function question(
+  id: string,
+  level: QuestionLevel,
+  text: string,
+  overrides: Partial<ReviewQuestion> = {}
+): ReviewQuestion {
+  return {
+    id,
+    level,
+    question: text,
+    context: '',
+    expectedPoints: [],
+    slideReference: null,
+    source: 'generated',
+    ...overrides,
+  };
+}
+
+function bankQuestion(id: string, level: QuestionLevel, text: string): ReviewQuestion {
+  return question(id, level, text, { source: 'bank' });
+}
+
+function slide(slideNumber: number, content: string): ParsedSlide {
+  return { slideNumber, title: `Slide ${slideNumber}`, content, bullets: [], hasImages: false, hasCharts: false };
+}
+
+function byLevel(...questions: ReviewQuestion[]): QuestionsByLevel {
+  return {
+    easy: questions.filter(q => q.level === QuestionLevel.EASY),
+    medium: questions.filter(q => q.level === QuestionLevel.MEDIUM),
+    hard: questions.filter(q => q.level === QuestionLevel.HARD),
+  };
+}
+
+describe('questionSimilarity', () => {
+  it('matches rephrasings of the same question', () => {
+    expect(questionSimilarity(
+      'How did you validate the model?',
+      'Explain how the model was validated'
+    )).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('scores unrelated questions low', () => {
+    expect(questionSimilarity(
+      'Which database did you choose?',
+      'How did you train the classifier?'
+    )).toBeLessThan(0.3);
+  });
+
+  it('returns 0 when a question has only stop words', () => {
+    expect(questionSimilarity('What is this?', 'Which database did you choose?')).toBe(0);
+  });
+});
+
+describe('mergeBankQuestions', () => {
+  it('puts bank questions first and drops generated questions that repeat them', () => {
+    const bank = byLevel(bankQuestion('b1', QuestionLevel.MEDIUM, 'How did you validate the model?'));
+    const generated = byLevel(
+      question('g1', QuestionLevel.EASY, 'Explain how the model was validated'),
+      question('g2', QuestionLevel.MEDIUM, 'Which database did you choose?')
+    );
+
+    const { pool, duplicatesRemoved } = mergeBankQuestions(generated, bank);
+
+    expect(duplicatesRemoved).toBe(1);
+    expect(pool.easy).toEqual([]);
+    expect(pool.medium.map(q => q.id)).toEqual(['b1', 'g2']);
+  });
+
+  it('keeps a question repeated across banks once', () => {
+    const bank = byLevel(
+      bankQuestion('b1', QuestionLevel.EASY, 'Which database did you choose?'),
+      bankQuestion('b2', QuestionLevel.HARD, 'Which database did you choose and why?')
+    );
+
+    const { pool, duplicatesRemoved } = mergeBankQuestions(byLevel(), bank);
+
+    expect(duplicatesRemoved).toBe(1);
+    expect(pool.easy.map(q => q.id)).toEqual(['b1']);
+    expect(pool.hard).toEqual([]);
+  });
+});
+
+describe('getUnaskedBankQuestions', () => {
+  it('lists bank questions not asked yet, easy first', () => {
+    const hard = bankQuestion('b-hard', QuestionLevel.HARD, 'How does the system scale?');
+    const easy = bankQuestion('b-easy', QuestionLevel.EASY, 'Who are the users?');
+    const asked = bankQuestion('b-asked', QuestionLevel.EASY, 'What problem does it solve?');
+    const pool = byLevel(hard, easy, asked, question('g1', QuestionLevel.EASY, 'Which database did you choose?'));
+
+    expect(getUnaskedBankQuestions(pool, [asked]).map(q => q.id)).toEqual(['b-easy', 'b-hard']);
+  });
+});
+
+describe('getSubstantiveSlides', () => {
+  it('skips slides with too little text', () => {
+    const slides = [
+      slide(1, 'Thank you'),
+      slide(2, 'We compare three object detectors on a custom dataset of 4,000 labelled traffic images.'),
+      { ...slide(3, 'Architecture'), bullets: ['Edge camera streams frames to a FastAPI service', 'YOLOv8 runs on an edge GPU'] },
+    ];
+
+    expect(getSubstantiveSlides(slides)).toEqual([2, 3]);
+  });
+});
+
+describe('calculateSlideCoverage', () => {
+  it('reports which substantive slides the asked questions covered', () => {
+    const stats = { substantiveSlides: [2, 3, 5, 7], poolCoveredSlides: [2, 3, 5], duplicatesRemoved: 2, questionsAdded: 1 };
+    const asked = [
+      question('q1', QuestionLevel.EASY, 'Why this dataset?', { slideReference: 2 }),
+      question('q2', QuestionLevel.MEDIUM, 'Why a thank-you slide?', { slideReference: 1 }),
+      question('q3', QuestionLevel.MEDIUM, 'How is it deployed?', { slideReference: 5 }),
+      bankQuestion('b1', QuestionLevel.HARD, 'How does the system scale?'),
+    ];
+
+    expect(calculateSlideCoverage(stats, asked)).toEqual({
+      substantiveSlides: [2, 3, 5, 7],
+      poolCoveredSlides: [2, 3, 5],
+      duplicatesRemoved: 2,
+      questionsAdded: 1,
+      askedCoveredSlides: [2, 5],
+      uncoveredSlides: [3, 7],
+      coverageRatio: 0.5,
+    });
+  });
+
+  it('handles sessions without pool stats', () => {
+    expect(calculateSlideCoverage(null, [])).toMatchObject({ substantiveSlides: [], coverageRatio: 0 });
+  });
+});
+
+describe('balanceBySlide', () => {
+  it('rotates through slides and keeps bank questions first', () => {
+    const pool = byLevel(
+      question('s1a', QuestionLevel.MEDIUM, 'a', { slideReference: 1 }),
+      question('s1b', QuestionLevel.MEDIUM, 'b', { slideReference: 1 }),
+      question('s1c', QuestionLevel.MEDIUM, 'c', { slideReference: 1 }),
+      question('s2a', QuestionLevel.MEDIUM, 'd', { slideReference: 2 }),
+      bankQuestion('bank', QuestionLevel.MEDIUM, 'e'),
+      question('s3a', QuestionLevel.MEDIUM, 'f', { slideReference: 3 }),
+      question('s2b', QuestionLevel.MEDIUM, 'g', { slideReference: 2 })
+    );
+
+    const balanced = balanceBySlide(pool);
+
+    expect(balanced.medium.map(q => q.id)).toEqual(['bank', 's1a', 's2a', 's3a', 's1b', 's2b', 's1c']);
+    expect(balanced.easy).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Question Pool Helpers
+ * Merge faculty bank questions into the generated question pool,
+ * and measure and balance how the pool covers the slides
+ *
+ * Bank questions are mandatory, so they go first at their level and
+ * any generated question that asks the same thing is dropped.
+ */
+
+import {
+  QuestionLevel,
+  type ParsedSlide,
+  type QuestionPoolStats,
+  type QuestionsByLevel,
+  type ReviewQuestion,
+  type SlideCoverage,
+} from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Dice similarity at or above which two questions count as duplicates */
+export const DUPLICATE_QUESTION_THRESHOLD = 0.6;
+
+/** Slides with less text than this (title, thank-you, image-only) need no question */
+export const MIN_SUBSTANTIVE_SLIDE_CHARS = 80;
+
+/** Words that carry no topic, common in spoken questions */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'did', 'do', 'does',
+  'explain', 'for', 'from', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or',
+  'tell', 'that', 'the', 'this', 'to', 'us', 'was', 'were', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'project', 'describe',
+]);
+
+// ============================================================================
+// Similarity
+// ============================================================================
+
+/**
+ * Crude suffix stripping so "validate", "validated" and "validation" match
+ */
+function stem(word: string): string {
+  return word.replace(/(ations?|ings?|ed|es|s|e)$/, '') || word;
+}
+
+function questionTerms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+      .map(stem)
+  );
+}
+
+/**
+ * Dice coefficient over the content words of two questions (0-1)
+ */
+export function questionSimilarity(a: string, b: string): number {
+  const termsA = questionTerms(a);
+  const termsB = questionTerms(b);
+  if (termsA.size === 0 || termsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const term of termsA) {
+    if (termsB.has(term)) shared++;
+  }
+
+  return (2 * shared) / (termsA.size + termsB.size);
+}
+
+function isDuplicate(question: ReviewQuestion, existing: ReviewQuestion[]): boolean {
+  return existing.some(q => questionSimilarity(q.question, question.question) >= DUPLICATE_QUESTION_THRESHOLD);
+}
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Merge bank questions into a generated pool
+ *
+ * Each level starts with its bank questions (duplicates across banks are
+ * kept once), followed by generated questions that do not repeat any
+ * bank question at any level.
+ */
+export function mergeBankQuestions(
+  generated: QuestionsByLevel,
+  bank: QuestionsByLevel
+): { pool: QuestionsByLevel; duplicatesRemoved: number } {
+  const levels = [QuestionLevel.EASY, QuestionLevel.MEDIUM, QuestionLevel.HARD];
+  const keptBank: ReviewQuestion[] = [];
+  let duplicatesRemoved = 0;
+
+  for (const level of levels) {
+    for (const question of bank[level]) {
+      if (isDuplicate(question, keptBank)) {
+        duplicatesRemoved++;
+      } else {
+        keptBank.push(question);
+      }
+    }
+  }
+
+  const pool = {} as QuestionsByLevel;
+
+  for (const level of levels) {
+    const fresh = generated[level].filter(question => {
+      const duplicate = isDuplicate(question, keptBank);
+      if (duplicate) duplicatesRemoved++;
+      return !duplicate;
+    });
+
+    pool[level] = [...keptBank.filter(q => q.level === level), ...fresh];
+  }
+
+  return { pool, duplicatesRemoved };
+}
+
+/**
+ * Bank questions in the pool that have not been asked yet, easy first
+ */
+export function getUnaskedBankQuestions(
+  pool: QuestionsByLevel,
+  questionsAsked: ReviewQuestion[]
+): ReviewQuestion[] {
+  const askedIds = new Set(questionsAsked.map(q => q.id));
+  return [QuestionLevel.EASY, QuestionLevel.MEDIUM, QuestionLevel.HARD].flatMap(level =>
+    pool[level].filter(q => q.source === 'bank' && !askedIds.has(q.id))
+  );
+}
+
+// ============================================================================
+// Slide Coverage
+// ============================================================================
+
+/**
+ * Whether a slide has enough content to be worth a question
+ */
+export function isSubstantiveSlide(slide: ParsedSlide): boolean {
+  const text = [slide.content, ...slide.bullets].join(' ').replace(/\s+/g, ' ').trim();
+  return text.length >= MIN_SUBSTANTIVE_SLIDE_CHARS;
+}
+
+/**
+ * Slide numbers of the substantive slides, in deck order
+ */
+export function getSubstantiveSlides(slides: ParsedSlide[]): number[] {
+  return slides.filter(isSubstantiveSlide).map(s => s.slideNumber);
+}
+
+/**
+ * Substantive slides referenced by at least one of the questions
+ */
+export function getCoveredSlides(questions: ReviewQuestion[], substantiveSlides: number[]): number[] {
+  const referenced = new Set(questions.map(q => q.slideReference));
+  return substantiveSlides.filter(n => referenced.has(n));
+}
+
+/**
+ * Coverage of the asked questions, for the report
+ */
+export function calculateSlideCoverage(
+  stats: QuestionPoolStats | null,
+  questionsAsked: ReviewQuestion[]
+): SlideCoverage {
+  const substantiveSlides = stats?.substantiveSlides ?? [];
+  const askedCoveredSlides = getCoveredSlides(questionsAsked, substantiveSlides);
+  const asked = new Set(askedCoveredSlides);
+
+  return {
+    substantiveSlides,
+    poolCoveredSlides: stats?.poolCoveredSlides ?? [],
+    duplicatesRemoved: stats?.duplicatesRemoved ?? 0,
+    questionsAdded: stats?.questionsAdded ?? 0,
+    askedCoveredSlides,
+    uncoveredSlides: substantiveSlides.filter(n => !asked.has(n)),
+    coverageRatio: substantiveSlides.length > 0 ? askedCoveredSlides.length / substantiveSlides.length : 0,
+  };
+}
+
+/**
+ * Reorder each level so consecutive questions rotate through slides
+ *
+ * Only the first few questions per level are usually asked, so a
+ * round-robin over slides spreads them across the deck. Bank questions
+ * stay first, in their original order.
+ */
+export function balanceBySlide(pool: QuestionsByLevel): QuestionsByLevel {
+  const balance = (questions: ReviewQuestion[]): ReviewQuestion[] => {
+    const bank = questions.filter(q => q.source === 'bank');
+    const bySlide = new Map<number | null, ReviewQuestion[]>();
+
+    for (const q of questions) {
+      if (q.source === 'bank') continue;
+      const group = bySlide.get(q.slideReference) ?? [];
+      group.push(q);
+      bySlide.set(q.slideReference, group);
+    }
+
+    const rotated: ReviewQuestion[] = [];
+    const groups = [...bySlide.values()];
+    for (let round = 0; rotated.length + bank.length < questions.length; round++) {
+      for (const group of groups) {
+        if (group[round]) rotated.push(group[round]);
+      }
+    }
+
+    return [...bank, ...rotated];
+  };
+
+  return {
+    [QuestionLevel.EASY]: balance(pool.easy),
+    [QuestionLevel.MEDIUM]: balance(pool.medium),
+    [QuestionLevel.HARD]: balance(pool.hard),
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { CriterionScore, ReviewEvaluation, ReviewRubric } from '../types/index.js';
+import { DEFAULT_RUBRIC, aggregateRubricScores } from './rubric.js';
+
+const RUBRIC: ReviewRubric = {
+  id: 'rubric-1',
+  name: 'Test rubric',
+  criteria: [
+    { key: 'design', name: 'Design', description: '', weight: 0.75, descriptors: [] },
+    { key: 'testing', name: 'Testing', description: '', weight: 0.25, descriptors: [] },
+    { key: 'ownership', name: 'Ownership', description: '', weight: 0.5, descriptors: [] },
+  ],
+};
+
+function evaluation(questionId: string, criterionScores?: CriterionScore[]): ReviewEvaluation {
+  return {
+    questionId,
+    score: 5,
+    feedback: '',
+    demonstratesUnderstanding: true,
+    flaggedConcerns: [],
+    criterionScores,
+  };
+}
+
+describe('aggregateRubricScores', () => {
+  it('averages each criterion and weights the total over scored criteria only', () => {
+    const result = aggregateRubricScores(RUBRIC, [
+      evaluation('q1', [
+        { criterion: 'design', score: 8, evidence: ['we picked Postgres for joins'] },
+        { criterion: 'testing', score: null, evidence: [] },
+      ]),
+      evaluation('q2', [
+        { criterion: 'design', score: 6, evidence: [] },
+        { criterion: 'testing', score: 4, evidence: ['only manual testing'] },
+      ]),
+    ]);
+
+    expect(result.rubricId).toBe('rubric-1');
+    expect(result.criteria.map(c => [c.key, c.averageScore, c.scoredAnswers])).toEqual([
+      ['design', 7, 2],
+      ['testing', 4, 1],
+      ['ownership', null, 0],
+    ]);
+    // Ownership has no evidence, so only design (0.75) and testing (0.25) count
+    expect(result.weightedScore).toBeCloseTo(0.75 * 7 + 0.25 * 4, 10);
+  });
+
+  it('keeps at most three evidence quotes per criterion', () => {
+    const result = aggregateRubricScores(RUBRIC, [
+      evaluation('q1', [{ criterion: 'design', score: 7, evidence: ['a', 'b'] }]),
+      evaluation('q2', [{ criterion: 'design', score: 7, evidence: ['c', 'd'] }]),
+    ]);
+
+    expect(result.criteria[0].evidence).toEqual(['a', 'b', 'c']);
+  });
+
+  it('ignores scores for criteria outside the rubric', () => {
+    const result = aggregateRubricScores(RUBRIC, [
+      evaluation('q1', [{ criterion: 'unknown', score: 10, evidence: [] }]),
+    ]);
+
+    expect(result.weightedScore).toBeNull();
+  });
+
+  it('handles evaluations without criterion scores', () => {
+    const result = aggregateRubricScores(DEFAULT_RUBRIC, [evaluation('q1')]);
+
+    expect(result.criteria).toHaveLength(DEFAULT_RUBRIC.criteria.length);
+    expect(result.weightedScore).toBeNull();
+  });
+});
+
+describe('DEFAULT_RUBRIC', () => {
+  it('has weights summing to 1', () => {
+    const total = DEFAULT_RUBRIC.criteria.reduce((sum, c) => sum + c.weight, 0);
+
+    expect(total).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Rubric Helpers
+ * Default capstone rubric and aggregation of per-criterion scores
+ */
+
+import type {
+  CriterionScore,
+  ReviewEvaluation,
+  ReviewRubric,
+  RubricScores,
+} from '../types/index.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Evidence quotes kept per criterion in the report */
+const MAX_EVIDENCE_PER_CRITERION = 3;
+
+/**
+ * Rubric used when a review has none and no default exists in the database
+ */
+export const DEFAULT_RUBRIC: ReviewRubric = {
+  id: null,
+  name: 'Capstone Review (default)',
+  criteria: [
+    {
+      key: 'problem_understanding',
+      name: 'Problem Understanding',
+      description: 'Explains the problem, who it affects and why the chosen scope makes sense',
+      weight: 0.2,
+      descriptors: [
+        { score: 2, description: 'Cannot state the problem the project solves' },
+        { score: 5, description: 'States the problem but not its context or constraints' },
+        { score: 8, description: 'Clearly explains the problem, users and constraints' },
+        { score: 10, description: 'Also justifies scope and success criteria with specifics' },
+      ],
+    },
+    {
+      key: 'design_rationale',
+      name: 'Design Rationale',
+      description: 'Justifies architecture, technology and algorithm choices against alternatives',
+      weight: 0.2,
+      descriptors: [
+        { score: 2, description: 'No reasons given for design choices' },
+        { score: 5, description: 'Names choices with generic reasons ("it is popular")' },
+        { score: 8, description: 'Compares alternatives and explains trade-offs' },
+        { score: 10, description: 'Trade-offs tied to measured or project-specific constraints' },
+      ],
+    },
+    {
+      key: 'implementation_depth',
+      name: 'Implementation Depth',
+      description: 'Describes how the system actually works: data flow, key components, hard parts',
+      weight: 0.25,
+      descriptors: [
+        { score: 2, description: 'Only repeats slide text' },
+        { score: 5, description: 'Describes components at a high level' },
+        { score: 8, description: 'Explains internals and difficulties encountered' },
+        { score: 10, description: 'Precise details (code structure, edge cases, fixes) only an implementer would know' },
+      ],
+    },
+    {
+      key: 'testing',
+      name: 'Testing & Validation',
+      description: 'How results were tested, measured or validated, and known limitations',
+      weight: 0.15,
+      descriptors: [
+        { score: 2, description: 'No testing or evaluation mentioned' },
+        { score: 5, description: 'Informal testing only' },
+        { score: 8, description: 'Systematic tests or metrics with results' },
+        { score: 10, description: 'Sound methodology, baselines and honest limitations' },
+      ],
+    },
+    {
+      key: 'ownership',
+      name: 'Ownership',
+      description: 'Personal contribution, decisions made and lessons learned',
+      weight: 0.2,
+      descriptors: [
+        { score: 2, description: 'Appears unfamiliar with own project' },
+        { score: 5, description: 'Vague about own role' },
+        { score: 8, description: 'Clear about own contributions and decisions' },
+        { score: 10, description: 'Reflects on mistakes, iterations and what they would change' },
+      ],
+    },
+  ],
+};
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Aggregate per-criterion scores across all evaluated answers
+ *
+ * Criteria no answer gave evidence for have a null average and are left
+ * out of the weighted score, so one unexamined criterion does not drag
+ * the total down.
+ */
+export function aggregateRubricScores(
+  rubric: ReviewRubric,
+  evaluations: ReviewEvaluation[]
+): RubricScores {
+  const scores: CriterionScore[] = evaluations.flatMap(e => e.criterionScores ?? []);
+
+  const criteria = rubric.criteria.map(criterion => {
+    const matching = scores.filter(s => s.criterion === criterion.key);
+    const scored = matching.filter(s => s.score !== null);
+
+    return {
+      key: criterion.key,
+      name: criterion.name,
+      weight: criterion.weight,
+      averageScore: scored.length > 0
+        ? scored.reduce((sum, s) => sum + s.score!, 0) / scored.length
+        : null,
+      scoredAnswers: scored.length,
+      evidence: matching.flatMap(s => s.evidence).slice(0, MAX_EVIDENCE_PER_CRITERION),
+    };
+  });
+
+  const weighted = criteria.filter(c => c.averageScore !== null && c.weight > 0);
+  const totalWeight = weighted.reduce((sum, c) => sum + c.weight, 0);
+
+  return {
+    rubricId: rubric.id,
+    rubricName: rubric.name,
+    criteria,
+    weightedScore: totalWeight > 0
+      ? weighted.reduce((sum, c) => sum + c.weight * c.averageScore!, 0) / totalWeight
+      : null,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedSlide, RepositoryContext } from '../types/index.js';
+import { checkSlideCodeConsistency, describeSlideCodeConsistency } from './tech-consistency.js';
+
+function slide(slideNumber: number, content: string, bullets: string[] = []): ParsedSlide {
+  return { slideNumber, title: `Slide ${slideNumber}`, content, bullets, hasImages: false, hasCharts: false };
+}
+
+function repository(overrides: Partial<RepositoryContext> = {}): RepositoryContext {
+  return {
+    name: 'capstone',
+    languages: [],
+    tree: [],
+    readme: null,
+    files: [],
+    packages: [],
+    imports: [],
+    ...overrides,
+  };
+}
+
+describe('checkSlideCodeConsistency', () => {
+  it('sorts technologies into matched, claimed but absent, and unmentioned', () => {
+    const slides = [
+      slide(2, 'Built with React and Tailwind CSS'),
+      slide(4, 'Data stored in MongoDB', ['Detection model: YOLOv8']),
+      slide(6, 'We deploy with React Native'),
+    ];
+    const repo = repository({
+      languages: ['TypeScript 70%', 'Python 30%'],
+      tree: ['package.json', 'Dockerfile', 'src/App.tsx'],
+      packages: ['react', 'tailwindcss', 'pg'],
+      imports: ['ultralytics'],
+    });
+
+    const result = checkSlideCodeConsistency(slides, repo);
+
+    expect(result.matched).toEqual(['React', 'Tailwind CSS', 'YOLO']);
+    expect(result.claimedButAbsent).toEqual([
+      { name: 'React Native', slides: [6] },
+      { name: 'MongoDB', slides: [4] },
+    ]);
+    expect(result.presentButUnmentioned).toEqual([
+      { name: 'PostgreSQL', evidence: ['package pg'] },
+      { name: 'Docker', evidence: ['Dockerfile'] },
+    ]);
+    expect(result.checked).toBe(7);
+  });
+
+  it('matches sub-paths of scoped and dotted package names', () => {
+    const result = checkSlideCodeConsistency(
+      [slide(1, 'Files are stored on AWS S3'), slide(2, 'Backend: Spring Boot REST API')],
+      repository({ imports: ['@aws-sdk/client-s3', 'org.springframework.boot'] })
+    );
+
+    expect(result.matched).toEqual(['Spring Boot', 'AWS']);
+    expect(result.claimedButAbsent).toEqual([]);
+  });
+
+  it('never reports languages as unmentioned', () => {
+    const result = checkSlideCodeConsistency([], repository({ languages: ['Python 100%'] }));
+
+    expect(result.presentButUnmentioned).toEqual([]);
+  });
+
+  it('does not mistake JavaScript for Java or a generic "express" for Express', () => {
+    const result = checkSlideCodeConsistency(
+      [slide(1, 'Frontend in JavaScript; users express interest in events')],
+      repository({ languages: ['JavaScript 100%'] })
+    );
+
+    expect(result.matched).toEqual(['JavaScript']);
+    expect(result.claimedButAbsent).toEqual([]);
+  });
+});
+
+describe('describeSlideCodeConsistency', () => {
+  it('words findings as concerns and gaps', () => {
+    const { concerns, gaps } = describeSlideCodeConsistency({
+      checked: 2,
+      matched: [],
+      claimedButAbsent: [{ name: 'MongoDB', slides: [3, 5] }],
+      presentButUnmentioned: [{ name: 'Redis', evidence: ['package redis'] }],
+    });
+
+    expect(concerns).toEqual(['Slides claim MongoDB (slides 3, 5) but the repository shows no trace of it']);
+    expect(gaps).toEqual(['Repository uses Redis (package redis) but the slides never mention it']);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Slide-Code Consistency
+ * Compares the technologies a deck claims with what the ingested
+ * repository actually declares, imports and contains
+ *
+ * Detection is catalog-based and deterministic so the same deck and
+ * repository always produce the same findings.
+ */
+
+import type {
+  ClaimedTechnology,
+  ParsedSlide,
+  RepositoryContext,
+  SlideCodeConsistency,
+  UnmentionedTechnology,
+} from '../types/index.js';
+
+// ============================================================================
+// Technology Catalog
+// ============================================================================
+
+interface TechnologySignature {
+  name: string;
+  /** Matches a mention on a slide */
+  slidePattern: RegExp;
+  /** Package / module names (lowercased); a name also matches its sub-paths */
+  packages?: string[];
+  /** Repository languages (as reported by the repo processor) */
+  languages?: string[];
+  /** Matches a path in the repository tree */
+  filePattern?: RegExp;
+  /** Only check claims; too common to report as unmentioned */
+  claimOnly?: boolean;
+}
+
+const TECHNOLOGIES: TechnologySignature[] = [
+  // Languages
+  { name: 'Python', slidePattern: /\bpython\b/i, languages: ['Python', 'Jupyter Notebook'], claimOnly: true },
+  { name: 'Java', slidePattern: /\bjava\b(?!\s*script)/i, languages: ['Java'], claimOnly: true },
+  { name: 'JavaScript', slidePattern: /\bjavascript\b/i, languages: ['JavaScript', 'TypeScript'], claimOnly: true },
+  { name: 'TypeScript', slidePattern: /\btypescript\b/i, languages: ['TypeScript'], claimOnly: true },
+  { name: 'Kotlin', slidePattern: /\bkotlin\b/i, languages: ['Kotlin'], claimOnly: true },
+  { name: 'Dart', slidePattern: /\bdart\b/i, languages: ['Dart'], claimOnly: true },
+  { name: 'Go', slidePattern: /\bgolang\b/i, languages: ['Go'], claimOnly: true },
+  { name: 'Rust', slidePattern: /\brust\b/i, languages: ['Rust'], claimOnly: true },
+  { name: 'C++', slidePattern: /\bc\+\+/i, languages: ['C++', 'Arduino'], claimOnly: true },
+  { name: 'Solidity', slidePattern: /\bsolidity\b/i, languages: ['Solidity'], claimOnly: true },
+  { name: 'Node.js', slidePattern: /\bnode\.?js\b/i, filePattern: /(^|\/)package\.json$/, claimOnly: true },
+
+  // Frontend
+  { name: 'React', slidePattern: /\breact(?:\.?js)?\b(?![\s-]*native)/i, packages: ['react'] },
+  { name: 'React Native', slidePattern: /\breact[\s-]*native\b/i, packages: ['react-native', 'expo'] },
+  { name: 'Next.js', slidePattern: /\bnext\.?js\b/i, packages: ['next'] },
+  { name: 'Vue', slidePattern: /\bvue(?:\.?js)?\b/i, packages: ['vue', 'nuxt'] },
+  { name: 'Angular', slidePattern: /\bangular\b/i, packages: ['@angular/core'] },
+  { name: 'Svelte', slidePattern: /\bsvelte(?:kit)?\b/i, packages: ['svelte', '@sveltejs/kit'] },
+  { name: 'Tailwind CSS', slidePattern: /\btailwind/i, packages: ['tailwindcss'] },
+  { name: 'Bootstrap', slidePattern: /\bbootstrap\b/i, packages: ['bootstrap', 'react-bootstrap'] },
+  { name: 'Flutter', slidePattern: /\bflutter\b/i, languages: ['Dart'], filePattern: /(^|\/)pubspec\.yaml$/ },
+
+  // Backend
+  {
+    name: 'Express',
+    slidePattern: /\bexpress(?:\.?js)\b|\bexpress\s+(?:server|framework|backend|api)\b|\bnode(?:\.?js)?\s*[/+&,]\s*express\b/i,
+    packages: ['express'],
+  },
+  { name: 'Django', slidePattern: /\bdjango\b/i, packages: ['django', 'djangorestframework', 'rest_framework'] },
+  { name: 'Flask', slidePattern: /\bflask\b/i, packages: ['flask'] },
+  { name: 'FastAPI', slidePattern: /\bfast\s?api\b/i, packages: ['fastapi'] },
+  { name: 'Spring Boot', slidePattern: /\bspring\s*(?:boot|framework|mvc)\b/i, packages: ['org.springframework'] },
+  { name: 'Streamlit', slidePattern: /\bstreamlit\b/i, packages: ['streamlit'] },
+  { name: 'GraphQL', slidePattern: /\bgraphql\b/i, packages: ['graphql', '@apollo/client', '@apollo/server', 'graphene'] },
+  { name: 'Socket.IO', slidePattern: /\bsocket\.?io\b/i, packages: ['socket.io', 'socket.io-client', 'socketio', 'python-socketio', 'flask-socketio'] },
+  { name: 'JWT', slidePattern: /\bjwt\b|\bjson web tokens?\b/i, packages: ['jsonwebtoken', 'jwt', 'pyjwt', 'jose', 'io.jsonwebtoken', 'flask-jwt-extended'] },
+  { name: 'Stripe', slidePattern: /\bstripe\b/i, packages: ['stripe', '@stripe/stripe-js'] },
+
+  // Data stores
+  { name: 'MongoDB', slidePattern: /\bmongo(?:db)?\b/i, packages: ['mongodb', 'mongoose', 'pymongo', 'motor'] },
+  { name: 'MySQL', slidePattern: /\bmysql\b/i, packages: ['mysql', 'mysql2', 'mysql-connector-python', 'pymysql', 'mysqlclient'] },
+  { name: 'PostgreSQL', slidePattern: /\bpostgre(?:s|sql)\b/i, packages: ['pg', 'postgres', 'psycopg', 'psycopg2', 'psycopg2-binary', 'asyncpg', 'org.postgresql'] },
+  { name: 'SQLite', slidePattern: /\bsqlite\d?\b/i, packages: ['sqlite3', 'better-sqlite3', 'sqflite'] },
+  { name: 'Redis', slidePattern: /\bredis\b/i, packages: ['redis', 'ioredis'] },
+  { name: 'Firebase', slidePattern: /\bfirebase\b|\bfirestore\b/i, packages: ['firebase', 'firebase-admin', 'firebase_core', 'firebase_auth', 'cloud_firestore', 'pyrebase'] },
+  { name: 'Supabase', slidePattern: /\bsupabase\b/i, packages: ['@supabase/supabase-js', 'supabase', 'supabase_flutter'] },
+  { name: 'Prisma', slidePattern: /\bprisma\b/i, packages: ['prisma', '@prisma/client'] },
+
+  // Machine learning
+  { name: 'TensorFlow', slidePattern: /\btensor\s?flow(?:\.js)?\b/i, packages: ['tensorflow', 'tensorflow-cpu', 'tensorflow-gpu', '@tensorflow/tfjs', 'tflite_flutter'] },
+  { name: 'Keras', slidePattern: /\bkeras\b/i, packages: ['keras'] },
+  { name: 'PyTorch', slidePattern: /\bpy\s?torch\b/i, packages: ['torch', 'torchvision'] },
+  { name: 'scikit-learn', slidePattern: /\bscikit[\s-]?learn\b|\bsklearn\b/i, packages: ['sklearn', 'scikit-learn'] },
+  { name: 'Pandas', slidePattern: /\bpandas\b/i, packages: ['pandas'] },
+  { name: 'NumPy', slidePattern: /\bnumpy\b/i, packages: ['numpy'] },
+  { name: 'OpenCV', slidePattern: /\bopen\s?cv\b/i, packages: ['cv2', 'opencv-python', 'opencv-python-headless', 'opencv-contrib-python', 'opencv'] },
+  { name: 'YOLO', slidePattern: /\byolo(?:v\d+)?\b/i, packages: ['ultralytics', 'yolov5'] },
+  { name: 'Hugging Face', slidePattern: /\bhugging\s?face\b/i, packages: ['transformers', 'huggingface_hub', 'huggingface-hub', '@huggingface/inference', 'datasets'] },
+  { name: 'NLTK', slidePattern: /\bnltk\b/i, packages: ['nltk'] },
+  { name: 'spaCy', slidePattern: /\bspacy\b/i, packages: ['spacy'] },
+  { name: 'LangChain', slidePattern: /\blang\s?chain\b/i, packages: ['langchain', '@langchain', 'langchain-core', 'langchain-community', 'langchain-openai'] },
+  { name: 'OpenAI API', slidePattern: /\bopenai\b|\bgpt-?[345]|\bchat\s?gpt\b/i, packages: ['openai', '@langchain/openai', 'langchain-openai'] },
+  { name: 'Gemini API', slidePattern: /\bgemini\b/i, packages: ['google-generativeai', 'google-genai', '@google/generative-ai', '@google/genai', '@langchain/google-genai', 'langchain-google-genai'] },
+
+  // Infrastructure
+  { name: 'Docker', slidePattern: /\bdocker\b/i, filePattern: /(^|\/)(dockerfile|docker-compose\.ya?ml|compose\.ya?ml)$/i },
+  { name: 'Kubernetes', slidePattern: /\bkubernetes\b|\bk8s\b/i, filePattern: /(^|\/)(k8s|kubernetes|helm)\//i },
+  { name: 'AWS', slidePattern: /\baws\b|\bamazon web services\b/i, packages: ['aws-sdk', '@aws-sdk', 'boto3', 'aws-amplify'] },
+];
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Whether a declared or imported name belongs to a catalog package
+ * ("@aws-sdk/client-s3" → "@aws-sdk", "org.springframework.boot" → "org.springframework")
+ */
+function matchesPackage(name: string, pkg: string): boolean {
+  return name === pkg || name.startsWith(`${pkg}/`) || name.startsWith(`${pkg}.`);
+}
+
+/** Repository languages without their share ("Python 82%" → "Python") */
+function repositoryLanguages(repository: RepositoryContext): Set<string> {
+  return new Set(repository.languages.map(l => l.replace(/\s+\d+%$/, '')));
+}
+
+/**
+ * Where a technology shows up in the repository; empty when absent
+ */
+function findEvidence(
+  tech: TechnologySignature,
+  repository: RepositoryContext,
+  languages: Set<string>
+): string[] {
+  const evidence = new Set<string>();
+
+  for (const pkg of tech.packages ?? []) {
+    for (const name of repository.packages) {
+      if (matchesPackage(name, pkg)) evidence.add(`package ${name}`);
+    }
+    for (const name of repository.imports) {
+      if (matchesPackage(name, pkg)) evidence.add(`import ${name}`);
+    }
+  }
+  for (const language of tech.languages ?? []) {
+    if (languages.has(language)) evidence.add(`${language} sources`);
+  }
+  if (tech.filePattern) {
+    for (const filePath of repository.tree.filter(p => tech.filePattern!.test(p))) {
+      evidence.add(filePath);
+    }
+  }
+
+  return [...evidence].slice(0, 3);
+}
+
+/**
+ * Compare slide claims with the repository
+ */
+export function checkSlideCodeConsistency(
+  slides: ParsedSlide[],
+  repository: RepositoryContext
+): SlideCodeConsistency {
+  const languages = repositoryLanguages(repository);
+  const matched: string[] = [];
+  const claimedButAbsent: ClaimedTechnology[] = [];
+  const presentButUnmentioned: UnmentionedTechnology[] = [];
+
+  for (const tech of TECHNOLOGIES) {
+    const claimingSlides = slides
+      .filter(slide => tech.slidePattern.test([slide.title, slide.content, ...slide.bullets, slide.notes ?? ''].join('\n')))
+      .map(slide => slide.slideNumber);
+    const evidence = findEvidence(tech, repository, languages);
+
+    if (claimingSlides.length > 0 && evidence.length > 0) {
+      matched.push(tech.name);
+    } else if (claimingSlides.length > 0) {
+      claimedButAbsent.push({ name: tech.name, slides: claimingSlides });
+    } else if (evidence.length > 0 && !tech.claimOnly) {
+      presentButUnmentioned.push({ name: tech.name, evidence });
+    }
+  }
+
+  return {
+    checked: matched.length + claimedButAbsent.length + presentButUnmentioned.length,
+    matched,
+    claimedButAbsent,
+    presentButUnmentioned,
+  };
+}
+
+/**
+ * Report findings, in the wording used for concerns and knowledge gaps
+ */
+export function describeSlideCodeConsistency(consistency: SlideCodeConsistency): {
+  concerns: string[];
+  gaps: string[];
+} {
+  return {
+    concerns: consistency.claimedButAbsent.map(t =>
+      `Slides claim ${t.name} (slide${t.slides.length > 1 ? 's' : ''} ${t.slides.join(', ')}) but the repository shows no trace of it`
+    ),
+    gaps: consistency.presentButUnmentioned.map(t =>
+      `Repository uses ${t.name} (${t.evidence.join(', ')}) but the slides never mention it`
+    ),
+  };
+}
@@ -43,6 +43,9 @@ const envSchema = z.object({
   POSTGRES_DB: z.string().default('interview_db'),
   DATABASE_URL: z.string().optional(),
 
+  // Agent checkpoints ('database' survives worker restarts)
+  CHECKPOINT_STORAGE: z.enum(['memory', 'database']).default('database'),
+
   // Vector DB (Milvus)
   MILVUS_HOST: z.string().default('localhost'),
   MILVUS_PORT: z.string().default('19530'),
@@ -167,6 +170,10 @@ export const config = {
     url: env.DATABASE_URL || `postgresql://${env.POSTGRES_USER}:${env.POSTGRES_PASSWORD}@${env.POSTGRES_HOST}:${env.POSTGRES_PORT}/${env.POSTGRES_DB}`,
   },
 
+  checkpoint: {
+    storage: env.CHECKPOINT_STORAGE,
+  },
+
   vectorDb: {
     host: env.MILVUS_HOST,
     port: parseInt(env.MILVUS_PORT, 10),
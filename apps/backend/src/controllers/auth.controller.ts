@@ -0,0 +1,305 @@
+/**
+ * Auth Controller
+ * Sign-in with an emailed one-time code or a password; sessions live in a
+ * signed HTTP-only cookie
+ *
+ * Students are limited to @vitapstudent.ac.in addresses and created on first
+ * sign-in. Faculty and admins must already have an account (or be listed in
+ * ADMIN_EMAILS).
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../db/prisma.js';
+import type { ProjectReviewStatus } from '../generated/prisma/index.js';
+import {
+  ALLOWED_DOMAIN,
+  LOGIN_CODE_MAX_ATTEMPTS,
+  LOGIN_CODE_TTL_MS,
+  MIN_PASSWORD_LENGTH,
+  clearSessionCookie,
+  generateLoginCode,
+  getBootstrapAdminEmails,
+  hashLoginCode,
+  hashPassword,
+  loginCodeMatches,
+  parseVitEmail,
+  sendLoginCode,
+  setSessionCookie,
+  verifyPassword,
+} from '../services/auth.service.js';
+
+/** Minimum gap between two codes for the same email */
+const LOGIN_CODE_RESEND_MS = 60 * 1000;
+
+const ACTIVE_REVIEW_STATUSES: ProjectReviewStatus[] = ['pending', 'upload_required', 'processing', 'ready', 'in_progress'];
+
+function normalizeEmail(email: unknown): string | null {
+  return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : null;
+}
+
+/**
+ * Staff account for an email, creating admins listed in ADMIN_EMAILS on first use
+ */
+async function findStaffAccount(email: string) {
+  const faculty = await prisma.faculty.findUnique({ where: { email } });
+  if (faculty || !getBootstrapAdminEmails().includes(email)) {
+    return faculty;
+  }
+
+  return prisma.faculty.create({
+    data: { email, name: email.split('@')[0], role: 'admin' },
+  });
+}
+
+/**
+ * Signed-in staff member, as returned by every sign-in endpoint
+ */
+function staffResponse(faculty: { id: string; email: string; name: string; role: 'faculty' | 'admin' }) {
+  return {
+    success: true,
+    faculty: {
+      id: faculty.id,
+      email: faculty.email,
+      name: faculty.name,
+      role: faculty.role,
+    },
+  };
+}
+
+/**
+ * Signed-in student and their active review, as returned by every sign-in endpoint
+ */
+async function sessionResponse(student: { id: string; email: string; name: string; regNo: string }) {
+  const activeReview = await prisma.projectReview.findFirst({
+    where: {
+      studentId: student.id,
+      status: { in: ACTIVE_REVIEW_STATUSES },
+    },
+  });
+
+  return {
+    success: true,
+    student: {
+      id: student.id,
+      email: student.email,
+      name: student.name,
+      regNo: student.regNo,
+    },
+    activeReview: activeReview ? {
+      id: activeReview.id,
+      roomId: activeReview.roomId,
+      status: activeReview.status,
+      projectTitle: activeReview.projectTitle,
+    } : null,
+  };
+}
+
+/**
+ * Email a one-time sign-in code
+ * POST /api/auth/code
+ */
+export async function requestLoginCode(req: Request, res: Response) {
+  try {
+    const email = normalizeEmail(req.body?.email);
+
+    if (!email || (!parseVitEmail(email) && !(await findStaffAccount(email)))) {
+      return res.status(400).json({ error: `Use your @${ALLOWED_DOMAIN} email (name.regno@${ALLOWED_DOMAIN})` });
+    }
+
+    const recent = await prisma.loginCode.findFirst({
+      where: { email, createdAt: { gt: new Date(Date.now() - LOGIN_CODE_RESEND_MS) } },
+      select: { id: true },
+    });
+    if (recent) {
+      return res.status(429).json({ error: 'A code was just sent. Please wait a minute before requesting another.' });
+    }
+
+    const code = generateLoginCode();
+    await prisma.loginCode.create({
+      data: {
+        email,
+        codeHash: hashLoginCode(code),
+        expiresAt: new Date(Date.now() + LOGIN_CODE_TTL_MS),
+      },
+    });
+    await sendLoginCode(email, code);
+
+    return res.json({ success: true, expiresInSeconds: LOGIN_CODE_TTL_MS / 1000 });
+  } catch (error) {
+    console.error('Request login code error:', error);
+    return res.status(500).json({ error: 'Failed to send sign-in code' });
+  }
+}
+
+/**
+ * Verify a sign-in code; creates the student on first sign-in
+ * POST /api/auth/code/verify
+ */
+export async function verifyLoginCode(req: Request, res: Response) {
+  try {
+    const email = normalizeEmail(req.body?.email);
+    const code = typeof req.body?.code === 'string' ? req.body.code.trim() : '';
+
+    if (!email || !/^\d{6}$/.test(code)) {
+      return res.status(400).json({ error: 'Email and 6-digit code are required' });
+    }
+
+    const loginCode = await prisma.loginCode.findFirst({
+      where: { email, consumedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!loginCode) {
+      return res.status(400).json({ error: 'Code expired. Request a new one.' });
+    }
+
+    // Claim an attempt before comparing, so parallel guesses cannot exceed the limit
+    const claimed = await prisma.loginCode.updateMany({
+      where: { id: loginCode.id, consumedAt: null, attempts: { lt: LOGIN_CODE_MAX_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+      return res.status(400).json({ error: 'Code expired. Request a new one.' });
+    }
+
+    if (!loginCodeMatches(code, loginCode.codeHash)) {
+      return res.status(401).json({ error: 'Incorrect code' });
+    }
+
+    const consumed = await prisma.loginCode.updateMany({
+      where: { id: loginCode.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+    if (consumed.count === 0) {
+      return res.status(400).json({ error: 'Code expired. Request a new one.' });
+    }
+
+    const faculty = await findStaffAccount(email);
+    if (faculty) {
+      setSessionCookie(res, faculty, faculty.role);
+      return res.json(staffResponse(faculty));
+    }
+
+    const identity = parseVitEmail(email);
+    if (!identity) {
+      return res.status(400).json({ error: `Use your @${ALLOWED_DOMAIN} email` });
+    }
+
+    const student = await prisma.student.upsert({
+      where: { email },
+      create: { email, name: identity.name, regNo: identity.regNo },
+      update: {},
+    });
+
+    setSessionCookie(res, student);
+    return res.json(await sessionResponse(student));
+  } catch (error) {
+    console.error('Verify login code error:', error);
+    return res.status(500).json({ error: 'Failed to verify sign-in code' });
+  }
+}
+
+/**
+ * Sign in with email and password
+ * POST /api/auth/login
+ */
+export async function loginWithPassword(req: Request, res: Response) {
+  try {
+    const email = normalizeEmail(req.body?.email);
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    const faculty = await prisma.faculty.findUnique({ where: { email } });
+    if (faculty) {
+      if (!faculty.passwordHash || !(await verifyPassword(password, faculty.passwordHash))) {
+        return res.status(401).json({ error: 'Invalid email or password' });
+      }
+      setSessionCookie(res, faculty, faculty.role);
+      return res.json(staffResponse(faculty));
+    }
+
+    const student = await prisma.student.findUnique({ where: { email } });
+
+    if (!student?.passwordHash || !(await verifyPassword(password, student.passwordHash))) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    setSessionCookie(res, student);
+    return res.json(await sessionResponse(student));
+  } catch (error) {
+    console.error('Password login error:', error);
+    return res.status(500).json({ error: 'Failed to sign in' });
+  }
+}
+
+/**
+ * Set or change the signed-in account's password
+ * POST /api/auth/password
+ *
+ * Changing an existing password requires `currentPassword`
+ */
+export async function setPassword(req: Request, res: Response) {
+  try {
+    const { password, currentPassword } = req.body ?? {};
+
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    // Student and staff accounts live in separate tables
+    const select = { id: true, passwordHash: true } as const;
+    const account = req.faculty
+      ? await prisma.faculty.findUnique({ where: { id: req.faculty.id }, select })
+      : await prisma.student.findUnique({ where: { id: req.student!.id }, select });
+
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    if (account.passwordHash && (
+      typeof currentPassword !== 'string' || !(await verifyPassword(currentPassword, account.passwordHash))
+    )) {
+      return res.status(401).json({ error: 'Current password is incorrect' });
+    }
+
+    const data = { passwordHash: await hashPassword(password) };
+    if (req.faculty) {
+      await prisma.faculty.update({ where: { id: account.id }, data });
+    } else {
+      await prisma.student.update({ where: { id: account.id }, data });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Set password error:', error);
+    return res.status(500).json({ error: 'Failed to set password' });
+  }
+}
+
+/**
+ * Current session
+ * GET /api/auth/me
+ */
+export async function getSession(req: Request, res: Response) {
+  try {
+    if (req.faculty) {
+      return res.json(staffResponse(req.faculty));
+    }
+    return res.json(await sessionResponse(req.student!));
+  } catch (error) {
+    console.error('Get session error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Sign out
+ * POST /api/auth/logout
+ */
+export async function logout(_req: Request, res: Response) {
+  clearSessionCookie(res);
+  return res.json({ success: true });
+}
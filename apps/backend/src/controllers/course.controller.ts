@@ -0,0 +1,632 @@
+/**
+ * Course Controller
+ *
+ * Admin management of courses and their batches (e.g. "CSE4099 Capstone,
+ * Winter 2026"): enrollment via CSV import, and the rubric, question banks
+ * and review window applied to every review created in a batch.
+ */
+
+import { Request, Response, type RequestHandler } from 'express';
+import multer from 'multer';
+import { prisma } from '../db/prisma.js';
+import type { Prisma } from '../generated/prisma/index.js';
+import { parseEnrollmentCsv } from '../services/enrollment.service.js';
+
+const MAX_CSV_SIZE = 1024 * 1024; // 1MB
+
+/**
+ * Accept the enrollment CSV as a multipart `file` (a JSON `{ csv }` body also works)
+ */
+export const enrollmentUploadMiddleware: RequestHandler = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_CSV_SIZE },
+  fileFilter: (_req, file, cb) => {
+    if (file.originalname.toLowerCase().endsWith('.csv')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Upload a .csv file'));
+    }
+  },
+}).single('file');
+
+interface BatchInput {
+  name?: string;
+  semester?: string | null;
+  slot?: string | null;
+  isActive?: boolean;
+  rubricId?: string | null;
+  reviewOpensAt?: Date | null;
+  reviewDeadline?: Date | null;
+  requireSlot?: boolean;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function optionalDate(value: unknown): Date | null | undefined {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Validate a batch payload (only the given fields)
+ * Returns the cleaned fields, or an error message
+ */
+async function parseBatchInput(body: Record<string, unknown>): Promise<BatchInput | string> {
+  const input: BatchInput = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return 'name is required';
+    }
+    input.name = body.name.trim();
+  }
+  if (body.semester !== undefined) input.semester = optionalString(body.semester);
+  if (body.slot !== undefined) input.slot = optionalString(body.slot);
+
+  for (const field of ['isActive', 'requireSlot'] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== 'boolean') {
+      return `${field} must be a boolean`;
+    }
+    input[field] = body[field];
+  }
+
+  for (const field of ['reviewOpensAt', 'reviewDeadline'] as const) {
+    if (body[field] === undefined) continue;
+    const date = optionalDate(body[field]);
+    if (date === undefined) {
+      return `${field} must be an ISO date`;
+    }
+    input[field] = date;
+  }
+  if (input.reviewOpensAt && input.reviewDeadline && input.reviewOpensAt >= input.reviewDeadline) {
+    return 'reviewOpensAt must be before reviewDeadline';
+  }
+
+  if (body.rubricId !== undefined) {
+    if (body.rubricId !== null && typeof body.rubricId !== 'string') {
+      return 'rubricId must be a string';
+    }
+    if (body.rubricId) {
+      const rubric = await prisma.rubric.findUnique({ where: { id: body.rubricId }, select: { id: true } });
+      if (!rubric) {
+        return 'Rubric not found';
+      }
+    }
+    input.rubricId = body.rubricId || null;
+  }
+
+  return input;
+}
+
+const BATCH_INCLUDE = {
+  course: { select: { id: true, code: true, name: true } },
+  rubric: { select: { id: true, name: true } },
+  questionBanks: {
+    orderBy: { attachedAt: 'asc' },
+    select: { bank: { select: { id: true, name: true, course: true } } },
+  },
+  _count: { select: { enrollments: true, reviews: true } },
+} satisfies Prisma.BatchInclude;
+
+type BatchWithLinks = Prisma.BatchGetPayload<{ include: typeof BATCH_INCLUDE }>;
+
+/** Enrollment row listed by listEnrollments, with the student's latest review */
+type EnrollmentRow = Prisma.BatchEnrollmentGetPayload<{
+  select: {
+    projectGroup: true;
+    createdAt: true;
+    student: {
+      select: {
+        id: true;
+        email: true;
+        name: true;
+        regNo: true;
+        projectReviews: { select: { roomId: true; status: true; completedAt: true } };
+      };
+    };
+  };
+}>;
+
+function formatBatch(batch: BatchWithLinks) {
+  const { questionBanks, _count, ...rest } = batch;
+  return {
+    ...rest,
+    questionBanks: questionBanks.map((link: { bank: unknown }) => link.bank),
+    enrollmentCount: _count.enrollments,
+    reviewCount: _count.reviews,
+  };
+}
+
+// ============================================================================
+// COURSES
+// ============================================================================
+
+/**
+ * List courses with their batches
+ * GET /api/courses
+ */
+export async function listCourses(_req: Request, res: Response) {
+  try {
+    const courses = await prisma.course.findMany({
+      orderBy: { code: 'asc' },
+      include: {
+        batches: {
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, name: true, semester: true, slot: true, isActive: true },
+        },
+      },
+    });
+
+    return res.json({ courses });
+  } catch (error) {
+    console.error('List courses error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Create a course
+ * POST /api/courses
+ */
+export async function createCourse(req: Request, res: Response) {
+  try {
+    const { code, name } = req.body ?? {};
+
+    if (!code || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ error: 'Course code is required' });
+    }
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Course name is required' });
+    }
+
+    const normalizedCode = code.trim().toUpperCase();
+    const existing = await prisma.course.findUnique({ where: { code: normalizedCode }, select: { id: true } });
+    if (existing) {
+      return res.status(409).json({ error: `Course ${normalizedCode} already exists` });
+    }
+
+    const course = await prisma.course.create({
+      data: { code: normalizedCode, name: name.trim() },
+    });
+
+    return res.status(201).json({ course });
+  } catch (error) {
+    console.error('Create course error:', error);
+    return res.status(500).json({ error: 'Failed to create course' });
+  }
+}
+
+/**
+ * Rename a course
+ * PUT /api/courses/:id
+ */
+export async function updateCourse(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { name } = req.body ?? {};
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Course name is required' });
+    }
+
+    const existing = await prisma.course.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const course = await prisma.course.update({
+      where: { id },
+      data: { name: name.trim() },
+    });
+
+    return res.json({ course });
+  } catch (error) {
+    console.error('Update course error:', error);
+    return res.status(500).json({ error: 'Failed to update course' });
+  }
+}
+
+/**
+ * Delete a course and its batches (reviews are kept, without a batch)
+ * DELETE /api/courses/:id
+ */
+export async function deleteCourse(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.course.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    await prisma.course.delete({ where: { id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete course error:', error);
+    return res.status(500).json({ error: 'Failed to delete course' });
+  }
+}
+
+// ============================================================================
+// BATCHES
+// ============================================================================
+
+/**
+ * List batches (filter with ?courseId= / ?active=true)
+ * GET /api/batches
+ */
+export async function listBatches(req: Request, res: Response) {
+  try {
+    const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : null;
+    const activeOnly = req.query.active === 'true';
+
+    const batches = await prisma.batch.findMany({
+      where: {
+        ...(courseId && { courseId }),
+        ...(activeOnly && { isActive: true }),
+      },
+      orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }],
+      include: BATCH_INCLUDE,
+    });
+
+    return res.json({ batches: batches.map(formatBatch) });
+  } catch (error) {
+    console.error('List batches error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Create a batch of a course
+ * POST /api/batches
+ *
+ * Body: { courseId, name, semester?, slot?, rubricId?, reviewOpensAt?, reviewDeadline?, requireSlot? }
+ */
+export async function createBatch(req: Request, res: Response) {
+  try {
+    const { courseId, name } = req.body ?? {};
+
+    if (!courseId || typeof courseId !== 'string') {
+      return res.status(400).json({ error: 'courseId is required' });
+    }
+    if (name === undefined) {
+      return res.status(400).json({ error: 'name is required' });
+    }
+
+    const input = await parseBatchInput(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId }, select: { id: true } });
+    if (!course) {
+      return res.status(404).json({ error: 'Course not found' });
+    }
+
+    const duplicate = await prisma.batch.findUnique({
+      where: { courseId_name: { courseId, name: input.name! } },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return res.status(409).json({ error: `The course already has a batch named "${input.name}"` });
+    }
+
+    const batch = await prisma.batch.create({
+      data: { courseId, ...input, name: input.name! },
+      include: BATCH_INCLUDE,
+    });
+
+    return res.status(201).json({ batch: formatBatch(batch) });
+  } catch (error) {
+    console.error('Create batch error:', error);
+    return res.status(500).json({ error: 'Failed to create batch' });
+  }
+}
+
+/**
+ * Get a batch with its settings and counts
+ * GET /api/batches/:id
+ */
+export async function getBatch(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const batch = await prisma.batch.findUnique({
+      where: { id },
+      include: BATCH_INCLUDE,
+    });
+
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    return res.json({ batch: formatBatch(batch) });
+  } catch (error) {
+    console.error('Get batch error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update batch details, rubric, review window and slot booking requirement
+ * PUT /api/batches/:id
+ */
+export async function updateBatch(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.batch.findUnique({
+      where: { id },
+      select: { id: true, courseId: true, reviewOpensAt: true, reviewDeadline: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const input = await parseBatchInput(req.body ?? {});
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    // Check the window against the stored end when only one end changes
+    const opensAt = input.reviewOpensAt !== undefined ? input.reviewOpensAt : existing.reviewOpensAt;
+    const deadline = input.reviewDeadline !== undefined ? input.reviewDeadline : existing.reviewDeadline;
+    if (opensAt && deadline && opensAt >= deadline) {
+      return res.status(400).json({ error: 'reviewOpensAt must be before reviewDeadline' });
+    }
+
+    if (input.name) {
+      const duplicate = await prisma.batch.findUnique({
+        where: { courseId_name: { courseId: existing.courseId, name: input.name } },
+        select: { id: true },
+      });
+      if (duplicate && duplicate.id !== id) {
+        return res.status(409).json({ error: `The course already has a batch named "${input.name}"` });
+      }
+    }
+
+    const batch = await prisma.batch.update({
+      where: { id },
+      data: input,
+      include: BATCH_INCLUDE,
+    });
+
+    return res.json({ batch: formatBatch(batch) });
+  } catch (error) {
+    console.error('Update batch error:', error);
+    return res.status(500).json({ error: 'Failed to update batch' });
+  }
+}
+
+/**
+ * Delete a batch (reviews are kept, without a batch)
+ * DELETE /api/batches/:id
+ */
+export async function deleteBatch(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.batch.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    await prisma.batch.delete({ where: { id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete batch error:', error);
+    return res.status(500).json({ error: 'Failed to delete batch' });
+  }
+}
+
+/**
+ * Replace the question banks attached to the batch's new reviews
+ * PUT /api/batches/:id/question-banks
+ *
+ * Body: { bankIds: string[] }
+ */
+export async function setBatchQuestionBanks(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { bankIds } = req.body ?? {};
+
+    if (!Array.isArray(bankIds) || bankIds.some(bankId => typeof bankId !== 'string')) {
+      return res.status(400).json({ error: 'bankIds must be an array of IDs' });
+    }
+
+    const existing = await prisma.batch.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const ids = [...new Set<string>(bankIds)];
+    if (ids.length > 0) {
+      const found = await prisma.questionBank.count({ where: { id: { in: ids } } });
+      if (found !== ids.length) {
+        return res.status(400).json({ error: 'One or more question banks were not found' });
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.batchQuestionBank.deleteMany({ where: { batchId: id } }),
+      prisma.batchQuestionBank.createMany({
+        data: ids.map(bankId => ({ batchId: id, bankId })),
+      }),
+    ]);
+
+    return getBatch(req, res);
+  } catch (error) {
+    console.error('Set batch question banks error:', error);
+    return res.status(500).json({ error: 'Failed to update batch question banks' });
+  }
+}
+
+// ============================================================================
+// ENROLLMENTS
+// ============================================================================
+
+/**
+ * List enrolled students with their latest review in the batch
+ * GET /api/batches/:id/enrollments
+ */
+export async function listEnrollments(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const batch = await prisma.batch.findUnique({ where: { id }, select: { id: true } });
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const enrollments = await prisma.batchEnrollment.findMany({
+      where: { batchId: id },
+      orderBy: [{ projectGroup: 'asc' }, { student: { regNo: 'asc' } }],
+      select: {
+        projectGroup: true,
+        createdAt: true,
+        student: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            regNo: true,
+            projectReviews: {
+              where: { batchId: id },
+              orderBy: { createdAt: 'desc' },
+              take: 1,
+              select: { roomId: true, status: true, completedAt: true },
+            },
+          },
+        },
+      },
+    });
+
+    return res.json({
+      enrollments: enrollments.map(({ student: { projectReviews, ...student }, ...enrollment }: EnrollmentRow) => ({
+        ...enrollment,
+        student,
+        latestReview: projectReviews[0] ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error('List enrollments error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Enroll students from a roster CSV (columns: email, name, reg no, group)
+ * POST /api/batches/:id/enrollments
+ *
+ * Students who have not signed in yet are created; existing enrollments
+ * get their project group updated. Invalid rows are reported, not fatal.
+ * Accepts a multipart `file` or a JSON `{ csv }` body.
+ */
+export async function importEnrollments(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const csv = req.file ? req.file.buffer.toString('utf8') : req.body?.csv;
+
+    if (typeof csv !== 'string' || !csv.trim()) {
+      return res.status(400).json({ error: 'Upload a CSV file (or send { csv })' });
+    }
+
+    const batch = await prisma.batch.findUnique({ where: { id }, select: { id: true } });
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    const parsed = parseEnrollmentCsv(csv);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const emails = parsed.rows.map(row => row.email);
+
+    // Create students who have not signed in yet
+    const knownEmails = new Set(
+      (await prisma.student.findMany({ where: { email: { in: emails } }, select: { email: true } }))
+        .map((student: { email: string }) => student.email)
+    );
+    const newStudents = parsed.rows.filter(row => !knownEmails.has(row.email));
+    if (newStudents.length > 0) {
+      await prisma.student.createMany({
+        data: newStudents.map(row => ({ email: row.email, name: row.name, regNo: row.regNo })),
+        skipDuplicates: true,
+      });
+    }
+
+    const students: { id: string; email: string }[] = await prisma.student.findMany({
+      where: { email: { in: emails } },
+      select: { id: true, email: true },
+    });
+    const studentIds = new Map(students.map(student => [student.email, student.id]));
+
+    const existing: { studentId: string; projectGroup: string | null }[] = await prisma.batchEnrollment.findMany({
+      where: { batchId: id, studentId: { in: students.map(student => student.id) } },
+      select: { studentId: true, projectGroup: true },
+    });
+    const existingGroups = new Map(existing.map(enrollment => [enrollment.studentId, enrollment.projectGroup]));
+
+    const toEnroll = parsed.rows.filter(row => !existingGroups.has(studentIds.get(row.email)!));
+    const toRegroup = parsed.rows.filter(row => {
+      const studentId = studentIds.get(row.email)!;
+      return existingGroups.has(studentId) && existingGroups.get(studentId) !== row.projectGroup;
+    });
+
+    await prisma.$transaction([
+      prisma.batchEnrollment.createMany({
+        data: toEnroll.map(row => ({ batchId: id, studentId: studentIds.get(row.email)!, projectGroup: row.projectGroup })),
+        skipDuplicates: true,
+      }),
+      ...toRegroup.map(row => prisma.batchEnrollment.update({
+        where: { batchId_studentId: { batchId: id, studentId: studentIds.get(row.email)! } },
+        data: { projectGroup: row.projectGroup },
+      })),
+    ]);
+
+    return res.json({
+      success: true,
+      enrolled: toEnroll.length,
+      regrouped: toRegroup.length,
+      alreadyEnrolled: existing.length - toRegroup.length,
+      studentsCreated: newStudents.length,
+      errors: parsed.errors,
+    });
+  } catch (error) {
+    console.error('Import enrollments error:', error);
+    return res.status(500).json({ error: 'Failed to import enrollments' });
+  }
+}
+
+/**
+ * Remove a student from a batch
+ * DELETE /api/batches/:id/enrollments/:studentId
+ */
+export async function removeEnrollment(req: Request, res: Response) {
+  try {
+    const { id, studentId } = req.params;
+
+    const enrollment = await prisma.batchEnrollment.findUnique({
+      where: { batchId_studentId: { batchId: id, studentId } },
+      select: { id: true },
+    });
+    if (!enrollment) {
+      return res.status(404).json({ error: 'Student is not enrolled in this batch' });
+    }
+
+    await prisma.batchEnrollment.delete({ where: { id: enrollment.id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Remove enrollment error:', error);
+    return res.status(500).json({ error: 'Failed to remove enrollment' });
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Faculty Controller
+ *
+ * Admin management of faculty accounts, review panel assignment, and the
+ * faculty dashboard listing of assigned reviews.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../db/prisma.js';
+import type { Prisma, ProjectReviewStatus } from '../generated/prisma/index.js';
+
+const STAFF_ROLES = ['faculty', 'admin'] as const;
+type StaffRole = typeof STAFF_ROLES[number];
+
+const REVIEW_STATUSES = [
+  'pending', 'upload_required', 'processing', 'ready', 'in_progress', 'completed', 'cancelled',
+] as const satisfies readonly ProjectReviewStatus[];
+
+function isReviewStatus(value: string): value is ProjectReviewStatus {
+  return (REVIEW_STATUSES as readonly string[]).includes(value);
+}
+
+const FACULTY_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  employeeId: true,
+  department: true,
+  role: true,
+  createdAt: true,
+};
+
+const ASSIGNED_REVIEW_SELECT = {
+  id: true,
+  roomId: true,
+  projectTitle: true,
+  status: true,
+  createdAt: true,
+  startedAt: true,
+  completedAt: true,
+  student: { select: { name: true, regNo: true, email: true } },
+  batch: { select: { id: true, name: true, course: { select: { code: true } } } },
+  panel: { select: { facultyId: true, isLead: true } },
+  report: {
+    select: {
+      overallScore: true,
+      understandingScore: true,
+      clarityScore: true,
+      depthScore: true,
+      recommendation: true,
+      aiDetectionResult: true,
+      aiDetectionConfidence: true,
+      finalizedVersion: true,
+      finalizedAt: true,
+    },
+  },
+} satisfies Prisma.ProjectReviewSelect;
+
+type AssignedReview = Prisma.ProjectReviewGetPayload<{ select: typeof ASSIGNED_REVIEW_SELECT }>;
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// ============================================================================
+// Faculty Accounts (admin)
+// ============================================================================
+
+/**
+ * List faculty and admins
+ * GET /api/faculty
+ */
+export async function listFaculty(_req: Request, res: Response) {
+  try {
+    const faculty = await prisma.faculty.findMany({
+      orderBy: { name: 'asc' },
+      select: { ...FACULTY_SELECT, _count: { select: { panels: true } } },
+    });
+
+    return res.json({ faculty });
+  } catch (error) {
+    console.error('List faculty error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Create a faculty or admin account
+ * POST /api/faculty
+ */
+export async function createFaculty(req: Request, res: Response) {
+  try {
+    const { email, name, role = 'faculty' } = req.body ?? {};
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(normalizedEmail)) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+    if (!name || typeof name !== 'string' || name.trim().length < 2) {
+      return res.status(400).json({ error: 'Name is required (at least 2 characters)' });
+    }
+    if (!STAFF_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${STAFF_ROLES.join(', ')}` });
+    }
+
+    const existing = await prisma.faculty.findUnique({ where: { email: normalizedEmail }, select: { id: true } });
+    if (existing) {
+      return res.status(409).json({ error: 'A faculty account with this email already exists' });
+    }
+
+    const faculty = await prisma.faculty.create({
+      data: {
+        email: normalizedEmail,
+        name: name.trim(),
+        employeeId: optionalString(req.body.employeeId),
+        department: optionalString(req.body.department),
+        role: role as StaffRole,
+      },
+      select: FACULTY_SELECT,
+    });
+
+    return res.status(201).json({ faculty });
+  } catch (error) {
+    console.error('Create faculty error:', error);
+    return res.status(500).json({ error: 'Failed to create faculty account' });
+  }
+}
+
+/**
+ * Update a faculty account (name, employee ID, department, role)
+ * PUT /api/faculty/:id
+ */
+export async function updateFaculty(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { name, role } = req.body ?? {};
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length < 2)) {
+      return res.status(400).json({ error: 'Name must be at least 2 characters' });
+    }
+    if (role !== undefined && !STAFF_ROLES.includes(role)) {
+      return res.status(400).json({ error: `role must be one of: ${STAFF_ROLES.join(', ')}` });
+    }
+    // Keep at least the caller as admin
+    if (id === req.faculty!.id && role !== undefined && role !== 'admin') {
+      return res.status(400).json({ error: 'You cannot remove your own admin role' });
+    }
+
+    const existing = await prisma.faculty.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Faculty not found' });
+    }
+
+    const faculty = await prisma.faculty.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(role !== undefined && { role }),
+        ...('employeeId' in req.body && { employeeId: optionalString(req.body.employeeId) }),
+        ...('department' in req.body && { department: optionalString(req.body.department) }),
+      },
+      select: FACULTY_SELECT,
+    });
+
+    return res.json({ faculty });
+  } catch (error) {
+    console.error('Update faculty error:', error);
+    return res.status(500).json({ error: 'Failed to update faculty account' });
+  }
+}
+
+/**
+ * Delete a faculty account (removes their panel seats)
+ * DELETE /api/faculty/:id
+ */
+export async function deleteFaculty(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    if (id === req.faculty!.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const existing = await prisma.faculty.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Faculty not found' });
+    }
+
+    await prisma.faculty.delete({ where: { id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete faculty error:', error);
+    return res.status(500).json({ error: 'Failed to delete faculty account' });
+  }
+}
+
+// ============================================================================
+// Review Panels
+// ============================================================================
+
+/**
+ * Get the faculty panel of a review
+ * GET /api/project-review/:roomId/panel
+ */
+export async function getReviewPanel(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: {
+        panel: {
+          orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+          select: {
+            isLead: true,
+            faculty: { select: { id: true, name: true, email: true, department: true } },
+          },
+        },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    return res.json({
+      panel: review.panel.map((member: { isLead: boolean; faculty: Record<string, unknown> }) => ({
+        ...member.faculty,
+        isLead: member.isLead,
+      })),
+    });
+  } catch (error) {
+    console.error('Get review panel error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Replace the faculty panel of a review
+ * PUT /api/project-review/:roomId/panel
+ *
+ * Body: { facultyIds: string[], leadId?: string } (empty list clears the panel)
+ */
+export async function setReviewPanel(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const { facultyIds, leadId = null } = req.body ?? {};
+
+    if (!Array.isArray(facultyIds) || facultyIds.some(id => typeof id !== 'string')) {
+      return res.status(400).json({ error: 'facultyIds must be an array of IDs' });
+    }
+
+    const ids = [...new Set<string>(facultyIds)];
+    if (leadId !== null && !ids.includes(leadId)) {
+      return res.status(400).json({ error: 'leadId must be one of facultyIds' });
+    }
+
+    const review = await prisma.projectReview.findUnique({ where: { roomId }, select: { id: true } });
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    if (ids.length > 0) {
+      const found = await prisma.faculty.count({ where: { id: { in: ids } } });
+      if (found !== ids.length) {
+        return res.status(400).json({ error: 'One or more faculty were not found' });
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.reviewPanelMember.deleteMany({ where: { reviewId: review.id } }),
+      prisma.reviewPanelMember.createMany({
+        data: ids.map(facultyId => ({ reviewId: review.id, facultyId, isLead: facultyId === leadId })),
+      }),
+    ]);
+
+    return getReviewPanel(req, res);
+  } catch (error) {
+    console.error('Set review panel error:', error);
+    return res.status(500).json({ error: 'Failed to update review panel' });
+  }
+}
+
+// ============================================================================
+// Faculty Dashboard
+// ============================================================================
+
+/**
+ * Reviews on the caller's panels (admins see every review)
+ * GET /api/faculty/me/reviews?status=completed&batchId=
+ */
+export async function listAssignedReviews(req: Request, res: Response) {
+  try {
+    const faculty = req.faculty!;
+    const statusParam = typeof req.query.status === 'string' ? req.query.status : '';
+    const batchId = typeof req.query.batchId === 'string' ? req.query.batchId : null;
+
+    if (statusParam && !isReviewStatus(statusParam)) {
+      return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    }
+    const status = isReviewStatus(statusParam) ? statusParam : null;
+
+    const reviews = await prisma.projectReview.findMany({
+      where: {
+        ...(faculty.role !== 'admin' && { panel: { some: { facultyId: faculty.id } } }),
+        ...(status && { status }),
+        ...(batchId && { batchId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 200,
+      select: ASSIGNED_REVIEW_SELECT,
+    });
+
+    return res.json({
+      reviews: reviews.map((review: AssignedReview) => ({
+        id: review.id,
+        roomId: review.roomId,
+        projectTitle: review.projectTitle,
+        status: review.status,
+        createdAt: review.createdAt,
+        startedAt: review.startedAt,
+        completedAt: review.completedAt,
+        student: review.student,
+        batch: review.batch,
+        onPanel: review.panel.some((m: { facultyId: string }) => m.facultyId === faculty.id),
+        isLead: review.panel.some((m: { facultyId: string; isLead: boolean }) => m.facultyId === faculty.id && m.isLead),
+        report: review.report,
+      })),
+    });
+  } catch (error) {
+    console.error('List assigned reviews error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -12,6 +12,11 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs/promises';
 import { uploadToR2, isR2Configured } from '../services/r2.service.js';
+import type { SlideContent } from '../services/rag/ppt-processor.service.js';
+import { toReportContent } from '../services/report-revision.service.js';
+import { reviewWindowError } from '../services/batch.service.js';
+import { sessionMinutes, slotJoinWindowError } from '../services/slot.service.js';
+import { participantIdentity } from '../middleware/auth.js';
 
 // LiveKit credentials
 const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY;
@@ -80,7 +85,6 @@ export const uploadMiddleware: RequestHandler = multer({
 export async function getReviewByRoomId(req: Request, res: Response) {
   try {
     const { roomId } = req.params;
-    const studentId = req.headers['x-student-id'] as string;
 
     const review = await prisma.projectReview.findUnique({
       where: { roomId },
@@ -91,11 +95,6 @@ export async function getReviewByRoomId(req: Request, res: Response) {
       return res.status(404).json({ error: 'Project review not found' });
     }
 
-    // Verify student owns this review
-    if (studentId && review.studentId !== studentId) {
-      return res.status(403).json({ error: 'Not authorized to access this review' });
-    }
-
     // Debug logging for pptFileUrl
     console.log(`[getReviewByRoomId] roomId=${roomId}, pptFileName=${review.pptFileName}, pptFileUrl=${review.pptFileUrl}`);
 
@@ -134,7 +133,6 @@ export async function getReviewByRoomId(req: Request, res: Response) {
 export async function uploadPPT(req: Request, res: Response) {
   try {
     const { roomId } = req.params;
-    const studentId = req.headers['x-student-id'] as string;
     const file = req.file;
 
     if (!file) {
@@ -150,55 +148,68 @@ export async function uploadPPT(req: Request, res: Response) {
       return res.status(404).json({ error: 'Project review not found' });
     }
 
-    // Verify student owns this review
-    if (studentId && review.studentId !== studentId) {
-      return res.status(403).json({ error: 'Not authorized' });
-    }
-
-    // Extract PPT content using officeparser (works server-side)
+    // PPTX and PDF decks are parsed into structured slides so RAG chunks keep
+    // their real slide numbers, titles and speaker notes
+    const filePath = path.join(UPLOAD_DIR, file.filename);
+    let slides: SlideContent[] | null = null;
     let pptContent = '';
+
     try {
-      const officeparser = await import('officeparser');
-      const filePath = path.join(UPLOAD_DIR, file.filename);
-
-      // Parse the PPT/PPTX file
-      const parsed = await officeparser.parseOffice(filePath);
-
-      // Handle different return types from officeparser
-      if (typeof parsed === 'string') {
-        pptContent = parsed;
-      } else if (parsed && typeof parsed === 'object') {
-        // It might return an object with text property
-        if ('text' in parsed) {
-          pptContent = String(parsed.text || '');
+      const { parsePptFile, slidesToText } = await import('../services/rag/ppt-processor.service.js');
+      const parsedSlides = await parsePptFile(filePath);
+      if (parsedSlides.length > 0) {
+        slides = parsedSlides;
+        pptContent = slidesToText(parsedSlides);
+        console.log(`[PPT Upload] Parsed ${parsedSlides.length} slides`);
+      }
+    } catch (e) {
+      console.warn('[PPT Upload] Structured parsing failed, falling back to text extraction:', e);
+    }
+
+    // Fall back to flat text via officeparser (legacy .ppt, or decks the structured parser rejects)
+    if (!slides) {
+      try {
+        const officeparser = await import('officeparser');
+
+        // Parse the PPT/PPTX file
+        const parsed = await officeparser.parseOffice(filePath);
+
+        // Handle different return types from officeparser
+        if (typeof parsed === 'string') {
+          pptContent = parsed;
+        } else if (parsed && typeof parsed === 'object') {
+          // It might return an object with text property
+          if ('text' in parsed) {
+            pptContent = String(parsed.text || '');
+          } else {
+            // Try to stringify it
+            pptContent = JSON.stringify(parsed);
+          }
         } else {
-          // Try to stringify it
-          pptContent = JSON.stringify(parsed);
+          pptContent = String(parsed || '');
         }
-      } else {
-        pptContent = String(parsed || '');
-      }
 
-      // Clean up the content
-      if (pptContent && pptContent !== '[object Object]') {
-        pptContent = pptContent
-          .split('\n')
-          .filter((line: string) => line.trim())
-          .join('\n');
-      } else {
-        pptContent = '';
-      }
+        // Clean up the content
+        if (pptContent && pptContent !== '[object Object]') {
+          pptContent = pptContent
+            .split('\n')
+            .filter((line: string) => line.trim())
+            .join('\n');
+        } else {
+          pptContent = '';
+        }
 
-      console.log(`[PPT Upload] Extracted ${pptContent.length} chars from PPT`);
-      if (pptContent.length > 0) {
-        console.log(`[PPT Upload] First 200 chars: ${pptContent.substring(0, 200)}`);
+        console.log(`[PPT Upload] Extracted ${pptContent.length} chars from PPT`);
+        if (pptContent.length > 0) {
+          console.log(`[PPT Upload] First 200 chars: ${pptContent.substring(0, 200)}`);
+        }
+      } catch (e) {
+        console.warn('[PPT Upload] Could not extract PPT content:', e);
+        pptContent = `File: ${file.originalname}\nSize: ${file.size} bytes\n(Content extraction failed)`;
       }
-    } catch (e) {
-      console.warn('[PPT Upload] Could not extract PPT content:', e);
-      pptContent = `File: ${file.originalname}\nSize: ${file.size} bytes\n(Content extraction failed)`;
     }
 
-    // Upload to R2 for public access (needed for Office viewer)
+    // Upload to R2 for public access (needed for Office viewer on PPT/PPTX)
     let pptFileUrl = `/uploads/ppt/${file.filename}`; // Fallback to local
 
     if (isR2Configured()) {
@@ -247,7 +258,11 @@ export async function uploadPPT(req: Request, res: Response) {
 
     // Index PPT content for RAG (async - don't wait)
     if (pptContent && pptContent.length > 50) {
-      indexPptForRag(review.id, pptContent).then(count => {
+      const indexing = slides
+        ? indexSlidesForRag(review.id, slides)
+        : indexPptForRag(review.id, pptContent);
+
+      indexing.then(count => {
         console.log(`[PPT Upload] Indexed ${count} chunks for review ${review.id}`);
         // Update status to ready after indexing
         prisma.projectReview.update({
@@ -287,6 +302,17 @@ export async function uploadPPT(req: Request, res: Response) {
   }
 }
 
+// Helper function to index structured slides for RAG
+async function indexSlidesForRag(reviewId: string, slides: SlideContent[]): Promise<number> {
+  try {
+    const { indexSlideContent } = await import('../services/rag/index.js');
+    return await indexSlideContent(reviewId, slides);
+  } catch (error) {
+    console.error('[RAG] Indexing error:', error);
+    return 0;
+  }
+}
+
 // Helper function to index PPT content for RAG
 async function indexPptForRag(reviewId: string, pptContent: string): Promise<number> {
   try {
@@ -305,7 +331,6 @@ async function indexPptForRag(reviewId: string, pptContent: string): Promise<num
 export async function getProjectReviewToken(req: Request, res: Response) {
   try {
     const { roomId } = req.params;
-    const studentId = req.headers['x-student-id'] as string;
 
     if (!LIVEKIT_API_KEY || !LIVEKIT_API_SECRET) {
       return res.status(500).json({ error: 'LiveKit not configured' });
@@ -314,16 +339,34 @@ export async function getProjectReviewToken(req: Request, res: Response) {
     // Get review details
     const review = await prisma.projectReview.findUnique({
       where: { roomId },
-      include: { student: true },
+      include: {
+        student: true,
+        batch: { select: { reviewOpensAt: true, reviewDeadline: true, requireSlot: true } },
+        slot: { select: { startsAt: true, endsAt: true } },
+      },
     });
 
     if (!review) {
       return res.status(404).json({ error: 'Project review not found' });
     }
 
-    // Verify student owns this review
-    if (studentId && review.studentId !== studentId) {
-      return res.status(403).json({ error: 'Not authorized' });
+    // A session already under way may be rejoined after the deadline or its slot;
+    // the agent ends it when its time is up
+    const inProgress = review.status === 'in_progress';
+    if (!inProgress) {
+      const windowError = review.batch ? reviewWindowError(review.batch) : null;
+      if (windowError) {
+        return res.status(403).json({ error: windowError });
+      }
+
+      if (review.slot) {
+        const slotError = slotJoinWindowError(review.slot);
+        if (slotError) {
+          return res.status(403).json({ error: slotError });
+        }
+      } else if (review.batch?.requireSlot) {
+        return res.status(403).json({ error: 'Book a review slot before joining', requiresSlot: true });
+      }
     }
 
     // Check if PPT has been uploaded
@@ -352,6 +395,12 @@ export async function getProjectReviewToken(req: Request, res: Response) {
           studentId: review.studentId,
           studentName: review.student?.name,
           studentRegNo: review.student?.regNo,
+          // Session length the agent enforces, counted from the session start
+          maxDurationMinutes: sessionMinutes(
+            review.duration,
+            review.slot,
+            inProgress && review.startedAt ? review.startedAt : new Date()
+          ),
         }),
       });
     } catch (error: any) {
@@ -412,7 +461,8 @@ export async function studentJoined(req: Request, res: Response) {
       where: { roomId },
       data: {
         status: 'in_progress',
-        startedAt: new Date(),
+        // Rejoins keep the original start; the session's time limit counts from it
+        startedAt: review.status === 'in_progress' && review.startedAt ? review.startedAt : new Date(),
       },
     });
 
@@ -490,6 +540,8 @@ export async function completeProjectReview(req: Request, res: Response) {
 /**
  * Get project review summary (for ended page)
  * GET /api/project-review/:roomId/summary
+ *
+ * Faculty get the AI report; students only get the signed-off version
  */
 export async function getProjectReviewSummary(req: Request, res: Response) {
   try {
@@ -499,7 +551,11 @@ export async function getProjectReviewSummary(req: Request, res: Response) {
       where: { roomId },
       include: {
         student: true,
-        report: true,
+        report: {
+          include: {
+            revisions: { where: { signedOff: true }, orderBy: { version: 'desc' }, take: 1 },
+          },
+        },
       },
     });
 
@@ -507,27 +563,56 @@ export async function getProjectReviewSummary(req: Request, res: Response) {
       return res.status(404).json({ error: 'Project review not found' });
     }
 
-    return res.json({
-      review: {
-        id: review.id,
-        projectTitle: review.projectTitle,
-        status: review.status,
-        startedAt: review.startedAt,
-        completedAt: review.completedAt,
-        student: {
-          name: review.student?.name ?? 'Unknown',
-          regNo: review.student?.regNo,
-        },
+    const reviewInfo = {
+      id: review.id,
+      projectTitle: review.projectTitle,
+      status: review.status,
+      startedAt: review.startedAt,
+      completedAt: review.completedAt,
+      student: {
+        name: review.student?.name ?? 'Unknown',
+        regNo: review.student?.regNo,
       },
+    };
+
+    if (req.student) {
+      const finalized = review.report?.revisions[0];
+
+      return res.json({
+        review: reviewInfo,
+        reportStatus: finalized ? 'finalized' : review.report ? 'awaiting_sign_off' : 'pending',
+        report: finalized ? {
+          ...toReportContent(finalized),
+          totalQuestions: review.report.totalQuestions,
+          durationSeconds: review.report.durationSeconds,
+          finalizedAt: review.report.finalizedAt,
+        } : null,
+      });
+    }
+
+    return res.json({
+      review: reviewInfo,
       report: review.report ? {
         overallScore: review.report.overallScore,
         understandingScore: review.report.understandingScore,
         clarityScore: review.report.clarityScore,
         depthScore: review.report.depthScore,
+        levelScores: review.report.levelScores,
+        difficultyPath: review.report.difficultyPath,
+        slideCoverage: review.report.slideCoverage,
+        rubricScores: review.report.rubricScores,
+        evaluationConsistency: review.report.evaluationConsistency,
+        slideCodeConsistency: review.report.slideCodeConsistency,
+        totalQuestions: review.report.totalQuestions,
         aiDetectionResult: review.report.aiDetectionResult,
+        aiDetectionConfidence: review.report.aiDetectionConfidence,
         strengths: review.report.strengths,
         improvements: review.report.improvements,
         summary: review.report.summary,
+        recommendation: review.report.recommendation,
+        durationSeconds: review.report.durationSeconds,
+        finalizedVersion: review.report.finalizedVersion,
+        finalizedAt: review.report.finalizedAt,
       } : null,
     });
   } catch (error) {
@@ -536,6 +621,123 @@ export async function getProjectReviewSummary(req: Request, res: Response) {
   }
 }
 
+/**
+ * List the asked questions with answers and evaluations (audit trail)
+ * GET /api/project-review/:roomId/questions
+ */
+export async function getReviewQuestions(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      include: {
+        questionRecords: {
+          orderBy: { sequence: 'asc' },
+          select: {
+            id: true,
+            questionId: true,
+            sequence: true,
+            level: true,
+            question: true,
+            context: true,
+            expectedPoints: true,
+            slideReference: true,
+            transcript: true,
+            answerDurationSeconds: true,
+            followUps: true,
+            score: true,
+            criterionScores: true,
+            expectedPointCoverage: true,
+            scoreSpread: true,
+            feedback: true,
+            demonstratesUnderstanding: true,
+            flaggedConcerns: true,
+            askedAt: true,
+            answeredAt: true,
+          },
+        },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    // Raw AI scores stay with faculty; students see scores in the signed-off report
+    const questions = req.student
+      ? review.questionRecords.map(({
+        score: _score,
+        scoreSpread: _scoreSpread,
+        criterionScores: _criterionScores,
+        flaggedConcerns: _flaggedConcerns,
+        demonstratesUnderstanding: _demonstratesUnderstanding,
+        ...record
+      }: Record<string, unknown>) => record)
+      : review.questionRecords;
+
+    return res.json({
+      reviewId: review.id,
+      roomId: review.roomId,
+      questions,
+    });
+  } catch (error) {
+    console.error('Get review questions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Set multi-sample scoring for a review; omitted settings use the
+ * environment defaults (an empty body restores all of them)
+ * PUT /api/project-review/:roomId/evaluation-config
+ * Body: { samples?: 1-5, models?: string[], disagreementThreshold?: number }
+ */
+export async function setEvaluationConfig(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const { samples, models, disagreementThreshold } = req.body ?? {};
+
+    if (samples !== undefined && (!Number.isInteger(samples) || samples < 1 || samples > 5)) {
+      return res.status(400).json({ error: 'samples must be an integer from 1 to 5' });
+    }
+    if (models !== undefined && (!Array.isArray(models) || models.some((m: unknown) => typeof m !== 'string' || !m))) {
+      return res.status(400).json({ error: 'models must be an array of model names' });
+    }
+    if (disagreementThreshold !== undefined && (typeof disagreementThreshold !== 'number' || !(disagreementThreshold > 0))) {
+      return res.status(400).json({ error: 'disagreementThreshold must be a positive number' });
+    }
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: { id: true, status: true },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (['in_progress', 'completed', 'cancelled'].includes(review.status)) {
+      return res.status(400).json({ error: `Cannot change the evaluation config of a review that is ${review.status}` });
+    }
+
+    const evaluationConfig = {
+      ...(samples !== undefined && { samples }),
+      ...(models !== undefined && { models }),
+      ...(disagreementThreshold !== undefined && { disagreementThreshold }),
+    };
+
+    await prisma.projectReview.update({
+      where: { id: review.id },
+      data: { evaluationConfig },
+    });
+
+    return res.json({ success: true, evaluationConfig });
+  } catch (error) {
+    console.error('Set evaluation config error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 // ============================================================================
 // MULTI-PARTICIPANT ENDPOINTS
 // ============================================================================
@@ -632,10 +834,11 @@ export async function getRoomByJoinCode(req: Request, res: Response) {
 export async function joinRoomAsParticipant(req: Request, res: Response) {
   try {
     const { code } = req.params;
-    const { name } = req.body;
+    // Display name defaults to the signed-in student's
+    const name: string = typeof req.body?.name === 'string' && req.body.name.trim() ? req.body.name : req.student!.name;
     const joinCode = code.toUpperCase();
 
-    if (!name || name.trim().length < 2) {
+    if (name.trim().length < 2) {
       return res.status(400).json({ error: 'Name is required (min 2 characters)' });
     }
 
@@ -643,6 +846,7 @@ export async function joinRoomAsParticipant(req: Request, res: Response) {
       where: { joinCode },
       include: {
         student: true,
+        slot: { select: { startsAt: true, endsAt: true } },
         participants: {
           where: { leftAt: null },
         },
@@ -658,8 +862,8 @@ export async function joinRoomAsParticipant(req: Request, res: Response) {
       return res.status(400).json({ error: 'Room is full' });
     }
 
-    // Generate participant identity
-    const identity = `participant-${crypto.randomBytes(4).toString('hex').toUpperCase()}`;
+    // Stable per student, so rejoining reuses the participant record
+    const identity = participantIdentity(req.student!);
 
     // Create or update participant record
     const participant = await prisma.reviewParticipant.upsert({
@@ -698,6 +902,11 @@ export async function joinRoomAsParticipant(req: Request, res: Response) {
           pptContent: review.pptContent,
           studentId: review.studentId,
           studentName: review.student?.name,
+          maxDurationMinutes: sessionMinutes(
+            review.duration,
+            review.slot,
+            review.status === 'in_progress' && review.startedAt ? review.startedAt : new Date()
+          ),
         }),
       });
     } catch (error: any) {
@@ -0,0 +1,446 @@
+/**
+ * Question Bank Controller
+ *
+ * CRUD for faculty-authored question banks and attaching banks to reviews.
+ * Questions from attached banks are merged into the agent's question pool.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../db/prisma.js';
+import type { Prisma } from '../generated/prisma/index.js';
+
+const QUESTION_LEVELS = ['easy', 'medium', 'hard'] as const;
+type QuestionLevel = typeof QUESTION_LEVELS[number];
+
+interface BankQuestionInput {
+  level: QuestionLevel;
+  question: string;
+  expectedPoints: string[];
+  position?: number;
+}
+
+const BANK_QUESTION_SELECT = {
+  id: true,
+  level: true,
+  question: true,
+  expectedPoints: true,
+  position: true,
+};
+
+const BANK_LIST_INCLUDE = {
+  _count: { select: { questions: true, reviews: true } },
+} satisfies Prisma.QuestionBankInclude;
+
+const REVIEW_BANK_INCLUDE = {
+  bank: { include: { _count: { select: { questions: true } } } },
+} satisfies Prisma.ProjectReviewQuestionBankInclude;
+
+type BankListItem = Prisma.QuestionBankGetPayload<{ include: typeof BANK_LIST_INCLUDE }>;
+type ReviewBankLink = Prisma.ProjectReviewQuestionBankGetPayload<{ include: typeof REVIEW_BANK_INCLUDE }>;
+
+/**
+ * Validate a question payload
+ * Returns the cleaned input, or an error message
+ */
+function parseBankQuestion(body: unknown): BankQuestionInput | string {
+  const { level, question, expectedPoints, position } = (body ?? {}) as Record<string, unknown>;
+
+  if (!QUESTION_LEVELS.includes(level as QuestionLevel)) {
+    return `level must be one of: ${QUESTION_LEVELS.join(', ')}`;
+  }
+  if (!question || typeof question !== 'string' || question.trim().length < 5) {
+    return 'question is required (at least 5 characters)';
+  }
+  if (expectedPoints !== undefined && (!Array.isArray(expectedPoints) || expectedPoints.some(p => typeof p !== 'string'))) {
+    return 'expectedPoints must be an array of strings';
+  }
+  if (position !== undefined && !Number.isInteger(position)) {
+    return 'position must be an integer';
+  }
+
+  return {
+    level: level as QuestionLevel,
+    question: question.trim(),
+    expectedPoints: ((expectedPoints ?? []) as string[]).map(p => p.trim()).filter(Boolean),
+    ...(position !== undefined && { position: position as number }),
+  };
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// ============================================================================
+// QUESTION BANKS
+// ============================================================================
+
+/**
+ * List question banks, optionally filtered by course or domain
+ * GET /api/question-banks?course=CSE3005&domain=web
+ */
+export async function listQuestionBanks(req: Request, res: Response) {
+  try {
+    const course = optionalString(req.query.course);
+    const domain = optionalString(req.query.domain);
+
+    const banks = await prisma.questionBank.findMany({
+      where: {
+        ...(course && { course }),
+        ...(domain && { domain }),
+      },
+      orderBy: { updatedAt: 'desc' },
+      include: BANK_LIST_INCLUDE,
+    });
+
+    return res.json({
+      banks: banks.map((bank: BankListItem) => ({
+        id: bank.id,
+        name: bank.name,
+        description: bank.description,
+        course: bank.course,
+        domain: bank.domain,
+        createdBy: bank.createdBy,
+        questionCount: bank._count.questions,
+        reviewCount: bank._count.reviews,
+        updatedAt: bank.updatedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('List question banks error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Create a question bank, optionally with its initial questions
+ * POST /api/question-banks
+ */
+export async function createQuestionBank(req: Request, res: Response) {
+  try {
+    const { name, description, course, domain, createdBy, questions = [] } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Bank name is required' });
+    }
+    if (!Array.isArray(questions)) {
+      return res.status(400).json({ error: 'questions must be an array' });
+    }
+
+    const parsed: BankQuestionInput[] = [];
+    for (const [idx, raw] of questions.entries()) {
+      const result = parseBankQuestion(raw);
+      if (typeof result === 'string') {
+        return res.status(400).json({ error: `Question ${idx + 1}: ${result}` });
+      }
+      parsed.push({ ...result, position: result.position ?? idx });
+    }
+
+    const bank = await prisma.questionBank.create({
+      data: {
+        name: name.trim(),
+        description: optionalString(description),
+        course: optionalString(course),
+        domain: optionalString(domain),
+        createdBy: req.faculty?.email ?? optionalString(createdBy),
+        questions: { create: parsed },
+      },
+      include: { questions: { select: BANK_QUESTION_SELECT, orderBy: { position: 'asc' } } },
+    });
+
+    return res.status(201).json({ bank });
+  } catch (error) {
+    console.error('Create question bank error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Get a question bank with its questions
+ * GET /api/question-banks/:id
+ */
+export async function getQuestionBank(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const bank = await prisma.questionBank.findUnique({
+      where: { id },
+      include: {
+        questions: {
+          select: BANK_QUESTION_SELECT,
+          orderBy: [{ level: 'asc' }, { position: 'asc' }],
+        },
+      },
+    });
+
+    if (!bank) {
+      return res.status(404).json({ error: 'Question bank not found' });
+    }
+
+    return res.json({ bank });
+  } catch (error) {
+    console.error('Get question bank error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update bank details
+ * PUT /api/question-banks/:id
+ */
+export async function updateQuestionBank(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { name, description, course, domain } = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Bank name cannot be empty' });
+    }
+
+    const existing = await prisma.questionBank.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Question bank not found' });
+    }
+
+    const bank = await prisma.questionBank.update({
+      where: { id },
+      data: {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: optionalString(description) }),
+        ...(course !== undefined && { course: optionalString(course) }),
+        ...(domain !== undefined && { domain: optionalString(domain) }),
+      },
+    });
+
+    return res.json({ bank });
+  } catch (error) {
+    console.error('Update question bank error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a bank and its questions (detaches it from all reviews)
+ * DELETE /api/question-banks/:id
+ */
+export async function deleteQuestionBank(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const result = await prisma.questionBank.deleteMany({ where: { id } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Question bank not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete question bank error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================================
+// BANK QUESTIONS
+// ============================================================================
+
+/**
+ * Add a question to a bank
+ * POST /api/question-banks/:id/questions
+ */
+export async function addBankQuestion(req: Request, res: Response) {
+  try {
+    const { id: bankId } = req.params;
+
+    const input = parseBankQuestion(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const bank = await prisma.questionBank.findUnique({
+      where: { id: bankId },
+      include: { _count: { select: { questions: true } } },
+    });
+    if (!bank) {
+      return res.status(404).json({ error: 'Question bank not found' });
+    }
+
+    const question = await prisma.questionBankQuestion.create({
+      data: { bankId, ...input, position: input.position ?? bank._count.questions },
+      select: BANK_QUESTION_SELECT,
+    });
+
+    return res.status(201).json({ question });
+  } catch (error) {
+    console.error('Add bank question error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Replace a question in a bank
+ * PUT /api/question-banks/:id/questions/:questionId
+ */
+export async function updateBankQuestion(req: Request, res: Response) {
+  try {
+    const { id: bankId, questionId } = req.params;
+
+    const input = parseBankQuestion(req.body);
+    if (typeof input === 'string') {
+      return res.status(400).json({ error: input });
+    }
+
+    const existing = await prisma.questionBankQuestion.findFirst({
+      where: { id: questionId, bankId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return res.status(404).json({ error: 'Question not found in this bank' });
+    }
+
+    const question = await prisma.questionBankQuestion.update({
+      where: { id: questionId },
+      data: input,
+      select: BANK_QUESTION_SELECT,
+    });
+
+    return res.json({ question });
+  } catch (error) {
+    console.error('Update bank question error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Remove a question from a bank
+ * DELETE /api/question-banks/:id/questions/:questionId
+ */
+export async function deleteBankQuestion(req: Request, res: Response) {
+  try {
+    const { id: bankId, questionId } = req.params;
+
+    const result = await prisma.questionBankQuestion.deleteMany({
+      where: { id: questionId, bankId },
+    });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Question not found in this bank' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete bank question error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================================
+// REVIEW ATTACHMENTS
+// ============================================================================
+
+/**
+ * List the banks attached to a review
+ * GET /api/project-review/:roomId/question-banks
+ */
+export async function getReviewQuestionBanks(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      include: {
+        questionBanks: {
+          orderBy: { attachedAt: 'asc' },
+          include: REVIEW_BANK_INCLUDE,
+        },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    return res.json({
+      banks: review.questionBanks.map((link: ReviewBankLink) => ({
+        id: link.bank.id,
+        name: link.bank.name,
+        course: link.bank.course,
+        domain: link.bank.domain,
+        questionCount: link.bank._count.questions,
+        attachedAt: link.attachedAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Get review question banks error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Attach a bank to a review; its questions are used when the agent generates questions
+ * POST /api/project-review/:roomId/question-banks
+ */
+export async function attachQuestionBank(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const { bankId } = req.body;
+
+    if (!bankId || typeof bankId !== 'string') {
+      return res.status(400).json({ error: 'bankId is required' });
+    }
+
+    const [review, bank] = await Promise.all([
+      prisma.projectReview.findUnique({ where: { roomId }, select: { id: true, status: true } }),
+      prisma.questionBank.findUnique({ where: { id: bankId }, select: { id: true } }),
+    ]);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (!bank) {
+      return res.status(404).json({ error: 'Question bank not found' });
+    }
+    if (['in_progress', 'completed', 'cancelled'].includes(review.status)) {
+      return res.status(400).json({ error: `Cannot change question banks of a review that is ${review.status}` });
+    }
+
+    await prisma.projectReviewQuestionBank.upsert({
+      where: { reviewId_bankId: { reviewId: review.id, bankId } },
+      create: { reviewId: review.id, bankId },
+      update: {},
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Attach question bank error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Detach a bank from a review
+ * DELETE /api/project-review/:roomId/question-banks/:bankId
+ */
+export async function detachQuestionBank(req: Request, res: Response) {
+  try {
+    const { roomId, bankId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: { id: true },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    const result = await prisma.projectReviewQuestionBank.deleteMany({
+      where: { reviewId: review.id, bankId },
+    });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Question bank is not attached to this review' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Detach question bank error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Report Controller
+ *
+ * Faculty review of the AI-generated report: adjust scores, edit strengths
+ * and improvements, override the recommendation (with a justification) and
+ * sign off. Every edit is a new revision; the AI original is never changed.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../db/prisma.js';
+import type { ReportRevision } from '../generated/prisma/index.js';
+import {
+  MIN_JUSTIFICATION_LENGTH,
+  applyReportEdits,
+  toReportContent,
+} from '../services/report-revision.service.js';
+
+/**
+ * Review in `:roomId` with its report and revisions (oldest first)
+ */
+function findReviewReport(req: Request) {
+  return prisma.projectReview.findUnique({
+    where: { roomId: req.params.roomId },
+    select: {
+      id: true,
+      roomId: true,
+      report: {
+        include: { revisions: { orderBy: { version: 'asc' } } },
+      },
+    },
+  });
+}
+
+function formatRevision(revision: ReportRevision) {
+  return {
+    version: revision.version,
+    author: { id: revision.authorId, name: revision.authorName },
+    ...toReportContent(revision),
+    justification: revision.justification,
+    signedOff: revision.signedOff,
+    createdAt: revision.createdAt,
+  };
+}
+
+/**
+ * AI original, every faculty revision and the signed-off version
+ * GET /api/project-review/:roomId/report
+ */
+export async function getReportRevisions(req: Request, res: Response) {
+  try {
+    const review = await findReviewReport(req);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (!review.report) {
+      return res.status(404).json({ error: 'The report has not been generated yet' });
+    }
+
+    const { report } = review;
+    const revisions = report.revisions.map(formatRevision);
+
+    return res.json({
+      reviewId: review.id,
+      roomId: review.roomId,
+      original: toReportContent(report),
+      revisions,
+      current: revisions.at(-1) ?? null,
+      finalizedVersion: report.finalizedVersion,
+      finalizedAt: report.finalizedAt,
+    });
+  } catch (error) {
+    console.error('Get report revisions error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Save a revision of the report, optionally signing it off
+ * POST /api/project-review/:roomId/report/revisions
+ *
+ * Body: edits to any of { overallScore, understandingScore, clarityScore,
+ * depthScore, strengths, improvements, summary, recommendation } on top of
+ * the latest revision, plus { justification?, signOff? }. A justification
+ * is required whenever the recommendation differs from the AI's.
+ */
+export async function createReportRevision(req: Request, res: Response) {
+  try {
+    const { justification, signOff = false, ...edits } = req.body ?? {};
+    const faculty = req.faculty!;
+
+    if (typeof signOff !== 'boolean') {
+      return res.status(400).json({ error: 'signOff must be a boolean' });
+    }
+    if (justification !== undefined && justification !== null && typeof justification !== 'string') {
+      return res.status(400).json({ error: 'justification must be a string' });
+    }
+
+    const review = await findReviewReport(req);
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (!review.report) {
+      return res.status(404).json({ error: 'The report has not been generated yet' });
+    }
+
+    const { report } = review;
+    const original = toReportContent(report);
+    const latest = report.revisions.at(-1);
+
+    const result = applyReportEdits(latest ? toReportContent(latest) : original, edits);
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    // An override kept from the previous revision keeps its justification
+    const inheritedJustification = latest?.recommendation === result.content.recommendation ? latest.justification : null;
+    const finalJustification = (typeof justification === 'string' ? justification.trim() : '') || inheritedJustification || '';
+    if (result.content.recommendation !== original.recommendation
+      && finalJustification.length < MIN_JUSTIFICATION_LENGTH) {
+      return res.status(400).json({
+        error: `Overriding the AI recommendation requires a justification (at least ${MIN_JUSTIFICATION_LENGTH} characters)`,
+      });
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+
+    const [revision] = await prisma.$transaction([
+      prisma.reportRevision.create({
+        data: {
+          reportId: report.id,
+          version,
+          authorId: faculty.id,
+          authorName: faculty.name,
+          ...result.content,
+          justification: finalJustification || null,
+          signedOff: signOff,
+        },
+      }),
+      ...(signOff ? [prisma.projectReviewReport.update({
+        where: { id: report.id },
+        data: { finalizedVersion: version, finalizedAt: new Date() },
+      })] : []),
+    ]);
+
+    return res.status(201).json({ revision: formatRevision(revision) });
+  } catch (error) {
+    console.error('Create report revision error:', error);
+    return res.status(500).json({ error: 'Failed to save report revision' });
+  }
+}
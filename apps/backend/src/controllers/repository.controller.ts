@@ -0,0 +1,170 @@
+/**
+ * Repository Controller
+ *
+ * Ingests a review's project repository (uploaded archive or a shallow
+ * clone of its GitHub URL) into the RAG store next to the slides
+ */
+
+import { Request, Response, RequestHandler } from 'express';
+import multer from 'multer';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { prisma } from '../db/prisma.js';
+import {
+  ArchiveLimitError,
+  buildRepoSnapshot,
+  cloneRepository,
+  isGithubUrl,
+  listArchiveFiles,
+  listDirectoryFiles,
+  type RepoFile,
+  type RepoSnapshot,
+} from '../services/rag/repo-processor.service.js';
+
+const MAX_ARCHIVE_SIZE = 25 * 1024 * 1024; // 25MB
+const ALLOWED_ARCHIVE_SUFFIXES = ['.zip', '.tar.gz', '.tgz'];
+
+export const repositoryUploadMiddleware: RequestHandler = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ARCHIVE_SIZE },
+  fileFilter: (_req, file, cb) => {
+    const name = file.originalname.toLowerCase();
+    if (ALLOWED_ARCHIVE_SUFFIXES.some(suffix => name.endsWith(suffix))) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid archive type. Allowed: ${ALLOWED_ARCHIVE_SUFFIXES.join(', ')}`));
+    }
+  },
+}).single('archive');
+
+/**
+ * Snapshot a shallow clone, removing the checkout afterwards
+ */
+async function snapshotFromGithub(url: string): Promise<RepoSnapshot> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'review-repo-'));
+  try {
+    await cloneRepository(url, dir);
+    const name = url.replace(/\.git\/?$|\/$/g, '').split('/').pop() || 'repository';
+    return await buildRepoSnapshot(name, await listDirectoryFiles(dir));
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Ingest the project repository
+ * POST /api/project-review/:roomId/repository
+ *
+ * multipart `archive` (.zip / .tar.gz), or no file to clone the review's
+ * GitHub URL (a `githubUrl` body field replaces the stored one)
+ */
+export async function ingestRepository(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const file = req.file;
+    const githubUrl = typeof req.body?.githubUrl === 'string' ? req.body.githubUrl.trim() : null;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: { id: true, status: true, githubUrl: true },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (['in_progress', 'completed', 'cancelled'].includes(review.status)) {
+      return res.status(400).json({ error: `Cannot ingest a repository for a review that is ${review.status}` });
+    }
+
+    let snapshot: RepoSnapshot;
+    let source: 'archive' | 'github';
+    const url = githubUrl || review.githubUrl;
+
+    if (file) {
+      const name = file.originalname.replace(/\.(zip|tar\.gz|tgz)$/i, '');
+      let files: RepoFile[];
+      try {
+        files = listArchiveFiles(file.buffer, file.originalname);
+      } catch (error) {
+        console.error('[Repository] Archive extraction failed:', error);
+        return res.status(error instanceof ArchiveLimitError ? 413 : 400).json({
+          error: error instanceof Error ? error.message : 'Could not read the archive',
+        });
+      }
+      snapshot = await buildRepoSnapshot(name, files);
+      source = 'archive';
+    } else if (url) {
+      if (!isGithubUrl(url)) {
+        return res.status(400).json({ error: 'githubUrl must be a public https://github.com/<owner>/<repo> URL' });
+      }
+      try {
+        snapshot = await snapshotFromGithub(url);
+      } catch (error) {
+        console.error('[Repository] Clone failed:', error);
+        return res.status(422).json({ error: 'Could not clone the repository. Is it public?' });
+      }
+      source = 'github';
+    } else {
+      return res.status(400).json({ error: 'Upload an archive or set the review\'s GitHub URL' });
+    }
+
+    if (snapshot.keyFiles.length === 0) {
+      return res.status(422).json({ error: 'No source files found in the repository' });
+    }
+
+    const { indexRepository } = await import('../services/rag/index.js');
+    const chunks = await indexRepository(review.id, snapshot);
+
+    const repository = {
+      name: snapshot.name,
+      source,
+      url: source === 'github' ? url : null,
+      totalFiles: snapshot.totalFiles,
+      languages: snapshot.languages,
+      tree: snapshot.tree,
+      keyFiles: snapshot.keyFiles.map(f => f.path),
+      dependencies: snapshot.dependencies,
+      hasReadme: !!snapshot.readme,
+      chunks,
+      ingestedAt: new Date().toISOString(),
+    };
+
+    await prisma.projectReview.update({
+      where: { id: review.id },
+      data: {
+        repository,
+        ...(githubUrl && { githubUrl }),
+      },
+    });
+
+    return res.json({ success: true, repository });
+  } catch (error) {
+    console.error('Ingest repository error:', error);
+    return res.status(500).json({ error: 'Failed to ingest repository' });
+  }
+}
+
+/**
+ * Get the ingested repository summary
+ * GET /api/project-review/:roomId/repository
+ */
+export async function getRepository(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: { githubUrl: true, repository: true },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    return res.json({ githubUrl: review.githubUrl, repository: review.repository });
+  } catch (error) {
+    console.error('Get repository error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
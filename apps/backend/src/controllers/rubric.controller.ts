@@ -0,0 +1,299 @@
+/**
+ * Rubric Controller
+ *
+ * CRUD for grading rubrics (weighted criteria with score descriptors)
+ * and selecting the rubric a review is evaluated against.
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../db/prisma.js';
+import type { Prisma } from '../generated/prisma/index.js';
+
+interface CriterionInput {
+  key: string;
+  name: string;
+  description: string;
+  weight: number;
+  descriptors: { score: number; description: string }[];
+  position: number;
+}
+
+const RUBRIC_INCLUDE = {
+  criteria: {
+    orderBy: { position: 'asc' },
+    select: { key: true, name: true, description: true, weight: true, descriptors: true, position: true },
+  },
+} as const;
+
+/**
+ * Derive a criterion key from its name, e.g. "Design Rationale" -> "design_rationale"
+ */
+function toCriterionKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Validate a criteria payload
+ * Returns the cleaned criteria, or an error message
+ */
+function parseCriteria(criteria: unknown): CriterionInput[] | string {
+  if (!Array.isArray(criteria) || criteria.length === 0) {
+    return 'criteria must be a non-empty array';
+  }
+
+  const parsed: CriterionInput[] = [];
+  const keys = new Set<string>();
+
+  for (const [idx, raw] of criteria.entries()) {
+    const label = `Criterion ${idx + 1}`;
+    const { name, description, weight = 1, descriptors = [] } = raw ?? {};
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return `${label}: name is required`;
+    }
+    if (!description || typeof description !== 'string' || !description.trim()) {
+      return `${label}: description is required`;
+    }
+    if (typeof weight !== 'number' || !(weight > 0)) {
+      return `${label}: weight must be a positive number`;
+    }
+    if (!Array.isArray(descriptors) || descriptors.some((d: { score?: unknown; description?: unknown } | null) =>
+      typeof d?.score !== 'number' || d.score < 1 || d.score > 10 || typeof d?.description !== 'string'
+    )) {
+      return `${label}: descriptors must be [{ score: 1-10, description }]`;
+    }
+
+    const key = typeof raw.key === 'string' && raw.key.trim() ? toCriterionKey(raw.key) : toCriterionKey(name);
+    if (!key || keys.has(key)) {
+      return `${label}: key "${key}" is empty or duplicated`;
+    }
+    keys.add(key);
+
+    parsed.push({
+      key,
+      name: name.trim(),
+      description: description.trim(),
+      weight,
+      descriptors: descriptors
+        .map((d: { score: number; description: string }) => ({ score: d.score, description: d.description.trim() }))
+        .sort((a: { score: number }, b: { score: number }) => a.score - b.score),
+      position: idx,
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Unset the default flag on all other rubrics
+ */
+async function clearOtherDefaults(rubricId: string): Promise<void> {
+  await prisma.rubric.updateMany({
+    where: { isDefault: true, id: { not: rubricId } },
+    data: { isDefault: false },
+  });
+}
+
+// ============================================================================
+// RUBRICS
+// ============================================================================
+
+/**
+ * List rubrics
+ * GET /api/rubrics
+ */
+export async function listRubrics(_req: Request, res: Response) {
+  try {
+    const rubrics = await prisma.rubric.findMany({
+      orderBy: [{ isDefault: 'desc' }, { updatedAt: 'desc' }],
+      include: RUBRIC_INCLUDE,
+    });
+
+    return res.json({ rubrics });
+  } catch (error) {
+    console.error('List rubrics error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Create a rubric
+ * POST /api/rubrics
+ */
+export async function createRubric(req: Request, res: Response) {
+  try {
+    const { name, description, isDefault = false, createdBy, criteria } = req.body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'Rubric name is required' });
+    }
+
+    const parsed = parseCriteria(criteria);
+    if (typeof parsed === 'string') {
+      return res.status(400).json({ error: parsed });
+    }
+
+    const rubric = await prisma.rubric.create({
+      data: {
+        name: name.trim(),
+        description: typeof description === 'string' ? description.trim() || null : null,
+        isDefault: !!isDefault,
+        createdBy: req.faculty?.email ?? (typeof createdBy === 'string' ? createdBy.trim() || null : null),
+        criteria: { create: parsed },
+      },
+      include: RUBRIC_INCLUDE,
+    });
+
+    if (rubric.isDefault) {
+      await clearOtherDefaults(rubric.id);
+    }
+
+    return res.status(201).json({ rubric });
+  } catch (error) {
+    console.error('Create rubric error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Get a rubric with its criteria
+ * GET /api/rubrics/:id
+ */
+export async function getRubric(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const rubric = await prisma.rubric.findUnique({
+      where: { id },
+      include: RUBRIC_INCLUDE,
+    });
+
+    if (!rubric) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+
+    return res.json({ rubric });
+  } catch (error) {
+    console.error('Get rubric error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Update a rubric; `criteria`, if given, replaces all existing criteria
+ * PUT /api/rubrics/:id
+ */
+export async function updateRubric(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+    const { name, description, isDefault, criteria } = req.body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ error: 'Rubric name cannot be empty' });
+    }
+
+    const parsed = criteria !== undefined ? parseCriteria(criteria) : null;
+    if (typeof parsed === 'string') {
+      return res.status(400).json({ error: parsed });
+    }
+
+    const existing = await prisma.rubric.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+
+    const rubric = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (parsed) {
+        await tx.rubricCriterion.deleteMany({ where: { rubricId: id } });
+      }
+
+      return tx.rubric.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name: name.trim() }),
+          ...(description !== undefined && { description: typeof description === 'string' ? description.trim() || null : null }),
+          ...(isDefault !== undefined && { isDefault: !!isDefault }),
+          ...(parsed && { criteria: { create: parsed } }),
+        },
+        include: RUBRIC_INCLUDE,
+      });
+    });
+
+    if (rubric.isDefault) {
+      await clearOtherDefaults(rubric.id);
+    }
+
+    return res.json({ rubric });
+  } catch (error) {
+    console.error('Update rubric error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Delete a rubric (reviews using it fall back to the default)
+ * DELETE /api/rubrics/:id
+ */
+export async function deleteRubric(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const result = await prisma.rubric.deleteMany({ where: { id } });
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Rubric not found' });
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete rubric error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// ============================================================================
+// REVIEW RUBRIC
+// ============================================================================
+
+/**
+ * Select the rubric a review is evaluated against (null clears it)
+ * PUT /api/project-review/:roomId/rubric
+ */
+export async function setReviewRubric(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const { rubricId = null } = req.body;
+
+    if (rubricId !== null && typeof rubricId !== 'string') {
+      return res.status(400).json({ error: 'rubricId must be a string or null' });
+    }
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: { id: true, status: true },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (['in_progress', 'completed', 'cancelled'].includes(review.status)) {
+      return res.status(400).json({ error: `Cannot change the rubric of a review that is ${review.status}` });
+    }
+
+    if (rubricId) {
+      const rubric = await prisma.rubric.findUnique({ where: { id: rubricId }, select: { id: true } });
+      if (!rubric) {
+        return res.status(404).json({ error: 'Rubric not found' });
+      }
+    }
+
+    await prisma.projectReview.update({
+      where: { id: review.id },
+      data: { rubricId },
+    });
+
+    return res.json({ success: true, rubricId });
+  } catch (error) {
+    console.error('Set review rubric error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * Slot Controller
+ *
+ * Review scheduling: faculty publish time slots, students book one for their
+ * review and get a calendar invite. The booked slot is the review's join
+ * window (see getProjectReviewToken).
+ */
+
+import { Request, Response } from 'express';
+import { prisma } from '../db/prisma.js';
+import type { Prisma } from '../generated/prisma/index.js';
+import { reviewWindowError } from '../services/batch.service.js';
+import { buildCalendarFile, type CalendarEvent } from '../services/calendar.service.js';
+import { isEmailConfigured, sendEmail } from '../services/email.service.js';
+import {
+  JOIN_EARLY_MINUTES,
+  MAX_SLOTS_PER_REQUEST,
+  MIN_SLOT_MINUTES,
+  splitIntoSlots,
+} from '../services/slot.service.js';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// Reviews past these statuses keep their slot
+const LOCKED_STATUSES = ['in_progress', 'completed', 'cancelled'];
+
+const SLOT_INCLUDE = {
+  faculty: { select: { id: true, name: true, email: true } },
+  batch: { select: { id: true, name: true } },
+  review: {
+    select: {
+      id: true,
+      roomId: true,
+      projectTitle: true,
+      status: true,
+      student: { select: { name: true, regNo: true } },
+    },
+  },
+} satisfies Prisma.ReviewSlotInclude;
+
+type SlotWithBooking = Prisma.ReviewSlotGetPayload<{ include: typeof SLOT_INCLUDE }>;
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatSlot(slot: SlotWithBooking) {
+  const { faculty, review, ...rest } = slot;
+  return {
+    ...rest,
+    faculty: { id: faculty.id, name: faculty.name },
+    booking: review ?? null,
+  };
+}
+
+/**
+ * Calendar event for a review's booked slot
+ */
+function slotEvent(
+  review: { id: string; roomId: string; projectTitle: string },
+  slot: { id: string; startsAt: Date; endsAt: Date; location: string | null; notes: string | null; faculty: { name: string; email: string } },
+  cancelled = false
+): CalendarEvent {
+  const url = `${FRONTEND_URL}/review/${review.roomId}`;
+  const description = [
+    `Capstone project review with ${slot.faculty.name}.`,
+    `Join from ${JOIN_EARLY_MINUTES} minutes before the start: ${url}`,
+    slot.notes,
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    uid: `review-${review.id}-slot-${slot.id}@capstone-reviewer`,
+    startsAt: slot.startsAt,
+    endsAt: slot.endsAt,
+    summary: `Capstone review: ${review.projectTitle}`,
+    description,
+    location: slot.location,
+    url,
+    organizer: slot.faculty,
+    cancelled,
+  };
+}
+
+/**
+ * Email the student the booking (or its cancellation) with the calendar file
+ * Skipped when email is not configured; failures are only logged
+ */
+function notifyStudent(to: string, event: CalendarEvent) {
+  if (!isEmailConfigured()) return;
+
+  const when = `${event.startsAt.toUTCString()} – ${event.endsAt.toUTCString()}`;
+  sendEmail({
+    to,
+    subject: event.cancelled ? `Cancelled: ${event.summary}` : `Booked: ${event.summary}`,
+    text: event.cancelled
+      ? `Your review slot (${when}) was cancelled. Book another one before joining.`
+      : `Your review is booked for ${when}.\n\n${event.description}`,
+    attachments: [{
+      filename: 'review.ics',
+      content: buildCalendarFile(event),
+      contentType: `text/calendar; method=${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+    }],
+  }).catch(error => console.error('Booking email error:', error));
+}
+
+// ============================================================================
+// Faculty Slots
+// ============================================================================
+
+/**
+ * List review slots (upcoming by default)
+ * GET /api/slots?mine=true&batchId=&from=&to=&available=true
+ */
+export async function listSlots(req: Request, res: Response) {
+  try {
+    const batchId = typeof req.query.batchId === 'string' ? req.query.batchId : null;
+    const from = parseDate(req.query.from) ?? new Date();
+    const to = parseDate(req.query.to);
+
+    const slots = await prisma.reviewSlot.findMany({
+      where: {
+        endsAt: { gte: from },
+        ...(to && { startsAt: { lte: to } }),
+        ...(req.query.mine === 'true' && { facultyId: req.faculty!.id }),
+        ...(batchId && { batchId }),
+        ...(req.query.available === 'true' && { review: null }),
+      },
+      orderBy: { startsAt: 'asc' },
+      include: SLOT_INCLUDE,
+    });
+
+    return res.json({ slots: slots.map(formatSlot) });
+  } catch (error) {
+    console.error('List slots error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Publish review slots for the signed-in faculty member
+ * POST /api/slots
+ *
+ * Body: { startsAt, endsAt, slotMinutes?, breakMinutes?, batchId?, location?, notes? }
+ * With slotMinutes the block is split into consecutive slots; otherwise it is one slot.
+ */
+export async function createSlots(req: Request, res: Response) {
+  try {
+    const body = req.body ?? {};
+    const startsAt = parseDate(body.startsAt);
+    const endsAt = parseDate(body.endsAt);
+    const batchId = optionalString(body.batchId);
+
+    if (!startsAt || !endsAt) {
+      return res.status(400).json({ error: 'startsAt and endsAt must be ISO dates' });
+    }
+    if (startsAt >= endsAt) {
+      return res.status(400).json({ error: 'startsAt must be before endsAt' });
+    }
+    if (startsAt <= new Date()) {
+      return res.status(400).json({ error: 'Slots must start in the future' });
+    }
+
+    for (const field of ['slotMinutes', 'breakMinutes'] as const) {
+      if (body[field] !== undefined && (!Number.isInteger(body[field]) || body[field] < 0)) {
+        return res.status(400).json({ error: `${field} must be a whole number of minutes` });
+      }
+    }
+
+    const block = { startsAt, endsAt };
+    const windows = body.slotMinutes ? splitIntoSlots(block, body.slotMinutes, body.breakMinutes ?? 0) : [block];
+
+    if (windows.length === 0) {
+      return res.status(400).json({ error: 'The time range is shorter than one slot' });
+    }
+    if (windows.length > MAX_SLOTS_PER_REQUEST) {
+      return res.status(400).json({ error: `At most ${MAX_SLOTS_PER_REQUEST} slots can be published at once` });
+    }
+    if (windows[0].endsAt.getTime() - windows[0].startsAt.getTime() < MIN_SLOT_MINUTES * 60 * 1000) {
+      return res.status(400).json({ error: `Slots must be at least ${MIN_SLOT_MINUTES} minutes long` });
+    }
+
+    if (batchId) {
+      const batch = await prisma.batch.findUnique({ where: { id: batchId }, select: { id: true } });
+      if (!batch) {
+        return res.status(404).json({ error: 'Batch not found' });
+      }
+    }
+
+    // A faculty member runs one review at a time
+    const overlapping = await prisma.reviewSlot.findFirst({
+      where: {
+        facultyId: req.faculty!.id,
+        startsAt: { lt: endsAt },
+        endsAt: { gt: startsAt },
+      },
+      select: { startsAt: true, endsAt: true },
+    });
+    if (overlapping) {
+      return res.status(409).json({
+        error: `Overlaps your slot from ${overlapping.startsAt.toISOString()} to ${overlapping.endsAt.toISOString()}`,
+      });
+    }
+
+    const location = optionalString(body.location);
+    const notes = optionalString(body.notes);
+
+    const slots = await prisma.$transaction(
+      windows.map(window => prisma.reviewSlot.create({
+        data: { ...window, facultyId: req.faculty!.id, batchId, location, notes },
+        include: SLOT_INCLUDE,
+      }))
+    );
+
+    return res.status(201).json({ slots: slots.map(formatSlot) });
+  } catch (error) {
+    console.error('Create slots error:', error);
+    return res.status(500).json({ error: 'Failed to create slots' });
+  }
+}
+
+/**
+ * Withdraw an unbooked slot (the faculty member's own, or any for admins)
+ * DELETE /api/slots/:id
+ */
+export async function deleteSlot(req: Request, res: Response) {
+  try {
+    const { id } = req.params;
+
+    const slot = await prisma.reviewSlot.findUnique({
+      where: { id },
+      select: { facultyId: true, review: { select: { id: true } } },
+    });
+
+    if (!slot) {
+      return res.status(404).json({ error: 'Slot not found' });
+    }
+    if (slot.facultyId !== req.faculty!.id && req.faculty!.role !== 'admin') {
+      return res.status(403).json({ error: 'Not authorized to delete this slot' });
+    }
+    if (slot.review) {
+      return res.status(409).json({ error: 'The slot is booked; the student must cancel the booking first' });
+    }
+
+    await prisma.reviewSlot.delete({ where: { id } });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Delete slot error:', error);
+    return res.status(500).json({ error: 'Failed to delete slot' });
+  }
+}
+
+// ============================================================================
+// Review Booking
+// ============================================================================
+
+/**
+ * The review's booked slot and the slots it can book
+ * GET /api/project-review/:roomId/slot
+ */
+export async function getReviewSlot(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: {
+        batchId: true,
+        batch: { select: { reviewOpensAt: true, reviewDeadline: true, requireSlot: true } },
+        slot: { include: SLOT_INCLUDE },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+
+    // Unbooked future slots open to the review's batch, inside the batch's review window
+    const openSlots = await prisma.reviewSlot.findMany({
+      where: {
+        startsAt: { gt: new Date() },
+        review: null,
+        OR: [{ batchId: null }, ...(review.batchId ? [{ batchId: review.batchId }] : [])],
+      },
+      orderBy: { startsAt: 'asc' },
+      take: 100,
+      include: SLOT_INCLUDE,
+    });
+    const availableSlots = openSlots.filter(
+      (slot: { startsAt: Date }) => !review.batch || !reviewWindowError(review.batch, slot.startsAt)
+    );
+
+    return res.json({
+      slot: review.slot ? formatSlot(review.slot) : null,
+      requireSlot: review.batch?.requireSlot ?? false,
+      availableSlots: availableSlots.map(formatSlot),
+    });
+  } catch (error) {
+    console.error('Get review slot error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/**
+ * Book a slot for the review (replaces an earlier booking)
+ * PUT /api/project-review/:roomId/slot
+ *
+ * Body: { slotId }
+ */
+export async function bookReviewSlot(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+    const { slotId } = req.body ?? {};
+
+    if (!slotId || typeof slotId !== 'string') {
+      return res.status(400).json({ error: 'slotId is required' });
+    }
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: {
+        id: true,
+        roomId: true,
+        projectTitle: true,
+        status: true,
+        batchId: true,
+        batch: { select: { reviewOpensAt: true, reviewDeadline: true } },
+        student: { select: { email: true } },
+        slot: { include: SLOT_INCLUDE },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (LOCKED_STATUSES.includes(review.status)) {
+      return res.status(409).json({ error: 'Slots can only be booked before the review starts' });
+    }
+
+    const slot = await prisma.reviewSlot.findUnique({
+      where: { id: slotId },
+      include: SLOT_INCLUDE,
+    });
+
+    if (!slot) {
+      return res.status(404).json({ error: 'Slot not found' });
+    }
+    if (slot.startsAt <= new Date()) {
+      return res.status(400).json({ error: 'This slot has already started' });
+    }
+    if (slot.review && slot.review.id !== review.id) {
+      return res.status(409).json({ error: 'This slot is already booked' });
+    }
+    if (slot.batchId && slot.batchId !== review.batchId) {
+      return res.status(403).json({ error: 'This slot is reserved for another batch' });
+    }
+
+    const windowError = review.batch ? reviewWindowError(review.batch, slot.startsAt) : null;
+    if (windowError) {
+      return res.status(400).json({ error: `The slot is outside the batch's review window: ${windowError}` });
+    }
+
+    try {
+      await prisma.projectReview.update({
+        where: { id: review.id },
+        data: { slotId: slot.id },
+      });
+    } catch (error: any) {
+      // Booked by someone else in the meantime (slot_id is unique)
+      if (error?.code === 'P2002') {
+        return res.status(409).json({ error: 'This slot is already booked' });
+      }
+      throw error;
+    }
+
+    if (review.student?.email) {
+      // Withdraw the invite for the slot this booking replaces
+      if (review.slot && review.slot.id !== slot.id) {
+        notifyStudent(review.student.email, slotEvent(review, review.slot, true));
+      }
+      notifyStudent(review.student.email, slotEvent(review, slot));
+    }
+
+    const booked = await prisma.reviewSlot.findUniqueOrThrow({ where: { id: slot.id }, include: SLOT_INCLUDE });
+
+    return res.json({ slot: formatSlot(booked) });
+  } catch (error) {
+    console.error('Book slot error:', error);
+    return res.status(500).json({ error: 'Failed to book slot' });
+  }
+}
+
+/**
+ * Cancel the review's booking
+ * DELETE /api/project-review/:roomId/slot
+ */
+export async function cancelReviewSlot(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: {
+        id: true,
+        roomId: true,
+        projectTitle: true,
+        status: true,
+        student: { select: { email: true } },
+        slot: { include: SLOT_INCLUDE },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (!review.slot) {
+      return res.status(404).json({ error: 'No slot is booked for this review' });
+    }
+    if (LOCKED_STATUSES.includes(review.status)) {
+      return res.status(409).json({ error: 'The review has already started' });
+    }
+
+    await prisma.projectReview.update({
+      where: { id: review.id },
+      data: { slotId: null },
+    });
+
+    if (review.student?.email) {
+      notifyStudent(review.student.email, slotEvent(review, review.slot, true));
+    }
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error('Cancel slot error:', error);
+    return res.status(500).json({ error: 'Failed to cancel booking' });
+  }
+}
+
+/**
+ * Calendar file (.ics) for the review's booked slot
+ * GET /api/project-review/:roomId/slot/calendar.ics
+ */
+export async function getReviewSlotCalendar(req: Request, res: Response) {
+  try {
+    const { roomId } = req.params;
+
+    const review = await prisma.projectReview.findUnique({
+      where: { roomId },
+      select: {
+        id: true,
+        roomId: true,
+        projectTitle: true,
+        slot: { include: SLOT_INCLUDE },
+      },
+    });
+
+    if (!review) {
+      return res.status(404).json({ error: 'Project review not found' });
+    }
+    if (!review.slot) {
+      return res.status(404).json({ error: 'No slot is booked for this review' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="review-${review.roomId}.ics"`);
+    return res.send(buildCalendarFile(slotEvent(review, review.slot)));
+  } catch (error) {
+    console.error('Get slot calendar error:', error);
+    return res.status(500).json({ error: 'Failed to build calendar file' });
+  }
+}
@@ -1,120 +1,15 @@
 /**
  * Student Controller
- * Handles student registration and authentication
+ * Handles student profiles and review creation
+ * (sign-in lives in auth.controller)
  */
 
 import { Request, Response } from 'express';
 import { prisma } from '../db/prisma.js';
-import crypto from 'crypto';
-
-// VIT AP email domain
-const ALLOWED_DOMAIN = 'vitapstudent.ac.in';
-
-/**
- * Parse VIT email to extract name and registration number
- * Email format: name.regno@vitapstudent.ac.in
- * Example: rishi.23bce8982@vitapstudent.ac.in
- */
-function parseVitEmail(email: string): { name: string; regNo: string } | null {
-    const [localPart, domain] = email.toLowerCase().split('@');
-
-    if (domain !== ALLOWED_DOMAIN) {
-        return null;
-    }
-
-    const parts = localPart.split('.');
-    if (parts.length < 2) {
-        return null;
-    }
-
-    const name = parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
-    const regNo = parts[parts.length - 1].toUpperCase();
-
-    return { name, regNo };
-}
+import { resolveReviewBatch, reviewWindowError } from '../services/batch.service.js';
 
 /**
- * Register or login a student
- * POST /api/students/register
- * Now only requires name - email/regNo generated automatically
- */
-export async function registerStudent(req: Request, res: Response) {
-    try {
-        const { name, email } = req.body;
-
-        // Name is required
-        if (!name || typeof name !== 'string' || name.trim().length < 2) {
-            return res.status(400).json({ error: 'Name is required (at least 2 characters)' });
-        }
-
-        const studentName = name.trim();
-
-        // Generate a unique identifier based on name
-        const nameLower = studentName.toLowerCase().replace(/\s+/g, '');
-        const uniqueId = crypto.randomBytes(4).toString('hex');
-        const regNo = `${nameLower.substring(0, 4).toUpperCase()}${uniqueId.toUpperCase()}`;
-
-        // Generate email (or use provided)
-        let studentEmail = email?.toLowerCase()?.trim();
-        if (!studentEmail) {
-            studentEmail = `${nameLower}.${regNo.toLowerCase()}@review.local`;
-        }
-
-        // Check if student exists by email
-        let student = await prisma.student.findUnique({
-            where: { email: studentEmail },
-        });
-
-        if (student) {
-            // Update name if different
-            if (student.name !== studentName) {
-                student = await prisma.student.update({
-                    where: { id: student.id },
-                    data: { name: studentName },
-                });
-            }
-        } else {
-            // Create new student
-            student = await prisma.student.create({
-                data: {
-                    email: studentEmail,
-                    name: studentName,
-                    regNo,
-                },
-            });
-        }
-
-        // Check for existing active review
-        const activeReview = await prisma.projectReview.findFirst({
-            where: {
-                studentId: student.id,
-                status: { in: ['pending', 'upload_required', 'processing', 'ready', 'in_progress'] },
-            },
-        });
-
-        res.json({
-            success: true,
-            student: {
-                id: student.id,
-                email: student.email,
-                name: student.name,
-                regNo: student.regNo,
-            },
-            activeReview: activeReview ? {
-                id: activeReview.id,
-                roomId: activeReview.roomId,
-                status: activeReview.status,
-                projectTitle: activeReview.projectTitle,
-            } : null,
-        });
-    } catch (error) {
-        console.error('[StudentController] Register error:', error);
-        res.status(500).json({ error: 'Failed to register student' });
-    }
-}
-
-/**
- * Get student by ID
+ * Get student by ID (own profile only)
  * GET /api/students/:id
  */
 export async function getStudent(req: Request, res: Response) {
@@ -123,11 +18,27 @@ export async function getStudent(req: Request, res: Response) {
 
         const student = await prisma.student.findUnique({
             where: { id },
+            omit: { passwordHash: true },
             include: {
                 projectReviews: {
                     orderBy: { createdAt: 'desc' },
                     take: 5,
                 },
+                enrollments: {
+                    where: { batch: { isActive: true } },
+                    select: {
+                        projectGroup: true,
+                        batch: {
+                            select: {
+                                id: true,
+                                name: true,
+                                reviewOpensAt: true,
+                                reviewDeadline: true,
+                                course: { select: { code: true, name: true } },
+                            },
+                        },
+                    },
+                },
             },
         });
 
@@ -145,16 +56,31 @@ export async function getStudent(req: Request, res: Response) {
 /**
  * Create a new project review session
  * POST /api/students/:id/reviews
+ *
+ * The review joins the student's batch (`batchId`, or their only active
+ * batch) and picks up the batch's rubric and question banks
  */
 export async function createReview(req: Request, res: Response) {
     try {
         const { id: studentId } = req.params;
-        const { projectTitle, projectDescription, githubUrl } = req.body;
+        const { projectTitle, projectDescription, githubUrl, questionBankIds = [], rubricId = null, batchId = null } = req.body;
 
         if (!projectTitle || typeof projectTitle !== 'string') {
             return res.status(400).json({ error: 'Project title is required' });
         }
 
+        if (!Array.isArray(questionBankIds) || questionBankIds.some(id => typeof id !== 'string')) {
+            return res.status(400).json({ error: 'questionBankIds must be an array of IDs' });
+        }
+
+        if (rubricId !== null && typeof rubricId !== 'string') {
+            return res.status(400).json({ error: 'rubricId must be a string' });
+        }
+
+        if (batchId !== null && typeof batchId !== 'string') {
+            return res.status(400).json({ error: 'batchId must be a string' });
+        }
+
         // Verify student exists
         const student = await prisma.student.findUnique({
             where: { id: studentId },
@@ -164,6 +90,37 @@ export async function createReview(req: Request, res: Response) {
             return res.status(404).json({ error: 'Student not found' });
         }
 
+        const resolved = await resolveReviewBatch(student.id, batchId);
+        if ('error' in resolved) {
+            return res.status(400).json({ error: resolved.error });
+        }
+        const { batch } = resolved;
+
+        if (batch) {
+            const windowError = reviewWindowError(batch);
+            if (windowError) {
+                return res.status(403).json({ error: windowError });
+            }
+        }
+
+        const bankIds = [...new Set<string>([
+            ...questionBankIds,
+            ...(batch?.questionBanks.map((link: { bankId: string }) => link.bankId) ?? []),
+        ])];
+        if (bankIds.length > 0) {
+            const found = await prisma.questionBank.count({ where: { id: { in: bankIds } } });
+            if (found !== bankIds.length) {
+                return res.status(400).json({ error: 'One or more question banks were not found' });
+            }
+        }
+
+        if (rubricId) {
+            const rubric = await prisma.rubric.findUnique({ where: { id: rubricId }, select: { id: true } });
+            if (!rubric) {
+                return res.status(400).json({ error: 'Rubric not found' });
+            }
+        }
+
         // Check for existing active review
         const existingReview = await prisma.projectReview.findFirst({
             where: {
@@ -196,6 +153,13 @@ export async function createReview(req: Request, res: Response) {
                 githubUrl: githubUrl?.trim() || null,
                 status: 'upload_required',
                 duration: 30,
+                batchId: batch?.id ?? null,
+                // Rubric answers are graded against (null = batch rubric, else the default)
+                rubricId: rubricId ?? batch?.rubricId ?? null,
+                // Faculty question banks merged into the generated questions
+                questionBanks: {
+                    create: bankIds.map(bankId => ({ bankId })),
+                },
             },
         });
 
@@ -206,6 +170,7 @@ export async function createReview(req: Request, res: Response) {
                 roomId: review.roomId,
                 status: review.status,
                 projectTitle: review.projectTitle,
+                batchId: review.batchId,
             },
         });
     } catch (error) {
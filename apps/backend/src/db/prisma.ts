@@ -4,7 +4,7 @@
  */
 
 // Import from local generated client
-import { PrismaClient } from "../generated/prisma/index.js";
+import { PrismaClient, type Prisma } from "../generated/prisma/index.js";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 
@@ -28,5 +28,13 @@ export const prisma =
 
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
 
+/**
+ * Convert a domain object to a Json column value
+ * (drops undefined fields and turns Dates into ISO strings, as Postgres would store them)
+ */
+export function toJsonValue(value: object): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value));
+}
+
 // Re-export for convenience
 export { PrismaClient };
@@ -7,6 +7,13 @@ import { testConnection } from './db/index.js';
 import livekitRoutes from './routes/livekit.routes.js';
 import projectReviewRoutes from './routes/project-review.routes.js';
 import studentRoutes from './routes/student.routes.js';
+import questionBankRoutes from './routes/question-bank.routes.js';
+import rubricRoutes from './routes/rubric.routes.js';
+import authRoutes from './routes/auth.routes.js';
+import facultyRoutes from './routes/faculty.routes.js';
+import courseRoutes from './routes/course.routes.js';
+import batchRoutes from './routes/batch.routes.js';
+import slotRoutes from './routes/slot.routes.js';
 import { apiLimiter } from './middleware/security.js';
 
 const app: Application = express();
@@ -45,12 +52,12 @@ app.use(cors(isProduction ? {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Student-Id'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
 } : {
   origin: true, // Allow all origins in development
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Student-Id'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
 }));
 
 // Body parser
@@ -64,8 +71,15 @@ app.use('/api', apiLimiter);
 
 // Routes
 app.use('/api/livekit', livekitRoutes);
+app.use('/api/auth', authRoutes);
 app.use('/api/students', studentRoutes);
 app.use('/api/project-review', projectReviewRoutes);
+app.use('/api/question-banks', questionBankRoutes);
+app.use('/api/rubrics', rubricRoutes);
+app.use('/api/faculty', facultyRoutes);
+app.use('/api/courses', courseRoutes);
+app.use('/api/batches', batchRoutes);
+app.use('/api/slots', slotRoutes);
 
 // Health check (no rate limiting)
 app.get('/health', (req, res) => {
@@ -95,7 +109,7 @@ async function start() {
 
     // Validate required environment variables in production
     if (isProduction) {
-      const requiredEnvVars = ['LIVEKIT_API_KEY', 'LIVEKIT_API_SECRET', 'OPENAI_API_KEY'];
+      const requiredEnvVars = ['LIVEKIT_API_KEY', 'LIVEKIT_API_SECRET', 'OPENAI_API_KEY', 'AUTH_SECRET', 'RESEND_API_KEY'];
       const missing = requiredEnvVars.filter(v => !process.env[v]);
       if (missing.length > 0) {
         console.error(`❌ Missing required environment variables: ${missing.join(', ')}`);
@@ -0,0 +1,173 @@
+/**
+ * Authentication Middleware
+ * Resolves the signed-in student or staff member from the session cookie
+ * and guards review, student and faculty resources by role
+ */
+
+import type { Request, Response, NextFunction } from 'express';
+import { prisma } from '../db/prisma.js';
+import { getSessionToken, verifySessionToken } from '../services/auth.service.js';
+
+export interface AuthenticatedStudent {
+    id: string;
+    email: string;
+    name: string;
+    regNo: string;
+}
+
+export type StaffRole = 'faculty' | 'admin';
+
+export interface AuthenticatedFaculty {
+    id: string;
+    email: string;
+    name: string;
+    role: StaffRole;
+}
+
+declare global {
+    namespace Express {
+        interface Request {
+            /** Set by `authenticate` for student sessions */
+            student?: AuthenticatedStudent;
+            /** Set by `authenticate` for faculty and admin sessions */
+            faculty?: AuthenticatedFaculty;
+        }
+    }
+}
+
+/** How the caller relates to a review */
+export type ReviewRelation = 'owner' | 'participant' | 'panel' | 'admin';
+
+/**
+ * Identity used for a student who joins someone else's room by code
+ */
+export function participantIdentity(student: AuthenticatedStudent): string {
+    return `participant-${student.regNo}`;
+}
+
+/**
+ * Require a valid session and attach the caller as `req.student` or `req.faculty`
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+    const token = getSessionToken(req);
+    const session = token ? verifySessionToken(token) : null;
+
+    if (!session) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    // Re-read the account so deleted accounts and role changes apply immediately
+    if (session.role === 'student') {
+        const student = await prisma.student.findUnique({
+            where: { id: session.sub },
+            select: { id: true, email: true, name: true, regNo: true },
+        });
+        if (student) {
+            req.student = student;
+            return next();
+        }
+    } else {
+        const faculty = await prisma.faculty.findUnique({
+            where: { id: session.sub },
+            select: { id: true, email: true, name: true, role: true },
+        });
+        if (faculty) {
+            req.faculty = faculty;
+            return next();
+        }
+    }
+
+    return res.status(401).json({ error: 'Authentication required' });
+}
+
+/**
+ * Only student sessions
+ */
+export function requireStudent(req: Request, res: Response, next: NextFunction) {
+    if (!req.student) {
+        return res.status(403).json({ error: 'Student account required' });
+    }
+    next();
+}
+
+/**
+ * Only staff sessions with one of `roles`
+ */
+export function requireRole(...roles: StaffRole[]) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.faculty || !roles.includes(req.faculty.role)) {
+            return res.status(403).json({ error: 'Insufficient permissions' });
+        }
+        next();
+    };
+}
+
+/**
+ * Only callers related to the review in `:roomId` in one of the given ways
+ *
+ * - owner: the student the review belongs to
+ * - participant: a student who joined the room by code
+ * - panel: faculty assigned to the review's panel
+ * - admin: any admin
+ */
+export function requireReviewAccess(...relations: ReviewRelation[]) {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const review = await prisma.projectReview.findUnique({
+            where: { roomId: req.params.roomId },
+            select: { id: true, studentId: true },
+        });
+
+        if (!review) {
+            return res.status(404).json({ error: 'Project review not found' });
+        }
+
+        let allowed = false;
+        const { student, faculty } = req;
+
+        if (student) {
+            if (relations.includes('owner') && review.studentId === student.id) {
+                allowed = true;
+            } else if (relations.includes('participant')) {
+                allowed = !!await prisma.reviewParticipant.findUnique({
+                    where: {
+                        reviewId_identity: {
+                            reviewId: review.id,
+                            identity: participantIdentity(student),
+                        },
+                    },
+                    select: { id: true },
+                });
+            }
+        } else if (faculty) {
+            if (relations.includes('admin') && faculty.role === 'admin') {
+                allowed = true;
+            } else if (relations.includes('panel')) {
+                allowed = !!await prisma.reviewPanelMember.findUnique({
+                    where: {
+                        reviewId_facultyId: {
+                            reviewId: review.id,
+                            facultyId: faculty.id,
+                        },
+                    },
+                    select: { id: true },
+                });
+            }
+        }
+
+        if (!allowed) {
+            return res.status(403).json({ error: 'Not authorized to access this review' });
+        }
+
+        next();
+    };
+}
+
+/**
+ * Only the student named by `:id`
+ */
+export function requireSelf(req: Request, res: Response, next: NextFunction) {
+    if (!req.student || req.params.id !== req.student.id) {
+        return res.status(403).json({ error: 'Not authorized' });
+    }
+    next();
+}
@@ -0,0 +1,36 @@
+/**
+ * Auth Routes
+ * Student sign-in (email code or password) and session management
+ */
+
+import { Router } from 'express';
+import {
+  requestLoginCode,
+  verifyLoginCode,
+  loginWithPassword,
+  setPassword,
+  getSession,
+  logout,
+} from '../controllers/auth.controller.js';
+import { authLimiter } from '../middleware/security.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+// One-time code sign-in
+router.post('/code', authLimiter, requestLoginCode);
+router.post('/code/verify', authLimiter, verifyLoginCode);
+
+// Password sign-in
+router.post('/login', authLimiter, loginWithPassword);
+
+// Set or change password (signed in)
+router.post('/password', authenticate, setPassword);
+
+// Current session
+router.get('/me', authenticate, getSession);
+
+// Sign out
+router.post('/logout', logout);
+
+export default router;
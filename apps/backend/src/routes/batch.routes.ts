@@ -0,0 +1,61 @@
+/**
+ * Batch Routes
+ * API routes for course batches, their enrollments and review settings
+ */
+
+import { Router } from 'express';
+import {
+  listBatches,
+  createBatch,
+  getBatch,
+  updateBatch,
+  deleteBatch,
+  setBatchQuestionBanks,
+  listEnrollments,
+  importEnrollments,
+  enrollmentUploadMiddleware,
+  removeEnrollment,
+} from '../controllers/course.controller.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+// Faculty may read; admins manage
+router.use(authenticate, requireRole('faculty', 'admin'));
+
+// ============================================================================
+// Batches
+// ============================================================================
+
+// List batches (filter with ?courseId= / ?active=true)
+router.get('/', listBatches);
+
+// Create batch
+router.post('/', requireRole('admin'), createBatch);
+
+// Get batch with settings and counts
+router.get('/:id', getBatch);
+
+// Update details, rubric and review window
+router.put('/:id', requireRole('admin'), updateBatch);
+
+// Delete batch
+router.delete('/:id', requireRole('admin'), deleteBatch);
+
+// Question banks attached to the batch's new reviews
+router.put('/:id/question-banks', requireRole('admin'), setBatchQuestionBanks);
+
+// ============================================================================
+// Enrollments
+// ============================================================================
+
+// List enrolled students
+router.get('/:id/enrollments', listEnrollments);
+
+// Enroll from a roster CSV
+router.post('/:id/enrollments', requireRole('admin'), enrollmentUploadMiddleware, importEnrollments);
+
+// Remove a student
+router.delete('/:id/enrollments/:studentId', requireRole('admin'), removeEnrollment);
+
+export default router;
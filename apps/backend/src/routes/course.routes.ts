@@ -0,0 +1,32 @@
+/**
+ * Course Routes
+ * API routes for courses (batches are under /api/batches)
+ */
+
+import { Router } from 'express';
+import {
+  listCourses,
+  createCourse,
+  updateCourse,
+  deleteCourse,
+} from '../controllers/course.controller.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+// Faculty may read; admins manage
+router.use(authenticate, requireRole('faculty', 'admin'));
+
+// List courses with their batches
+router.get('/', listCourses);
+
+// Create course
+router.post('/', requireRole('admin'), createCourse);
+
+// Rename course
+router.put('/:id', requireRole('admin'), updateCourse);
+
+// Delete course and its batches
+router.delete('/:id', requireRole('admin'), deleteCourse);
+
+export default router;
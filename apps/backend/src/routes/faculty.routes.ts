@@ -0,0 +1,44 @@
+/**
+ * Faculty Routes
+ * API routes for faculty accounts and the faculty dashboard
+ */
+
+import { Router } from 'express';
+import {
+  listFaculty,
+  createFaculty,
+  updateFaculty,
+  deleteFaculty,
+  listAssignedReviews,
+} from '../controllers/faculty.controller.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+// Every faculty route needs a staff session
+router.use(authenticate, requireRole('faculty', 'admin'));
+
+// ============================================================================
+// Dashboard (must be before :id routes)
+// ============================================================================
+
+// Reviews on the caller's panels (admins see every review)
+router.get('/me/reviews', listAssignedReviews);
+
+// ============================================================================
+// Accounts (admin only)
+// ============================================================================
+
+// List faculty
+router.get('/', requireRole('admin'), listFaculty);
+
+// Create faculty or admin account
+router.post('/', requireRole('admin'), createFaculty);
+
+// Update account
+router.put('/:id', requireRole('admin'), updateFaculty);
+
+// Delete account
+router.delete('/:id', requireRole('admin'), deleteFaculty);
+
+export default router;
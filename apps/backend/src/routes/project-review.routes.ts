@@ -12,47 +12,110 @@ import {
   studentJoined,
   completeProjectReview,
   getProjectReviewSummary,
+  getReviewQuestions,
+  setEvaluationConfig,
   generateRoomJoinCode,
   getRoomByJoinCode,
   joinRoomAsParticipant,
 } from '../controllers/project-review.controller.js';
+import {
+  getReviewQuestionBanks,
+  attachQuestionBank,
+  detachQuestionBank,
+} from '../controllers/question-bank.controller.js';
+import { setReviewRubric } from '../controllers/rubric.controller.js';
+import {
+  repositoryUploadMiddleware,
+  ingestRepository,
+  getRepository,
+} from '../controllers/repository.controller.js';
+import { getReviewPanel, setReviewPanel } from '../controllers/faculty.controller.js';
+import { getReportRevisions, createReportRevision } from '../controllers/report.controller.js';
+import {
+  getReviewSlot,
+  bookReviewSlot,
+  cancelReviewSlot,
+  getReviewSlotCalendar,
+} from '../controllers/slot.controller.js';
+import { authenticate, requireStudent, requireReviewAccess } from '../middleware/auth.js';
 
 const router: Router = Router();
 
+// Every review route needs a session (student, faculty or admin)
+router.use(authenticate);
+
+// Who may do what on a review
+const owner = requireReviewAccess('owner');
+const ownerOrStaff = requireReviewAccess('owner', 'panel', 'admin');
+const staff = requireReviewAccess('panel', 'admin');
+
 // ============================================================================
 // Multi-participant endpoints (must be before :roomId routes)
 // ============================================================================
 
 // Get room info by join code
-router.get('/join/:code', getRoomByJoinCode);
+router.get('/join/:code', requireStudent, getRoomByJoinCode);
 
 // Join room as participant
-router.post('/join/:code', joinRoomAsParticipant);
+router.post('/join/:code', requireStudent, joinRoomAsParticipant);
 
 // ============================================================================
 // Room-specific endpoints
 // ============================================================================
 
 // Get review by roomId
-router.get('/:roomId', getReviewByRoomId);
+// (room participants and the faculty panel may read it too)
+router.get('/:roomId', requireReviewAccess('owner', 'participant', 'panel', 'admin'), getReviewByRoomId);
 
 // Upload PPT
-router.post('/:roomId/upload', uploadMiddleware, uploadPPT);
+router.post('/:roomId/upload', owner, uploadMiddleware, uploadPPT);
 
 // Get LiveKit token
-router.post('/:roomId/token', getProjectReviewToken);
+router.post('/:roomId/token', owner, getProjectReviewToken);
 
 // Generate join code
-router.post('/:roomId/join-code', generateRoomJoinCode);
+router.post('/:roomId/join-code', owner, generateRoomJoinCode);
 
 // Student joined
-router.post('/:roomId/joined', studentJoined);
+router.post('/:roomId/joined', owner, studentJoined);
 
 // Complete review
-router.post('/:roomId/complete', completeProjectReview);
+router.post('/:roomId/complete', owner, completeProjectReview);
 
 // Get summary
-router.get('/:roomId/summary', getProjectReviewSummary);
+router.get('/:roomId/summary', ownerOrStaff, getProjectReviewSummary);
+
+// Get per-question Q&A records
+router.get('/:roomId/questions', ownerOrStaff, getReviewQuestions);
+
+// Faculty question banks attached to the review
+router.get('/:roomId/question-banks', ownerOrStaff, getReviewQuestionBanks);
+router.post('/:roomId/question-banks', staff, attachQuestionBank);
+router.delete('/:roomId/question-banks/:bankId', staff, detachQuestionBank);
+
+// Select the rubric answers are graded against
+router.put('/:roomId/rubric', staff, setReviewRubric);
+
+// Multi-sample scoring settings
+router.put('/:roomId/evaluation-config', staff, setEvaluationConfig);
+
+// Project repository (archive upload or GitHub clone) indexed next to the slides
+router.get('/:roomId/repository', ownerOrStaff, getRepository);
+router.post('/:roomId/repository', ownerOrStaff, repositoryUploadMiddleware, ingestRepository);
+
+// Faculty revisions and sign-off of the AI report
+router.get('/:roomId/report', staff, getReportRevisions);
+router.post('/:roomId/report/revisions', staff, createReportRevision);
+
+// Booked review slot (the join window) and its calendar file
+router.get('/:roomId/slot', ownerOrStaff, getReviewSlot);
+router.put('/:roomId/slot', owner, bookReviewSlot);
+router.delete('/:roomId/slot', ownerOrStaff, cancelReviewSlot);
+router.get('/:roomId/slot/calendar.ics', ownerOrStaff, getReviewSlotCalendar);
+
+// Faculty panel assigned to the review
+router.get('/:roomId/panel', ownerOrStaff, getReviewPanel);
+router.put('/:roomId/panel', requireReviewAccess('admin'), setReviewPanel);
 
 export default router;
 
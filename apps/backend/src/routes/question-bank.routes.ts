@@ -0,0 +1,56 @@
+/**
+ * Question Bank Routes
+ * API routes for faculty-authored question banks
+ */
+
+import { Router } from 'express';
+import {
+  listQuestionBanks,
+  createQuestionBank,
+  getQuestionBank,
+  updateQuestionBank,
+  deleteQuestionBank,
+  addBankQuestion,
+  updateBankQuestion,
+  deleteBankQuestion,
+} from '../controllers/question-bank.controller.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+// Authored and managed by faculty and admins
+router.use(authenticate, requireRole('faculty', 'admin'));
+
+// ============================================================================
+// Banks
+// ============================================================================
+
+// List banks (filter with ?course= / ?domain=)
+router.get('/', listQuestionBanks);
+
+// Create bank
+router.post('/', createQuestionBank);
+
+// Get bank with questions
+router.get('/:id', getQuestionBank);
+
+// Update bank details
+router.put('/:id', updateQuestionBank);
+
+// Delete bank
+router.delete('/:id', deleteQuestionBank);
+
+// ============================================================================
+// Questions
+// ============================================================================
+
+// Add question
+router.post('/:id/questions', addBankQuestion);
+
+// Update question
+router.put('/:id/questions/:questionId', updateBankQuestion);
+
+// Delete question
+router.delete('/:id/questions/:questionId', deleteBankQuestion);
+
+export default router;
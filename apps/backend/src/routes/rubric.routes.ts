@@ -0,0 +1,36 @@
+/**
+ * Rubric Routes
+ * API routes for grading rubrics
+ */
+
+import { Router } from 'express';
+import {
+  listRubrics,
+  createRubric,
+  getRubric,
+  updateRubric,
+  deleteRubric,
+} from '../controllers/rubric.controller.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+// Authored and managed by faculty and admins
+router.use(authenticate, requireRole('faculty', 'admin'));
+
+// List rubrics
+router.get('/', listRubrics);
+
+// Create rubric
+router.post('/', createRubric);
+
+// Get rubric with criteria
+router.get('/:id', getRubric);
+
+// Update rubric (criteria are replaced when given)
+router.put('/:id', updateRubric);
+
+// Delete rubric
+router.delete('/:id', deleteRubric);
+
+export default router;
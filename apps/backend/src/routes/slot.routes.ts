@@ -0,0 +1,24 @@
+/**
+ * Slot Routes
+ * API routes for the review slots faculty publish (students book them under
+ * /api/project-review/:roomId/slot)
+ */
+
+import { Router } from 'express';
+import { listSlots, createSlots, deleteSlot } from '../controllers/slot.controller.js';
+import { authenticate, requireRole } from '../middleware/auth.js';
+
+const router: Router = Router();
+
+router.use(authenticate, requireRole('faculty', 'admin'));
+
+// List slots (filter with ?mine=true / ?batchId= / ?from= / ?to= / ?available=true)
+router.get('/', listSlots);
+
+// Publish one slot, or a block split into slots
+router.post('/', createSlots);
+
+// Withdraw an unbooked slot
+router.delete('/:id', deleteSlot);
+
+export default router;
@@ -1,24 +1,24 @@
 /**
  * Student Routes
- * API routes for student registration and management
+ * API routes for student profiles and reviews
  */
 
 import { Router, type Router as RouterType } from 'express';
 import {
-    registerStudent,
     getStudent,
     createReview,
 } from '../controllers/student.controller.js';
+import { authenticate, requireStudent, requireSelf } from '../middleware/auth.js';
 
 const router: RouterType = Router();
 
-// Register or login student
-router.post('/register', registerStudent);
+// Every student route needs a student session; sign-in is under /api/auth
+router.use(authenticate, requireStudent);
 
 // Get student by ID
-router.get('/:id', getStudent);
+router.get('/:id', requireSelf, getStudent);
 
 // Create new project review for student
-router.post('/:id/reviews', createReview);
+router.post('/:id/reviews', requireSelf, createReview);
 
 export default router;
@@ -0,0 +1,242 @@
+/**
+ * Authentication Service
+ *
+ * VIT-AP student identity, signed session tokens (HS256 JWT in an
+ * HTTP-only cookie), password hashing and emailed one-time sign-in codes
+ *
+ * Students sign themselves up with their VIT-AP email; faculty and admin
+ * accounts are created by an admin (or bootstrapped from ADMIN_EMAILS).
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import type { Request, Response } from 'express';
+import { isEmailConfigured, sendEmail } from './email.service.js';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// VIT AP email domain
+export const ALLOWED_DOMAIN = 'vitapstudent.ac.in';
+
+export const SESSION_COOKIE = 'review_session';
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export const LOGIN_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const LOGIN_CODE_MAX_ATTEMPTS = 5;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+// ============================================================================
+// Student Identity
+// ============================================================================
+
+/**
+ * Parse VIT email to extract name and registration number
+ * Email format: name.regno@vitapstudent.ac.in
+ * Example: rishi.23bce8982@vitapstudent.ac.in
+ */
+export function parseVitEmail(email: string): { name: string; regNo: string } | null {
+    const [localPart, domain] = email.toLowerCase().split('@');
+
+    if (domain !== ALLOWED_DOMAIN) {
+        return null;
+    }
+
+    const parts = localPart.split('.');
+    if (parts.length < 2) {
+        return null;
+    }
+
+    const name = parts[0].charAt(0).toUpperCase() + parts[0].slice(1);
+    const regNo = parts[parts.length - 1].toUpperCase();
+
+    return { name, regNo };
+}
+
+/**
+ * Emails that get an admin account on first sign-in (comma-separated ADMIN_EMAILS)
+ */
+export function getBootstrapAdminEmails(): string[] {
+    return (process.env.ADMIN_EMAILS ?? '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+// ============================================================================
+// Session Tokens
+// ============================================================================
+
+export type SessionRole = 'student' | 'faculty' | 'admin';
+
+export interface SessionPayload {
+    sub: string; // Student or Faculty ID, depending on role
+    email: string;
+    role: SessionRole;
+    iat: number;
+    exp: number;
+}
+
+// Development falls back to a per-process secret (sessions end on restart)
+const devSecret = crypto.randomBytes(32).toString('hex');
+
+function getAuthSecret(): string {
+    const secret = process.env.AUTH_SECRET;
+    if (secret) return secret;
+    if (isProduction) {
+        throw new Error('AUTH_SECRET is not configured');
+    }
+    return devSecret;
+}
+
+const base64url = (input: Buffer | string) => Buffer.from(input).toString('base64url');
+
+function sign(data: string): string {
+    return crypto.createHmac('sha256', getAuthSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Sign a session token for a student or staff account
+ */
+export function signSessionToken(account: { id: string; email: string }, role: SessionRole = 'student'): string {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+        sub: account.id,
+        email: account.email,
+        role,
+        iat: now,
+        exp: now + SESSION_TTL_SECONDS,
+    } satisfies SessionPayload));
+
+    return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * @returns The payload, or null when the token is invalid or expired
+ */
+export function verifySessionToken(token: string): SessionPayload | null {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+
+    const expected = Buffer.from(sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionPayload;
+        if (typeof parsed.sub !== 'string' || typeof parsed.exp !== 'number') return null;
+        if (parsed.exp <= Date.now() / 1000) return null;
+        return { ...parsed, role: parsed.role ?? 'student' };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the session token from the cookie (or a Bearer header for API clients)
+ */
+export function getSessionToken(req: Request): string | null {
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+        return authorization.slice('Bearer '.length).trim() || null;
+    }
+
+    for (const part of (req.headers.cookie ?? '').split(';')) {
+        const [name, ...value] = part.trim().split('=');
+        if (name === SESSION_COOKIE) {
+            return decodeURIComponent(value.join('='));
+        }
+    }
+
+    return null;
+}
+
+// The frontend is served from another origin in production, so the cookie
+// must be SameSite=None (which browsers only accept when Secure)
+const cookieOptions = {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: isProduction ? 'none' : 'lax',
+    path: '/',
+} as const;
+
+export function setSessionCookie(
+    res: Response,
+    account: { id: string; email: string },
+    role: SessionRole = 'student'
+): void {
+    res.cookie(SESSION_COOKIE, signSessionToken(account, role), {
+        ...cookieOptions,
+        maxAge: SESSION_TTL_SECONDS * 1000,
+    });
+}
+
+export function clearSessionCookie(res: Response): void {
+    res.clearCookie(SESSION_COOKIE, cookieOptions);
+}
+
+// ============================================================================
+// Passwords
+// ============================================================================
+
+/**
+ * Hash a password with scrypt
+ * Format: scrypt$<salt>$<hash> (base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, 64);
+    return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+    return crypto.timingSafeEqual(expected, actual);
+}
+
+// ============================================================================
+// One-Time Sign-In Codes
+// ============================================================================
+
+/**
+ * Generate a 6-digit sign-in code
+ */
+export function generateLoginCode(): string {
+    return crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+}
+
+export function hashLoginCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+export function loginCodeMatches(code: string, codeHash: string): boolean {
+    const expected = Buffer.from(codeHash, 'hex');
+    const actual = Buffer.from(hashLoginCode(code), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Email a sign-in code through Resend
+ * Without RESEND_API_KEY the code is logged instead (development only)
+ */
+export async function sendLoginCode(email: string, code: string): Promise<void> {
+    if (!isEmailConfigured() && !isProduction) {
+        console.log(`[Auth] Sign-in code for ${email}: ${code}`);
+        return;
+    }
+
+    await sendEmail({
+        to: email,
+        subject: `Your Capstone Reviewer sign-in code: ${code}`,
+        text: `Your sign-in code is ${code}. It expires in ${LOGIN_CODE_TTL_MS / 60000} minutes.\n\nIf you did not request it, ignore this email.`,
+    });
+}
@@ -0,0 +1,73 @@
+/**
+ * Batch Service
+ *
+ * Resolves the course batch a student's review belongs to and enforces the
+ * batch's review window.
+ */
+
+import { prisma } from '../db/prisma.js';
+
+export interface ReviewWindow {
+    reviewOpensAt: Date | null;
+    reviewDeadline: Date | null;
+}
+
+/**
+ * Why a review cannot be created or started now, or null when the window is open
+ */
+export function reviewWindowError(batch: ReviewWindow, now: Date = new Date()): string | null {
+    if (batch.reviewOpensAt && now < batch.reviewOpensAt) {
+        return `Reviews for this batch open on ${batch.reviewOpensAt.toISOString()}`;
+    }
+    if (batch.reviewDeadline && now > batch.reviewDeadline) {
+        return `The review deadline for this batch passed on ${batch.reviewDeadline.toISOString()}`;
+    }
+    return null;
+}
+
+/**
+ * Batch a new review of the student goes to
+ *
+ * - `batchId` given: the student must be enrolled in it
+ * - otherwise: the student's only active batch, or none when not enrolled
+ *
+ * @returns The batch with its rubric and question banks, null for no batch,
+ *          or an error message
+ */
+export async function resolveReviewBatch(studentId: string, batchId: string | null) {
+    const enrollments = await prisma.batchEnrollment.findMany({
+        where: {
+            studentId,
+            batch: batchId ? { id: batchId } : { isActive: true },
+        },
+        select: {
+            batch: {
+                select: {
+                    id: true,
+                    name: true,
+                    isActive: true,
+                    rubricId: true,
+                    reviewOpensAt: true,
+                    reviewDeadline: true,
+                    questionBanks: { select: { bankId: true } },
+                },
+            },
+        },
+    });
+
+    if (batchId) {
+        if (enrollments.length === 0) {
+            return { error: 'You are not enrolled in this batch' };
+        }
+        if (!enrollments[0].batch.isActive) {
+            return { error: 'This batch is no longer active' };
+        }
+        return { batch: enrollments[0].batch };
+    }
+
+    if (enrollments.length > 1) {
+        return { error: 'You are enrolled in several batches; choose one (batchId)' };
+    }
+
+    return { batch: enrollments[0]?.batch ?? null };
+}
@@ -0,0 +1,109 @@
+/**
+ * Calendar Service
+ *
+ * iCalendar (RFC 5545) files for booked review slots, served for download
+ * and attached to booking emails.
+ */
+
+const PRODUCT_ID = '-//Capstone Reviewer//Review Slots//EN';
+const MAX_LINE_OCTETS = 75;
+const REMINDER_MINUTES = 15;
+
+export interface CalendarEvent {
+    uid: string; // Stable per booking so updates and cancellations replace the event
+    startsAt: Date;
+    endsAt: Date;
+    summary: string;
+    description?: string;
+    location?: string | null;
+    url?: string;
+    organizer?: { name: string; email: string };
+    cancelled?: boolean;
+}
+
+/**
+ * UTC date-time in iCalendar form, e.g. 20261020T093000Z
+ */
+function formatDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets onto continuation lines
+ * (without splitting multi-byte characters)
+ */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of line) {
+        const size = Buffer.byteLength(char);
+        // Continuation lines start with a space, which counts towards the limit
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            parts.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+/**
+ * Build a single-event calendar file
+ * Cancelled events carry METHOD:CANCEL so calendar apps remove the booking.
+ */
+export function buildCalendarFile(event: CalendarEvent, now: Date = new Date()): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        `METHOD:${event.cancelled ? 'CANCEL' : 'PUBLISH'}`,
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatDateTime(now)}`,
+        `DTSTART:${formatDateTime(event.startsAt)}`,
+        `DTEND:${formatDateTime(event.endsAt)}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+    ];
+
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.organizer) {
+        lines.push(`ORGANIZER;CN="${event.organizer.name.replace(/"/g, "'")}":mailto:${event.organizer.email}`);
+    }
+
+    lines.push(
+        `SEQUENCE:${event.cancelled ? 1 : 0}`,
+        `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    );
+
+    if (!event.cancelled) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(event.summary)}`,
+            `TRIGGER:-PT${REMINDER_MINUTES}M`,
+            'END:VALARM',
+        );
+    }
+
+    lines.push('END:VEVENT', 'END:VCALENDAR');
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
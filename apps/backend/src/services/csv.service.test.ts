@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csv.service.js';
+
+describe('parseCsv', () => {
+    it('splits rows and cells with LF or CRLF endings', () => {
+        expect(parseCsv('a,b\r\nc,d\ne,f')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+    });
+
+    it('handles quoted commas, doubled quotes and newlines', () => {
+        expect(parseCsv('"Doe, Jane","say ""hi""","line 1\nline 2"\n')).toEqual([
+            ['Doe, Jane', 'say "hi"', 'line 1\nline 2'],
+        ]);
+    });
+
+    it('keeps blank lines and empty cells', () => {
+        expect(parseCsv('a,,c\n\nd\n')).toEqual([['a', '', 'c'], [''], ['d']]);
+    });
+
+    it('returns no rows for empty text', () => {
+        expect(parseCsv('')).toEqual([]);
+    });
+});
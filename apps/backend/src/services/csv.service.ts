@@ -0,0 +1,54 @@
+/**
+ * CSV Service
+ *
+ * Minimal CSV reader shared by roster imports and the evaluator
+ * calibration gold sets.
+ */
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF or LF)
+ *
+ * Quoted cells may contain commas, doubled quotes and newlines. Blank lines
+ * are kept as rows so callers can report line numbers.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
@@ -0,0 +1,57 @@
+/**
+ * Email Service
+ *
+ * Transactional email through Resend (https://resend.com)
+ */
+
+export interface EmailAttachment {
+    filename: string;
+    content: string; // Plain text; sent base64-encoded
+    contentType?: string;
+}
+
+export interface Email {
+    to: string;
+    subject: string;
+    text: string;
+    attachments?: EmailAttachment[];
+}
+
+export function isEmailConfigured(): boolean {
+    return !!process.env.RESEND_API_KEY;
+}
+
+/**
+ * Send an email; throws when RESEND_API_KEY is missing or delivery fails
+ */
+export async function sendEmail(email: Email): Promise<void> {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+        throw new Error('RESEND_API_KEY is not configured');
+    }
+
+    const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+            from: process.env.AUTH_EMAIL_FROM || 'Capstone Reviewer <no-reply@resend.dev>',
+            to: email.to,
+            subject: email.subject,
+            text: email.text,
+            ...(email.attachments?.length && {
+                attachments: email.attachments.map(attachment => ({
+                    filename: attachment.filename,
+                    content: Buffer.from(attachment.content).toString('base64'),
+                    ...(attachment.contentType && { content_type: attachment.contentType }),
+                })),
+            }),
+        }),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Email delivery failed: ${response.status} ${await response.text()}`);
+    }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ENROLLMENT_ROWS, parseEnrollmentCsv } from './enrollment.service.js';
+
+describe('parseEnrollmentCsv', () => {
+    it('reads columns in any order and falls back to the email for name and reg no', () => {
+        const csv = [
+            '\uFEFFTeam,Email Address,Student Name,Reg No',
+            'Team A,Asha.22BCE1001@vitapstudent.ac.in,Asha Rao,22bce1001',
+            ',ravi.22bce1002@vitapstudent.ac.in,,',
+        ].join('\r\n');
+
+        expect(parseEnrollmentCsv(csv)).toEqual({
+            rows: [
+                {
+                    line: 2,
+                    email: 'asha.22bce1001@vitapstudent.ac.in',
+                    name: 'Asha Rao',
+                    regNo: '22BCE1001',
+                    projectGroup: 'Team A',
+                },
+                {
+                    line: 3,
+                    email: 'ravi.22bce1002@vitapstudent.ac.in',
+                    name: 'Ravi',
+                    regNo: '22BCE1002',
+                    projectGroup: null,
+                },
+            ],
+            errors: [],
+        });
+    });
+
+    it('reports invalid and repeated emails with their line, skipping blank lines', () => {
+        const csv = [
+            'email',
+            'asha.22bce1001@vitapstudent.ac.in',
+            '',
+            'someone@gmail.com',
+            'ASHA.22BCE1001@vitapstudent.ac.in',
+        ].join('\n');
+
+        const result = parseEnrollmentCsv(csv);
+
+        expect(result).toEqual({
+            rows: [expect.objectContaining({ line: 2 })],
+            errors: [
+                { line: 4, error: '"someone@gmail.com" is not a VIT-AP student email' },
+                { line: 5, error: 'asha.22bce1001@vitapstudent.ac.in is listed more than once' },
+            ],
+        });
+    });
+
+    it('rejects files without an email column or with too many rows', () => {
+        expect(parseEnrollmentCsv('')).toEqual({ error: 'The CSV is empty' });
+        expect(parseEnrollmentCsv('name,group\nAsha,A')).toEqual({ error: 'The CSV needs an "email" column' });
+
+        const tooMany = ['email', ...Array.from({ length: MAX_ENROLLMENT_ROWS + 1 }, () => 'x')].join('\n');
+        expect(parseEnrollmentCsv(tooMany)).toEqual({
+            error: `At most ${MAX_ENROLLMENT_ROWS} students can be imported at once`,
+        });
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Enrollment Service
+ *
+ * Parses batch enrollment CSVs exported from the course roster.
+ *
+ * Expected header (case-insensitive, any order; only `email` is required):
+ *   email,name,reg no,group
+ */
+
+import { parseVitEmail } from './auth.service.js';
+import { parseCsv } from './csv.service.js';
+
+export const MAX_ENROLLMENT_ROWS = 2000;
+
+export interface EnrollmentRow {
+    line: number; // 1-based line in the CSV
+    email: string;
+    name: string;
+    regNo: string;
+    projectGroup: string | null;
+}
+
+export interface EnrollmentRowError {
+    line: number;
+    error: string;
+}
+
+// Accepted spellings of each column
+const HEADER_ALIASES: Record<keyof Omit<EnrollmentRow, 'line'>, string[]> = {
+    email: ['email', 'email id', 'email address', 'mail'],
+    name: ['name', 'student name', 'full name'],
+    regNo: ['reg no', 'regno', 'reg_no', 'registration number', 'register number', 'reg. no.'],
+    projectGroup: ['group', 'project group', 'team', 'team name', 'project_group'],
+};
+
+/**
+ * Parse an enrollment CSV into student rows
+ *
+ * Students must use their VIT-AP email; name and registration number fall
+ * back to the ones encoded in it.
+ */
+export function parseEnrollmentCsv(text: string): { rows: EnrollmentRow[]; errors: EnrollmentRowError[] } | { error: string } {
+    const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header) {
+        return { error: 'The CSV is empty' };
+    }
+
+    const normalizedHeader = header.map(cell => cell.trim().toLowerCase());
+    const columns = Object.fromEntries(
+        Object.entries(HEADER_ALIASES).map(([field, aliases]) => [
+            field,
+            normalizedHeader.findIndex(cell => aliases.includes(cell)),
+        ])
+    ) as Record<keyof typeof HEADER_ALIASES, number>;
+
+    if (columns.email === -1) {
+        return { error: 'The CSV needs an "email" column' };
+    }
+    if (records.length > MAX_ENROLLMENT_ROWS) {
+        return { error: `At most ${MAX_ENROLLMENT_ROWS} students can be imported at once` };
+    }
+
+    const rows: EnrollmentRow[] = [];
+    const errors: EnrollmentRowError[] = [];
+    const seen = new Set<string>();
+
+    records.forEach((record, index) => {
+        const line = index + 2;
+        const cell = (column: number) => (column === -1 ? '' : (record[column] ?? '').trim());
+
+        // Skip blank lines
+        if (record.every(value => !value.trim())) return;
+
+        const email = cell(columns.email).toLowerCase();
+        const identity = parseVitEmail(email);
+        if (!identity) {
+            errors.push({ line, error: `"${email}" is not a VIT-AP student email` });
+            return;
+        }
+        if (seen.has(email)) {
+            errors.push({ line, error: `${email} is listed more than once` });
+            return;
+        }
+        seen.add(email);
+
+        rows.push({
+            line,
+            email,
+            name: cell(columns.name) || identity.name,
+            regNo: (cell(columns.regNo) || identity.regNo).toUpperCase(),
+            projectGroup: cell(columns.projectGroup) || null,
+        });
+    });
+
+    return { rows, errors };
+}
@@ -87,3 +87,19 @@ export function isR2Configured(): boolean {
 export function getR2PublicUrl(fileName: string): string {
     return `${R2_PUBLIC_URL}/ppt/${fileName}`;
 }
+
+/**
+ * Check if a URL points into the R2 public bucket
+ */
+export function isR2PublicUrl(url: string): boolean {
+    try {
+        const base = new URL(R2_PUBLIC_URL.endsWith('/') ? R2_PUBLIC_URL : `${R2_PUBLIC_URL}/`);
+        const target = new URL(url);
+        return target.origin === base.origin
+            && !target.username
+            && !target.password
+            && target.pathname.startsWith(base.pathname);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { LocalHashEmbeddingProvider, cosineSimilarity, createEmbeddingProvider } from './embedding.service.js';
+
+describe('LocalHashEmbeddingProvider', () => {
+    const provider = new LocalHashEmbeddingProvider();
+
+    it('produces unit vectors of the configured dimension', async () => {
+        const [vector] = await provider.embed(['Object detection with YOLOv8 and PyTorch']);
+
+        expect(vector).toHaveLength(384);
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        expect(norm).toBeCloseTo(1, 10);
+    });
+
+    it('is deterministic across instances', async () => {
+        const text = 'Attendance tracking using face recognition';
+        const [first] = await provider.embed([text]);
+        const [second] = await new LocalHashEmbeddingProvider().embed([text]);
+
+        expect(second).toEqual(first);
+    });
+
+    it('ranks related text above unrelated text', async () => {
+        const [query, related, unrelated] = await provider.embed([
+            'React frontend with Tailwind',
+            'The frontend is built in React and styled with Tailwind CSS',
+            'We trained a random forest on soil moisture readings',
+        ]);
+
+        expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+
+    it('ignores case and punctuation', async () => {
+        const [a, b] = await provider.embed(['Node.js, Express!', 'node js express']);
+
+        expect(cosineSimilarity(a, b)).toBeCloseTo(1, 10);
+    });
+
+    it('returns a zero vector for text without words', async () => {
+        const [vector] = await provider.embed(['  --- ']);
+
+        expect(vector.every(v => v === 0)).toBe(true);
+    });
+
+    it('honours a custom dimension', async () => {
+        const small = createEmbeddingProvider('local', 64);
+        const [vector] = await small.embed(['hello world']);
+
+        expect(small.id).toBe('local:hashed-ngram-v1');
+        expect(vector).toHaveLength(64);
+    });
+});
+
+describe('cosineSimilarity', () => {
+    it('rejects vectors of different lengths', () => {
+        expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow('same length');
+    });
+});
@@ -1,7 +1,13 @@
 /**
  * RAG Embedding Service
- * 
- * Generates embeddings using OpenAI's text-embedding-3-small model
+ *
+ * Generates embeddings through a pluggable provider:
+ * - openai: OpenAI's text-embedding-3-small model
+ * - local: deterministic hashed n-gram vectors (offline, no API key; used in CI)
+ *
+ * Selected with EMBEDDING_PROVIDER (default: openai). Every stored chunk
+ * records the provider id and dimension it was embedded with, so search
+ * only compares vectors from the same embedding space.
  */
 
 import OpenAI from 'openai';
@@ -9,27 +15,158 @@ import OpenAI from 'openai';
 const EMBEDDING_MODEL = 'text-embedding-3-small';
 const EMBEDDING_DIMENSIONS = 1536;
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-});
+/** Default dimension of the local hashed provider */
+const LOCAL_EMBEDDING_DIMENSIONS = 384;
 
 export interface EmbeddingResult {
     text: string;
     embedding: number[];
 }
 
+export type EmbeddingProviderName = 'openai' | 'local';
+
+export interface EmbeddingProvider {
+    /** Stable identifier stored with every chunk, e.g. "openai:text-embedding-3-small" */
+    readonly id: string;
+    readonly dimensions: number;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+// ============================================================================
+// OpenAI Provider
+// ============================================================================
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private client: OpenAI | null = null;
+
+    constructor(
+        private readonly model: string = EMBEDDING_MODEL,
+        readonly dimensions: number = EMBEDDING_DIMENSIONS
+    ) {
+        this.id = `openai:${model}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        // Created lazily so the local provider never needs an API key
+        this.client ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+        const response = await this.client.embeddings.create({
+            model: this.model,
+            input: texts,
+            dimensions: this.dimensions,
+        });
+
+        return response.data.map(item => item.embedding);
+    }
+}
+
+// ============================================================================
+// Local Hashed N-gram Provider
+// ============================================================================
+
+/**
+ * Feature-hashing embedder: word unigrams/bigrams and character trigrams
+ * are hashed (FNV-1a) into signed buckets and L2-normalised.
+ * Deterministic across runs and machines, so CI results are reproducible.
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+
+    constructor(readonly dimensions: number = LOCAL_EMBEDDING_DIMENSIONS) {
+        this.id = 'local:hashed-ngram-v1';
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+        const addFeature = (feature: string, weight: number) => {
+            const hash = fnv1a(feature);
+            const bucket = hash % this.dimensions;
+            // Top bit picks the sign so collisions tend to cancel out
+            vector[bucket] += hash & 0x80000000 ? -weight : weight;
+        };
+
+        words.forEach((word, idx) => {
+            addFeature(`w:${word}`, 1);
+            if (idx > 0) addFeature(`b:${words[idx - 1]} ${word}`, 0.5);
+
+            const padded = `#${word}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                addFeature(`c:${padded.slice(i, i + 3)}`, 0.25);
+            }
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? vector.map(v => v / norm) : vector;
+    }
+}
+
+function fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// ============================================================================
+// Provider Selection
+// ============================================================================
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Build a provider by name; EMBEDDING_DIMENSIONS overrides its default size
+ */
+export function createEmbeddingProvider(
+    name: EmbeddingProviderName,
+    dimensions?: number
+): EmbeddingProvider {
+    return name === 'local'
+        ? new LocalHashEmbeddingProvider(dimensions)
+        : new OpenAIEmbeddingProvider(EMBEDDING_MODEL, dimensions);
+}
+
+/**
+ * Get the provider configured for this environment
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+    if (!activeProvider) {
+        const name: EmbeddingProviderName = process.env.EMBEDDING_PROVIDER === 'local' ? 'local' : 'openai';
+        const dimensions = process.env.EMBEDDING_DIMENSIONS
+            ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10)
+            : undefined;
+
+        activeProvider = createEmbeddingProvider(name, dimensions || undefined);
+        console.log(`[Embedding] Using ${activeProvider.id} (${activeProvider.dimensions} dimensions)`);
+    }
+    return activeProvider;
+}
+
+/**
+ * Override the active provider (e.g. the local provider in tests or scripts)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+    activeProvider = provider;
+}
+
+// ============================================================================
+// Embedding API
+// ============================================================================
+
 /**
  * Generate embedding for a single text
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
-    const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: text.trim(),
-        dimensions: EMBEDDING_DIMENSIONS,
-    });
-
-    return response.data[0].embedding;
+    const [embedding] = await getEmbeddingProvider().embed([text.trim()]);
+    return embedding;
 }
 
 /**
@@ -43,15 +180,11 @@ export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResu
 
     if (cleanTexts.length === 0) return [];
 
-    const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: cleanTexts,
-        dimensions: EMBEDDING_DIMENSIONS,
-    });
+    const embeddings = await getEmbeddingProvider().embed(cleanTexts);
 
-    return response.data.map((item, index) => ({
+    return embeddings.map((embedding, index) => ({
         text: cleanTexts[index],
-        embedding: item.embedding,
+        embedding,
     }));
 }
 
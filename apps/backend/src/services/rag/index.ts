@@ -6,19 +6,29 @@
 
 export * from './embedding.service.js';
 export * from './ppt-processor.service.js';
+export * from './pdf-processor.service.js';
 export * from './vector-store.service.js';
+export * from './repo-processor.service.js';
 
-import { processPptForEmbedding } from './ppt-processor.service.js';
+import {
+    processPptForEmbedding,
+    chunkSlides,
+    SLIDE_CHUNK_TYPES,
+    REPO_CHUNK_TYPES,
+    type SlideContent,
+} from './ppt-processor.service.js';
 import { storePptChunks, getContextForQuery, deleteChunks } from './vector-store.service.js';
+import { chunkRepository, type RepoSnapshot } from './repo-processor.service.js';
 
 /**
  * Process and embed PPT content for a review
+ * Used when only flat text could be extracted; slide numbers are guessed
  */
 export async function indexPptContent(reviewId: string, pptContent: string): Promise<number> {
     console.log(`[RAG] Indexing PPT content for review ${reviewId}`);
 
-    // Delete existing chunks first (re-indexing)
-    await deleteChunks(reviewId);
+    // Delete existing slide chunks first (re-indexing)
+    await deleteChunks(reviewId, SLIDE_CHUNK_TYPES);
 
     // Process PPT into chunks
     const chunks = processPptForEmbedding(pptContent);
@@ -36,6 +46,47 @@ export async function indexPptContent(reviewId: string, pptContent: string): Pro
     return stored.length;
 }
 
+/**
+ * Embed structured slides (PPTX/PDF) so chunks keep their real slide
+ * numbers, titles and notes, instead of re-splitting extracted text
+ */
+export async function indexSlideContent(reviewId: string, slides: SlideContent[]): Promise<number> {
+    console.log(`[RAG] Indexing ${slides.length} slides for review ${reviewId}`);
+
+    await deleteChunks(reviewId, SLIDE_CHUNK_TYPES);
+
+    const chunks = chunkSlides(slides);
+    console.log(`[RAG] Created ${chunks.length} chunks from slides`);
+
+    if (chunks.length === 0) {
+        console.warn('[RAG] No chunks created from slides');
+        return 0;
+    }
+
+    const stored = await storePptChunks(reviewId, chunks);
+    console.log(`[RAG] Successfully indexed ${stored.length} chunks`);
+
+    return stored.length;
+}
+
+/**
+ * Embed a repository snapshot (overview, README, key source files)
+ * next to the slides, replacing any earlier repository chunks
+ */
+export async function indexRepository(reviewId: string, snapshot: RepoSnapshot): Promise<number> {
+    console.log(`[RAG] Indexing repository ${snapshot.name} for review ${reviewId}`);
+
+    await deleteChunks(reviewId, REPO_CHUNK_TYPES);
+
+    const chunks = chunkRepository(snapshot);
+    console.log(`[RAG] Created ${chunks.length} chunks from repository (${snapshot.keyFiles.length} key files)`);
+
+    const stored = await storePptChunks(reviewId, chunks);
+    console.log(`[RAG] Successfully indexed ${stored.length} repository chunks`);
+
+    return stored.length;
+}
+
 /**
  * Get relevant PPT context for a query
  */
@@ -0,0 +1,219 @@
+/**
+ * PDF Processor Service
+ *
+ * Parses PDF decks page-by-page so each page can be treated as a slide
+ */
+
+import { getDocument, OPS, PDFDateString } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { readFile } from 'fs/promises';
+import type { SlideContent } from './ppt-processor.service.js';
+
+export interface PdfPage {
+    pageNumber: number;
+    title: string | null;
+    /** Non-bullet body lines, in reading order */
+    lines: string[];
+    bulletPoints: string[];
+    hasImages: boolean;
+}
+
+export interface PdfDocumentInfo {
+    title?: string;
+    author?: string;
+    createdAt?: Date;
+    modifiedAt?: Date;
+    pageCount: number;
+}
+
+export interface ParsedPdf {
+    info: PdfDocumentInfo;
+    pages: PdfPage[];
+}
+
+interface PdfLine {
+    text: string;
+    fontSize: number;
+}
+
+const MAX_TITLE_LENGTH = 100;
+
+/** A line whose font is this much larger than the page body is treated as the title */
+const TITLE_FONT_RATIO = 1.2;
+
+const BULLET_PATTERN = /^(?:[•▪●◦‣∙·■□➢➤►▸✓✔\-–*]|\d{1,2}[.)])\s+/;
+
+const IMAGE_OPS = new Set<number>([
+    OPS.paintImageXObject,
+    OPS.paintInlineImageXObject,
+    OPS.paintImageMaskXObject,
+    OPS.paintImageXObjectRepeat,
+]);
+
+/**
+ * Check the "%PDF" signature at the start of a file
+ */
+export function isPdfBuffer(buffer: Uint8Array): boolean {
+    return buffer.length >= 4
+        && buffer[0] === 0x25
+        && buffer[1] === 0x50
+        && buffer[2] === 0x44
+        && buffer[3] === 0x46;
+}
+
+/**
+ * Group positioned text items into visual lines
+ * A new line starts on an explicit end-of-line or when the baseline moves
+ */
+function groupTextLines(items: { str: string; transform: number[]; height: number; hasEOL: boolean }[]): PdfLine[] {
+    const lines: PdfLine[] = [];
+    let text = '';
+    let fontSize = 0;
+    let lastY: number | null = null;
+
+    const flush = () => {
+        const clean = text.replace(/\s+/g, ' ').trim();
+        if (clean) lines.push({ text: clean, fontSize });
+        text = '';
+        fontSize = 0;
+    };
+
+    for (const item of items) {
+        const y = item.transform[5];
+        if (lastY !== null && Math.abs(y - lastY) > Math.max(item.height, fontSize) * 0.5) {
+            flush();
+        }
+
+        text += item.str;
+        fontSize = Math.max(fontSize, item.height);
+        lastY = y;
+
+        if (item.hasEOL) {
+            flush();
+            lastY = null;
+        }
+    }
+    flush();
+
+    return lines;
+}
+
+/**
+ * Split page lines into title, body and bullets
+ * The title is the first line set in a noticeably larger font,
+ * otherwise the first short line of the page
+ */
+function splitPageLines(lines: PdfLine[]): Omit<PdfPage, 'pageNumber' | 'hasImages'> {
+    if (lines.length === 0) {
+        return { title: null, lines: [], bulletPoints: [] };
+    }
+
+    const sizes = lines.map(line => line.fontSize).sort((a, b) => a - b);
+    const bodySize = sizes[Math.floor(sizes.length / 2)];
+
+    let titleIndex = lines.findIndex(line =>
+        line.fontSize >= bodySize * TITLE_FONT_RATIO && line.text.length <= MAX_TITLE_LENGTH
+    );
+    if (titleIndex === -1 && lines[0].text.length <= MAX_TITLE_LENGTH && !BULLET_PATTERN.test(lines[0].text)) {
+        titleIndex = 0;
+    }
+
+    const body: string[] = [];
+    const bulletPoints: string[] = [];
+
+    lines.forEach((line, idx) => {
+        if (idx === titleIndex) return;
+        if (BULLET_PATTERN.test(line.text)) {
+            bulletPoints.push(line.text.replace(BULLET_PATTERN, ''));
+        } else {
+            body.push(line.text);
+        }
+    });
+
+    return {
+        title: titleIndex === -1 ? null : lines[titleIndex].text,
+        lines: body,
+        bulletPoints,
+    };
+}
+
+function readInfoString(info: Record<string, unknown>, key: string): string | undefined {
+    const value = info[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function readInfoDate(info: Record<string, unknown>, key: string): Date | undefined {
+    const value = readInfoString(info, key);
+    return value ? PDFDateString.toDateObject(value) ?? undefined : undefined;
+}
+
+/**
+ * Parse a PDF into pages with text structure and document info
+ */
+export async function parsePdfBuffer(buffer: Uint8Array): Promise<ParsedPdf> {
+    // pdf.js takes ownership of the data, so hand it a copy
+    const loadingTask = getDocument({
+        data: new Uint8Array(buffer),
+        isEvalSupported: false,
+        useSystemFonts: true,
+        verbosity: 0,
+    });
+    const pdf = await loadingTask.promise;
+
+    try {
+        const pages: PdfPage[] = [];
+
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const textContent = await page.getTextContent();
+            const items = textContent.items.filter(item => 'str' in item);
+            const operators = await page.getOperatorList();
+
+            pages.push({
+                pageNumber,
+                ...splitPageLines(groupTextLines(items)),
+                hasImages: operators.fnArray.some(fn => IMAGE_OPS.has(fn)),
+            });
+
+            page.cleanup();
+        }
+
+        const { info } = await pdf.getMetadata();
+        const infoRecord = (info ?? {}) as Record<string, unknown>;
+
+        return {
+            info: {
+                title: readInfoString(infoRecord, 'Title'),
+                author: readInfoString(infoRecord, 'Author'),
+                createdAt: readInfoDate(infoRecord, 'CreationDate'),
+                modifiedAt: readInfoDate(infoRecord, 'ModDate'),
+                pageCount: pdf.numPages,
+            },
+            pages,
+        };
+    } finally {
+        await loadingTask.destroy();
+    }
+}
+
+/**
+ * Convert parsed PDF pages into slide content (one slide per page)
+ */
+export function pdfPagesToSlides(pages: PdfPage[]): SlideContent[] {
+    return pages
+        .filter(page => page.title || page.lines.length > 0 || page.bulletPoints.length > 0)
+        .map(page => ({
+            slideNumber: page.pageNumber,
+            title: page.title,
+            content: [...page.lines, ...page.bulletPoints].join('\n'),
+            bulletPoints: page.bulletPoints,
+        }));
+}
+
+/**
+ * Parse a PDF file from disk into slide content
+ */
+export async function parsePdfFile(filePath: string): Promise<SlideContent[]> {
+    const buffer = await readFile(filePath);
+    const { pages } = await parsePdfBuffer(buffer);
+    return pdfPagesToSlides(pages);
+}
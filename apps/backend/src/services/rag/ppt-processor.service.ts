@@ -4,19 +4,36 @@
  * Parses PPT files and chunks content for embedding
  */
 
-import pptxParser from 'pptx-parser';
 import { readFile } from 'fs/promises';
+import path from 'path';
+import { parsePdfFile } from './pdf-processor.service.js';
+import { extractPresentation } from '../../agent/project-review/services/pptx-extractor.service.js';
 
 export interface SlideContent {
     slideNumber: number;
     title: string | null;
     content: string;
     bulletPoints: string[];
+    /** Speaker notes, indexed as their own chunks */
+    notes?: string | null;
 }
 
+/**
+ * What a chunk was cut from: slide text or speaker notes, or for an
+ * ingested repository its overview, README or a source file
+ */
+export type PptChunkType = 'slide' | 'notes' | 'repo' | 'readme' | 'code';
+
+/** Chunk types produced from the presentation */
+export const SLIDE_CHUNK_TYPES: PptChunkType[] = ['slide', 'notes'];
+
+/** Chunk types produced from an ingested repository */
+export const REPO_CHUNK_TYPES: PptChunkType[] = ['repo', 'readme', 'code'];
+
 export interface PptChunk {
     slideNumber: number | null;
     slideTitle: string | null;
+    chunkType: PptChunkType;
     content: string;
     chunkIndex: number;
 }
@@ -27,52 +44,29 @@ const OVERLAP_CHARS = 200;
 
 /**
  * Parse PPT file and extract slide content
+ * PPTX slides keep their title, bullets and speaker notes;
+ * PDF decks are parsed page-by-page, one slide per page
  */
 export async function parsePptFile(filePath: string): Promise<SlideContent[]> {
+    if (path.extname(filePath).toLowerCase() === '.pdf') {
+        return parsePdfFile(filePath);
+    }
+
     try {
         const buffer = await readFile(filePath);
-        const slides: SlideContent[] = [];
-
-        // Parse PPTX
-        const parsed = await pptxParser(buffer);
+        const { slides } = extractPresentation(buffer, path.basename(filePath));
 
-        if (!parsed || !parsed.slides) {
+        if (slides.length === 0) {
             console.warn('[PptProcessor] No slides found in PPT');
-            return slides;
         }
 
-        for (let i = 0; i < parsed.slides.length; i++) {
-            const slide = parsed.slides[i];
-            const slideNumber = i + 1;
-
-            // Extract title (usually the first text element)
-            let title: string | null = null;
-            const bulletPoints: string[] = [];
-            const contentParts: string[] = [];
-
-            if (slide.texts) {
-                for (const text of slide.texts) {
-                    const cleanText = text.trim();
-                    if (!cleanText) continue;
-
-                    if (!title && cleanText.length < 100) {
-                        title = cleanText;
-                    } else {
-                        contentParts.push(cleanText);
-                        bulletPoints.push(cleanText);
-                    }
-                }
-            }
-
-            slides.push({
-                slideNumber,
-                title,
-                content: contentParts.join('\n'),
-                bulletPoints,
-            });
-        }
-
-        return slides;
+        return slides.map(slide => ({
+            slideNumber: slide.slideNumber,
+            title: slide.title,
+            content: [slide.content, ...slide.bullets].filter(Boolean).join('\n'),
+            bulletPoints: slide.bullets,
+            notes: slide.notes ?? null,
+        }));
     } catch (error) {
         console.error('[PptProcessor] Error parsing PPT:', error);
         throw error;
@@ -107,13 +101,60 @@ export function parsePptContent(pptContent: string): SlideContent[] {
     return slides;
 }
 
+/**
+ * Split text into overlapping pieces that fit in one chunk
+ */
+function splitIntoChunkTexts(text: string): string[] {
+    if (text.length <= MAX_CHARS_PER_CHUNK) {
+        return text.trim() ? [text.trim()] : [];
+    }
+
+    const pieces: string[] = [];
+    const words = text.split(/\s+/);
+    let currentChunk = '';
+
+    for (const word of words) {
+        if ((currentChunk + ' ' + word).length > MAX_CHARS_PER_CHUNK) {
+            if (currentChunk.trim()) {
+                pieces.push(currentChunk.trim());
+            }
+            // Start new chunk with overlap
+            const overlapStart = Math.max(0, currentChunk.length - OVERLAP_CHARS);
+            currentChunk = currentChunk.slice(overlapStart) + ' ' + word;
+        } else {
+            currentChunk += (currentChunk ? ' ' : '') + word;
+        }
+    }
+
+    // Add remaining content
+    if (currentChunk.trim()) {
+        pieces.push(currentChunk.trim());
+    }
+
+    return pieces;
+}
+
 /**
  * Chunk slides for embedding
+ * Every chunk keeps its slide number and title; speaker notes
+ * become separate 'notes' chunks so search results can cite them
  */
 export function chunkSlides(slides: SlideContent[]): PptChunk[] {
     const chunks: PptChunk[] = [];
     let chunkIndex = 0;
 
+    const pushChunks = (slide: SlideContent, chunkType: PptChunkType, text: string) => {
+        for (const content of splitIntoChunkTexts(text)) {
+            chunks.push({
+                slideNumber: slide.slideNumber,
+                slideTitle: slide.title,
+                chunkType,
+                content,
+                chunkIndex: chunkIndex++,
+            });
+        }
+    };
+
     for (const slide of slides) {
         // Combine slide content
         let slideText = '';
@@ -121,57 +162,33 @@ export function chunkSlides(slides: SlideContent[]): PptChunk[] {
             slideText = `Slide ${slide.slideNumber}: ${slide.title}\n`;
         }
         slideText += slide.content;
+        pushChunks(slide, 'slide', slideText);
 
-        // If slide content fits in one chunk
-        if (slideText.length <= MAX_CHARS_PER_CHUNK) {
-            if (slideText.trim()) {
-                chunks.push({
-                    slideNumber: slide.slideNumber,
-                    slideTitle: slide.title,
-                    content: slideText.trim(),
-                    chunkIndex: chunkIndex++,
-                });
-            }
-        } else {
-            // Split large slides into multiple chunks
-            const words = slideText.split(/\s+/);
-            let currentChunk = '';
-
-            for (const word of words) {
-                if ((currentChunk + ' ' + word).length > MAX_CHARS_PER_CHUNK) {
-                    if (currentChunk.trim()) {
-                        chunks.push({
-                            slideNumber: slide.slideNumber,
-                            slideTitle: slide.title,
-                            content: currentChunk.trim(),
-                            chunkIndex: chunkIndex++,
-                        });
-                    }
-                    // Start new chunk with overlap
-                    const overlapStart = Math.max(0, currentChunk.length - OVERLAP_CHARS);
-                    currentChunk = currentChunk.slice(overlapStart) + ' ' + word;
-                } else {
-                    currentChunk += (currentChunk ? ' ' : '') + word;
-                }
-            }
-
-            // Add remaining content
-            if (currentChunk.trim()) {
-                chunks.push({
-                    slideNumber: slide.slideNumber,
-                    slideTitle: slide.title,
-                    content: currentChunk.trim(),
-                    chunkIndex: chunkIndex++,
-                });
-            }
+        if (slide.notes?.trim()) {
+            const notesHeader = slide.title
+                ? `Slide ${slide.slideNumber} speaker notes (${slide.title}):\n`
+                : `Slide ${slide.slideNumber} speaker notes:\n`;
+            pushChunks(slide, 'notes', notesHeader + slide.notes.trim());
         }
     }
 
     return chunks;
 }
 
+/**
+ * Render slides back to plain text, one block per slide
+ * Keeps the slide-per-block layout parsePptContent expects
+ */
+export function slidesToText(slides: SlideContent[]): string {
+    return slides
+        .map(slide => [slide.title, slide.content].filter(Boolean).join('\n'))
+        .filter(Boolean)
+        .join('\n\n');
+}
+
 /**
  * Process PPT content and return chunks ready for embedding
+ * Fallback for decks that could only be extracted as flat text (e.g. legacy .ppt)
  */
 export function processPptForEmbedding(pptContent: string): PptChunk[] {
     const slides = parsePptContent(pptContent);
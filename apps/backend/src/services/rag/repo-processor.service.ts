@@ -0,0 +1,573 @@
+/**
+ * Repository Processor Service
+ *
+ * Reads a project repository (shallow clone or uploaded archive) into a
+ * snapshot — README, directory tree, language breakdown and key source
+ * files — and chunks it for embedding alongside the slides
+ */
+
+import { execFile } from 'child_process';
+import { readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { Gunzip, Unzip, UnzipInflate, strFromU8 } from 'fflate';
+import type { PptChunk } from './ppt-processor.service.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface RepoFile {
+    path: string; // Relative, forward slashes
+    size: number;
+    read: () => Promise<string>;
+}
+
+export interface RepoLanguageShare {
+    language: string;
+    files: number;
+    bytes: number;
+    share: number; // 0-1 of source bytes
+}
+
+export interface RepoKeyFile {
+    path: string;
+    language: string;
+    content: string;
+    truncated: boolean;
+}
+
+/** Declared dependencies and imported modules */
+export interface RepoDependencies {
+    manifests: string[]; // Paths of the manifests that were read
+    packages: string[]; // Declared in manifests, lowercased
+    imports: string[]; // Non-relative modules imported by source files, lowercased
+}
+
+export interface RepoSnapshot {
+    name: string;
+    readme: string | null;
+    tree: string[]; // Truncated to MAX_TREE_ENTRIES
+    totalFiles: number;
+    languages: RepoLanguageShare[];
+    keyFiles: RepoKeyFile[];
+    dependencies: RepoDependencies;
+}
+
+/** Directories that never hold the student's own source */
+const IGNORED_DIRS = new Set([
+    '.git', 'node_modules', 'dist', 'build', 'out', 'target', 'vendor', '.next',
+    '__pycache__', '.venv', 'venv', 'env', 'coverage', '.idea', '.vscode',
+    'bin', 'obj', '.gradle', 'Pods', '.dart_tool',
+]);
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    '.ts': 'TypeScript', '.tsx': 'TypeScript', '.js': 'JavaScript', '.jsx': 'JavaScript',
+    '.mjs': 'JavaScript', '.cjs': 'JavaScript', '.py': 'Python', '.ipynb': 'Jupyter Notebook',
+    '.java': 'Java', '.kt': 'Kotlin', '.dart': 'Dart', '.swift': 'Swift',
+    '.c': 'C', '.h': 'C', '.cpp': 'C++', '.cc': 'C++', '.hpp': 'C++', '.cs': 'C#',
+    '.go': 'Go', '.rs': 'Rust', '.rb': 'Ruby', '.php': 'PHP', '.scala': 'Scala',
+    '.m': 'MATLAB', '.r': 'R', '.sol': 'Solidity', '.ino': 'Arduino',
+    '.html': 'HTML', '.css': 'CSS', '.scss': 'SCSS', '.vue': 'Vue', '.svelte': 'Svelte',
+    '.sql': 'SQL', '.sh': 'Shell',
+};
+
+/** Languages that are markup/styling rather than logic; not picked as key files */
+const NON_LOGIC_LANGUAGES = new Set(['HTML', 'CSS', 'SCSS', 'Jupyter Notebook']);
+
+const ENTRY_POINT_PATTERN = /^(main|index|app|server|__main__|manage|train|model|models|api|routes|views|controller)\.[a-z]+$/i;
+const TEST_PATH_PATTERN = /(^|\/)(tests?|__tests__|spec)(\/|$)|\.(test|spec)\.[a-z]+$/i;
+
+const MAX_REPO_FILES = 5000;
+const MAX_ARCHIVE_ENTRY_BYTES = 5 * 1024 * 1024; // Bigger entries are data or binaries
+const MAX_ARCHIVE_ENTRIES = 20_000; // Including directories and ignored files
+const MAX_ARCHIVE_TOTAL_BYTES = 200 * 1024 * 1024; // Uncompressed, guards against decompression bombs
+const ARCHIVE_INPUT_CHUNK_BYTES = 16 * 1024; // Compressed bytes inflated per step
+const MAX_TREE_ENTRIES = 200;
+const MAX_KEY_FILES = 12;
+const MAX_KEY_FILE_BYTES = 200_000; // Larger files are likely generated or data
+const MAX_KEY_FILE_CHARS = 6000;
+const MAX_README_CHARS = 8000;
+const MAX_CODE_CHUNK_CHARS = 2000;
+const CODE_OVERLAP_LINES = 3;
+const CLONE_TIMEOUT_MS = 60_000;
+const MAX_IMPORT_SCAN_FILES = 300;
+
+/** Dependency manifests by file name */
+const MANIFEST_NAMES = new Set([
+    'package.json', 'requirements.txt', 'pyproject.toml', 'Pipfile', 'environment.yml',
+    'pom.xml', 'build.gradle', 'build.gradle.kts', 'go.mod', 'Cargo.toml', 'pubspec.yaml',
+    'composer.json', 'Gemfile',
+]);
+
+/** Repository chunks are numbered after the slides so they sort last */
+const REPO_CHUNK_INDEX_OFFSET = 100_000;
+
+/** Public GitHub repository URLs accepted for cloning */
+const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/[\w.-]+\/[\w.-]+?(\.git)?\/?$/;
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+function isIgnoredPath(filePath: string): boolean {
+    return filePath.split('/').some(part => IGNORED_DIRS.has(part));
+}
+
+/**
+ * Language for a file path, null for non-source files
+ */
+export function detectLanguage(filePath: string): string | null {
+    return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+export function isGithubUrl(url: string): boolean {
+    return GITHUB_URL_PATTERN.test(url);
+}
+
+/**
+ * Shallow-clone a public GitHub repository into `destination`
+ */
+export async function cloneRepository(url: string, destination: string): Promise<void> {
+    if (!isGithubUrl(url)) {
+        throw new Error('Only public https://github.com/<owner>/<repo> URLs can be cloned');
+    }
+
+    await execFileAsync('git', ['clone', '--depth', '1', '--single-branch', '--quiet', url, destination], {
+        timeout: CLONE_TIMEOUT_MS,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+}
+
+/**
+ * List the files of a local checkout, skipping ignored directories and symlinks
+ */
+export async function listDirectoryFiles(root: string): Promise<RepoFile[]> {
+    const files: RepoFile[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+        const entries = await readdir(dir, { withFileTypes: true });
+        for (const entry of entries) {
+            if (files.length >= MAX_REPO_FILES) return;
+
+            const absolute = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                if (!IGNORED_DIRS.has(entry.name)) await walk(absolute);
+            } else if (entry.isFile()) {
+                const { size } = await stat(absolute);
+                files.push({
+                    path: path.relative(root, absolute).split(path.sep).join('/'),
+                    size,
+                    read: () => readFile(absolute, 'utf8'),
+                });
+            }
+        }
+    };
+
+    await walk(root);
+    return files;
+}
+
+/**
+ * Thrown when an archive passes the entry count or extracted size limit
+ */
+export class ArchiveLimitError extends Error {
+    name = 'ArchiveLimitError';
+}
+
+function archiveTooLargeError(): ArchiveLimitError {
+    return new ArchiveLimitError(`Archive is too large once extracted (limit ${MAX_ARCHIVE_TOTAL_BYTES / 1024 / 1024} MB)`);
+}
+
+function tooManyEntriesError(): ArchiveLimitError {
+    return new ArchiveLimitError(`Archive has too many entries (limit ${MAX_ARCHIVE_ENTRIES})`);
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/**
+ * Feed compressed bytes to a streaming decompressor in small steps,
+ * so no single step can inflate far past the byte limit
+ */
+function pushInChunks(stream: { push: (chunk: Uint8Array, final?: boolean) => void }, buffer: Uint8Array): void {
+    for (let offset = 0; offset < buffer.length; offset += ARCHIVE_INPUT_CHUNK_BYTES) {
+        const end = Math.min(offset + ARCHIVE_INPUT_CHUNK_BYTES, buffer.length);
+        stream.push(buffer.subarray(offset, end), end === buffer.length);
+    }
+}
+
+/**
+ * Inflate a .zip archive, skipping directories, entries `include` rejects and oversized entries
+ * Throws once the entry count or the total uncompressed size passes its limit
+ */
+export function unzipLimited(buffer: Uint8Array, include: (name: string) => boolean): Record<string, Uint8Array> {
+    const entries: Record<string, Uint8Array> = {};
+    let entryCount = 0;
+    let totalBytes = 0;
+
+    const unzip = new Unzip(file => {
+        if (++entryCount > MAX_ARCHIVE_ENTRIES) throw tooManyEntriesError();
+        if (file.name.endsWith('/') || !include(file.name)) return;
+
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+
+        file.ondata = (error, chunk, final) => {
+            if (error) throw error;
+
+            totalBytes += chunk.length;
+            if (totalBytes > MAX_ARCHIVE_TOTAL_BYTES) throw archiveTooLargeError();
+
+            size += chunk.length;
+            if (size > MAX_ARCHIVE_ENTRY_BYTES) {
+                chunks.length = 0;
+                return;
+            }
+
+            chunks.push(chunk);
+            if (final) entries[file.name] = concatChunks(chunks, size);
+        };
+        file.start();
+    });
+    unzip.register(UnzipInflate);
+
+    pushInChunks(unzip, buffer);
+    return entries;
+}
+
+/**
+ * Inflate a gzip stream, throwing once the output passes the byte limit
+ */
+function gunzipLimited(buffer: Uint8Array): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let totalBytes = 0;
+
+    const gunzip = new Gunzip((chunk) => {
+        totalBytes += chunk.length;
+        if (totalBytes > MAX_ARCHIVE_TOTAL_BYTES) throw archiveTooLargeError();
+        chunks.push(chunk);
+    });
+
+    pushInChunks(gunzip, buffer);
+    return concatChunks(chunks, totalBytes);
+}
+
+/**
+ * Read entries of a POSIX tar archive
+ */
+function untar(buffer: Uint8Array): Record<string, Uint8Array> {
+    const entries: Record<string, Uint8Array> = {};
+    let entryCount = 0;
+    let offset = 0;
+
+    while (offset + 512 <= buffer.length) {
+        const header = buffer.subarray(offset, offset + 512);
+        const name = strFromU8(header.subarray(0, 100)).replace(/\0.*$/s, '');
+        if (!name) break;
+        if (++entryCount > MAX_ARCHIVE_ENTRIES) throw tooManyEntriesError();
+
+        const size = parseInt(strFromU8(header.subarray(124, 136)).replace(/\0.*$/s, '').trim() || '0', 8);
+        const type = String.fromCharCode(header[156]);
+        const prefix = strFromU8(header.subarray(345, 500)).replace(/\0.*$/s, '');
+
+        // Regular files only ('0' or NUL); skips dirs, links and pax headers
+        if ((type === '0' || type === '\0') && size <= MAX_ARCHIVE_ENTRY_BYTES) {
+            const fullName = prefix ? `${prefix}/${name}` : name;
+            entries[fullName] = buffer.subarray(offset + 512, offset + 512 + size);
+        }
+
+        offset += 512 + Math.ceil(size / 512) * 512;
+    }
+
+    return entries;
+}
+
+/**
+ * List the files of an uploaded .zip or .tar.gz archive
+ * A single top-level folder (as in GitHub downloads) is stripped
+ */
+export function listArchiveFiles(buffer: Uint8Array, fileName: string): RepoFile[] {
+    const lower = fileName.toLowerCase();
+    let entries: Record<string, Uint8Array>;
+
+    if (lower.endsWith('.zip')) {
+        entries = unzipLimited(buffer, name => !isIgnoredPath(name));
+    } else if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) {
+        entries = untar(gunzipLimited(buffer));
+    } else {
+        throw new Error('Unsupported archive type. Use .zip, .tar.gz or .tgz');
+    }
+
+    const names = Object.keys(entries).filter(name => !isIgnoredPath(name)).slice(0, MAX_REPO_FILES);
+    const roots = new Set(names.map(name => name.split('/')[0]));
+    const stripRoot = roots.size === 1 && names.every(name => name.includes('/'));
+
+    return names.map(name => ({
+        path: stripRoot ? name.slice(name.indexOf('/') + 1) : name,
+        size: entries[name].length,
+        read: async () => strFromU8(entries[name]),
+    }));
+}
+
+// ============================================================================
+// Dependencies
+// ============================================================================
+
+/**
+ * Package names declared in a dependency manifest
+ * Line-based on purpose: good enough for names, no parser per format
+ */
+function parseManifest(fileName: string, content: string): string[] {
+    switch (fileName) {
+        case 'package.json':
+        case 'composer.json': {
+            try {
+                const json = JSON.parse(content);
+                const sections = fileName === 'package.json'
+                    ? [json.dependencies, json.devDependencies, json.peerDependencies]
+                    : [json.require, json['require-dev']];
+                return sections.flatMap(section => Object.keys(section ?? {}));
+            } catch {
+                return [];
+            }
+        }
+        case 'requirements.txt':
+            return content.split('\n')
+                .map(line => line.replace(/#.*$/, '').trim())
+                .filter(line => line && !line.startsWith('-'))
+                .map(line => line.split(/[<>=!~;\[\s]/)[0]);
+        case 'pom.xml':
+            return [...content.matchAll(/<groupId>([^<]+)<\/groupId>\s*<artifactId>([^<]+)<\/artifactId>/g)]
+                .flatMap(m => [m[1], m[2]]);
+        case 'build.gradle':
+        case 'build.gradle.kts':
+            return [...content.matchAll(/(?:implementation|api|compile|testImplementation)\s*\(?\s*['"]([^:'"]+):([^:'"]+)/g)]
+                .flatMap(m => [m[1], m[2]]);
+        case 'go.mod':
+            return [...content.matchAll(/^\s*(?:require\s+)?([a-z0-9.-]+\.[a-z]+\/[^\s]+)\s+v/gm)].map(m => m[1]);
+        default:
+            // pyproject.toml, Pipfile, environment.yml, Cargo.toml, pubspec.yaml, Gemfile:
+            // quoted or "name =" / "- name" / "gem 'name'" style entries
+            return [...content.matchAll(/^\s*(?:-\s*|gem\s+['"])?["']?([A-Za-z][\w.-]*)["']?\s*(?:[=:<>~^]|['"],|$)/gm)]
+                .map(m => m[1])
+                .filter(name => !/^(name|version|description|authors?|license|python|dependencies|channels|edition|environment|sdk|flutter)$/i.test(name));
+    }
+}
+
+/**
+ * Non-relative modules imported by a source file
+ */
+function parseImports(filePath: string, content: string): string[] {
+    const language = detectLanguage(filePath);
+    const modules: string[] = [];
+
+    if (language === 'TypeScript' || language === 'JavaScript' || language === 'Vue' || language === 'Svelte') {
+        for (const m of content.matchAll(/(?:from\s+|require\(\s*|import\s*\(?\s*)['"]([^'"]+)['"]/g)) {
+            if (m[1].startsWith('.') || m[1].startsWith('/')) continue;
+            const parts = m[1].split('/');
+            modules.push(m[1].startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]);
+        }
+    } else if (language === 'Python') {
+        for (const m of content.matchAll(/^\s*(?:from|import)\s+([A-Za-z_][\w]*)/gm)) {
+            modules.push(m[1]);
+        }
+    } else if (language === 'Java' || language === 'Kotlin' || language === 'Scala') {
+        for (const m of content.matchAll(/^\s*import\s+(?:static\s+)?([\w.]+)/gm)) {
+            modules.push(m[1]);
+        }
+    } else if (language === 'Go') {
+        for (const m of content.matchAll(/"([a-z0-9.-]+\.[a-z]+\/[^"]+)"/g)) {
+            modules.push(m[1]);
+        }
+    } else if (language === 'Dart') {
+        for (const m of content.matchAll(/import\s+['"]package:([\w]+)\//g)) {
+            modules.push(m[1]);
+        }
+    } else if (language === 'C' || language === 'C++' || language === 'Arduino') {
+        for (const m of content.matchAll(/#include\s*<([\w./]+)>/g)) {
+            modules.push(m[1].replace(/\.h(pp)?$/, ''));
+        }
+    }
+
+    return modules;
+}
+
+/**
+ * Collect declared packages and imported modules across the repository
+ */
+async function extractDependencies(files: RepoFile[]): Promise<RepoDependencies> {
+    const manifests = files.filter(f => MANIFEST_NAMES.has(path.posix.basename(f.path)) && f.size <= MAX_KEY_FILE_BYTES);
+    const packages = new Set<string>();
+    const imports = new Set<string>();
+
+    for (const manifest of manifests) {
+        for (const name of parseManifest(path.posix.basename(manifest.path), await manifest.read())) {
+            packages.add(name.toLowerCase());
+        }
+    }
+
+    const sources = files
+        .filter(f => detectLanguage(f.path) && f.size <= MAX_KEY_FILE_BYTES)
+        .slice(0, MAX_IMPORT_SCAN_FILES);
+    for (const file of sources) {
+        for (const module of parseImports(file.path, await file.read())) {
+            imports.add(module.toLowerCase());
+        }
+    }
+
+    return {
+        manifests: manifests.map(m => m.path),
+        packages: [...packages].sort(),
+        imports: [...imports].sort(),
+    };
+}
+
+// ============================================================================
+// Snapshot
+// ============================================================================
+
+/**
+ * Rank how likely a file is to hold the project's core logic
+ */
+function scoreKeyFile(file: RepoFile, readme: string): number {
+    const base = path.posix.basename(file.path);
+    const depth = file.path.split('/').length - 1;
+    let score = 0;
+
+    if (ENTRY_POINT_PATTERN.test(base)) score += 3;
+    if (readme.includes(base) || readme.includes(file.path)) score += 4;
+    if (depth <= 2) score += 1;
+    if (file.size >= 1000 && file.size <= 30_000) score += 1;
+    if (TEST_PATH_PATTERN.test(file.path)) score -= 2;
+
+    return score;
+}
+
+/**
+ * Build a snapshot from the repository's files
+ */
+export async function buildRepoSnapshot(name: string, files: RepoFile[]): Promise<RepoSnapshot> {
+    const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+
+    const readmeFile = sorted
+        .filter(f => /^readme(\.(md|markdown|txt|rst))?$/i.test(path.posix.basename(f.path)))
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0];
+    const readme = readmeFile ? (await readmeFile.read()).slice(0, MAX_README_CHARS) : null;
+
+    // Language breakdown by bytes of source files
+    const byLanguage = new Map<string, { files: number; bytes: number }>();
+    const sourceFiles = sorted.filter(f => detectLanguage(f.path));
+    for (const file of sourceFiles) {
+        const language = detectLanguage(file.path)!;
+        const entry = byLanguage.get(language) ?? { files: 0, bytes: 0 };
+        entry.files++;
+        entry.bytes += file.size;
+        byLanguage.set(language, entry);
+    }
+    const totalBytes = [...byLanguage.values()].reduce((sum, l) => sum + l.bytes, 0);
+    const languages = [...byLanguage.entries()]
+        .map(([language, l]) => ({ language, ...l, share: totalBytes > 0 ? l.bytes / totalBytes : 0 }))
+        .sort((a, b) => b.bytes - a.bytes);
+
+    const candidates = sourceFiles
+        .filter(f => f.size > 0 && f.size <= MAX_KEY_FILE_BYTES && !NON_LOGIC_LANGUAGES.has(detectLanguage(f.path)!))
+        .map(f => ({ file: f, score: scoreKeyFile(f, readme ?? '') }))
+        .sort((a, b) => b.score - a.score || b.file.size - a.file.size)
+        .slice(0, MAX_KEY_FILES);
+
+    const keyFiles: RepoKeyFile[] = [];
+    for (const { file } of candidates) {
+        const content = await file.read();
+        // Skip binary files that slipped through with a source extension
+        if (content.includes('\0')) continue;
+        keyFiles.push({
+            path: file.path,
+            language: detectLanguage(file.path)!,
+            content: content.slice(0, MAX_KEY_FILE_CHARS),
+            truncated: content.length > MAX_KEY_FILE_CHARS,
+        });
+    }
+
+    return {
+        name,
+        readme,
+        tree: sorted.slice(0, MAX_TREE_ENTRIES).map(f => f.path),
+        totalFiles: files.length,
+        languages,
+        keyFiles,
+        dependencies: await extractDependencies(sorted),
+    };
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Split source code on line boundaries, overlapping a few lines
+ */
+function splitCode(content: string): string[] {
+    const lines = content.split('\n');
+    const pieces: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const line of lines) {
+        if (length + line.length + 1 > MAX_CODE_CHUNK_CHARS && current.length > 0) {
+            pieces.push(current.join('\n'));
+            current = current.slice(-CODE_OVERLAP_LINES);
+            length = current.reduce((sum, l) => sum + l.length + 1, 0);
+        }
+        current.push(line);
+        length += line.length + 1;
+    }
+
+    if (current.some(l => l.trim())) {
+        pieces.push(current.join('\n'));
+    }
+
+    return pieces;
+}
+
+/**
+ * Chunk a repository snapshot for embedding
+ * Repository chunks have no slide number; the file path goes in slideTitle
+ */
+export function chunkRepository(snapshot: RepoSnapshot): PptChunk[] {
+    const chunks: PptChunk[] = [];
+    let chunkIndex = REPO_CHUNK_INDEX_OFFSET;
+
+    const push = (chunkType: PptChunk['chunkType'], label: string, content: string) => {
+        chunks.push({ slideNumber: null, slideTitle: label, chunkType, content, chunkIndex: chunkIndex++ });
+    };
+
+    const languageLine = snapshot.languages
+        .map(l => `${l.language} ${(l.share * 100).toFixed(0)}%`)
+        .join(', ');
+    push('repo', snapshot.name, [
+        `Repository ${snapshot.name} (${snapshot.totalFiles} files)`,
+        `Languages: ${languageLine || 'unknown'}`,
+        'Directory tree:',
+        ...snapshot.tree.slice(0, 80),
+    ].join('\n'));
+
+    if (snapshot.readme) {
+        for (const piece of splitCode(snapshot.readme)) {
+            push('readme', 'README', `README:\n${piece}`);
+        }
+    }
+
+    for (const file of snapshot.keyFiles) {
+        for (const piece of splitCode(file.content)) {
+            push('code', file.path, `File ${file.path} (${file.language}):\n${piece}`);
+        }
+    }
+
+    return chunks;
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const queryRaw = vi.hoisted(() => vi.fn());
+
+vi.mock('../../db/prisma.js', () => ({
+    prisma: { $queryRaw: queryRaw },
+}));
+
+import { LocalHashEmbeddingProvider, setEmbeddingProvider } from './embedding.service.js';
+import { hybridSearchChunks } from './vector-store.service.js';
+
+function row(id: string, chunkIndex: number, extra: Record<string, number>) {
+    return {
+        id,
+        review_id: 'review-1',
+        slide_number: chunkIndex + 1,
+        slide_title: null,
+        chunk_type: 'slide',
+        content: `chunk ${id}`,
+        chunk_index: chunkIndex,
+        ...extra,
+    };
+}
+
+/**
+ * Answer the vector query with `vectorRows` and the full-text query with `keywordRows`
+ */
+function mockRankings(
+    vectorRows: ReturnType<typeof row>[] | Error,
+    keywordRows: ReturnType<typeof row>[]
+) {
+    queryRaw.mockImplementation(async (strings: TemplateStringsArray) => {
+        if (strings.join('').includes('ts_rank_cd')) return keywordRows;
+        if (vectorRows instanceof Error) throw vectorRows;
+        return vectorRows;
+    });
+}
+
+describe('hybridSearchChunks', () => {
+    beforeEach(() => {
+        queryRaw.mockReset();
+        setEmbeddingProvider(new LocalHashEmbeddingProvider());
+    });
+
+    it('fuses both rankings with reciprocal rank scores', async () => {
+        mockRankings(
+            [row('a', 0, { similarity: 0.9 }), row('b', 1, { similarity: 0.8 })],
+            [row('b', 1, { keyword_score: 0.5 }), row('c', 2, { keyword_score: 0.2 })]
+        );
+
+        const results = await hybridSearchChunks('review-1', 'pytorch model', 5, { rrfK: 60 });
+
+        expect(results.map(r => r.id)).toEqual(['b', 'a', 'c']);
+        expect(results[0]).toMatchObject({ score: 1 / 62 + 1 / 61, similarity: 0.8, keywordScore: 0.5 });
+        expect(results[1]).toMatchObject({ score: 1 / 61, similarity: 0.9, keywordScore: null });
+        expect(results[2]).toMatchObject({ score: 1 / 62, similarity: null, keywordScore: 0.2 });
+    });
+
+    it('applies ranking weights', async () => {
+        mockRankings(
+            [row('a', 0, { similarity: 0.9 })],
+            [row('b', 1, { keyword_score: 0.5 })]
+        );
+
+        const results = await hybridSearchChunks('review-1', 'pytorch', 5, { keywordWeight: 2 });
+
+        expect(results.map(r => r.id)).toEqual(['b', 'a']);
+    });
+
+    it('breaks score ties by chunk order and respects the limit', async () => {
+        mockRankings(
+            [row('late', 7, { similarity: 0.9 })],
+            [row('early', 3, { keyword_score: 0.5 }), row('other', 4, { keyword_score: 0.1 })]
+        );
+
+        const results = await hybridSearchChunks('review-1', 'pytorch', 2);
+
+        expect(results.map(r => r.id)).toEqual(['early', 'late']);
+    });
+
+    it('falls back to the keyword ranking when vector search fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        mockRankings(new Error('network down'), [row('c', 2, { keyword_score: 0.2 })]);
+
+        const results = await hybridSearchChunks('review-1', 'pytorch', 5);
+
+        expect(results).toHaveLength(1);
+        expect(results[0]).toMatchObject({ id: 'c', similarity: null, keywordScore: 0.2 });
+    });
+
+    it('skips the keyword query when the text has no searchable terms', async () => {
+        mockRankings([row('a', 0, { similarity: 0.4 })], [row('x', 9, { keyword_score: 1 })]);
+
+        const results = await hybridSearchChunks('review-1', '? !', 5);
+
+        expect(results.map(r => r.id)).toEqual(['a']);
+        expect(queryRaw).toHaveBeenCalledTimes(1);
+    });
+});
@@ -5,14 +5,15 @@
  */
 
 import { prisma } from '../../db/prisma.js';
-import { generateEmbedding, generateEmbeddings } from './embedding.service.js';
-import type { PptChunk } from './ppt-processor.service.js';
+import { generateEmbedding, generateEmbeddings, getEmbeddingProvider } from './embedding.service.js';
+import type { PptChunk, PptChunkType } from './ppt-processor.service.js';
 
 export interface StoredChunk {
     id: string;
     reviewId: string;
     slideNumber: number | null;
     slideTitle: string | null;
+    chunkType: PptChunkType;
     content: string;
     chunkIndex: number;
 }
@@ -21,6 +22,63 @@ export interface SearchResult extends StoredChunk {
     similarity: number;
 }
 
+export interface KeywordSearchResult extends StoredChunk {
+    /** Full-text rank (ts_rank_cd), higher is better */
+    keywordScore: number;
+}
+
+export interface HybridSearchResult extends StoredChunk {
+    /** Reciprocal rank fusion score */
+    score: number;
+    /** Cosine similarity, null when the chunk only matched by keyword */
+    similarity: number | null;
+    /** Full-text rank, null when the chunk only matched by vector */
+    keywordScore: number | null;
+}
+
+export interface HybridSearchOptions {
+    /** Candidates pulled from each ranking before fusion */
+    candidateLimit?: number;
+    /** RRF damping constant; larger values flatten rank differences */
+    rrfK?: number;
+    vectorWeight?: number;
+    keywordWeight?: number;
+}
+
+export type SearchMode = 'hybrid' | 'vector';
+
+interface ChunkRow {
+    id: string;
+    review_id: string;
+    slide_number: number | null;
+    slide_title: string | null;
+    chunk_type: PptChunkType;
+    content: string;
+    chunk_index: number;
+}
+
+const DEFAULT_HYBRID_OPTIONS: Required<HybridSearchOptions> = {
+    candidateLimit: 20,
+    rrfK: 60,
+    vectorWeight: 1,
+    keywordWeight: 1,
+};
+
+/** Text search configuration, must match the content_tsv generated column */
+const TEXT_SEARCH_CONFIG = 'english';
+
+function toStoredChunk(row: ChunkRow): StoredChunk {
+    return {
+        id: row.id,
+        reviewId: row.review_id,
+        slideNumber: row.slide_number,
+        slideTitle: row.slide_title,
+        chunkType: row.chunk_type,
+        content: row.content,
+        chunkIndex: row.chunk_index,
+    };
+}
+
 /**
  * Store PPT chunks with embeddings
  */
@@ -35,6 +93,7 @@ export async function storePptChunks(
     // Generate embeddings for all chunks
     const texts = chunks.map(c => c.content);
     const embeddingResults = await generateEmbeddings(texts);
+    const provider = getEmbeddingProvider();
 
     // Store each chunk with its embedding using raw SQL for vector type
     const storedChunks: StoredChunk[] = [];
@@ -50,15 +109,18 @@ export async function storePptChunks(
 
         // Use raw SQL to insert with vector type
         const result = await prisma.$queryRaw<{ id: string }[]>`
-      INSERT INTO ppt_chunks (id, review_id, slide_number, slide_title, content, chunk_index, embedding, created_at)
+      INSERT INTO ppt_chunks (id, review_id, slide_number, slide_title, chunk_type, content, chunk_index, embedding, embedding_model, embedding_dimensions, created_at)
       VALUES (
         gen_random_uuid(),
         ${reviewId},
         ${chunk.slideNumber},
         ${chunk.slideTitle},
+        ${chunk.chunkType},
         ${chunk.content},
         ${chunk.chunkIndex},
         ${`[${embedding.join(',')}]`}::vector,
+        ${provider.id},
+        ${embedding.length},
         NOW()
       )
       RETURNING id
@@ -70,6 +132,7 @@ export async function storePptChunks(
                 reviewId,
                 slideNumber: chunk.slideNumber,
                 slideTitle: chunk.slideTitle,
+                chunkType: chunk.chunkType,
                 content: chunk.content,
                 chunkIndex: chunk.chunkIndex,
             });
@@ -82,6 +145,8 @@ export async function storePptChunks(
 
 /**
  * Search for similar chunks using vector similarity
+ * Only chunks embedded by the active provider (same model and dimension)
+ * are compared; re-index a review after switching providers.
  */
 export async function searchSimilarChunks(
     reviewId: string,
@@ -89,6 +154,7 @@ export async function searchSimilarChunks(
     limit: number = 5
 ): Promise<SearchResult[]> {
     // Generate embedding for the query
+    const provider = getEmbeddingProvider();
     const queryEmbedding = await generateEmbedding(query);
     const embeddingStr = `[${queryEmbedding.join(',')}]`;
 
@@ -98,6 +164,7 @@ export async function searchSimilarChunks(
         review_id: string;
         slide_number: number | null;
         slide_title: string | null;
+        chunk_type: PptChunkType;
         content: string;
         chunk_index: number;
         similarity: number;
@@ -107,34 +174,126 @@ export async function searchSimilarChunks(
       review_id,
       slide_number,
       slide_title,
+      chunk_type,
       content,
       chunk_index,
       1 - (embedding <=> ${embeddingStr}::vector) as similarity
     FROM ppt_chunks
     WHERE review_id = ${reviewId}
+      AND embedding_model = ${provider.id}
+      AND embedding_dimensions = ${queryEmbedding.length}
     ORDER BY embedding <=> ${embeddingStr}::vector
     LIMIT ${limit}
   `;
 
-    return results.map((r: {
-        id: string;
-        review_id: string;
-        slide_number: number | null;
-        slide_title: string | null;
-        content: string;
-        chunk_index: number;
-        similarity: number;
-    }) => ({
-        id: r.id,
-        reviewId: r.review_id,
-        slideNumber: r.slide_number,
-        slideTitle: r.slide_title,
-        content: r.content,
-        chunkIndex: r.chunk_index,
+    return results.map((r: ChunkRow & { similarity: number }) => ({
+        ...toStoredChunk(r),
         similarity: r.similarity,
     }));
 }
 
+/**
+ * Turn free text into an OR-ed tsquery string ("pytorch | yolov8 | cnn")
+ * Any term may match; ts_rank_cd rewards chunks that match more of them
+ */
+function buildKeywordQuery(query: string): string | null {
+    const terms = Array.from(new Set(
+        query
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(term => term.length > 1)
+    ));
+    return terms.length > 0 ? terms.join(' | ') : null;
+}
+
+/**
+ * Search chunks with Postgres full-text search on content_tsv
+ * Catches exact terms (library names, model names, acronyms) that
+ * embeddings tend to blur
+ */
+export async function searchKeywordChunks(
+    reviewId: string,
+    query: string,
+    limit: number = 5
+): Promise<KeywordSearchResult[]> {
+    const keywordQuery = buildKeywordQuery(query);
+    if (!keywordQuery) return [];
+
+    const results = await prisma.$queryRaw<Array<ChunkRow & { keyword_score: number }>>`
+    SELECT
+      id,
+      review_id,
+      slide_number,
+      slide_title,
+      chunk_type,
+      content,
+      chunk_index,
+      ts_rank_cd(content_tsv, to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${keywordQuery})) as keyword_score
+    FROM ppt_chunks
+    WHERE review_id = ${reviewId}
+      AND content_tsv @@ to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${keywordQuery})
+    ORDER BY keyword_score DESC, chunk_index ASC
+    LIMIT ${limit}
+  `;
+
+    return results.map((r: ChunkRow & { keyword_score: number }) => ({
+        ...toStoredChunk(r),
+        keywordScore: Number(r.keyword_score),
+    }));
+}
+
+/**
+ * Hybrid search: fuse vector and keyword rankings with reciprocal rank fusion
+ *
+ * score = Σ weight / (rrfK + rank) over each ranking the chunk appears in.
+ * If the embedding call fails (e.g. no network) the keyword ranking is used alone.
+ */
+export async function hybridSearchChunks(
+    reviewId: string,
+    query: string,
+    limit: number = 5,
+    options: HybridSearchOptions = {}
+): Promise<HybridSearchResult[]> {
+    const { candidateLimit, rrfK, vectorWeight, keywordWeight } = { ...DEFAULT_HYBRID_OPTIONS, ...options };
+    const candidates = Math.max(candidateLimit, limit);
+
+    const [vectorResults, keywordResults] = await Promise.all([
+        searchSimilarChunks(reviewId, query, candidates).catch(error => {
+            console.warn('[VectorStore] Vector search failed, using keyword ranking only:', error);
+            return [] as SearchResult[];
+        }),
+        searchKeywordChunks(reviewId, query, candidates),
+    ]);
+
+    const fused = new Map<string, HybridSearchResult>();
+
+    vectorResults.forEach((chunk, idx) => {
+        const { similarity, ...stored } = chunk;
+        fused.set(chunk.id, {
+            ...stored,
+            score: vectorWeight / (rrfK + idx + 1),
+            similarity,
+            keywordScore: null,
+        });
+    });
+
+    keywordResults.forEach((chunk, idx) => {
+        const { keywordScore, ...stored } = chunk;
+        const contribution = keywordWeight / (rrfK + idx + 1);
+        const existing = fused.get(chunk.id);
+        if (existing) {
+            existing.score += contribution;
+            existing.keywordScore = keywordScore;
+        } else {
+            fused.set(chunk.id, { ...stored, score: contribution, similarity: null, keywordScore });
+        }
+    });
+
+    return Array.from(fused.values())
+        .sort((a, b) => b.score - a.score || a.chunkIndex - b.chunkIndex)
+        .slice(0, limit);
+}
+
 /**
  * Get all chunks for a review (without similarity search)
  */
@@ -147,33 +306,54 @@ export async function getAllChunks(reviewId: string): Promise<StoredChunk[]> {
             reviewId: true,
             slideNumber: true,
             slideTitle: true,
+            chunkType: true,
             content: true,
             chunkIndex: true,
         },
     });
 
-    return chunks;
+    return chunks as StoredChunk[];
 }
 
 /**
- * Delete all chunks for a review
+ * Delete chunks for a review, optionally only those of the given types
+ * (e.g. re-indexing slides keeps the repository chunks)
  */
-export async function deleteChunks(reviewId: string): Promise<number> {
+export async function deleteChunks(reviewId: string, chunkTypes?: PptChunkType[]): Promise<number> {
     const result = await prisma.pptChunk.deleteMany({
-        where: { reviewId },
+        where: { reviewId, ...(chunkTypes && { chunkType: { in: chunkTypes } }) },
     });
     return result.count;
 }
 
+/**
+ * Build the citation header for a chunk, e.g. "[Slide 3 notes: Architecture]"
+ * or "[File src/train.py]"
+ */
+function formatChunkHeader(chunk: StoredChunk): string {
+    if (chunk.chunkType === 'code') return `[File ${chunk.slideTitle}]`;
+    if (chunk.chunkType === 'readme') return '[README]';
+    if (chunk.chunkType === 'repo') return `[Repository: ${chunk.slideTitle}]`;
+
+    const label = chunk.chunkType === 'notes'
+        ? `Slide ${chunk.slideNumber} notes`
+        : `Slide ${chunk.slideNumber}`;
+    return chunk.slideTitle ? `[${label}: ${chunk.slideTitle}]` : `[${label}]`;
+}
+
 /**
  * Get context for AI prompt (top N most relevant chunks)
+ * Uses hybrid keyword + vector search unless `mode` is 'vector'
  */
 export async function getContextForQuery(
     reviewId: string,
     query: string,
-    maxChunks: number = 5
+    maxChunks: number = 5,
+    mode: SearchMode = 'hybrid'
 ): Promise<string> {
-    const chunks = await searchSimilarChunks(reviewId, query, maxChunks);
+    const chunks: Array<StoredChunk & { similarity: number | null }> = mode === 'hybrid'
+        ? await hybridSearchChunks(reviewId, query, maxChunks)
+        : await searchSimilarChunks(reviewId, query, maxChunks);
 
     if (chunks.length === 0) {
         // Fallback to getting all chunks if no similar ones found
@@ -182,21 +362,46 @@ export async function getContextForQuery(
 
         return allChunks
             .slice(0, maxChunks)
-            .map(c => {
-                const header = c.slideTitle
-                    ? `[Slide ${c.slideNumber}: ${c.slideTitle}]`
-                    : `[Slide ${c.slideNumber}]`;
-                return `${header}\n${c.content}`;
-            })
+            .map(c => `${formatChunkHeader(c)}\n${c.content}`)
             .join('\n\n');
     }
 
     return chunks
         .map(c => {
-            const header = c.slideTitle
-                ? `[Slide ${c.slideNumber}: ${c.slideTitle}] (relevance: ${(c.similarity * 100).toFixed(1)}%)`
-                : `[Slide ${c.slideNumber}] (relevance: ${(c.similarity * 100).toFixed(1)}%)`;
-            return `${header}\n${c.content}`;
+            const relevance = c.similarity !== null
+                ? ` (relevance: ${(c.similarity * 100).toFixed(1)}%)`
+                : ' (keyword match)';
+            return `${formatChunkHeader(c)}${relevance}\n${c.content}`;
         })
         .join('\n\n');
 }
+
+/**
+ * Get context for a single slide, ranked by relevance to the query
+ * Chunks from the slide come first; the best matches from other slides
+ * fill any remaining room (e.g. when the slide reference is off by one)
+ */
+export async function getSlideContext(
+    reviewId: string,
+    slideNumber: number,
+    query: string,
+    maxChunks: number = 3
+): Promise<string> {
+    const ranked = await hybridSearchChunks(reviewId, query, Math.max(maxChunks * 4, 10));
+    const onSlide = ranked.filter(c => c.slideNumber === slideNumber);
+
+    // Slide chunks that did not rank (e.g. no term overlap) are still the best grounding
+    if (onSlide.length < maxChunks) {
+        const rankedIds = new Set(ranked.map(c => c.id));
+        const unranked = (await getAllChunks(reviewId))
+            .filter(c => c.slideNumber === slideNumber && !rankedIds.has(c.id));
+        onSlide.push(...unranked.map(c => ({ ...c, score: 0, similarity: null, keywordScore: null })));
+    }
+
+    const others = ranked.filter(c => c.slideNumber !== slideNumber);
+    const chunks = [...onSlide, ...others].slice(0, maxChunks);
+
+    return chunks
+        .map(c => `${formatChunkHeader(c)}\n${c.content}`)
+        .join('\n\n');
+}
@@ -0,0 +1,95 @@
+/**
+ * Report Revision Service
+ *
+ * Faculty revisions of the AI-generated review report. The report row keeps
+ * the AI original; every faculty edit is stored as a new numbered revision,
+ * and signing one off makes it the version the student sees.
+ */
+
+export const REPORT_RECOMMENDATIONS = ['pass', 'conditional_pass', 'fail', 'needs_review'] as const;
+export type ReportRecommendation = typeof REPORT_RECOMMENDATIONS[number];
+
+export const MIN_JUSTIFICATION_LENGTH = 20;
+
+/** Editable part of a report, shared by the AI original and every revision */
+export interface ReportContent {
+    overallScore: number | null;
+    understandingScore: number | null;
+    clarityScore: number | null;
+    depthScore: number | null;
+    strengths: string[];
+    improvements: string[];
+    summary: string | null;
+    recommendation: string | null;
+}
+
+const SCORE_FIELDS = ['overallScore', 'understandingScore', 'clarityScore', 'depthScore'] as const;
+const LIST_FIELDS = ['strengths', 'improvements'] as const;
+
+export function toReportContent(source: {
+    overallScore: number | null;
+    understandingScore: number | null;
+    clarityScore: number | null;
+    depthScore: number | null;
+    strengths: unknown;
+    improvements: unknown;
+    summary: string | null;
+    recommendation: string | null;
+}): ReportContent {
+    return {
+        overallScore: source.overallScore,
+        understandingScore: source.understandingScore,
+        clarityScore: source.clarityScore,
+        depthScore: source.depthScore,
+        strengths: Array.isArray(source.strengths) ? source.strengths : [],
+        improvements: Array.isArray(source.improvements) ? source.improvements : [],
+        summary: source.summary,
+        recommendation: source.recommendation,
+    };
+}
+
+/**
+ * Apply requested edits on top of `base`
+ * @returns The revised content, or an error message for invalid edits
+ */
+export function applyReportEdits(
+    base: ReportContent,
+    edits: Record<string, unknown>
+): { content: ReportContent } | { error: string } {
+    const content: ReportContent = { ...base };
+
+    for (const field of SCORE_FIELDS) {
+        if (edits[field] === undefined) continue;
+        const score = edits[field];
+        if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 10) {
+            return { error: `${field} must be a number from 0 to 10` };
+        }
+        content[field] = Math.round(score * 10) / 10;
+    }
+
+    for (const field of LIST_FIELDS) {
+        if (edits[field] === undefined) continue;
+        const items = edits[field];
+        if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) {
+            return { error: `${field} must be an array of strings` };
+        }
+        content[field] = items.map((item: string) => item.trim()).filter(Boolean);
+    }
+
+    if (edits.summary !== undefined) {
+        if (edits.summary !== null && typeof edits.summary !== 'string') {
+            return { error: 'summary must be a string' };
+        }
+        content.summary = typeof edits.summary === 'string' ? edits.summary.trim() || null : null;
+    }
+
+    if (edits.recommendation !== undefined) {
+        if (!REPORT_RECOMMENDATIONS.includes(edits.recommendation as ReportRecommendation)) {
+            return { error: `recommendation must be one of: ${REPORT_RECOMMENDATIONS.join(', ')}` };
+        }
+        content.recommendation = edits.recommendation as ReportRecommendation;
+    }
+
+    return { content };
+}
+
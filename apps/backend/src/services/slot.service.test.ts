@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REVIEW_MINUTES, sessionMinutes, slotJoinWindowError, splitIntoSlots } from './slot.service.js';
+
+const at = (time: string) => new Date(`2026-11-02T${time}:00.000Z`);
+
+describe('splitIntoSlots', () => {
+    it('splits a block into consecutive slots with breaks', () => {
+        const slots = splitIntoSlots({ startsAt: at('09:00'), endsAt: at('10:30') }, 25, 5);
+
+        expect(slots).toEqual([
+            { startsAt: at('09:00'), endsAt: at('09:25') },
+            { startsAt: at('09:30'), endsAt: at('09:55') },
+            { startsAt: at('10:00'), endsAt: at('10:25') },
+        ]);
+    });
+
+    it('drops a remainder too short for a slot', () => {
+        const slots = splitIntoSlots({ startsAt: at('09:00'), endsAt: at('09:50') }, 30);
+
+        expect(slots).toEqual([{ startsAt: at('09:00'), endsAt: at('09:30') }]);
+    });
+
+    it('returns no slots when the block is shorter than one slot', () => {
+        expect(splitIntoSlots({ startsAt: at('09:00'), endsAt: at('09:20') }, 30)).toEqual([]);
+    });
+});
+
+describe('slotJoinWindowError', () => {
+    const slot = { startsAt: at('10:00'), endsAt: at('10:30') };
+
+    it('opens ten minutes before the slot and closes when it ends', () => {
+        expect(slotJoinWindowError(slot, at('09:50'))).toBeNull();
+        expect(slotJoinWindowError(slot, at('10:30'))).toBeNull();
+    });
+
+    it('explains why the slot cannot be joined yet or any more', () => {
+        expect(slotJoinWindowError(slot, at('09:49'))).toContain('you can join 10 minutes before it');
+        expect(slotJoinWindowError(slot, at('10:31'))).toContain('book another slot');
+    });
+});
+
+describe('sessionMinutes', () => {
+    const slot = { startsAt: at('10:00'), endsAt: at('10:30') };
+
+    it('uses the review duration without a slot', () => {
+        expect(sessionMinutes(45, null)).toBe(45);
+        expect(sessionMinutes(null, null)).toBe(DEFAULT_REVIEW_MINUTES);
+    });
+
+    it('ends the session with the booked slot', () => {
+        expect(sessionMinutes(45, slot, at('09:55'))).toBe(30);
+        expect(sessionMinutes(45, slot, at('10:12'))).toBe(18);
+        expect(sessionMinutes(15, slot, at('10:05'))).toBe(15);
+    });
+
+    it('always allows at least one minute', () => {
+        expect(sessionMinutes(30, slot, at('10:30'))).toBe(1);
+    });
+});
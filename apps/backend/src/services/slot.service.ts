@@ -0,0 +1,63 @@
+/**
+ * Slot Service
+ *
+ * Review slots published by faculty: splitting a block of time into slots,
+ * the join window of a booked slot, and how long the agent may run.
+ */
+
+export const JOIN_EARLY_MINUTES = 10; // Students may join this long before their slot starts
+export const DEFAULT_REVIEW_MINUTES = 30; // ProjectReview.duration default
+export const MIN_SLOT_MINUTES = 10;
+export const MAX_SLOTS_PER_REQUEST = 48;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface SlotWindow {
+    startsAt: Date;
+    endsAt: Date;
+}
+
+/**
+ * Split a block of time into consecutive slots of `slotMinutes`, with
+ * `breakMinutes` between them (a remainder too short for a slot is dropped)
+ */
+export function splitIntoSlots(block: SlotWindow, slotMinutes: number, breakMinutes = 0): SlotWindow[] {
+    const slots: SlotWindow[] = [];
+    let start = block.startsAt.getTime();
+
+    while (start + slotMinutes * MINUTE_MS <= block.endsAt.getTime()) {
+        const end = start + slotMinutes * MINUTE_MS;
+        slots.push({ startsAt: new Date(start), endsAt: new Date(end) });
+        start = end + breakMinutes * MINUTE_MS;
+    }
+
+    return slots;
+}
+
+/**
+ * Why the booked slot cannot be joined now, or null inside its window
+ */
+export function slotJoinWindowError(slot: SlotWindow, now: Date = new Date()): string | null {
+    const opensAt = new Date(slot.startsAt.getTime() - JOIN_EARLY_MINUTES * MINUTE_MS);
+
+    if (now < opensAt) {
+        return `Your review slot starts at ${slot.startsAt.toISOString()}; you can join ${JOIN_EARLY_MINUTES} minutes before it`;
+    }
+    if (now > slot.endsAt) {
+        return `Your review slot ended at ${slot.endsAt.toISOString()}; book another slot`;
+    }
+    return null;
+}
+
+/**
+ * Minutes the agent gets for a session starting now: the review's duration,
+ * cut short so it ends with the booked slot
+ */
+export function sessionMinutes(duration: number | null, slot: SlotWindow | null, now: Date = new Date()): number {
+    const minutes = duration || DEFAULT_REVIEW_MINUTES;
+    if (!slot) return minutes;
+
+    const start = Math.max(now.getTime(), slot.startsAt.getTime());
+    const remaining = Math.floor((slot.endsAt.getTime() - start) / MINUTE_MS);
+    return Math.max(1, Math.min(minutes, remaining));
+}
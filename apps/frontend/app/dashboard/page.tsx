@@ -13,12 +13,25 @@ interface Student {
     regNo: string;
 }
 
+interface Enrollment {
+    projectGroup: string | null;
+    batch: {
+        id: string;
+        name: string;
+        reviewOpensAt: string | null;
+        reviewDeadline: string | null;
+        course: { code: string; name: string };
+    };
+}
+
 export default function Dashboard() {
     const router = useRouter();
     const [student, setStudent] = useState<Student | null>(null);
     const [projectTitle, setProjectTitle] = useState('');
     const [projectDescription, setProjectDescription] = useState('');
     const [githubUrl, setGithubUrl] = useState('');
+    const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+    const [batchId, setBatchId] = useState('');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState('');
 
@@ -32,6 +45,22 @@ export default function Dashboard() {
         setStudent(JSON.parse(stored));
     }, [router]);
 
+    // Active course batches; the review goes to the chosen one
+    useEffect(() => {
+        if (!student) return;
+
+        fetch(`${BACKEND_URL}/api/students/${student.id}`, { credentials: 'include' })
+            .then(res => (res.ok ? res.json() : null))
+            .then(data => {
+                const active: Enrollment[] = data?.student?.enrollments ?? [];
+                setEnrollments(active);
+                if (active.length === 1) setBatchId(active[0].batch.id);
+            })
+            .catch(() => undefined);
+    }, [student]);
+
+    const selectedBatch = enrollments.find(enrollment => enrollment.batch.id === batchId)?.batch;
+
     const handleStartReview = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!student) return;
@@ -43,10 +72,12 @@ export default function Dashboard() {
             const res = await fetch(`${BACKEND_URL}/api/students/${student.id}/reviews`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
                 body: JSON.stringify({
                     projectTitle,
                     projectDescription,
                     githubUrl,
+                    ...(batchId && { batchId }),
                 }),
             });
 
@@ -69,7 +100,9 @@ export default function Dashboard() {
         }
     };
 
-    const handleLogout = () => {
+    const handleLogout = async () => {
+        // Clear the session cookie; local state goes regardless
+        await fetch(`${BACKEND_URL}/api/auth/logout`, { method: 'POST', credentials: 'include' }).catch(() => undefined);
         localStorage.removeItem('student');
         localStorage.removeItem('currentReview');
         router.push('/');
@@ -122,6 +155,36 @@ export default function Dashboard() {
                     </div>
 
                     <form onSubmit={handleStartReview} className="space-y-5">
+                        {enrollments.length > 1 && (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-2">
+                                    Course Batch *
+                                </label>
+                                <select
+                                    value={batchId}
+                                    onChange={(e) => setBatchId(e.target.value)}
+                                    className="w-full px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500 transition"
+                                    required
+                                >
+                                    <option value="">Select your batch</option>
+                                    {enrollments.map(({ batch }) => (
+                                        <option key={batch.id} value={batch.id}>
+                                            {batch.course.code} {batch.course.name} · {batch.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+
+                        {selectedBatch && (
+                            <p className="text-sm text-gray-400">
+                                {selectedBatch.course.code} · {selectedBatch.name}
+                                {selectedBatch.reviewDeadline && (
+                                    <> — review deadline {new Date(selectedBatch.reviewDeadline).toLocaleString()}</>
+                                )}
+                            </p>
+                        )}
+
                         <div>
                             <label className="block text-sm font-medium text-gray-300 mb-2">
                                 Project Title *
@@ -0,0 +1,247 @@
+'use client';
+
+/**
+ * Faculty Dashboard
+ *
+ * Reviews on the signed-in faculty member's panels (every review for admins)
+ * with status, report scores and the AI-content detection result
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { cn } from '@/lib/utils';
+import { AiDetectionLabel, StatusBadge, formatScore } from '@/components/faculty';
+import { getBackendUrl } from '@/lib/api-config';
+import type { BatchSummary, Faculty, FacultyReviewListItem, ProjectReviewStatus } from '@/types';
+
+const BACKEND_URL = getBackendUrl();
+
+const STATUS_FILTERS: { value: ProjectReviewStatus | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'upload_required', label: 'Awaiting upload' },
+];
+
+export default function FacultyDashboard() {
+  const router = useRouter();
+  const [faculty, setFaculty] = useState<Faculty | null>(null);
+  const [reviews, setReviews] = useState<FacultyReviewListItem[]>([]);
+  const [status, setStatus] = useState<ProjectReviewStatus | ''>('');
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [batchId, setBatchId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // The session decides who is signed in; students are sent back to sign-in
+  useEffect(() => {
+    fetch(`${BACKEND_URL}/api/auth/me`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data?.faculty) {
+          localStorage.removeItem('faculty');
+          router.push('/');
+          return;
+        }
+        localStorage.setItem('faculty', JSON.stringify(data.faculty));
+        setFaculty(data.faculty);
+      })
+      .catch(() => setError('Failed to connect to server'));
+  }, [router]);
+
+  useEffect(() => {
+    if (!faculty) return;
+
+    fetch(`${BACKEND_URL}/api/batches?active=true`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setBatches(data?.batches ?? []))
+      .catch(() => undefined);
+  }, [faculty]);
+
+  useEffect(() => {
+    if (!faculty) return;
+
+    async function fetchReviews() {
+      setLoading(true);
+      setError('');
+
+      try {
+        const query = new URLSearchParams({
+          ...(status && { status }),
+          ...(batchId && { batchId }),
+        });
+        const res = await fetch(`${BACKEND_URL}/api/faculty/me/reviews?${query}`, { credentials: 'include' });
+
+        if (res.status === 401) {
+          localStorage.removeItem('faculty');
+          router.push('/');
+          return;
+        }
+
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || 'Failed to load reviews');
+          return;
+        }
+
+        setReviews(data.reviews);
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReviews();
+  }, [faculty, status, batchId, router]);
+
+  const handleLogout = async () => {
+    await fetch(`${BACKEND_URL}/api/auth/logout`, { method: 'POST', credentials: 'include' }).catch(() => undefined);
+    localStorage.removeItem('faculty');
+    router.push('/');
+  };
+
+  if (!faculty) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        {error
+          ? <p className="text-sm text-red-400">{error}</p>
+          : <div className="animate-spin h-8 w-8 border-2 border-blue-500 border-t-transparent rounded-full" />}
+      </div>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+      {/* Header */}
+      <header className="border-b border-gray-700 bg-gray-800/50 backdrop-blur-sm">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-xl font-bold text-white">Capstone Reviewer · Faculty</h1>
+          <div className="flex items-center gap-4">
+            <Link href="/faculty/slots" className="text-sm text-gray-400 hover:text-white transition">
+              Review slots
+            </Link>
+            <div className="text-right">
+              <p className="text-sm font-medium text-white">{faculty.name}</p>
+              <p className="text-xs text-gray-400 capitalize">{faculty.role}</p>
+            </div>
+            <button
+              onClick={handleLogout}
+              className="px-3 py-1.5 text-sm text-gray-400 hover:text-white transition"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-bold text-white">
+            {faculty.role === 'admin' ? 'All Reviews' : 'Assigned Reviews'}
+          </h2>
+          <div className="flex gap-2">
+            {batches.length > 0 && (
+              <select
+                value={batchId}
+                onChange={(e) => setBatchId(e.target.value)}
+                className="px-3 py-1.5 text-sm bg-gray-800 text-gray-300 border border-gray-700 rounded-lg focus:outline-none"
+              >
+                <option value="">All batches</option>
+                {batches.map(batch => (
+                  <option key={batch.id} value={batch.id}>
+                    {batch.course.code} · {batch.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {STATUS_FILTERS.map(filter => (
+              <button
+                key={filter.value}
+                onClick={() => setStatus(filter.value)}
+                className={cn(
+                  'px-3 py-1.5 text-sm rounded-lg transition',
+                  status === filter.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-800 text-gray-400 hover:text-white'
+                )}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 mb-6 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin h-8 w-8 border-2 border-blue-500 border-t-transparent rounded-full" />
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="py-16 text-center text-gray-400">No reviews assigned to you yet.</p>
+        ) : (
+          <div className="overflow-x-auto bg-gray-800/50 border border-gray-700 rounded-2xl">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="px-4 py-3">Student</th>
+                  <th className="px-4 py-3">Project</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3 text-right">Overall</th>
+                  <th className="px-4 py-3 text-right">Understanding</th>
+                  <th className="px-4 py-3 text-right">Clarity</th>
+                  <th className="px-4 py-3 text-right">Depth</th>
+                  <th className="px-4 py-3">AI Detection</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map(review => (
+                  <tr
+                    key={review.id}
+                    onClick={() => router.push(`/faculty/reviews/${review.roomId}`)}
+                    className="border-b border-gray-700/50 last:border-0 hover:bg-gray-700/30 cursor-pointer"
+                  >
+                    <td className="px-4 py-3">
+                      <p className="text-white">{review.student?.name ?? 'Unknown'}</p>
+                      <p className="text-xs text-gray-400">
+                        {review.student?.regNo}
+                        {review.batch && ` · ${review.batch.course.code} ${review.batch.name}`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-gray-300">
+                      <Link href={`/faculty/reviews/${review.roomId}`} className="hover:text-white">
+                        {review.projectTitle}
+                      </Link>
+                      {review.isLead && <span className="ml-2 text-xs text-blue-400">Lead</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <StatusBadge status={review.status} />
+                      {review.report?.finalizedAt && <span className="ml-2 text-xs text-green-400">Signed off</span>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-white font-medium">{formatScore(review.report?.overallScore)}</td>
+                    <td className="px-4 py-3 text-right text-gray-300">{formatScore(review.report?.understandingScore)}</td>
+                    <td className="px-4 py-3 text-right text-gray-300">{formatScore(review.report?.clarityScore)}</td>
+                    <td className="px-4 py-3 text-right text-gray-300">{formatScore(review.report?.depthScore)}</td>
+                    <td className="px-4 py-3">
+                      <AiDetectionLabel
+                        result={review.report?.aiDetectionResult}
+                        confidence={review.report?.aiDetectionConfidence}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+/**
+ * Faculty Review Detail
+ *
+ * Drill-down into one review: the AI report with faculty sign-off, AI-content
+ * detection, and each asked question with the student's transcript and its
+ * evaluation
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { AlertTriangle, ArrowLeft } from 'lucide-react';
+import { AiDetectionLabel, RECOMMENDATION_LABELS, ReportSignOff, StatusBadge, formatScore } from '@/components/faculty';
+import { ExpectedPointsChecklist } from '@/components/project-review';
+import { getBackendUrl } from '@/lib/api-config';
+import type { ProjectReviewStatus, ProjectReviewSummary, ReviewQuestionRecord } from '@/types';
+
+const BACKEND_URL = getBackendUrl();
+
+interface Summary {
+  review: {
+    id: string;
+    projectTitle: string;
+    status: ProjectReviewStatus;
+    startedAt?: string;
+    completedAt?: string;
+    student: {
+      name: string;
+      regNo?: string;
+    };
+  };
+  report: ProjectReviewSummary['report'] | null;
+}
+
+interface PanelMember {
+  id: string;
+  name: string;
+  email: string;
+  isLead: boolean;
+}
+
+export default function FacultyReviewPage() {
+  const params = useParams();
+  const router = useRouter();
+  const roomId = params.roomId as string;
+
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [questions, setQuestions] = useState<ReviewQuestionRecord[]>([]);
+  const [panel, setPanel] = useState<PanelMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!localStorage.getItem('faculty')) {
+      router.push('/');
+      return;
+    }
+
+    async function fetchReview() {
+      try {
+        const [summaryRes, questionsRes, panelRes] = await Promise.all([
+          fetch(`${BACKEND_URL}/api/project-review/${roomId}/summary`, { credentials: 'include' }),
+          fetch(`${BACKEND_URL}/api/project-review/${roomId}/questions`, { credentials: 'include' }),
+          fetch(`${BACKEND_URL}/api/project-review/${roomId}/panel`, { credentials: 'include' }),
+        ]);
+
+        if (summaryRes.status === 401) {
+          localStorage.removeItem('faculty');
+          router.push('/');
+          return;
+        }
+
+        if (!summaryRes.ok) {
+          const data = await summaryRes.json();
+          setError(data.error || 'Failed to load review');
+          return;
+        }
+
+        setSummary(await summaryRes.json());
+
+        if (questionsRes.ok) {
+          const data = await questionsRes.json();
+          setQuestions(data.questions ?? []);
+        }
+
+        if (panelRes.ok) {
+          const data = await panelRes.json();
+          setPanel(data.panel ?? []);
+        }
+      } catch {
+        setError('Failed to connect to server');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchReview();
+  }, [roomId, router]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin h-8 w-8 border-2 border-blue-500 border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const report = summary?.report;
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <Link href="/faculty" className="inline-flex items-center gap-2 text-sm text-gray-400 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          Back to reviews
+        </Link>
+
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {summary && (
+          <>
+            {/* Header */}
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h1 className="text-2xl font-bold text-white">{summary.review.projectTitle}</h1>
+                <p className="text-gray-400">
+                  {summary.review.student.name}
+                  {summary.review.student.regNo && ` · ${summary.review.student.regNo}`}
+                </p>
+                {panel.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    Panel: {panel.map(member => member.isLead ? `${member.name} (lead)` : member.name).join(', ')}
+                  </p>
+                )}
+              </div>
+              <StatusBadge status={summary.review.status} />
+            </div>
+
+            {/* Report */}
+            {report ? (
+              <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 space-y-6">
+                <h2 className="text-lg font-semibold text-white">AI Report</h2>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {[
+                    { label: 'Overall', score: report.overallScore },
+                    { label: 'Understanding', score: report.understandingScore },
+                    { label: 'Clarity', score: report.clarityScore },
+                    { label: 'Depth', score: report.depthScore },
+                  ].map(({ label, score }) => (
+                    <div key={label} className="bg-gray-900/50 rounded-xl p-4 text-center">
+                      <p className="text-xs text-gray-400">{label}</p>
+                      <p className="text-2xl font-bold text-white">{formatScore(score)}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-6 text-sm">
+                  <div>
+                    <span className="text-gray-400">Recommendation: </span>
+                    <span className="text-white">
+                      {report.recommendation ? RECOMMENDATION_LABELS[report.recommendation] : '—'}
+                    </span>
+                  </div>
+                  <div>
+                    <span className="text-gray-400">AI detection: </span>
+                    <AiDetectionLabel result={report.aiDetectionResult} confidence={report.aiDetectionConfidence} />
+                  </div>
+                </div>
+
+                {report.summary && <p className="text-gray-300">{report.summary}</p>}
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div>
+                    <h3 className="text-sm font-medium text-green-400 mb-2">Strengths</h3>
+                    <ul className="list-disc list-inside space-y-1 text-sm text-gray-300">
+                      {(report.strengths ?? []).map((item, i) => <li key={i}>{item}</li>)}
+                    </ul>
+                  </div>
+                  <div>
+                    <h3 className="text-sm font-medium text-yellow-400 mb-2">Improvements</h3>
+                    <ul className="list-disc list-inside space-y-1 text-sm text-gray-300">
+                      {(report.improvements ?? []).map((item, i) => <li key={i}>{item}</li>)}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-gray-400">No report yet — the review has not been completed.</p>
+            )}
+
+            {report && <ReportSignOff roomId={roomId} />}
+
+            {/* Questions and answers */}
+            {questions.length > 0 && (
+              <div className="space-y-4">
+                <h2 className="text-lg font-semibold text-white">Questions &amp; Answers</h2>
+                {questions.map(q => (
+                  <div key={q.id} className="bg-gray-800/50 border border-gray-700 rounded-2xl p-5 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="text-white font-medium">
+                        <span className="text-gray-500 mr-2">Q{q.sequence}</span>
+                        {q.question}
+                      </p>
+                      <div className="text-right shrink-0">
+                        <p className="text-xs text-gray-400 capitalize">{q.level}</p>
+                        <p className="text-lg font-bold text-white">{formatScore(q.score)}</p>
+                      </div>
+                    </div>
+
+                    <div className="bg-gray-900/50 rounded-lg p-3">
+                      <p className="text-xs text-gray-500 mb-1">Answer transcript</p>
+                      <p className="text-sm text-gray-300 whitespace-pre-wrap">{q.transcript || '(no answer)'}</p>
+                    </div>
+
+                    {q.followUps.map((followUp, i) => (
+                      <div key={i} className="bg-gray-900/50 rounded-lg p-3 ml-4">
+                        <p className="text-xs text-gray-500 mb-1">Follow-up: {followUp.question}</p>
+                        <p className="text-sm text-gray-300 whitespace-pre-wrap">{followUp.answer}</p>
+                      </div>
+                    ))}
+
+                    {q.feedback && <p className="text-sm text-gray-400">{q.feedback}</p>}
+
+                    {q.flaggedConcerns.length > 0 && (
+                      <ul className="space-y-1">
+                        {q.flaggedConcerns.map((concern, i) => (
+                          <li key={i} className="flex items-start gap-2 text-sm text-yellow-400">
+                            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                            {concern}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+
+                <ExpectedPointsChecklist questions={questions} />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,338 @@
+'use client';
+
+/**
+ * Faculty Review Slots
+ *
+ * Publish review time slots (a block of time split into slots) and see which
+ * students booked them
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import { cn, formatTimeRange } from '@/lib/utils';
+import { StatusBadge } from '@/components/faculty';
+import { getBackendUrl } from '@/lib/api-config';
+import type { BatchSummary, Faculty, ReviewSlot } from '@/types';
+
+const BACKEND_URL = getBackendUrl();
+
+interface SlotForm {
+  date: string;
+  startTime: string;
+  endTime: string;
+  slotMinutes: string;
+  breakMinutes: string;
+  batchId: string;
+  location: string;
+}
+
+const EMPTY_FORM: SlotForm = {
+  date: '',
+  startTime: '09:00',
+  endTime: '12:00',
+  slotMinutes: '30',
+  breakMinutes: '0',
+  batchId: '',
+  location: '',
+};
+
+export default function FacultySlotsPage() {
+  const router = useRouter();
+  const [faculty, setFaculty] = useState<Faculty | null>(null);
+  const [slots, setSlots] = useState<ReviewSlot[]>([]);
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [mineOnly, setMineOnly] = useState(true);
+  const [form, setForm] = useState<SlotForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`${BACKEND_URL}/api/auth/me`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => {
+        if (!data?.faculty) {
+          router.push('/');
+          return;
+        }
+        setFaculty(data.faculty);
+      })
+      .catch(() => setError('Failed to connect to server'));
+  }, [router]);
+
+  useEffect(() => {
+    if (!faculty) return;
+
+    fetch(`${BACKEND_URL}/api/batches?active=true`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setBatches(data?.batches ?? []))
+      .catch(() => undefined);
+  }, [faculty]);
+
+  useEffect(() => {
+    if (!faculty) return;
+
+    const query = new URLSearchParams({ ...(mineOnly && { mine: 'true' }) });
+    fetch(`${BACKEND_URL}/api/slots?${query}`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => setSlots(data?.slots ?? []))
+      .catch(() => setError('Failed to load slots'));
+  }, [faculty, mineOnly]);
+
+  const publish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const startsAt = new Date(`${form.date}T${form.startTime}`);
+    const endsAt = new Date(`${form.date}T${form.endTime}`);
+    if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) {
+      setError('Choose a date and a start and end time');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`${BACKEND_URL}/api/slots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          startsAt: startsAt.toISOString(),
+          endsAt: endsAt.toISOString(),
+          ...(form.slotMinutes && { slotMinutes: Number(form.slotMinutes) }),
+          ...(form.breakMinutes && { breakMinutes: Number(form.breakMinutes) }),
+          ...(form.batchId && { batchId: form.batchId }),
+          ...(form.location.trim() && { location: form.location.trim() }),
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to publish slots');
+        return;
+      }
+
+      setSlots([...slots, ...data.slots].sort((a, b) => a.startsAt.localeCompare(b.startsAt)));
+      setForm({ ...EMPTY_FORM, batchId: form.batchId, location: form.location });
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (slot: ReviewSlot) => {
+    setError('');
+    try {
+      const res = await fetch(`${BACKEND_URL}/api/slots/${slot.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to delete slot');
+        return;
+      }
+      setSlots(slots.filter(s => s.id !== slot.id));
+    } catch {
+      setError('Failed to connect to server');
+    }
+  };
+
+  if (!faculty) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-900">
+        {error
+          ? <p className="text-sm text-red-400">{error}</p>
+          : <div className="animate-spin h-8 w-8 border-2 border-blue-500 border-t-transparent rounded-full" />}
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <Link href="/faculty" className="inline-flex items-center gap-2 text-sm text-gray-400 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          Back to reviews
+        </Link>
+
+        <h1 className="text-2xl font-bold text-white">Review Slots</h1>
+
+        {/* Publish */}
+        <form onSubmit={publish} className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-white">Publish slots</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Date</span>
+              <input
+                type="date"
+                value={form.date}
+                onChange={e => setForm({ ...form, date: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">From</span>
+              <input
+                type="time"
+                value={form.startTime}
+                onChange={e => setForm({ ...form, startTime: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">To</span>
+              <input
+                type="time"
+                value={form.endTime}
+                onChange={e => setForm({ ...form, endTime: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Batch</span>
+              <select
+                value={form.batchId}
+                onChange={e => setForm({ ...form, batchId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Any batch</option>
+                {batches.map(batch => (
+                  <option key={batch.id} value={batch.id}>
+                    {batch.course.code} · {batch.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Slot length (minutes)</span>
+              <input
+                type="number"
+                min={10}
+                value={form.slotMinutes}
+                onChange={e => setForm({ ...form, slotMinutes: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-gray-400 mb-1">Break between slots (minutes)</span>
+              <input
+                type="number"
+                min={0}
+                value={form.breakMinutes}
+                onChange={e => setForm({ ...form, breakMinutes: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block md:col-span-2">
+              <span className="block text-xs text-gray-400 mb-1">Location</span>
+              <input
+                type="text"
+                value={form.location}
+                onChange={e => setForm({ ...form, location: e.target.value })}
+                placeholder="e.g. AB1-204 or Online"
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg">
+              <p className="text-sm text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Publishing...' : 'Publish'}
+            </button>
+          </div>
+        </form>
+
+        {/* Upcoming slots */}
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-white">Upcoming</h2>
+          {faculty.role === 'admin' && (
+            <div className="flex gap-2">
+              {[true, false].map(mine => (
+                <button
+                  key={String(mine)}
+                  onClick={() => setMineOnly(mine)}
+                  className={cn(
+                    'px-3 py-1.5 text-sm rounded-lg transition',
+                    mineOnly === mine ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'
+                  )}
+                >
+                  {mine ? 'Mine' : 'All faculty'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {slots.length === 0 ? (
+          <p className="py-8 text-center text-gray-400">No upcoming slots.</p>
+        ) : (
+          <div className="overflow-x-auto bg-gray-800/50 border border-gray-700 rounded-2xl">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs uppercase text-gray-400 border-b border-gray-700">
+                <tr>
+                  <th className="px-4 py-3">Time</th>
+                  <th className="px-4 py-3">Faculty</th>
+                  <th className="px-4 py-3">Batch</th>
+                  <th className="px-4 py-3">Location</th>
+                  <th className="px-4 py-3">Booked by</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {slots.map(slot => (
+                  <tr key={slot.id} className="border-b border-gray-700/50 last:border-0">
+                    <td className="px-4 py-3 text-white">{formatTimeRange(slot.startsAt, slot.endsAt)}</td>
+                    <td className="px-4 py-3 text-gray-300">{slot.faculty.name}</td>
+                    <td className="px-4 py-3 text-gray-300">{slot.batch?.name ?? 'Any'}</td>
+                    <td className="px-4 py-3 text-gray-300">{slot.location ?? '—'}</td>
+                    <td className="px-4 py-3">
+                      {slot.booking ? (
+                        <div className="flex items-center gap-2">
+                          <Link href={`/faculty/reviews/${slot.booking.roomId}`} className="text-blue-400 hover:text-blue-300">
+                            {slot.booking.student.name} ({slot.booking.student.regNo})
+                          </Link>
+                          <StatusBadge status={slot.booking.status} />
+                        </div>
+                      ) : (
+                        <span className="text-gray-500">Open</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {!slot.booking && (slot.faculty.id === faculty.id || faculty.role === 'admin') && (
+                        <button
+                          onClick={() => remove(slot)}
+                          className="p-1 text-gray-400 hover:text-red-400 transition"
+                          title="Withdraw slot"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -28,9 +28,15 @@ export default function JoinByCodePage() {
     useEffect(() => {
         async function checkCode() {
             try {
-                const res = await fetch(`${BACKEND_URL}/api/project-review/join/${code}`);
+                const res = await fetch(`${BACKEND_URL}/api/project-review/join/${code}`, { credentials: 'include' });
                 const data = await res.json();
 
+                if (res.status === 401) {
+                    setError('Sign in with your VIT-AP email on the home page, then open this link again');
+                    setStatus('error');
+                    return;
+                }
+
                 if (!res.ok) {
                     setError(data.error || 'Invalid join code');
                     setStatus('error');
@@ -60,6 +66,7 @@ export default function JoinByCodePage() {
             const res = await fetch(`${BACKEND_URL}/api/project-review/join/${code}`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
                 body: JSON.stringify({ name }),
             });
 
@@ -12,6 +12,11 @@ export default function Home() {
   const router = useRouter();
   const [mode, setMode] = useState<Mode>('select');
   const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [usePassword, setUsePassword] = useState(false);
   const [joinCode, setJoinCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -27,40 +32,74 @@ export default function Home() {
     }
   };
 
-  // Start new interview (register and go to dashboard)
-  const handleStartNew = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Signed in: faculty go to their dashboard; students to their review or the dashboard
+  const completeSignIn = (data: { student?: unknown; faculty?: unknown; activeReview?: { roomId: string } | null }) => {
+    if (data.faculty) {
+      localStorage.setItem('faculty', JSON.stringify(data.faculty));
+      router.push('/faculty');
+      return;
+    }
+
+    localStorage.setItem('student', JSON.stringify(data.student));
+
+    if (data.activeReview) {
+      router.push(`/review/${data.activeReview.roomId}`);
+    } else {
+      router.push('/dashboard');
+    }
+  };
+
+  // POST to an auth endpoint; returns the response body, or null after showing the error
+  const postAuth = async (endpoint: string, body: Record<string, string>) => {
     setError('');
     setLoading(true);
 
     try {
-      const res = await fetch(`${BACKEND_URL}/api/students/register`, {
+      const res = await fetch(`${BACKEND_URL}/api/auth/${endpoint}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name }),
+        credentials: 'include',
+        body: JSON.stringify(body),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
-        setError(data.error || 'Registration failed');
-        return;
+        setError(data.error || 'Sign-in failed');
+        return null;
       }
 
-      localStorage.setItem('student', JSON.stringify(data.student));
-
-      if (data.activeReview) {
-        router.push(`/review/${data.activeReview.roomId}`);
-      } else {
-        router.push('/dashboard');
-      }
+      return data;
     } catch (err) {
       setError('Failed to connect to server');
+      return null;
     } finally {
       setLoading(false);
     }
   };
 
+  // Email a one-time sign-in code
+  const handleRequestCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await postAuth('code', { email })) {
+      setCodeSent(true);
+    }
+  };
+
+  // Verify the emailed code
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await postAuth('code/verify', { email, code });
+    if (data) completeSignIn(data);
+  };
+
+  // Sign in with a password set earlier
+  const handlePasswordLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await postAuth('login', { email, password });
+    if (data) completeSignIn(data);
+  };
+
   // Join existing room with code
   const handleJoinRoom = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -69,9 +108,16 @@ export default function Home() {
 
     try {
       // First get room info
-      const infoRes = await fetch(`${BACKEND_URL}/api/project-review/join/${joinCode}`);
+      const infoRes = await fetch(`${BACKEND_URL}/api/project-review/join/${joinCode}`, {
+        credentials: 'include',
+      });
       const roomInfo = await infoRes.json();
 
+      if (infoRes.status === 401) {
+        setError('Sign in with your VIT-AP email before joining a room');
+        return;
+      }
+
       if (!infoRes.ok) {
         setError(roomInfo.error || 'Invalid join code');
         return;
@@ -81,6 +127,7 @@ export default function Home() {
       const joinRes = await fetch(`${BACKEND_URL}/api/project-review/join/${joinCode}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
         body: JSON.stringify({ name }),
       });
 
@@ -157,25 +204,62 @@ export default function Home() {
             </div>
           )}
 
-          {/* Start New Interview Mode */}
+          {/* Start New Interview Mode: sign in with a VIT-AP email */}
           {mode === 'start' && (
-            <form onSubmit={handleStartNew} className="space-y-5">
+            <form
+              onSubmit={usePassword ? handlePasswordLogin : codeSent ? handleVerifyCode : handleRequestCode}
+              className="space-y-5"
+            >
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Your Name
+                  VIT-AP Email
                 </label>
                 <input
-                  type="text"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  placeholder="Enter your name"
+                  type="email"
+                  value={email}
+                  onChange={(e) => { setEmail(e.target.value); setCodeSent(false); }}
+                  placeholder="name.regno@vitapstudent.ac.in"
                   className="w-full px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
                   required
-                  minLength={2}
                   autoFocus
                 />
+                <p className="mt-1 text-xs text-gray-500">Faculty: sign in with your staff email</p>
               </div>
 
+              {usePassword && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Enter your password"
+                    className="w-full px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition"
+                    required
+                  />
+                </div>
+              )}
+
+              {!usePassword && codeSent && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Sign-in Code
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    placeholder="6-digit code from your email"
+                    className="w-full px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition text-center text-2xl font-mono tracking-widest"
+                    required
+                    autoFocus
+                  />
+                </div>
+              )}
+
               {error && (
                 <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg">
                   <p className="text-sm text-red-400">{error}</p>
@@ -185,19 +269,27 @@ export default function Home() {
               <div className="flex gap-3">
                 <button
                   type="button"
-                  onClick={() => { setMode('select'); setError(''); }}
+                  onClick={() => { setMode('select'); setError(''); setCodeSent(false); }}
                   className="px-4 py-3 text-gray-400 hover:text-white transition"
                 >
                   Back
                 </button>
                 <button
                   type="submit"
-                  disabled={loading || name.trim().length < 2}
+                  disabled={loading || !email.trim() || (codeSent && !usePassword && code.length !== 6)}
                   className="flex-1 py-3 px-4 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {loading ? 'Starting...' : 'Start Interview'}
+                  {loading ? 'Please wait...' : usePassword ? 'Sign In' : codeSent ? 'Verify Code' : 'Send Code'}
                 </button>
               </div>
+
+              <button
+                type="button"
+                onClick={() => { setUsePassword(!usePassword); setError(''); }}
+                className="w-full text-sm text-gray-400 hover:text-white transition"
+              >
+                {usePassword ? 'Email me a sign-in code instead' : 'Sign in with a password instead'}
+              </button>
             </form>
           )}
 
@@ -11,7 +11,9 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { CheckCircle, XCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ExpectedPointsChecklist } from '@/components/project-review';
 import { getBackendUrl } from '@/lib/api-config';
+import type { ReviewQuestionRecord } from '@/types';
 
 const BACKEND_URL = getBackendUrl();
 
@@ -27,6 +29,8 @@ interface Summary {
       regNo?: string;
     };
   };
+  // Students only receive the report once faculty have signed it off
+  reportStatus?: 'pending' | 'awaiting_sign_off' | 'finalized';
   report?: {
     overallScore?: number;
     understandingScore?: number;
@@ -35,7 +39,7 @@ interface Summary {
     strengths?: string[];
     improvements?: string[];
     summary?: string;
-  };
+  } | null;
 }
 
 export default function ReviewEndedPage() {
@@ -44,6 +48,7 @@ export default function ReviewEndedPage() {
   const roomId = params.roomId as string;
 
   const [summary, setSummary] = useState<Summary | null>(null);
+  const [questions, setQuestions] = useState<ReviewQuestionRecord[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -55,16 +60,20 @@ export default function ReviewEndedPage() {
 
     async function fetchSummary() {
       try {
-        const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}/summary`, {
-          headers: {
-            'X-Student-Id': JSON.parse(student!).id,
-          },
-        });
+        const [res, questionsRes] = await Promise.all([
+          fetch(`${BACKEND_URL}/api/project-review/${roomId}/summary`, { credentials: 'include' }),
+          fetch(`${BACKEND_URL}/api/project-review/${roomId}/questions`, { credentials: 'include' }),
+        ]);
 
         if (res.ok) {
           const data = await res.json();
           setSummary(data);
         }
+
+        if (questionsRes.ok) {
+          const data = await questionsRes.json();
+          setQuestions(data.questions ?? []);
+        }
       } catch (e) {
         console.error('Failed to fetch summary:', e);
       } finally {
@@ -168,6 +177,39 @@ export default function ReviewEndedPage() {
           </div>
         )}
 
+        {/* Faculty-finalized report */}
+        {summary?.reportStatus === 'awaiting_sign_off' && (
+          <p className="text-sm text-gray-400 mb-8">Your report is being reviewed by faculty and will appear here once signed off.</p>
+        )}
+        {summary?.report && (
+          <div className="bg-gray-800/50 rounded-xl p-6 mb-8 text-left">
+            <h3 className="text-sm font-medium text-gray-400 mb-4">Your Report</h3>
+            {summary.report.overallScore != null && (
+              <p className="text-3xl font-bold text-white mb-2">{summary.report.overallScore.toFixed(1)}<span className="text-base text-gray-400">/10</span></p>
+            )}
+            {summary.report.summary && <p className="text-sm text-gray-300 mb-4">{summary.report.summary}</p>}
+            {!!summary.report.strengths?.length && (
+              <>
+                <h4 className="text-sm font-medium text-green-400 mb-1">Strengths</h4>
+                <ul className="list-disc list-inside text-sm text-gray-300 mb-3">
+                  {summary.report.strengths.map((item, i) => <li key={i}>{item}</li>)}
+                </ul>
+              </>
+            )}
+            {!!summary.report.improvements?.length && (
+              <>
+                <h4 className="text-sm font-medium text-yellow-400 mb-1">Improvements</h4>
+                <ul className="list-disc list-inside text-sm text-gray-300">
+                  {summary.report.improvements.map((item, i) => <li key={i}>{item}</li>)}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Expected points per question */}
+        {isCompleted && <ExpectedPointsChecklist questions={questions} />}
+
         {/* Actions */}
         <div className="flex gap-4 justify-center">
           <Link href="/dashboard">
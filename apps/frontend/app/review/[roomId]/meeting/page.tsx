@@ -54,7 +54,7 @@ export default function MeetingPage() {
 
         async function fetchReview() {
             try {
-                const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}`);
+                const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}`, { credentials: 'include' });
                 const data = await res.json();
 
                 if (!res.ok) {
@@ -63,9 +63,7 @@ export default function ReviewRoomPage() {
     async function fetchReview() {
       try {
         const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}`, {
-          headers: {
-            'X-Student-Id': parsedStudent.id,
-          },
+          credentials: 'include',
         });
 
         const data = await res.json();
@@ -138,7 +136,6 @@ export default function ReviewRoomPage() {
   return (
     <ProjectReviewRoom
       roomId={roomId}
-      studentId={student.id}
       review={review}
     />
   );
@@ -107,9 +107,7 @@ export default function UploadPage() {
 
             const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}/upload`, {
                 method: 'POST',
-                headers: {
-                    'X-Student-Id': student.id,
-                },
+                credentials: 'include',
                 body: formData,
             });
 
@@ -0,0 +1,265 @@
+'use client';
+
+/**
+ * Report Sign-Off
+ * Faculty editor for the AI report: adjust scores, edit strengths and
+ * improvements, override the recommendation with a justification, and sign
+ * off. Each save is a new revision; the AI original stays visible.
+ */
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, History } from 'lucide-react';
+import { getBackendUrl } from '@/lib/api-config';
+import type { ReportContent, ReportRecommendation, ReportRevisionHistory } from '@/types';
+import { RECOMMENDATION_LABELS, formatScore } from './ReviewBadges';
+
+const BACKEND_URL = getBackendUrl();
+
+const MIN_JUSTIFICATION_LENGTH = 20;
+
+const SCORE_FIELDS: { key: 'overallScore' | 'understandingScore' | 'clarityScore' | 'depthScore'; label: string }[] = [
+  { key: 'overallScore', label: 'Overall' },
+  { key: 'understandingScore', label: 'Understanding' },
+  { key: 'clarityScore', label: 'Clarity' },
+  { key: 'depthScore', label: 'Depth' },
+];
+
+interface Draft {
+  scores: Record<string, string>;
+  strengths: string;
+  improvements: string;
+  recommendation: ReportRecommendation | '';
+  justification: string;
+}
+
+function toDraft(content: ReportContent, justification: string | null): Draft {
+  return {
+    scores: Object.fromEntries(SCORE_FIELDS.map(({ key }) => [key, content[key]?.toString() ?? ''])),
+    strengths: content.strengths.join('\n'),
+    improvements: content.improvements.join('\n'),
+    recommendation: content.recommendation ?? '',
+    justification: justification ?? '',
+  };
+}
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+interface ReportSignOffProps {
+  roomId: string;
+}
+
+export function ReportSignOff({ roomId }: ReportSignOffProps) {
+  const [history, setHistory] = useState<ReportRevisionHistory | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`${BACKEND_URL}/api/project-review/${roomId}/report`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: ReportRevisionHistory | null) => {
+        if (!data) return;
+        setHistory(data);
+        setDraft(toDraft(data.current ?? data.original, data.current?.justification ?? null));
+      })
+      .catch(() => setError('Failed to load report history'));
+  }, [roomId]);
+
+  if (!history || !draft) {
+    return error ? <p className="text-sm text-red-400">{error}</p> : null;
+  }
+
+  const overridesAi = draft.recommendation !== (history.original.recommendation ?? '');
+
+  const save = async (signOff: boolean) => {
+    setError('');
+
+    if (overridesAi && draft.justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+      setError(`Explain why you are overriding the AI recommendation (at least ${MIN_JUSTIFICATION_LENGTH} characters)`);
+      return;
+    }
+
+    const scores: Record<string, number> = {};
+    for (const { key, label } of SCORE_FIELDS) {
+      const value = draft.scores[key].trim();
+      if (!value) continue;
+      const score = Number(value);
+      if (!Number.isFinite(score) || score < 0 || score > 10) {
+        setError(`${label} must be a number from 0 to 10`);
+        return;
+      }
+      scores[key] = score;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}/report/revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...scores,
+          strengths: splitLines(draft.strengths),
+          improvements: splitLines(draft.improvements),
+          ...(draft.recommendation && { recommendation: draft.recommendation }),
+          justification: draft.justification.trim() || undefined,
+          signOff,
+        }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to save the report');
+        return;
+      }
+
+      const revisions = [...history.revisions, data.revision];
+      setHistory({
+        ...history,
+        revisions,
+        current: data.revision,
+        ...(signOff && { finalizedVersion: data.revision.version, finalizedAt: data.revision.createdAt }),
+      });
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Faculty Sign-Off</h2>
+        {history.finalizedVersion ? (
+          <span className="inline-flex items-center gap-1 text-sm text-green-400">
+            <CheckCircle className="w-4 h-4" />
+            Signed off (v{history.finalizedVersion})
+          </span>
+        ) : (
+          <span className="text-sm text-yellow-400">Not signed off — the student cannot see the report yet</span>
+        )}
+      </div>
+
+      {/* Scores: AI original next to the editable value */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {SCORE_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block">
+            <span className="block text-xs text-gray-400 mb-1">
+              {label} <span className="text-gray-500">(AI: {formatScore(history.original[key])})</span>
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              value={draft.scores[key]}
+              onChange={e => setDraft({ ...draft, scores: { ...draft.scores, [key]: e.target.value } })}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Strengths (one per line)</span>
+          <textarea
+            rows={5}
+            value={draft.strengths}
+            onChange={e => setDraft({ ...draft, strengths: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs text-gray-400 mb-1">Improvements (one per line)</span>
+          <textarea
+            rows={5}
+            value={draft.improvements}
+            onChange={e => setDraft({ ...draft, improvements: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="block text-xs text-gray-400 mb-1">
+          Recommendation{' '}
+          <span className="text-gray-500">
+            (AI: {history.original.recommendation ? RECOMMENDATION_LABELS[history.original.recommendation] : '—'})
+          </span>
+        </span>
+        <select
+          value={draft.recommendation}
+          onChange={e => setDraft({ ...draft, recommendation: e.target.value as ReportRecommendation })}
+          className={inputClass}
+        >
+          {!history.original.recommendation && <option value="">—</option>}
+          {Object.entries(RECOMMENDATION_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block">
+        <span className="block text-xs text-gray-400 mb-1">
+          Justification{overridesAi ? ' (required to override the AI recommendation)' : ''}
+        </span>
+        <textarea
+          rows={3}
+          value={draft.justification}
+          onChange={e => setDraft({ ...draft, justification: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={() => save(false)}
+          disabled={saving}
+          className="px-4 py-2 text-sm bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition disabled:opacity-50"
+        >
+          Save draft
+        </button>
+        <button
+          onClick={() => save(true)}
+          disabled={saving}
+          className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Sign off'}
+        </button>
+      </div>
+
+      {/* Revision history */}
+      {history.revisions.length > 0 && (
+        <div className="border-t border-gray-700 pt-4">
+          <h3 className="flex items-center gap-2 text-sm font-medium text-gray-400 mb-2">
+            <History className="w-4 h-4" />
+            Revisions
+          </h3>
+          <ul className="space-y-1 text-sm">
+            {[...history.revisions].reverse().map(revision => (
+              <li key={revision.version} className="text-gray-300">
+                <span className="text-gray-500">v{revision.version}</span>{' '}
+                {revision.author.name} · {new Date(revision.createdAt).toLocaleString()}
+                {revision.recommendation && ` · ${RECOMMENDATION_LABELS[revision.recommendation]}`}
+                {revision.signedOff && <span className="ml-2 text-green-400">signed off</span>}
+                {revision.justification && (
+                  <p className="ml-6 text-xs text-gray-500">{revision.justification}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
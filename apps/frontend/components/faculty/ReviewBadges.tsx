@@ -0,0 +1,67 @@
+'use client';
+
+/**
+ * Review Badges
+ * Status pill, AI-content detection label and recommendation labels shared
+ * by the faculty pages
+ */
+
+import { cn } from '@/lib/utils';
+import type { ProjectReviewStatus, ReportRecommendation } from '@/types';
+
+const STATUS_STYLES: Record<ProjectReviewStatus, string> = {
+  pending: 'bg-gray-500/20 text-gray-300',
+  upload_required: 'bg-yellow-500/20 text-yellow-300',
+  processing: 'bg-blue-500/20 text-blue-300',
+  ready: 'bg-blue-500/20 text-blue-300',
+  in_progress: 'bg-purple-500/20 text-purple-300',
+  completed: 'bg-green-500/20 text-green-300',
+  cancelled: 'bg-red-500/20 text-red-300',
+};
+
+const AI_DETECTION_STYLES: Record<string, { label: string; color: string }> = {
+  likely_ai: { label: 'Likely AI', color: 'text-red-400' },
+  possibly_ai: { label: 'Possibly AI', color: 'text-yellow-400' },
+  likely_human: { label: 'Likely human', color: 'text-green-400' },
+  uncertain: { label: 'Uncertain', color: 'text-gray-400' },
+};
+
+export const RECOMMENDATION_LABELS: Record<ReportRecommendation, string> = {
+  pass: 'Pass',
+  conditional_pass: 'Conditional pass',
+  fail: 'Fail',
+  needs_review: 'Needs review',
+};
+
+/** Score out of 10, or a dash when there is none */
+export function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? '—' : score.toFixed(1);
+}
+
+export function StatusBadge({ status }: { status: ProjectReviewStatus }) {
+  return (
+    <span className={cn('px-2 py-0.5 rounded-full text-xs capitalize', STATUS_STYLES[status])}>
+      {status.replace('_', ' ')}
+    </span>
+  );
+}
+
+interface AiDetectionLabelProps {
+  result: string | null | undefined;
+  confidence?: number | null; // 0-100
+}
+
+export function AiDetectionLabel({ result, confidence }: AiDetectionLabelProps) {
+  const detection = result ? AI_DETECTION_STYLES[result] : null;
+
+  if (!detection) {
+    return <span className="text-gray-500">—</span>;
+  }
+
+  return (
+    <span className={detection.color}>
+      {detection.label}
+      {confidence != null && <span className="text-gray-500"> ({Math.round(confidence)}%)</span>}
+    </span>
+  );
+}
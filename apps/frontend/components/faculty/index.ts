@@ -0,0 +1,6 @@
+/**
+ * Faculty Components
+ */
+
+export { AiDetectionLabel, RECOMMENDATION_LABELS, StatusBadge, formatScore } from './ReviewBadges';
+export { ReportSignOff } from './ReportSignOff';
@@ -0,0 +1,76 @@
+'use client';
+
+/**
+ * Expected Points Checklist
+ * Per-question list of the points an answer was expected to cover,
+ * marked covered / partially covered / missed with quotes from the answer
+ */
+
+import { CheckCircle, MinusCircle, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ExpectedPointStatus, ReviewQuestionRecord } from '@/types';
+
+interface ExpectedPointsChecklistProps {
+  questions: ReviewQuestionRecord[];
+}
+
+const STATUS_STYLES: Record<ExpectedPointStatus, { icon: typeof CheckCircle; color: string; label: string }> = {
+  covered: { icon: CheckCircle, color: 'text-green-400', label: 'Covered' },
+  partial: { icon: MinusCircle, color: 'text-yellow-400', label: 'Partially covered' },
+  missed: { icon: XCircle, color: 'text-red-400', label: 'Missed' },
+};
+
+export function ExpectedPointsChecklist({ questions }: ExpectedPointsChecklistProps) {
+  const evaluated = questions.filter(q => q.expectedPointCoverage.length > 0);
+
+  if (evaluated.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 mb-8 text-left">
+      <h3 className="text-sm font-medium text-gray-400 mb-4">What your answers covered</h3>
+      <div className="space-y-6">
+        {evaluated.map(q => {
+          const covered = q.expectedPointCoverage.filter(p => p.status === 'covered').length;
+
+          return (
+            <div key={q.id}>
+              <div className="flex justify-between gap-4 mb-2">
+                <p className="text-white text-sm">
+                  <span className="text-gray-500 mr-2">Q{q.sequence}.</span>
+                  {q.question}
+                </p>
+                <span className="text-xs text-gray-400 whitespace-nowrap">
+                  {covered}/{q.expectedPointCoverage.length}
+                </span>
+              </div>
+              <ul className="space-y-2">
+                {q.expectedPointCoverage.map((point, idx) => {
+                  const style = STATUS_STYLES[point.status];
+                  const Icon = style.icon;
+
+                  return (
+                    <li key={idx} className="flex gap-2">
+                      <Icon className={cn('w-4 h-4 mt-0.5 shrink-0', style.color)} aria-label={style.label} />
+                      <div className="text-sm">
+                        <span className={point.status === 'missed' ? 'text-gray-400' : 'text-gray-200'}>
+                          {point.point}
+                        </span>
+                        {point.spans.map((span, spanIdx) => (
+                          <p key={spanIdx} className="text-xs text-gray-500 italic mt-1">
+                            &ldquo;{span}&rdquo;
+                          </p>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
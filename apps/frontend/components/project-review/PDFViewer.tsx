@@ -0,0 +1,172 @@
+'use client';
+
+/**
+ * PDF Slide Viewer Component
+ *
+ * Renders PDF decks in the browser with pdf.js, one page (slide) at a time
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { ChevronLeft, ChevronRight, Loader2, Presentation } from 'lucide-react';
+
+interface PDFViewerProps {
+    fileUrl: string;
+    className?: string;
+}
+
+/**
+ * Check whether a file name or URL points to a PDF
+ */
+export function isPdfFile(fileNameOrUrl?: string | null): boolean {
+    return !!fileNameOrUrl && /\.pdf$/i.test(fileNameOrUrl.split(/[?#]/)[0]);
+}
+
+export function PDFViewer({ fileUrl, className = '' }: PDFViewerProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+    const [pageNumber, setPageNumber] = useState(1);
+    const [loadError, setLoadError] = useState(false);
+
+    // Load the document (pdf.js is imported lazily so it never runs during SSR)
+    useEffect(() => {
+        let cancelled = false;
+        let loaded: PDFDocumentProxy | null = null;
+
+        const load = async () => {
+            try {
+                const pdfjs = await import('pdfjs-dist');
+                pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+                    'pdfjs-dist/build/pdf.worker.min.mjs',
+                    import.meta.url
+                ).toString();
+
+                loaded = await pdfjs.getDocument(fileUrl).promise;
+                if (cancelled) {
+                    loaded.destroy();
+                    return;
+                }
+                setPdf(loaded);
+                setPageNumber(1);
+                setLoadError(false);
+            } catch (err) {
+                console.error('[PDFViewer] Failed to load PDF:', err);
+                if (!cancelled) setLoadError(true);
+            }
+        };
+
+        load();
+
+        return () => {
+            cancelled = true;
+            loaded?.destroy();
+        };
+    }, [fileUrl]);
+
+    // Render the current page, fitted to the container, and re-fit on resize
+    useEffect(() => {
+        const container = containerRef.current;
+        const canvas = canvasRef.current;
+        if (!pdf || !container || !canvas) return;
+
+        let cancelled = false;
+        let renderTask: RenderTask | null = null;
+
+        const render = async () => {
+            renderTask?.cancel();
+
+            const page = await pdf.getPage(pageNumber);
+            if (cancelled) return;
+
+            const baseViewport = page.getViewport({ scale: 1 });
+            const fitScale = Math.min(
+                container.clientWidth / baseViewport.width,
+                container.clientHeight / baseViewport.height
+            );
+            if (!(fitScale > 0)) return;
+
+            // Render at device resolution so text stays sharp
+            const outputScale = window.devicePixelRatio || 1;
+            const viewport = page.getViewport({ scale: fitScale * outputScale });
+
+            canvas.width = Math.floor(viewport.width);
+            canvas.height = Math.floor(viewport.height);
+            canvas.style.width = `${Math.floor(viewport.width / outputScale)}px`;
+            canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`;
+
+            renderTask = page.render({ canvas, viewport });
+            try {
+                await renderTask.promise;
+            } catch (err) {
+                // A newer render cancelled this one
+                if ((err as Error)?.name !== 'RenderingCancelledException') {
+                    console.error('[PDFViewer] Failed to render page:', err);
+                }
+            }
+        };
+
+        render();
+
+        const resizeObserver = new ResizeObserver(() => {
+            render();
+        });
+        resizeObserver.observe(container);
+
+        return () => {
+            cancelled = true;
+            resizeObserver.disconnect();
+            renderTask?.cancel();
+        };
+    }, [pdf, pageNumber]);
+
+    const pageCount = pdf?.numPages ?? 0;
+
+    if (loadError) {
+        return (
+            <div className={`bg-gray-900 flex items-center justify-center ${className}`}>
+                <div className="text-center p-8">
+                    <Presentation className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+                    <p className="text-gray-400">Unable to display this PDF</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className={`bg-gray-900 flex flex-col ${className}`}>
+            {/* Page */}
+            <div ref={containerRef} className="flex-1 min-h-0 relative flex items-center justify-center overflow-hidden p-2">
+                {!pdf && (
+                    <Loader2 className="w-8 h-8 text-gray-500 animate-spin absolute" />
+                )}
+                <canvas ref={canvasRef} className="shadow-lg" />
+            </div>
+
+            {/* Page controls */}
+            {pageCount > 0 && (
+                <div className="bg-gray-800/80 px-4 py-2 flex items-center justify-center gap-4">
+                    <button
+                        onClick={() => setPageNumber(n => Math.max(1, n - 1))}
+                        disabled={pageNumber <= 1}
+                        className="p-1 rounded text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent transition"
+                        title="Previous slide"
+                    >
+                        <ChevronLeft className="w-5 h-5" />
+                    </button>
+                    <span className="text-sm text-gray-300 tabular-nums">
+                        Slide {pageNumber} of {pageCount}
+                    </span>
+                    <button
+                        onClick={() => setPageNumber(n => Math.min(pageCount, n + 1))}
+                        disabled={pageNumber >= pageCount}
+                        className="p-1 rounded text-gray-300 hover:text-white hover:bg-gray-700 disabled:opacity-40 disabled:hover:bg-transparent transition"
+                        title="Next slide"
+                    >
+                        <ChevronRight className="w-5 h-5" />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -4,11 +4,13 @@
  * PPT Slide Viewer Component
  * 
  * Displays uploaded PPT slides using Microsoft Office viewer or as a fallback shows file info
+ * PDF decks are rendered in-browser with pdf.js instead
  */
 
 import { useState } from 'react';
 import { ChevronLeft, ChevronRight, Presentation, ExternalLink } from 'lucide-react';
 import { getBackendUrl } from '@/lib/api-config';
+import { PDFViewer, isPdfFile } from './PDFViewer';
 
 interface PPTViewerProps {
     pptFileUrl?: string;
@@ -28,6 +30,8 @@ export function PPTViewer({ pptFileUrl, pptFileName, className = '' }: PPTViewer
             : `${BACKEND_URL}${pptFileUrl}`
         : null;
 
+    const isPdf = isPdfFile(pptFileName) || isPdfFile(pptFileUrl);
+
     // Microsoft Office viewer URL (works for public URLs)
     const officeViewerUrl = fullPptUrl
         ? `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(fullPptUrl)}`
@@ -68,7 +72,9 @@ export function PPTViewer({ pptFileUrl, pptFileName, className = '' }: PPTViewer
 
             {/* Viewer */}
             <div className="flex-1 relative bg-gray-900">
-                {!viewerError ? (
+                {isPdf ? (
+                    <PDFViewer fileUrl={fullPptUrl} className="absolute inset-0" />
+                ) : !viewerError ? (
                     <iframe
                         src={officeViewerUrl!}
                         className="w-full h-full border-0"
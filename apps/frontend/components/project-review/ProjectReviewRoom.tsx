@@ -42,13 +42,12 @@ interface Review {
 
 interface ProjectReviewRoomProps {
   roomId: string;
-  studentId: string;
   review: Review;
 }
 
 type ReviewStage = 'lobby' | 'meeting' | 'ended';
 
-export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRoomProps) {
+export function ProjectReviewRoom({ roomId, review }: ProjectReviewRoomProps) {
   const router = useRouter();
   const isMobile = useIsMobile();
 
@@ -68,8 +67,8 @@ export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRo
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Student-Id': studentId,
         },
+        credentials: 'include',
         body: JSON.stringify({}),
       });
 
@@ -87,8 +86,8 @@ export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRo
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Student-Id': studentId,
         },
+        credentials: 'include',
       });
 
       console.log('[ProjectReviewRoom] Setting stage to meeting');
@@ -99,7 +98,7 @@ export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRo
     } finally {
       setIsJoining(false);
     }
-  }, [roomId, studentId]);
+  }, [roomId]);
 
   // Handle meeting end
   const handleMeetingEnd = useCallback(async () => {
@@ -111,8 +110,8 @@ export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRo
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-Student-Id': studentId,
         },
+        credentials: 'include',
       });
     } catch (e) {
       console.error('Failed to complete review:', e);
@@ -120,7 +119,7 @@ export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRo
 
     setStage('ended');
     router.push(`/review/${roomId}/ended`);
-  }, [roomId, studentId, router]);
+  }, [roomId, router]);
 
   // Wait for mobile check
   if (isMobile === null) {
@@ -136,6 +135,7 @@ export function ProjectReviewRoom({ roomId, studentId, review }: ProjectReviewRo
   if (stage === 'lobby') {
     return (
       <ReviewLobby
+        roomId={roomId}
         review={{
           projectTitle: review.projectTitle,
           joinCode: review.joinCode,
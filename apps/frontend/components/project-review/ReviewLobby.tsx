@@ -10,8 +10,10 @@ import { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { DeviceDropdown, MicrophoneIcon, VideoCameraIcon } from '@/components/ui';
 import { Mic, MicOff, Video, VideoOff, Loader2, Settings } from 'lucide-react';
+import { SlotBooking } from './SlotBooking';
 
 interface ReviewLobbyProps {
+  roomId: string;
   review: {
     projectTitle: string;
     pptFileName?: string;
@@ -27,7 +29,7 @@ interface ReviewLobbyProps {
   error: string | null;
 }
 
-export function ReviewLobby({ review, onJoin, isJoining, error }: ReviewLobbyProps) {
+export function ReviewLobby({ roomId, review, onJoin, isJoining, error }: ReviewLobbyProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [isCameraOn, setIsCameraOn] = useState(true);
@@ -272,6 +274,9 @@ export function ReviewLobby({ review, onJoin, isJoining, error }: ReviewLobbyPro
               )}
             </div>
 
+            {/* Booked time slot (the review can only be joined in it) */}
+            <SlotBooking roomId={roomId} />
+
             {/* Tips */}
             <div className="bg-blue-500/10 border border-blue-500/20 rounded-xl p-4">
               <h4 className="text-sm font-medium text-blue-400 mb-2">Tips</h4>
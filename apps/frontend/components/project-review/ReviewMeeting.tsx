@@ -23,9 +23,14 @@ import { Track, RoomEvent, ConnectionState } from 'livekit-client';
 import { Button } from '@/components/ui/button';
 import {
   Mic, MicOff, Video, VideoOff, PhoneOff,
-  Monitor, MonitorOff, Loader2, Users, Presentation, ExternalLink, Copy, Link2
+  Monitor, MonitorOff, Loader2, Users, Presentation, ExternalLink, Copy, Link2, Clock
 } from 'lucide-react';
 import { getBackendUrl } from '@/lib/api-config';
+import type { AgentDataMessage } from '@/types/project-review';
+import { PDFViewer, isPdfFile } from './PDFViewer';
+
+/** Minimum time the "resuming" banner stays visible (ms) */
+const RESUME_BANNER_MIN_MS = 6000;
 
 interface ReviewMeetingProps {
   review: {
@@ -59,6 +64,15 @@ export function ReviewMeeting({ review, onEnd }: ReviewMeetingProps) {
   const [isEnding, setIsEnding] = useState(false);
   const [duration, setDuration] = useState(0);
   const [codeCopied, setCodeCopied] = useState(false);
+  const [resumeInfo, setResumeInfo] = useState<{ questionNumber?: number | null } | null>(null);
+  const [timeNotice, setTimeNotice] = useState<string | null>(null);
+
+  // Local uploads are served by the backend, R2 URLs are already absolute
+  const resolvedPptUrl = review.pptFileUrl
+    ? review.pptFileUrl.startsWith('http')
+      ? review.pptFileUrl
+      : `${getBackendUrl()}${review.pptFileUrl}`
+    : null;
 
   // Copy join code or shareable link
   const copyJoinInfo = (type: 'code' | 'link') => {
@@ -81,6 +95,42 @@ export function ReviewMeeting({ review, onEnd }: ReviewMeetingProps) {
     { onlySubscribed: false }
   );
 
+  // Listen for the agent resuming an interrupted session from its checkpoint,
+  // and for its time-limit warnings
+  useEffect(() => {
+    let hideTimer: ReturnType<typeof setTimeout> | undefined;
+    let shownAt = 0;
+
+    const handleData = (payload: Uint8Array) => {
+      let message: AgentDataMessage;
+      try {
+        message = JSON.parse(new TextDecoder().decode(payload));
+      } catch {
+        return;
+      }
+
+      if (message.type === 'session_resuming') {
+        clearTimeout(hideTimer);
+        shownAt = Date.now();
+        setResumeInfo({ questionNumber: message.data?.questionNumber });
+      } else if (message.type === 'session_resumed') {
+        const remaining = Math.max(0, RESUME_BANNER_MIN_MS - (Date.now() - shownAt));
+        hideTimer = setTimeout(() => setResumeInfo(null), remaining);
+      } else if (message.type === 'time_warning') {
+        const { minutesLeft } = message.data;
+        setTimeNotice(`About ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} left in your review`);
+      } else if (message.type === 'time_up') {
+        setTimeNotice('Time is up — finish your current answer and the reviewer will wrap up');
+      }
+    };
+
+    room.on(RoomEvent.DataReceived, handleData);
+    return () => {
+      room.off(RoomEvent.DataReceived, handleData);
+      clearTimeout(hideTimer);
+    };
+  }, [room]);
+
   // Duration timer
   useEffect(() => {
     const interval = setInterval(() => {
@@ -274,14 +324,56 @@ export function ReviewMeeting({ review, onEnd }: ReviewMeetingProps) {
         </div>
       </header>
 
+      {/* Resuming banner - shown while the agent restores an interrupted session */}
+      {resumeInfo && (
+        <div className="bg-blue-600/20 border-b border-blue-500/30 px-4 py-2 flex items-center gap-2 text-sm text-blue-200">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>
+            Resuming your review
+            {resumeInfo.questionNumber ? ` from question ${resumeInfo.questionNumber}` : ''}...
+          </span>
+        </div>
+      )}
+
+      {/* Time-limit banner */}
+      {timeNotice && (
+        <div className="bg-amber-600/20 border-b border-amber-500/30 px-4 py-2 flex items-center gap-2 text-sm text-amber-200">
+          <Clock className="w-4 h-4" />
+          <span>{timeNotice}</span>
+        </div>
+      )}
+
       {/* Main Content Area - PPT on left, Videos on right */}
       <main className="flex-1 p-4 overflow-hidden">
         <div className="h-full grid grid-cols-1 lg:grid-cols-3 gap-4">
           {/* Left: PPT Viewer (takes 2 columns on large screens) */}
           <div className="lg:col-span-2 bg-gray-800 rounded-xl overflow-hidden flex flex-col">
             {review.pptFileUrl ? (
-              // Check if URL is public (R2) or local
-              review.pptFileUrl.startsWith('http') ? (
+              // PDFs render in-browser; other decks need a public (R2) URL for the Office viewer
+              isPdfFile(review.pptFileName) || isPdfFile(review.pptFileUrl) ? (
+                <>
+                  {/* Header */}
+                  <div className="bg-gray-700/50 px-4 py-2 flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Presentation className="w-4 h-4 text-blue-400" />
+                      <span className="text-sm text-white truncate max-w-[300px]">
+                        {review.pptFileName || 'Presentation'}
+                      </span>
+                    </div>
+                    <a
+                      href={resolvedPptUrl!}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-gray-400 hover:text-white transition flex items-center gap-1 text-xs"
+                    >
+                      <ExternalLink className="w-3 h-3" />
+                      Open
+                    </a>
+                  </div>
+                  {/* pdf.js viewer */}
+                  <PDFViewer fileUrl={resolvedPptUrl!} className="flex-1 min-h-0" />
+                </>
+              ) : review.pptFileUrl.startsWith('http') ? (
                 // R2 URL - Use Office Online Viewer
                 <>
                   {/* Header */}
@@ -325,7 +417,7 @@ export function ReviewMeeting({ review, onEnd }: ReviewMeetingProps) {
                       Your presentation is ready for review
                     </p>
                     <a
-                      href={`${getBackendUrl()}${review.pptFileUrl}`}
+                      href={resolvedPptUrl!}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition"
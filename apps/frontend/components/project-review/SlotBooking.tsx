@@ -0,0 +1,164 @@
+'use client';
+
+/**
+ * Slot Booking
+ * Shows the review's booked time slot (with a calendar file) or lets the
+ * student book one of the slots faculty published. The review can only be
+ * joined in the booked slot.
+ */
+
+import { useEffect, useState } from 'react';
+import { CalendarDays, CalendarPlus, MapPin } from 'lucide-react';
+import { getBackendUrl } from '@/lib/api-config';
+import { cn, formatTimeRange } from '@/lib/utils';
+import type { ReviewSlot, ReviewSlotBooking } from '@/types';
+
+const BACKEND_URL = getBackendUrl();
+
+interface SlotBookingProps {
+  roomId: string;
+}
+
+export function SlotBooking({ roomId }: SlotBookingProps) {
+  const [booking, setBooking] = useState<ReviewSlotBooking | null>(null);
+  const [choosing, setChoosing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`${BACKEND_URL}/api/project-review/${roomId}/slot`, { credentials: 'include' })
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: ReviewSlotBooking | null) => {
+        if (data) setBooking(data);
+      })
+      .catch(() => setError('Failed to load review slots'));
+  }, [roomId]);
+
+  if (!booking) {
+    return error ? <p className="text-sm text-red-400">{error}</p> : null;
+  }
+
+  // Nothing to show when no slots are published and none is needed
+  if (!booking.slot && !booking.requireSlot && booking.availableSlots.length === 0) {
+    return null;
+  }
+
+  const updateBooking = async (slot: ReviewSlot | null) => {
+    setError('');
+    setSaving(true);
+    try {
+      const res = await fetch(`${BACKEND_URL}/api/project-review/${roomId}/slot`, {
+        method: slot ? 'PUT' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        ...(slot && { body: JSON.stringify({ slotId: slot.id }) }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to update the booking');
+        return;
+      }
+
+      // The previous slot opens up again for others
+      const released = booking.slot ? [booking.slot] : [];
+      setBooking({
+        ...booking,
+        slot: slot ? data.slot : null,
+        availableSlots: [...booking.availableSlots, ...released]
+          .filter(available => available.id !== slot?.id)
+          .sort((a, b) => a.startsAt.localeCompare(b.startsAt)),
+      });
+      setChoosing(false);
+    } catch {
+      setError('Failed to connect to server');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showSlots = choosing || !booking.slot;
+
+  return (
+    <div className="bg-gray-800/50 rounded-xl p-6 space-y-4">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-white">
+        <CalendarDays className="w-5 h-5 text-blue-400" />
+        Review Slot
+      </h3>
+
+      {booking.slot ? (
+        <div className="space-y-2">
+          <p className="text-white">{formatTimeRange(booking.slot.startsAt, booking.slot.endsAt)}</p>
+          <p className="text-sm text-gray-400">
+            with {booking.slot.faculty.name}
+            {booking.slot.location && (
+              <span className="inline-flex items-center gap-1 ml-2">
+                <MapPin className="w-3.5 h-3.5" />
+                {booking.slot.location}
+              </span>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-3 text-sm">
+            <a
+              href={`${BACKEND_URL}/api/project-review/${roomId}/slot/calendar.ics`}
+              className="inline-flex items-center gap-1 text-blue-400 hover:text-blue-300"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Add to calendar
+            </a>
+            <button
+              onClick={() => setChoosing(!choosing)}
+              disabled={saving}
+              className="text-gray-400 hover:text-white disabled:opacity-50"
+            >
+              {choosing ? 'Keep this slot' : 'Change'}
+            </button>
+            <button
+              onClick={() => updateBooking(null)}
+              disabled={saving}
+              className="text-red-400 hover:text-red-300 disabled:opacity-50"
+            >
+              Cancel booking
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-yellow-400">
+          {booking.requireSlot
+            ? 'Book a slot to take your review. You can join it from 10 minutes before the start.'
+            : 'Book a slot with a faculty member, or join the review now.'}
+        </p>
+      )}
+
+      {showSlots && (
+        booking.availableSlots.length === 0 ? (
+          <p className="text-sm text-gray-400">No open slots right now. Check back later.</p>
+        ) : (
+          <ul className="max-h-60 overflow-y-auto space-y-2">
+            {booking.availableSlots.map(slot => (
+              <li key={slot.id}>
+                <button
+                  onClick={() => updateBooking(slot)}
+                  disabled={saving}
+                  className={cn(
+                    'w-full text-left px-3 py-2 rounded-lg border border-gray-700 bg-gray-900/50',
+                    'hover:border-blue-500 transition disabled:opacity-50'
+                  )}
+                >
+                  <span className="block text-sm text-white">{formatTimeRange(slot.startsAt, slot.endsAt)}</span>
+                  <span className="block text-xs text-gray-400">
+                    {slot.faculty.name}
+                    {slot.location && ` · ${slot.location}`}
+                    {slot.batch && ` · ${slot.batch.name}`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
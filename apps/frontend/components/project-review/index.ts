@@ -4,7 +4,9 @@
  * Export all project review related components
  */
 
+export { ExpectedPointsChecklist } from './ExpectedPointsChecklist';
 export { PPTUpload } from './PPTUpload';
 export { ProjectReviewRoom } from './ProjectReviewRoom';
 export { ReviewLobby } from './ReviewLobby';
 export { ReviewMeeting } from './ReviewMeeting';
+export { SlotBooking } from './SlotBooking';
@@ -16,6 +16,7 @@ export async function fetchApi<T>(
 ): Promise<T> {
   const response = await fetch(`${BASE_URL}${endpoint}`, {
     ...options,
+    credentials: 'include',
     headers: {
       'Content-Type': 'application/json',
       ...options?.headers,
@@ -32,16 +33,13 @@ export async function fetchApi<T>(
 /**
  * Get project review token
  */
-export async function getReviewToken(
-  roomId: string,
-  studentId: string
-): Promise<string> {
+export async function getReviewToken(roomId: string): Promise<string> {
   const response = await fetch(`${BASE_URL}/api/project-review/${roomId}/token`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'X-Student-Id': studentId,
     },
+    credentials: 'include',
     body: JSON.stringify({}),
   });
 
@@ -1,4 +1,4 @@
 export { config } from './config';
 export * from './api';
 export * from './project-review-api';
-export { cn } from './utils';
+export { cn, formatTimeRange } from './utils';
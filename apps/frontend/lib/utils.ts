@@ -4,3 +4,13 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Local date and time range, e.g. "Wed, 21 Oct, 2:30 pm – 3:00 pm"
+ */
+export function formatTimeRange(start: string | Date, end: string | Date) {
+  const from = new Date(start);
+  const date = from.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+  const time = (value: Date) => value.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  return `${date}, ${time(from)} – ${time(new Date(end))}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Faculty Types
+ */
+
+import type { ProjectReviewStatus } from './project-review';
+
+export type StaffRole = 'faculty' | 'admin';
+
+export interface Faculty {
+  id: string;
+  email: string;
+  name: string;
+  role: StaffRole;
+}
+
+/** Review row on the faculty dashboard */
+export interface FacultyReviewListItem {
+  id: string;
+  roomId: string;
+  projectTitle: string;
+  status: ProjectReviewStatus;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  student: {
+    name: string;
+    regNo: string;
+    email: string;
+  } | null;
+  batch: {
+    id: string;
+    name: string;
+    course: { code: string };
+  } | null;
+  onPanel: boolean;
+  isLead: boolean;
+  report: {
+    overallScore: number | null;
+    understandingScore: number | null;
+    clarityScore: number | null;
+    depthScore: number | null;
+    recommendation: ReportRecommendation | null;
+    aiDetectionResult: string | null;
+    aiDetectionConfidence: number | null;
+    finalizedVersion: number | null;
+    finalizedAt: string | null;
+  } | null;
+}
+
+export type ReportRecommendation = 'pass' | 'conditional_pass' | 'fail' | 'needs_review';
+
+/** Editable part of a review report */
+export interface ReportContent {
+  overallScore: number | null;
+  understandingScore: number | null;
+  clarityScore: number | null;
+  depthScore: number | null;
+  strengths: string[];
+  improvements: string[];
+  summary: string | null;
+  recommendation: ReportRecommendation | null;
+}
+
+/** One faculty revision of the AI report */
+export interface ReportRevision extends ReportContent {
+  version: number;
+  author: { id: string | null; name: string };
+  justification: string | null;
+  signedOff: boolean;
+  createdAt: string;
+}
+
+export interface ReportRevisionHistory {
+  reviewId: string;
+  roomId: string;
+  original: ReportContent;
+  revisions: ReportRevision[];
+  current: ReportRevision | null;
+  finalizedVersion: number | null;
+  finalizedAt: string | null;
+}
+
+/** Course batch, as listed for dashboard filters */
+export interface BatchSummary {
+  id: string;
+  name: string;
+  semester: string | null;
+  isActive: boolean;
+  reviewOpensAt: string | null;
+  reviewDeadline: string | null;
+  requireSlot: boolean;
+  course: { id: string; code: string; name: string };
+  enrollmentCount: number;
+  reviewCount: number;
+}
@@ -1 +1,2 @@
 export * from './project-review';
+export * from './faculty';
@@ -12,6 +12,7 @@ export type ProjectReviewStatus =
   | 'pending' 
   | 'upload_required' 
   | 'processing' 
+  | 'ready' 
   | 'in_progress' 
   | 'completed' 
   | 'cancelled';
@@ -66,6 +67,92 @@ export interface UploadedFile {
   url: string;
 }
 
+export type QuestionLevel = 'easy' | 'medium' | 'hard';
+
+/** One level change made by the adaptive difficulty policy */
+export interface DifficultyDecision {
+  afterQuestion: number;
+  questionId: string | null;
+  fromLevel: QuestionLevel;
+  toLevel: QuestionLevel | null;
+  action: 'stay' | 'advance' | 'skip_ahead' | 'step_back' | 'bank_questions' | 'finish';
+  lastScore: number | null;
+  levelAverage: number;
+  reason: string;
+}
+
+export interface DifficultyPath {
+  policy: string;
+  decisions: DifficultyDecision[];
+}
+
+/** How well the asked questions covered the deck */
+export interface SlideCoverage {
+  substantiveSlides: number[];
+  poolCoveredSlides: number[];
+  askedCoveredSlides: number[];
+  uncoveredSlides: number[];
+  coverageRatio: number;
+  duplicatesRemoved: number;
+  questionsAdded: number;
+}
+
+export interface RubricCriterionResult {
+  key: string;
+  name: string;
+  weight: number;
+  averageScore: number | null;
+  scoredAnswers: number;
+  evidence: string[];
+}
+
+/** Per-criterion rubric scores aggregated over all answers */
+export interface RubricScores {
+  rubricId: string | null;
+  rubricName: string;
+  criteria: RubricCriterionResult[];
+  weightedScore: number | null;
+}
+
+/** Consistency of multi-sample answer scoring */
+export interface EvaluationConsistency {
+  samplesPerAnswer: number;
+  meanStdDev: number | null;
+  disagreements: string[];
+}
+
+/** Technologies on the slides compared with the ingested repository */
+export interface SlideCodeConsistency {
+  checked: number;
+  matched: string[];
+  claimedButAbsent: { name: string; slides: number[] }[];
+  presentButUnmentioned: { name: string; evidence: string[] }[];
+}
+
+export type ExpectedPointStatus = 'covered' | 'partial' | 'missed';
+
+export interface ExpectedPointCoverage {
+  point: string;
+  status: ExpectedPointStatus;
+  spans: string[]; // Verbatim excerpts of the answer
+}
+
+/** Asked question with the candidate's answer and its evaluation */
+export interface ReviewQuestionRecord {
+  id: string;
+  questionId: string;
+  sequence: number;
+  level: QuestionLevel;
+  question: string;
+  expectedPoints: string[];
+  transcript: string;
+  followUps: { question: string; reason: string; answer: string }[];
+  score: number | null;
+  feedback: string | null;
+  flaggedConcerns: string[];
+  expectedPointCoverage: ExpectedPointCoverage[];
+}
+
 export interface ProjectReviewSummary {
   review: {
     _id: string;
@@ -82,9 +169,71 @@ export interface ProjectReviewSummary {
     understandingScore?: number;
     clarityScore?: number;
     depthScore?: number;
+    levelScores?: Record<'easy' | 'medium' | 'hard', { asked: number; avgScore: number }>;
+    difficultyPath?: DifficultyPath;
+    slideCoverage?: SlideCoverage;
+    rubricScores?: RubricScores;
+    evaluationConsistency?: EvaluationConsistency;
+    slideCodeConsistency?: SlideCodeConsistency | null;
+    totalQuestions?: number;
     aiDetectionResult?: string;
+    aiDetectionConfidence?: number;
     strengths?: string[];
     improvements?: string[];
     summary?: string;
+    recommendation?: 'pass' | 'conditional_pass' | 'fail' | 'needs_review';
+    durationSeconds?: number;
+    finalizedVersion?: number | null;
+    finalizedAt?: string | null;
   };
 }
+
+/**
+ * Data messages published by the AI reviewer agent
+ */
+export type AgentDataMessage =
+  | {
+      type: 'session_resuming';
+      data: {
+        phase: string;
+        questionNumber?: number | null;
+        questionsAnswered?: number;
+      };
+    }
+  | { type: 'session_resumed' }
+  | {
+      type: 'time_warning';
+      data: {
+        minutesLeft: number;
+        endsAt: string;
+      };
+    }
+  | { type: 'time_up' };
+
+/**
+ * Review time slot published by faculty; `booking` is the review that booked it
+ */
+export interface ReviewSlot {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  location: string | null;
+  notes: string | null;
+  batchId: string | null;
+  faculty: { id: string; name: string };
+  batch: { id: string; name: string } | null;
+  booking: {
+    id: string;
+    roomId: string;
+    projectTitle: string;
+    status: ProjectReviewStatus;
+    student: { name: string; regNo: string };
+  } | null;
+}
+
+/** A review's booked slot and the slots it can book */
+export interface ReviewSlotBooking {
+  slot: ReviewSlot | null;
+  requireSlot: boolean;
+  availableSlots: ReviewSlot[];
+}